@@ -12,3 +12,6 @@ process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://postgres@/c
 // Set test configuration
 process.env.PORT = '3001'; // Use different port for tests
 process.env.CLUBELO_API_BASE = 'http://api.clubelo.com';
+
+// Services are tested against mocked repositories; don't serve cached results
+process.env.RESPONSE_CACHE_MAX_ENTRIES = '0';
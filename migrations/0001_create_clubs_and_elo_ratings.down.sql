@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS elo_ratings;
+DROP TABLE IF EXISTS clubs;
@@ -1,7 +1,5 @@
--- ClubElo Database Schema
--- Create tables for storing club Elo ratings
+-- Clubs and their Elo rating snapshots
 
--- Clubs table
 CREATE TABLE IF NOT EXISTS clubs (
     id SERIAL PRIMARY KEY,
     api_name VARCHAR(255) UNIQUE NOT NULL,
@@ -12,7 +10,6 @@ CREATE TABLE IF NOT EXISTS clubs (
     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
--- Elo ratings table
 CREATE TABLE IF NOT EXISTS elo_ratings (
     id SERIAL PRIMARY KEY,
     club_id INTEGER NOT NULL,
@@ -23,12 +20,8 @@ CREATE TABLE IF NOT EXISTS elo_ratings (
     elo DOUBLE PRECISION NOT NULL,
     source VARCHAR(50) NOT NULL DEFAULT 'clubelo',
     FOREIGN KEY (club_id) REFERENCES clubs(id) ON DELETE CASCADE,
-    UNIQUE (club_id, date)
+    UNIQUE (club_id, date, source)
 );
 
--- Create indices for performance
 CREATE INDEX IF NOT EXISTS idx_elo_ratings_date ON elo_ratings(date);
 CREATE INDEX IF NOT EXISTS idx_elo_ratings_country ON elo_ratings(country);
-
--- Display success message
-SELECT 'Database schema created successfully!' AS status;
@@ -0,0 +1,2 @@
+-- Fails while unranked ratings are stored
+ALTER TABLE elo_ratings ALTER COLUMN rank SET NOT NULL;
@@ -0,0 +1,2 @@
+-- ClubElo reports no rank for clubs outside its ranked leagues
+ALTER TABLE elo_ratings ALTER COLUMN rank DROP NOT NULL;
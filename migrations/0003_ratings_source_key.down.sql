@@ -0,0 +1,3 @@
+-- Fails while more than one source has a rating for the same club and date
+ALTER TABLE elo_ratings DROP CONSTRAINT IF EXISTS elo_ratings_club_id_date_source_key;
+ALTER TABLE elo_ratings ADD CONSTRAINT elo_ratings_club_id_date_key UNIQUE (club_id, date);
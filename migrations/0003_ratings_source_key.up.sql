@@ -0,0 +1,13 @@
+-- Allow ClubElo and internal engine ratings for the same club and date.
+-- Databases created before ratings had a source have the old key.
+ALTER TABLE elo_ratings DROP CONSTRAINT IF EXISTS elo_ratings_club_id_date_key;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'elo_ratings_club_id_date_source_key'
+    ) THEN
+        ALTER TABLE elo_ratings
+            ADD CONSTRAINT elo_ratings_club_id_date_source_key UNIQUE (club_id, date, source);
+    END IF;
+END $$;
@@ -1,5 +1,4 @@
--- Fixtures table for upcoming/recent matches
--- Stores match predictions with Elo-based probabilities
+-- Upcoming and recent matches with Elo-based probabilities
 
 CREATE TABLE IF NOT EXISTS fixtures (
     id SERIAL PRIMARY KEY,
@@ -23,12 +22,8 @@ CREATE TABLE IF NOT EXISTS fixtures (
     UNIQUE (home_club_id, away_club_id, match_date)
 );
 
--- Create indices for performance
 CREATE INDEX IF NOT EXISTS idx_fixtures_match_date ON fixtures(match_date);
 CREATE INDEX IF NOT EXISTS idx_fixtures_home_club ON fixtures(home_club_id, match_date);
 CREATE INDEX IF NOT EXISTS idx_fixtures_away_club ON fixtures(away_club_id, match_date);
 CREATE INDEX IF NOT EXISTS idx_fixtures_country ON fixtures(country);
 CREATE INDEX IF NOT EXISTS idx_fixtures_competition ON fixtures(competition);
-
--- Display success message
-SELECT 'Fixtures table created successfully!' AS status;
@@ -0,0 +1,19 @@
+-- Final scores, so predictions can be checked and ratings recomputed
+
+CREATE TABLE IF NOT EXISTS results (
+    id SERIAL PRIMARY KEY,
+    fixture_id INTEGER NOT NULL UNIQUE,
+    home_goals INTEGER,
+    away_goals INTEGER,
+    status VARCHAR(20) NOT NULL DEFAULT 'finished',
+    extra_time BOOLEAN NOT NULL DEFAULT FALSE,
+    penalties BOOLEAN NOT NULL DEFAULT FALSE,
+    source VARCHAR(50) NOT NULL DEFAULT 'local',
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    FOREIGN KEY (fixture_id) REFERENCES fixtures(id) ON DELETE CASCADE,
+    CHECK (status IN ('finished', 'postponed', 'abandoned', 'cancelled')),
+    CHECK (status <> 'finished' OR (home_goals IS NOT NULL AND away_goals IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_results_status ON results(status);
@@ -0,0 +1,17 @@
+-- ClubElo ratings as the From/To intervals the API reports them in, so the
+-- rating on any day is the period that contains it
+
+CREATE TABLE IF NOT EXISTS rating_periods (
+    id SERIAL PRIMARY KEY,
+    club_id INTEGER NOT NULL,
+    valid_from DATE NOT NULL,
+    valid_to DATE NOT NULL,
+    elo DOUBLE PRECISION NOT NULL,
+    rank INTEGER,
+    FOREIGN KEY (club_id) REFERENCES clubs(id) ON DELETE CASCADE,
+    UNIQUE (club_id, valid_from),
+    CHECK (valid_to >= valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rating_periods_club_range ON rating_periods(club_id, valid_from, valid_to);
+CREATE INDEX IF NOT EXISTS idx_rating_periods_range ON rating_periods(valid_from, valid_to);
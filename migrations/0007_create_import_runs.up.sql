@@ -0,0 +1,23 @@
+-- Ledger of every ClubElo import: what ran, who started it, when, and how
+-- it went
+
+CREATE TABLE IF NOT EXISTS import_runs (
+    id SERIAL PRIMARY KEY,
+    type VARCHAR(20) NOT NULL,
+    trigger VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running',
+    parameters JSONB NOT NULL DEFAULT '{}',
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ,
+    fetched INTEGER,
+    imported INTEGER,
+    errors INTEGER,
+    error_samples JSONB NOT NULL DEFAULT '[]',
+    error_message TEXT,
+    CHECK (type IN ('daily', 'club', 'fixtures')),
+    CHECK (trigger IN ('cron', 'cli', 'manual')),
+    CHECK (status IN ('running', 'succeeded', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_runs_started ON import_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_import_runs_type_started ON import_runs(type, started_at DESC);
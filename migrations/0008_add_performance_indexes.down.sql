@@ -0,0 +1,5 @@
+DROP INDEX IF EXISTS idx_clubs_display_name_id;
+DROP INDEX IF EXISTS idx_elo_ratings_date_source_elo_club;
+DROP INDEX IF EXISTS idx_elo_ratings_level_date_elo;
+DROP INDEX IF EXISTS idx_elo_ratings_country_date;
+DROP INDEX IF EXISTS idx_elo_ratings_elo;
@@ -0,0 +1,18 @@
+-- Indexes for common rankings and club list access patterns
+
+-- Supports: WHERE elo >= X ORDER BY elo DESC
+CREATE INDEX IF NOT EXISTS idx_elo_ratings_elo ON elo_ratings(elo DESC);
+
+-- Supports: WHERE country = X AND date = Y
+CREATE INDEX IF NOT EXISTS idx_elo_ratings_country_date ON elo_ratings(country, date);
+
+-- Supports: WHERE level = X AND date = Y ORDER BY elo DESC
+CREATE INDEX IF NOT EXISTS idx_elo_ratings_level_date_elo ON elo_ratings(level, date, elo DESC);
+
+-- Keyset pagination of a snapshot (rankings ?cursor=)
+-- Supports: WHERE date = X AND source = Y AND (elo, club_id) < (A, B) ORDER BY elo DESC, club_id DESC
+CREATE INDEX IF NOT EXISTS idx_elo_ratings_date_source_elo_club ON elo_ratings(date, source, elo DESC, club_id DESC);
+
+-- Keyset pagination of the club list (clubs ?cursor=)
+-- Supports: WHERE (display_name, id) > (A, B) ORDER BY display_name, id
+CREATE INDEX IF NOT EXISTS idx_clubs_display_name_id ON clubs(display_name, id);
@@ -0,0 +1,17 @@
+-- Other names a club is known by: fixture feed spellings and the names of
+-- duplicate clubs merged into it. normalized_alias is the name without
+-- accents, case, spaces or punctuation (normalizeClubName), so each
+-- spelling can point at only one club.
+
+CREATE TABLE IF NOT EXISTS club_aliases (
+    id SERIAL PRIMARY KEY,
+    club_id INTEGER NOT NULL,
+    alias VARCHAR(255) NOT NULL,
+    normalized_alias VARCHAR(255) NOT NULL UNIQUE,
+    source VARCHAR(20) NOT NULL DEFAULT 'manual',
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    FOREIGN KEY (club_id) REFERENCES clubs(id) ON DELETE CASCADE,
+    CHECK (source IN ('manual', 'merge'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_club_aliases_club ON club_aliases(club_id);
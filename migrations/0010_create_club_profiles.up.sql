@@ -0,0 +1,20 @@
+-- Descriptive details for a club beyond the ClubElo name: full and short
+-- names, city, stadium, founding year, colours (#RRGGBB) and a crest image
+-- under public/crests/. Loaded from a seed file (npm run seed:profiles).
+
+CREATE TABLE IF NOT EXISTS club_profiles (
+    club_id INTEGER PRIMARY KEY,
+    full_name VARCHAR(255),
+    short_name VARCHAR(100),
+    city VARCHAR(100),
+    stadium VARCHAR(255),
+    founded_year INTEGER,
+    primary_color CHAR(7),
+    secondary_color CHAR(7),
+    crest_path VARCHAR(255),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    FOREIGN KEY (club_id) REFERENCES clubs(id) ON DELETE CASCADE,
+    CHECK (founded_year BETWEEN 1800 AND 2100),
+    CHECK (primary_color ~ '^#[0-9A-Fa-f]{6}$'),
+    CHECK (secondary_color ~ '^#[0-9A-Fa-f]{6}$')
+);
@@ -0,0 +1 @@
+DROP INDEX IF EXISTS idx_elo_ratings_source_club_date;
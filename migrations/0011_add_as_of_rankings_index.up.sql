@@ -0,0 +1,4 @@
+-- Index for as-of rankings (each club's latest rating on or before a date)
+-- Supports: WHERE source = X AND date <= Y
+--           ORDER BY club_id, date DESC (DISTINCT ON (club_id))
+CREATE INDEX IF NOT EXISTS idx_elo_ratings_source_club_date ON elo_ratings(source, club_id, date DESC);
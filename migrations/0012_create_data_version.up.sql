@@ -0,0 +1,11 @@
+-- When stored data last changed. Every write path bumps it after it
+-- commits (see invalidateCache), so API processes that did not run the
+-- write still see it: response cache keys and ETags are built from it.
+
+CREATE TABLE IF NOT EXISTS data_version (
+    id INTEGER PRIMARY KEY DEFAULT 1,
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (id = 1)
+);
+
+INSERT INTO data_version (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
@@ -60,6 +60,33 @@ async function fetchClubHistory(clubId, { from, to } = {}) {
   return response.json();
 }
 
+/**
+ * Compare the Elo history of two clubs
+ *
+ * @param {string|number} clubId - Club ID or API name
+ * @param {string|number} otherId - Other club ID or API name
+ * @param {Object} params - Query parameters
+ * @param {string} params.from - Start date (YYYY-MM-DD), optional
+ * @param {string} params.to - End date (YYYY-MM-DD), optional
+ * @returns {Promise<Object>} Aligned history, gaps and probabilities
+ */
+async function fetchClubComparison(clubId, otherId, { from, to } = {}) {
+  const params = new URLSearchParams();
+
+  if (from) params.append('from', from);
+  if (to) params.append('to', to);
+
+  const url = `${API_BASE}/api/elo/clubs/${clubId}/compare/${otherId}?${params}`;
+
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Failed to compare clubs: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
 /**
  * Search for clubs
  *
@@ -86,3 +113,74 @@ async function searchClubs({ q, country, limit } = {}) {
 
   return response.json();
 }
+
+/**
+ * Fetch a club with its profile
+ *
+ * @param {string|number} clubId - Club ID or name
+ * @returns {Promise<Object>} Club with a profile object (null until seeded)
+ */
+async function fetchClub(clubId) {
+  const url = `${API_BASE}/api/elo/clubs/${encodeURIComponent(clubId)}`;
+
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch club: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Club profiles keyed by API name, filled by loadClubProfiles()
+ */
+const clubProfiles = new Map();
+
+/**
+ * Load every club profile, for clubName() and clubCrest()
+ *
+ * Pages still render without profiles, so a failure is only logged.
+ *
+ * @returns {Promise<Map>} Profiles keyed by API name
+ */
+async function loadClubProfiles() {
+  try {
+    const response = await fetch(`${API_BASE}/api/elo/clubs/profiles`);
+
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+
+    const { profiles } = await response.json();
+    profiles.forEach(profile => clubProfiles.set(profile.apiName, profile));
+  } catch (error) {
+    console.error('Failed to load club profiles:', error);
+  }
+
+  return clubProfiles;
+}
+
+/**
+ * Name to show for a club: its profile's short name, else the stored name
+ *
+ * @param {Object} club - Any club object with apiName / displayName
+ * @returns {string} Club name
+ */
+function clubName(club) {
+  const profile = clubProfiles.get(club.apiName);
+
+  return (profile && profile.shortName) || club.displayName || club.apiName;
+}
+
+/**
+ * Crest image of a club from its profile
+ *
+ * @param {Object} club - Any club object with apiName
+ * @returns {string} Crest path, or '' without one
+ */
+function clubCrest(club) {
+  const profile = clubProfiles.get(club.apiName);
+
+  return (profile && profile.crestPath) || '';
+}
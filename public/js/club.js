@@ -3,8 +3,9 @@
  *
  * This script handles:
  * - Loading club data from the API
- * - Displaying club information
+ * - Displaying club information and profile (crest, stadium, founding year)
  * - Rendering an Elo history chart using Chart.js
+ * - Comparing the club head to head with another club
  */
 
 // DOM elements
@@ -15,10 +16,26 @@ const chartSection = document.getElementById('chart-section');
 const clubNameEl = document.getElementById('club-name');
 const clubCountryEl = document.getElementById('club-country');
 const clubLevelEl = document.getElementById('club-level');
+const clubGroundEl = document.getElementById('club-ground');
+const clubFoundedEl = document.getElementById('club-founded');
+const clubCrestEl = document.getElementById('club-crest');
+const compareInput = document.getElementById('compare-input');
+const compareOptions = document.getElementById('compare-options');
+const compareBtn = document.getElementById('compare-btn');
+const compareClearBtn = document.getElementById('compare-clear');
+const compareSummaryEl = document.getElementById('compare-summary');
 
 // Chart instance (Chart.js)
 let eloChart = null;
 
+// Current club and its history (restored when a comparison is cleared)
+let currentClubId = null;
+let currentHistory = [];
+
+// Line colours: this club, comparison club
+const CLUB_COLOR = '#4a9eff';
+const OTHER_COLOR = '#ff9f40';
+
 /**
  * Initialize the page
  * Gets club ID from URL query parameter and loads data
@@ -33,8 +50,11 @@ function init() {
     return;
   }
 
+  currentClubId = clubId;
+
   // Load club data
   loadClubData(clubId);
+  setupComparePicker();
 }
 
 /**
@@ -48,13 +68,18 @@ async function loadClubData(clubId) {
     showLoading(true);
     hideError();
 
-    // Fetch club history from API
-    const data = await fetchClubHistory(clubId);
+    // Fetch club profile and history from API
+    const [club, data] = await Promise.all([
+      fetchClub(clubId),
+      fetchClubHistory(clubId),
+      loadClubProfiles()
+    ]);
 
     // Display club information
-    displayClubInfo(data.club);
+    displayClubInfo(club);
 
     // Render the Elo history chart
+    currentHistory = data.history;
     renderChart(data.history);
 
     // Show the content
@@ -70,17 +95,43 @@ async function loadClubData(clubId) {
 }
 
 /**
- * Display club basic information
+ * Display club information and profile
  *
- * @param {Object} club - Club object from API
+ * @param {Object} club - Club with profile from the API
  */
 function displayClubInfo(club) {
-  clubNameEl.textContent = club.displayName;
+  const profile = club.profile || {};
+  const name = profile.fullName || clubName(club);
+  const ground = [profile.stadium, profile.city].filter(Boolean).join(', ');
+
+  clubNameEl.textContent = name;
   clubCountryEl.textContent = `Country: ${club.country}`;
   clubLevelEl.textContent = `League Level: ${club.level}`;
+  showDetail(clubGroundEl, ground);
+  showDetail(clubFoundedEl, profile.foundedYear ? `Founded: ${profile.foundedYear}` : '');
+
+  if (profile.crestPath) {
+    clubCrestEl.src = profile.crestPath;
+    clubCrestEl.alt = `${name} crest`;
+    clubCrestEl.style.display = 'block';
+  }
+
+  // Club colour as the header accent
+  clubHeader.style.borderLeftColor = profile.primaryColor || '';
 
   // Update page title
-  document.title = `${club.displayName} - ClubElo`;
+  document.title = `${name} - ClubElo`;
+}
+
+/**
+ * Show a header detail, or hide it when empty
+ *
+ * @param {HTMLElement} el - Detail element
+ * @param {string} text - Text to show
+ */
+function showDetail(el, text) {
+  el.textContent = text;
+  el.style.display = text ? 'inline' : 'none';
 }
 
 /**
@@ -94,9 +145,22 @@ function renderChart(history) {
     return;
   }
 
-  // Extract dates and Elo values for the chart
-  const dates = history.map(entry => entry.date);
-  const eloValues = history.map(entry => entry.elo);
+  drawChart(history.map(entry => entry.date), [{
+    label: 'Elo Rating',
+    data: history.map(entry => entry.elo),
+    color: CLUB_COLOR,
+    fill: true,
+  }]);
+}
+
+/**
+ * Draw one or more Elo lines sharing the same dates
+ *
+ * @param {Array} dates - X axis labels (YYYY-MM-DD)
+ * @param {Array} lines - Array of {label, data, color, fill} objects
+ */
+function drawChart(dates, lines) {
+  const eloValues = lines.flatMap(line => line.data);
 
   // Get the canvas element
   const canvas = document.getElementById('elo-chart');
@@ -112,24 +176,27 @@ function renderChart(history) {
     type: 'line',
     data: {
       labels: dates,
-      datasets: [{
-        label: 'Elo Rating',
-        data: eloValues,
-        borderColor: '#4a9eff',
-        backgroundColor: 'rgba(74, 158, 255, 0.1)',
+      datasets: lines.map(line => ({
+        label: line.label,
+        data: line.data,
+        borderColor: line.color,
+        backgroundColor: `${line.color}1a`, // ~10% opacity
         borderWidth: 2,
         pointRadius: 3,
         pointHoverRadius: 5,
         tension: 0.1, // Slight curve to the line
-        fill: true,
-      }]
+        fill: line.fill,
+      }))
     },
     options: {
       responsive: true,
       maintainAspectRatio: false,
       plugins: {
         legend: {
-          display: false, // Hide legend since we only have one dataset
+          display: lines.length > 1, // Only needed when comparing clubs
+          labels: {
+            color: '#888',
+          },
         },
         tooltip: {
           backgroundColor: 'rgba(0, 0, 0, 0.8)',
@@ -137,13 +204,14 @@ function renderChart(history) {
           bodyColor: '#fff',
           borderColor: '#4a9eff',
           borderWidth: 1,
-          displayColors: false,
+          displayColors: lines.length > 1,
           callbacks: {
             title: function(context) {
               return `Date: ${context[0].label}`;
             },
             label: function(context) {
-              return `Elo: ${context.parsed.y.toFixed(1)}`;
+              const prefix = lines.length > 1 ? context.dataset.label : 'Elo';
+              return `${prefix}: ${context.parsed.y.toFixed(1)}`;
             }
           }
         }
@@ -182,6 +250,97 @@ function renderChart(history) {
   });
 }
 
+/**
+ * Wire up the "compare with…" picker
+ *
+ * Typing searches clubs by name; the datalist offers API names so either
+ * an API name or a numeric ID can be submitted.
+ */
+function setupComparePicker() {
+  let searchTimer = null;
+
+  compareInput.addEventListener('input', () => {
+    clearTimeout(searchTimer);
+    const query = compareInput.value.trim();
+
+    if (query.length < 2) return;
+
+    searchTimer = setTimeout(async () => {
+      try {
+        const { clubs } = await searchClubs({ q: query, limit: 20 });
+        compareOptions.innerHTML = clubs
+          .map(club => `<option value="${club.apiName}">${clubName(club)} (${club.country})</option>`)
+          .join('');
+      } catch (error) {
+        console.error('Error searching clubs:', error);
+      }
+    }, 250);
+  });
+
+  compareInput.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') loadComparison(compareInput.value.trim());
+  });
+  compareBtn.addEventListener('click', () => loadComparison(compareInput.value.trim()));
+  compareClearBtn.addEventListener('click', clearComparison);
+}
+
+/**
+ * Load a head-to-head comparison and draw both lines
+ *
+ * @param {string} otherId - Other club ID or API name
+ */
+async function loadComparison(otherId) {
+  if (!otherId) return;
+
+  try {
+    hideError();
+    const data = await fetchClubComparison(currentClubId, otherId);
+
+    drawChart(data.history.map(point => point.date), [
+      { label: clubName(data.club), data: data.history.map(p => p.elo), color: CLUB_COLOR, fill: false },
+      { label: clubName(data.otherClub), data: data.history.map(p => p.otherElo), color: OTHER_COLOR, fill: false },
+    ]);
+
+    compareSummaryEl.textContent = formatComparisonSummary(data);
+    compareSummaryEl.style.display = 'block';
+    compareClearBtn.style.display = 'inline-flex';
+  } catch (error) {
+    console.error('Error comparing clubs:', error);
+    compareSummaryEl.textContent = `Failed to compare clubs: ${error.message}`;
+    compareSummaryEl.style.display = 'block';
+  }
+}
+
+/**
+ * Describe the current gap and today's probabilities in one line
+ *
+ * @param {Object} data - Comparison response from the API
+ */
+function formatComparisonSummary(data) {
+  if (!data.current || !data.probabilities) {
+    return 'No common rating history for these clubs.';
+  }
+
+  const gap = data.current.gap;
+  const leader = gap >= 0 ? clubName(data.club) : clubName(data.otherClub);
+  const pct = value => `${Math.round(value * 100)}%`;
+  const { win, draw, loss } = data.probabilities.neutral;
+
+  return `${leader} lead by ${Math.abs(gap).toFixed(1)} Elo. ` +
+    `If they met today (neutral venue): ${clubName(data.club)} win ${pct(win)}, ` +
+    `draw ${pct(draw)}, ${clubName(data.otherClub)} win ${pct(loss)}.`;
+}
+
+/**
+ * Return to the single-club chart
+ */
+function clearComparison() {
+  compareInput.value = '';
+  compareSummaryEl.style.display = 'none';
+  compareClearBtn.style.display = 'none';
+  renderChart(currentHistory);
+}
+
 /**
  * Show or hide the loading indicator
  */
@@ -2,16 +2,9 @@
 
 let countryData = [];
 let countryCode = new URLSearchParams(window.location.search).get('country') || 'ENG';
+let countryStrength = null;
 let distributionChart = null;
-
-// Club logos mapping
-const clubLogos = {
-  'Real Madrid': 'https://lh3.googleusercontent.com/aida-public/AB6AXuCc9WXzLewsJaqwOerG1BCn-OVzwnWeUjwuulmMzC60y8UTJTqxgeDD-5cnFUmIH2xUV40S4cH-ZUYPLEYCVT5xFIDpZmADZUhlO7kKZYUrYRgqRYk65Qf02yp2KGSVKa5-3HfCQOtZFtLMQg9-_-nyQ2u4mLqMlhaxKHNGA5bUOh4tYgsgf8Fp6FsSPsirA3nGs4lBo0NoLMAE8m3KFpYxzf-pv8vcSNH9X27yFsq8gocmdolMoQEJtLORaWlfgtpHIZVdTF4tbwuu',
-  'Liverpool': 'https://lh3.googleusercontent.com/aida-public/AB6AXuCD0kasuC4BzSLTTk_rP6Cwm8espTMwdXL69k0K0u9DI-IjmF5fb4fdD57pRcclLqizOxBQUrU6ZtD3mha8IfSHkEVVbKcS2gSwYHXGN7Gmi-6OtRFSTA5IZF_e25hy5wXOEi8Au-qtJHb_FbPnU7ZFjvxoL1fVhn7AMTwie1a1rGsGARFuHbgVEFkfg1rVZKljvLlq_suQWQKboUtfQrRZ9hv6oV72DMiOFqNjoWaUoBJ6zaCh3u3NUVuEm5foh1j966SuBr1foc2F',
-  'Arsenal': 'https://lh3.googleusercontent.com/aida-public/AB6AXuBiMfZT4Lr84KN4dCLUqsvZedeF-oYenU7mWen0Jl5LkZmC5uWnGHp4FCxaBpr9DxuF6CkFieUorF0aeDkf-Z9RQv7Ozd8AjXZMSuYgvCJcB5-2P3pGDHoN00Tm32Vb_worr2TDL7fyb-Wl5bjz4BTjhCixwO__dJGXcL3sg87lrTWkg2naTJrQRy68wD_RKJPq3zmxs3GD0DyK6NZ1XLjTUAO-IBJ61CV1iyleN0HjPMAbQc39-Dvor8HlbTsSRQCHLwlB25G_2ciJ',
-  'Man City': 'https://lh3.googleusercontent.com/aida-public/AB6AXuCc9WXzLewsJaqwOerG1BCn-OVzwnWeUjwuulmMzC60y8UTJTqxgeDD-5cnFUmIH2xUV40S4cH-ZUYPLEYCVT5xFIDpZmADZUhlO7kKZYUrYRgqRYk65Qf02yp2KGSVKa5-3HfCQOtZFtLMQg9-_-nyQ2u4mLqMlhaxKHNGA5bUOh4tYgsgf8Fp6FsSPsirA3nGs4lBo0NoLMAE8m3KFpYxzf-pv8vcSNH9X27yFsq8gocmdolMoQEJtLORaWlfgtpHIZVdTF4tbwuu',
-  'Chelsea': 'https://lh3.googleusercontent.com/aida-public/AB6AXuBiMfZT4Lr84KN4dCLUqsvZedeF-oYenU7mWen0Jl5LkZmC5uWnGHp4FCxaBpr9DxuF6CkFieUorF0aeDkf-Z9RQv7Ozd8AjXZMSuYgvCJcB5-2P3pGDHoN00Tm32Vb_worr2TDL7fyb-Wl5bjz4BTjhCixwO__dJGXcL3sg87lrTWkg2naTJrQRy68wD_RKJPq3zmxs3GD0DyK6NZ1XLjTUAO-IBJ61CV1iyleN0HjPMAbQc39-Dvor8HlbTsSRQCHLwlB25G_2ciJ',
-};
+let strengthChart = null;
 
 // Initialize
 document.addEventListener('DOMContentLoaded', async () => {
@@ -19,52 +12,44 @@ document.addEventListener('DOMContentLoaded', async () => {
   renderCountries();
   renderCountryData();
   renderDistributionChart();
+  renderStrengthChart();
 });
 
 // Load all data from API
 async function loadAllData() {
   try {
-    const response = await fetch(`/api/elo/rankings?limit=200&pageSize=200`);
-    const data = await response.json();
-
-    // Filter by country code
-    countryData = (data.clubs || []).filter(club => club.country === countryCode);
+    const [clubsResponse, strengthResponse] = await Promise.all([
+      fetch(`/api/elo/rankings?country=${countryCode}&pageSize=1000`),
+      fetch(`/api/elo/countries/${countryCode}/strength`),
+      loadClubProfiles()
+    ]);
+    const data = await clubsResponse.json();
+
+    countryData = data.clubs || [];
     countryData.sort((a, b) => b.elo - a.elo);
+    countryStrength = strengthResponse.ok ? await strengthResponse.json() : null;
   } catch (error) {
     console.error('Error loading data:', error);
   }
 }
 
-// Render countries sidebar
+// Render countries sidebar, ranked by league strength
 function renderCountries() {
   const list = document.getElementById('countries-list');
-  const countryMap = {};
 
-  // Group clubs by country and calculate averages
-  fetch(`/api/elo/rankings?limit=200&pageSize=200`)
+  fetch('/api/elo/countries')
     .then(r => r.json())
     .then(data => {
-      const clubs = data.clubs || [];
-
-      clubs.forEach(club => {
-        const country = club.country || 'Unknown';
-        if (!countryMap[country]) {
-          countryMap[country] = { elo: [], count: 0 };
-        }
-        countryMap[country].elo.push(club.elo);
-        countryMap[country].count += 1;
+      const countries = (data.countries || []).map(country => {
+        const elo = Math.round(country.strength ?? country.meanElo);
+        return {
+          code: country.country,
+          name: country.rank ? `${country.rank}. ${country.country}` : country.country,
+          elo: elo,
+          progress: Math.min((elo / 2000) * 100, 100)
+        };
       });
 
-      const countries = Object.entries(countryMap)
-        .map(([code, data]) => ({
-          code: code,
-          name: code, // You can add a country name mapping here
-          avgElo: Math.round(data.elo.reduce((a, b) => a + b, 0) / data.elo.length),
-          count: data.count,
-          progress: Math.min((data.elo.reduce((a, b) => a + b, 0) / (data.count * 2000)) * 100, 100)
-        }))
-        .sort((a, b) => b.avgElo - a.avgElo);
-
       list.innerHTML = countries.map(country => `
         <div class="sidebar-item ${country.code === countryCode ? 'bg-purple-600 bg-opacity-30' : ''}" onclick="navigateToCountry('${country.code}')">
           <div class="flex-1">
@@ -76,7 +61,7 @@ function renderCountries() {
               <div class="progress-fill" style="width: ${country.progress}%; background: linear-gradient(90deg, #6366f1 0%, #8b5cf6 100%)"></div>
             </div>
           </div>
-          <span class="text-sm font-semibold text-white ml-2">${country.avgElo}</span>
+          <span class="text-sm font-semibold text-white ml-2">${country.elo}</span>
         </div>
       `).join('');
     });
@@ -92,15 +77,25 @@ function renderCountryData() {
   // Update title and stats
   document.getElementById('country-title').textContent = `${countryCode} Clubs`;
   document.getElementById('country-code').textContent = countryCode;
-  document.getElementById('total-clubs').textContent = countryData.length;
-
-  const avgElo = countryData.length > 0
-    ? Math.round(countryData.reduce((sum, club) => sum + club.elo, 0) / countryData.length)
-    : 0;
-  document.getElementById('avg-elo').textContent = avgElo;
-
-  const topElo = countryData.length > 0 ? Math.round(countryData[0].elo) : 0;
-  document.getElementById('top-elo').textContent = topElo;
+  const stats = countryStrength ? countryStrength.country : null;
+  document.getElementById('total-clubs').textContent = stats ? stats.clubs : countryData.length;
+  document.getElementById('avg-elo').textContent = stats ? Math.round(stats.meanElo) : 0;
+  document.getElementById('top-elo').textContent = stats ? Math.round(stats.maxElo) : 0;
+  document.getElementById('median-elo').textContent = stats ? Math.round(stats.medianElo) : 0;
+  document.getElementById('top-average-elo').textContent = stats ? Math.round(stats.topAverageElo) : 0;
+  document.getElementById('top-n').textContent = countryStrength ? countryStrength.topN : 5;
+  document.getElementById('strength-rank').textContent = stats && stats.rank ? `#${stats.rank}` : '--';
+
+  // Render league levels
+  document.getElementById('levels-list').innerHTML = (stats ? stats.levels : []).map(level => `
+    <div class="club-row">
+      <div class="text-white font-medium flex-1">Level ${level.level}</div>
+      <div class="text-gray-400 text-sm w-24 text-right">${level.clubs} clubs</div>
+      <div class="text-gray-400 text-sm w-32 text-right">Mean ${Math.round(level.meanElo)}</div>
+      <div class="text-gray-400 text-sm w-32 text-right">Median ${Math.round(level.medianElo)}</div>
+      <div class="text-white font-bold w-32 text-right">Top ${countryStrength.topN} ${Math.round(level.topAverageElo)}</div>
+    </div>
+  `).join('');
 
   // Render clubs list
   const list = document.getElementById('clubs-list');
@@ -108,9 +103,9 @@ function renderCountryData() {
     <div class="club-row">
       <div class="flex items-center gap-3 flex-1">
         <span class="text-gray-400 font-semibold w-8">${index + 1}</span>
-        <img src="${clubLogos[club.displayName] || ''}" class="w-6 h-6 rounded-full bg-gray-700" onerror="this.style.display='none'"/>
+        <img src="${clubCrest(club)}" class="w-6 h-6 rounded-full bg-gray-700" onerror="this.style.display='none'"/>
         <div class="flex-1">
-          <div class="text-white font-medium">${club.displayName || club.apiName}</div>
+          <div class="text-white font-medium">${clubName(club)}</div>
           <div class="text-gray-500 text-xs">Level ${club.level}</div>
         </div>
       </div>
@@ -175,3 +170,56 @@ function renderDistributionChart() {
     }
   });
 }
+
+// Render league strength rank over time
+function renderStrengthChart() {
+  const ctx = document.getElementById('strength-chart').getContext('2d');
+  const history = countryStrength ? countryStrength.history : [];
+
+  if (strengthChart) strengthChart.destroy();
+
+  strengthChart = new Chart(ctx, {
+    type: 'line',
+    data: {
+      labels: history.map(point => point.date),
+      datasets: [
+        {
+          label: 'League Strength Rank',
+          data: history.map(point => point.rank),
+          borderColor: '#8b5cf6',
+          backgroundColor: 'rgba(139, 92, 246, 0.2)',
+          borderWidth: 2,
+          pointRadius: 0,
+          stepped: true
+        }
+      ]
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: true, labels: { color: '#9ca3af' } },
+        tooltip: {
+          callbacks: {
+            label: (item) => {
+              const point = history[item.dataIndex];
+              return `#${point.rank} of ${point.countries} (${Math.round(point.strength)})`;
+            }
+          }
+        }
+      },
+      scales: {
+        x: {
+          grid: { color: '#2a2d3a' },
+          ticks: { color: '#6b7280', maxTicksLimit: 10 }
+        },
+        y: {
+          reverse: true,
+          grid: { color: '#2a2d3a' },
+          ticks: { color: '#6b7280', precision: 0 },
+          min: 1
+        }
+      }
+    }
+  });
+}
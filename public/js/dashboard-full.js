@@ -5,16 +5,6 @@ let countryData = [];
 let recentChart = null;
 let erasChart = null;
 
-// Club logos
-const clubLogos = {
-  "Real Madrid":
-    "https://lh3.googleusercontent.com/aida-public/AB6AXuCc9WXzLewsJaqwOerG1BCn-OVzwnWeUjwuulmMzC60y8UTJTqxgeDD-5cnFUmIH2xUV40S4cH-ZUYPLEYCVT5xFIDpZmADZUhlO7kKZYUrYRgqRYk65Qf02yp2KGSVKa5-3HfCQOtZFtLMQg9-_-nyQ2u4mLqMlhaxKHNGA5bUOh4tYgsgf8Fp6FsSPsirA3nGs4lBo0NoLMAE8m3KFpYxzf-pv8vcSNH9X27yFsq8gocmdolMoQEJtLORaWlfgtpHIZVdTF4tbwuu",
-  Liverpool:
-    "https://lh3.googleusercontent.com/aida-public/AB6AXuCD0kasuC4BzSLTTk_rP6Cwm8espTMwdXL69k0K0u9DI-IjmF5fb4fdD57pRcclLqizOxBQUrU6ZtD3mha8IfSHkEVVbKcS2gSwYHXGN7Gmi-6OtRFSTA5IZF_e25hy5wXOEi8Au-qtJHb_FbPnU7ZFjvxoL1fVhn7AMTwie1a1rGsGARFuHbgVEFkfg1rVZKljvLlq_suQWQKboUtfQrRZ9hv6oV72DMiOFqNjoWaUoBJ6zaCh3u3NUVuEm5foh1j966SuBr1foc2F",
-  Arsenal:
-    "https://lh3.googleusercontent.com/aida-public/AB6AXuBiMfZT4Lr84KN4dCLUqsvZedeF-oYenU7mWen0Jl5LkZmC5uWnGHp4FCxaBpr9DxuF6CkFieUorF0aeDkf-Z9RQv7Ozd8AjXZMSuYgvCJcB5-2P3pGDHoN00Tm32Vb_worr2TDL7fyb-Wl5bjz4BTjhCixwO__dJGXcL3sg87lrTWkg2naTJrQRy68wD_RKJPq3zmxs3GD0DyK6NZ1XLjTUAO-IBJ61CV1iyleN0HjPMAbQc39-Dvor8HlbTsSRQCHLwlB25G_2ciJ",
-};
-
 // Country code to flag emoji mapping (ISO-2 overrides for emoji rendering)
 const countryFlags = {
   ENG: "GB",
@@ -131,7 +121,10 @@ document.addEventListener("DOMContentLoaded", async () => {
 async function loadAllData() {
   try {
     // Load top 100 clubs for both Euro Top 25 and country aggregation
-    const response = await fetch("/api/elo/rankings?limit=100&pageSize=100");
+    const [response] = await Promise.all([
+      fetch("/api/elo/rankings?limit=100&pageSize=100"),
+      loadClubProfiles(),
+    ]);
     const data = await response.json();
     clubsData = data.clubs || [];
 
@@ -152,7 +145,7 @@ function calculateCountryAverages(clubs) {
       countryMap[country] = { elo: [], names: [] };
     }
     countryMap[country].elo.push(club.elo);
-    countryMap[country].names.push(club.displayName || club.apiName);
+    countryMap[country].names.push(clubName(club));
   });
 
   // Convert to array with averages
@@ -211,9 +204,9 @@ function renderEuroTop25() {
       return `
       <div class="flex items-center gap-2 text-sm">
         <span class="text-gray-400 w-6">${index + 1}</span>
-        <img src="${clubLogos[club.displayName] || ""}" class="w-5 h-5 rounded-full bg-gray-700" onerror="this.style.display='none'"/>
+        <img src="${clubCrest(club)}" class="w-5 h-5 rounded-full bg-gray-700" onerror="this.style.display='none'"/>
         <span class="text-lg">${flag}</span>
-        <span class="flex-1 text-white">${club.displayName || club.apiName}</span>
+        <span class="flex-1 text-white">${clubName(club)}</span>
         <div class="w-24 h-6 bg-gray-700 rounded overflow-hidden">
           <div class="h-full" style="width: ${barWidth}%; background: ${color}"></div>
         </div>
@@ -236,9 +229,9 @@ function renderTodayTable() {
       <td class="py-3 text-gray-400">${index + 1}</td>
       <td class="py-3">
         <div class="flex items-center gap-2">
-          <img src="${clubLogos[club.displayName] || ""}" class="w-5 h-5 rounded-full bg-gray-700" onerror="this.style.display='none'"/>
+          <img src="${clubCrest(club)}" class="w-5 h-5 rounded-full bg-gray-700" onerror="this.style.display='none'"/>
           <span class="text-lg">${getCountryFlag(club.country)}</span>
-          <span class="text-white">${club.displayName || club.apiName}</span>
+          <span class="text-white">${clubName(club)}</span>
         </div>
       </td>
       <td class="py-3 text-gray-400"><span class="material-symbols-outlined text-purple-400 text-sm">calendar_today</span> Today</td>
@@ -276,9 +269,9 @@ function renderYesterdayTable() {
       <td class="py-3 text-gray-400">${index + 1}</td>
       <td class="py-3">
         <div class="flex items-center gap-2">
-          <img src="${clubLogos[club.displayName] || ""}" class="w-5 h-5 rounded-full bg-gray-700" onerror="this.style.display='none'"/>
+          <img src="${clubCrest(club)}" class="w-5 h-5 rounded-full bg-gray-700" onerror="this.style.display='none'"/>
           <span class="text-lg">${getCountryFlag(club.country)}</span>
-          <span class="text-white">${club.displayName || club.apiName}</span>
+          <span class="text-white">${clubName(club)}</span>
         </div>
       </td>
       <td class="py-3 text-gray-400"><span class="material-symbols-outlined text-purple-400 text-sm">calendar_today</span> Yesterday</td>
@@ -317,14 +310,14 @@ function renderCoachesTable() {
         <div class="flex items-center gap-2">
           <div class="w-8 h-8 bg-gray-700 rounded-full"></div>
           <span class="text-lg">${getCountryFlag(club.country)}</span>
-          <span class="text-white text-sm">${club.displayName || club.apiName}</span>
+          <span class="text-white text-sm">${clubName(club)}</span>
         </div>
       </td>
       <td class="py-3">
         <div class="flex items-center gap-2">
-          <img src="${clubLogos[club.displayName] || ""}" class="w-5 h-5 rounded-full bg-gray-700" onerror="this.style.display='none'"/>
+          <img src="${clubCrest(club)}" class="w-5 h-5 rounded-full bg-gray-700" onerror="this.style.display='none'"/>
           <span class="text-lg">${getCountryFlag(club.country)}</span>
-          <span class="text-white text-sm">${club.displayName || club.apiName}</span>
+          <span class="text-white text-sm">${clubName(club)}</span>
         </div>
       </td>
       <td class="py-3 text-sm">
@@ -366,7 +359,7 @@ function renderRecentChart() {
   }
 
   const datasets = topClubs.map((club, idx) => ({
-    label: club.displayName || club.apiName,
+    label: clubName(club),
     data: generateData(),
     borderColor: colors[idx],
     borderWidth: 2,
@@ -423,7 +416,7 @@ function renderErasChart() {
   }
 
   const datasets = topClubs.map((club, idx) => ({
-    label: club.displayName || club.apiName,
+    label: clubName(club),
     data: generateEraData(),
     borderColor: colors[idx],
     borderWidth: 2,
@@ -571,7 +564,7 @@ async function renderCountryData(countryCode) {
         <div class="flex items-center gap-3">
           <span class="text-gray-400 font-mono text-sm w-8">#${index + 1}</span>
           <span class="text-lg">${flag}</span>
-          <span class="text-white font-medium">${club.displayName}</span>
+          <span class="text-white font-medium">${clubName(club)}</span>
         </div>
         <div class="flex items-center gap-4">
           <span class="text-gray-400 text-sm">Rank: ${club.rank || "N/A"}</span>
@@ -0,0 +1,168 @@
+#!/usr/bin/env tsx
+
+/**
+ * Backfill historical daily snapshots from the ClubElo API
+ *
+ * Imports every date (or every Nth date) in a range, a few dates at a time.
+ * Finished dates are written to a checkpoint file, so an interrupted run
+ * picks up where it stopped when started again with the same checkpoint.
+ *
+ * Usage:
+ *   npm run import:clubelo:backfill -- --from=2020-01-01 --to=2020-12-31
+ *   npm run import:clubelo:backfill -- --from=2000-01-01 --every=7d --concurrency=4
+ *   tsx scripts/import-historical-data.ts --from=2024-08-01 --force
+ *
+ * Options:
+ *   --from=YYYY-MM-DD     First date (required)
+ *   --to=YYYY-MM-DD       Last date (defaults to yesterday)
+ *   --every=<N>d|<N>w     Import one date every N days / weeks (defaults to 1d)
+ *   --concurrency=<N>     Dates fetched at once, 1-10 (defaults to 2)
+ *   --checkpoint=<path>   Checkpoint file (defaults to .backfill-checkpoint.json)
+ *   --reset               Delete the checkpoint and start from scratch
+ *   --force               Re-import dates that already have a snapshot
+ *
+ * It's safe to run multiple times - dates already stored are skipped.
+ */
+
+import fs from 'fs';
+import { backfill } from '../src/modules/external-data';
+import { db } from '../src/shared/database/connection';
+import { getYesterday } from '../src/shared/utils/date-formatter';
+
+const USAGE =
+  'Usage: npm run import:clubelo:backfill -- --from=2020-01-01 [--to=2020-12-31] [--every=7d] [--concurrency=2]';
+
+interface Args {
+  from: string;
+  to: string;
+  everyDays: number;
+  concurrency: number;
+  checkpointPath: string;
+  reset: boolean;
+  force: boolean;
+}
+
+/**
+ * Print an error with usage and exit
+ */
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+/**
+ * Parse "7d", "2w" or a bare number of days
+ */
+function parseEvery(value: string): number {
+  const match = /^(\d+)([dw]?)$/.exec(value);
+  if (!match || parseInt(match[1], 10) < 1) {
+    fail('--every must look like 1d, 7d or 2w');
+  }
+  return parseInt(match[1], 10) * (match[2] === 'w' ? 7 : 1);
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  const parsed: Args = {
+    from: '',
+    to: getYesterday(),
+    everyDays: 1,
+    concurrency: 2,
+    checkpointPath: '.backfill-checkpoint.json',
+    reset: false,
+    force: false,
+  };
+
+  for (const arg of args) {
+    if (arg.startsWith('--from=')) {
+      parsed.from = arg.substring('--from='.length);
+    } else if (arg.startsWith('--to=')) {
+      parsed.to = arg.substring('--to='.length);
+    } else if (arg.startsWith('--every=')) {
+      parsed.everyDays = parseEvery(arg.substring('--every='.length));
+    } else if (arg.startsWith('--concurrency=')) {
+      parsed.concurrency = parseInt(arg.substring('--concurrency='.length), 10);
+    } else if (arg.startsWith('--checkpoint=')) {
+      parsed.checkpointPath = arg.substring('--checkpoint='.length);
+    } else if (arg === '--reset') {
+      parsed.reset = true;
+    } else if (arg === '--force') {
+      parsed.force = true;
+    }
+  }
+
+  if (!parsed.from) {
+    fail('--from is required');
+  }
+
+  for (const date of [parsed.from, parsed.to]) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      fail('Dates must be in YYYY-MM-DD format');
+    }
+  }
+
+  if (parsed.from > parsed.to) {
+    fail('--from must be on or before --to');
+  }
+
+  if (isNaN(parsed.concurrency) || parsed.concurrency < 1 || parsed.concurrency > 10) {
+    fail('--concurrency must be between 1 and 10');
+  }
+
+  return parsed;
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('=== ClubElo Historical Backfill ===\n');
+
+  const args = parseArgs();
+
+  if (args.reset && fs.existsSync(args.checkpointPath)) {
+    fs.unlinkSync(args.checkpointPath);
+    console.log(`Removed checkpoint ${args.checkpointPath}`);
+  }
+
+  console.log(`Range: ${args.from} to ${args.to}, every ${args.everyDays} day(s)`);
+  console.log(`Concurrency: ${args.concurrency}`);
+  console.log(`Checkpoint: ${args.checkpointPath}\n`);
+
+  try {
+    const summary = await backfill.runBackfill({
+      from: args.from,
+      to: args.to,
+      everyDays: args.everyDays,
+      concurrency: args.concurrency,
+      checkpointPath: args.checkpointPath,
+      force: args.force,
+    });
+
+    console.log('\n=== Summary ===');
+    console.log(`Dates planned: ${summary.planned}`);
+    console.log(`Days fetched: ${summary.fetched}`);
+    console.log(`Days skipped: ${summary.skipped}`);
+    console.log(`Days failed: ${summary.failed}`);
+    console.log(`Ratings imported: ${summary.rowsImported} (${summary.rowErrors} row errors)`);
+
+    if (summary.failedDates.length > 0) {
+      console.log(`Failed dates: ${summary.failedDates.join(', ')}`);
+      console.log('Run the same command again to retry them.');
+      process.exitCode = 1;
+    }
+
+  } catch (error) {
+    console.error('\n❌ Backfill failed:', error);
+    process.exit(1);
+  } finally {
+    await db.end();
+  }
+}
+
+// Run the script
+main();
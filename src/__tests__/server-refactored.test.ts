@@ -8,11 +8,25 @@
 import request from "supertest";
 import app from "../server-refactored";
 import { db } from "../shared/database/connection";
+import { getDataVersion } from "../shared/database/data-version";
 
 // Mock the database module
 jest.mock("../shared/database/connection");
+jest.mock("../shared/database/data-version");
 
 const mockDb = db as jest.Mocked<typeof db>;
+(getDataVersion as jest.Mock).mockResolvedValue(Date.UTC(2024, 10, 20));
+
+/**
+ * Mock the latest snapshot date read by the ETag middleware, which runs
+ * before the route handler's own queries
+ */
+function mockSnapshotDate(date: string | null = "2024-11-20") {
+  mockDb.query.mockResolvedValueOnce({
+    rows: [{ max_date: date }],
+    rowCount: 1,
+  } as any);
+}
 
 describe("Server Integration Tests", () => {
   beforeEach(() => {
@@ -31,6 +45,8 @@ describe("Server Integration Tests", () => {
 
   describe("GET /api/elo/rankings", () => {
     it("should return rankings with default pagination", async () => {
+      mockSnapshotDate();
+
       // Mock database queries
       mockDb.query
         .mockResolvedValueOnce({
@@ -81,6 +97,8 @@ describe("Server Integration Tests", () => {
     });
 
     it("should filter by country", async () => {
+      mockSnapshotDate();
+
       mockDb.query
         .mockResolvedValueOnce({
           rows: [{ max_date: "2024-11-20" }],
@@ -108,6 +126,8 @@ describe("Server Integration Tests", () => {
     });
 
     it("should handle pagination", async () => {
+      mockSnapshotDate();
+
       mockDb.query
         .mockResolvedValueOnce({
           rows: [{ max_date: "2024-11-20" }],
@@ -149,7 +169,18 @@ describe("Server Integration Tests", () => {
       expect(response.body).toHaveProperty("error");
     });
 
+    it("should return 400 for a repeated source", async () => {
+      const response = await request(app).get(
+        "/api/elo/rankings?source=clubelo&source=internal"
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
     it("should return 404 when no data available", async () => {
+      mockSnapshotDate(null);
+
       mockDb.query.mockResolvedValueOnce({
         rows: [{ max_date: null }],
         rowCount: 1,
@@ -164,6 +195,8 @@ describe("Server Integration Tests", () => {
 
   describe("GET /api/elo/clubs", () => {
     it("should search clubs by name", async () => {
+      mockSnapshotDate();
+
       mockDb.query.mockResolvedValueOnce({
         rows: [
           {
@@ -197,6 +230,8 @@ describe("Server Integration Tests", () => {
     });
 
     it("should filter clubs by country", async () => {
+      mockSnapshotDate();
+
       mockDb.query.mockResolvedValueOnce({
         rows: [],
         rowCount: 0,
@@ -216,6 +251,8 @@ describe("Server Integration Tests", () => {
 
   describe("GET /api/elo/clubs/:id/history", () => {
     it("should get club history by ID", async () => {
+      mockSnapshotDate();
+
       // Mock finding club
       mockDb.query
         .mockResolvedValueOnce({
@@ -257,6 +294,8 @@ describe("Server Integration Tests", () => {
     });
 
     it("should get club history by API name", async () => {
+      mockSnapshotDate();
+
       mockDb.query
         .mockResolvedValueOnce({
           rows: [],
@@ -286,6 +325,8 @@ describe("Server Integration Tests", () => {
     });
 
     it("should return 404 for non-existent club", async () => {
+      mockSnapshotDate();
+
       mockDb.query
         .mockResolvedValueOnce({
           rows: [],
@@ -303,6 +344,8 @@ describe("Server Integration Tests", () => {
     });
 
     it("should filter history by date range", async () => {
+      mockSnapshotDate();
+
       mockDb.query
         .mockResolvedValueOnce({
           rows: [
@@ -331,6 +374,15 @@ describe("Server Integration Tests", () => {
         expect.arrayContaining([1, "2024-01-01", "2024-12-31"])
       );
     });
+
+    it("should return 400 for an invalid source", async () => {
+      const response = await request(app)
+        .get("/api/elo/clubs/1/history")
+        .query({ source: "Club Elo" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toMatch(/Invalid source/);
+    });
   });
 
   describe("GET /api/elo/fixtures", () => {
@@ -86,7 +86,7 @@ async function upsertClubRating(row: ClubEloRow, date: Date): Promise<void> {
     await db.query(
       `INSERT INTO elo_ratings (club_id, date, rank, country, level, elo, source)
        VALUES ($1, $2, $3, $4, $5, $6, $7)
-       ON CONFLICT (club_id, date)
+       ON CONFLICT (club_id, date, source)
        DO UPDATE SET
          rank = EXCLUDED.rank,
          country = EXCLUDED.country,
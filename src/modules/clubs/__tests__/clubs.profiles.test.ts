@@ -0,0 +1,149 @@
+/**
+ * Club Profile Tests
+ *
+ * Reading seed files from a temporary directory, and storing them against
+ * a mocked repository and response cache.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as clubsRepo from "../clubs.repository";
+import { DEFAULT_PROFILES_FILE, readClubProfilesFile } from "../clubs.profiles";
+import { seedClubProfiles } from "../clubs.service";
+import { invalidateCache } from "../../../shared/cache/response-cache";
+
+jest.mock("../clubs.repository");
+jest.mock("../../../shared/cache/response-cache");
+
+const mockRepo = clubsRepo as jest.Mocked<typeof clubsRepo>;
+
+const MAN_CITY = {
+  club: "ManCity",
+  fullName: "Manchester City FC",
+  shortName: "Man City",
+  city: "Manchester",
+  stadium: "Etihad Stadium",
+  foundedYear: 1880,
+  primaryColor: "#6CABDD",
+  secondaryColor: "#1C2C5B",
+  crestPath: "/crests/mancity.svg",
+};
+
+describe("Club Profiles", () => {
+  let dir: string;
+
+  function write(file: string, contents: string): string {
+    const filePath = path.join(dir, file);
+    fs.writeFileSync(filePath, contents);
+    return filePath;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "profiles-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("readClubProfilesFile", () => {
+    it("should read JSON, filling missing fields with null", () => {
+      const file = write(
+        "profiles.json",
+        JSON.stringify([MAN_CITY, { club: "Bodoe", city: "Bodø" }])
+      );
+
+      expect(readClubProfilesFile(file)).toEqual([
+        MAN_CITY,
+        {
+          club: "Bodoe",
+          fullName: null,
+          shortName: null,
+          city: "Bodø",
+          stadium: null,
+          foundedYear: null,
+          primaryColor: null,
+          secondaryColor: null,
+          crestPath: null,
+        },
+      ]);
+    });
+
+    it("should read CSV, treating blank cells as null", () => {
+      const file = write(
+        "profiles.csv",
+        "club,fullName,shortName,city,stadium,foundedYear,primaryColor,secondaryColor,crestPath\n" +
+          "ManCity,Manchester City FC,Man City,Manchester,Etihad Stadium,1880,#6CABDD,#1C2C5B,/crests/mancity.svg\n" +
+          "Liverpool,,,,,,,,\n"
+      );
+
+      const seeds = readClubProfilesFile(file);
+
+      expect(seeds[0]).toEqual(MAN_CITY);
+      expect(seeds[1]).toMatchObject({ club: "Liverpool", foundedYear: null });
+    });
+
+    it("should reject the file when any row is invalid", () => {
+      const file = write(
+        "profiles.json",
+        JSON.stringify([
+          MAN_CITY,
+          { club: "Liverpool", primaryColor: "red" },
+          { club: "Arsenal", crestPath: "https://example.com/arsenal.svg" },
+        ])
+      );
+
+      expect(() => readClubProfilesFile(file)).toThrow(
+        /row 2: primaryColor: Colour must be #RRGGBB\nrow 3: crestPath/
+      );
+    });
+
+    it("should reject unsupported file types", () => {
+      const file = write("profiles.txt", "");
+
+      expect(() => readClubProfilesFile(file)).toThrow(
+        "Unsupported profiles file type: .txt"
+      );
+    });
+
+    it("should read the repository's seed file", () => {
+      expect(readClubProfilesFile(DEFAULT_PROFILES_FILE).length).toBeGreaterThan(0);
+    });
+  });
+
+  describe("seedClubProfiles", () => {
+    beforeEach(() => {
+      mockRepo.findAllClubs.mockResolvedValue([
+        { id: 1, apiName: "ManCity", displayName: "ManCity", country: "ENG", level: 1 },
+      ]);
+      mockRepo.findAllAliasNames.mockResolvedValue([
+        { clubId: 1, alias: "Manchester City" },
+      ]);
+      mockRepo.upsertClubProfiles.mockImplementation(async (profiles) => profiles.length);
+    });
+
+    it("should store profiles against resolved clubs and skip unknown names", async () => {
+      const { club, ...profile } = MAN_CITY;
+
+      const summary = await seedClubProfiles([
+        { ...MAN_CITY, club: "manchester city" },
+        { ...MAN_CITY, club: "Atlantis FC" },
+      ]);
+
+      expect(summary).toEqual({ seeded: 1, unknownClubs: ["Atlantis FC"] });
+      expect(mockRepo.upsertClubProfiles).toHaveBeenCalledWith([
+        { clubId: 1, ...profile },
+      ]);
+      expect(invalidateCache).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject two profiles for the same club", async () => {
+      await expect(
+        seedClubProfiles([MAN_CITY, { ...MAN_CITY, club: "Manchester City" }])
+      ).rejects.toThrow("Seed has more than one profile for ManCity");
+      expect(mockRepo.upsertClubProfiles).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Club Name Resolution Tests
+ *
+ * Unit tests for name normalization, matching and suggestions.
+ */
+
+import {
+  createClubNameIndex,
+  nameSimilarity,
+  normalizeClubName,
+} from "../clubs.resolver";
+import { Club } from "../clubs.types";
+
+function club(id: number, apiName: string, displayName: string): Club {
+  return { id, apiName, displayName, country: "ENG", level: 1 };
+}
+
+const CLUBS = [
+  club(1, "ManCity", "Manchester City"),
+  club(2, "ManUnited", "Manchester United"),
+  club(3, "Bodoe", "Bodø/Glimt"),
+  club(4, "Koeln", "1. FC Köln"),
+];
+
+describe("Club Name Resolution", () => {
+  describe("normalizeClubName", () => {
+    it("should ignore accents, case, spaces and punctuation", () => {
+      expect(normalizeClubName("Bodø/Glimt")).toBe("bodoglimt");
+      expect(normalizeClubName("BODO GLIMT")).toBe("bodoglimt");
+      expect(normalizeClubName("1. FC Köln")).toBe("1fckoln");
+      expect(normalizeClubName("Atlético  Madrid")).toBe("atleticomadrid");
+    });
+
+    it("should be empty for a name without letters or digits", () => {
+      expect(normalizeClubName(" - ")).toBe("");
+    });
+  });
+
+  describe("nameSimilarity", () => {
+    it("should score identical names 1 and unrelated names low", () => {
+      expect(nameSimilarity("mancity", "mancity")).toBe(1);
+      expect(nameSimilarity("mancity", "juventus")).toBeLessThan(0.3);
+      expect(nameSimilarity("", "mancity")).toBe(0);
+    });
+
+    it("should score a name that starts with the other at least 0.7", () => {
+      expect(nameSimilarity("bayern", "bayernmunich")).toBe(0.7);
+    });
+  });
+
+  describe("createClubNameIndex", () => {
+    it("should resolve API names, display names and aliases", () => {
+      const index = createClubNameIndex(CLUBS, [
+        { clubId: 1, alias: "Man City" },
+      ]);
+
+      expect(index.resolve("ManCity")?.id).toBe(1);
+      expect(index.resolve("manchester city")?.id).toBe(1);
+      expect(index.resolve("Man-City")?.id).toBe(1);
+      expect(index.resolve("Bodo Glimt")?.id).toBe(3);
+      expect(index.resolve("FC Koln")).toBeNull();
+    });
+
+    it("should prefer an API name over an alias over a display name", () => {
+      const index = createClubNameIndex(
+        [club(1, "Inter", "Internazionale"), club(2, "Internazionale", "Inter Milan")],
+        [{ clubId: 1, alias: "Inter Milan" }]
+      );
+
+      expect(index.resolve("internazionale")?.id).toBe(2);
+      expect(index.resolve("Inter Milan")?.id).toBe(1);
+    });
+
+    it("should always resolve an exact API name to its own club", () => {
+      const index = createClubNameIndex(
+        [club(1, "Sporting", "Sporting"), club(2, "SPORTING", "Sporting CP")],
+        []
+      );
+
+      expect(index.resolve("Sporting")?.id).toBe(1);
+      expect(index.resolve("SPORTING")?.id).toBe(2);
+      expect(index.resolve("sporting")?.id).toBe(1);
+    });
+
+    it("should ignore aliases of unknown clubs", () => {
+      const index = createClubNameIndex(CLUBS, [{ clubId: 99, alias: "Ghost" }]);
+
+      expect(index.resolve("Ghost")).toBeNull();
+    });
+
+    it("should suggest close names, best first, one entry per club", () => {
+      const index = createClubNameIndex(CLUBS, []);
+
+      const suggestions = index.suggest("Man Cty");
+
+      expect(suggestions[0]).toEqual({
+        club: CLUBS[0],
+        name: "ManCity",
+        score: 0.857,
+      });
+      expect(suggestions.map((s) => s.club.id)).toEqual([1]);
+      expect(index.suggest("Man").map((s) => s.club.id)).toEqual([1, 2]);
+      expect(index.suggest("Juventus")).toEqual([]);
+      expect(index.suggest("Man", 1)).toHaveLength(1);
+    });
+
+    it("should resolve clubs added after it was built", () => {
+      const index = createClubNameIndex(CLUBS, []);
+
+      index.add(club(5, "Brann", "SK Brann"));
+
+      expect(index.resolve("sk brann")?.id).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Club Admin Routes
+ *
+ * API LAYER - Express route handlers for club aliases and merges.
+ * Mounted under /api/admin/clubs.
+ *
+ * Protected by CRON_SECRET authentication.
+ *
+ * RULE: No business logic here - delegate to service layer.
+ */
+
+import { Router, Request, Response } from "express";
+import * as clubsService from "./clubs.service";
+import { ApiError, asyncHandler } from "../../shared/middleware/error-handler";
+import {
+  validateBody,
+  validateCronSecret,
+} from "../../shared/middleware/validation";
+import {
+  clubAliasSchema,
+  clubMergeSchema,
+} from "../../shared/validation/schemas";
+
+const router = Router();
+
+/**
+ * GET /api/admin/clubs/:id/aliases
+ *
+ * List a club's aliases, oldest first.
+ *
+ * Path parameters:
+ *   - id: Club ID (integer) or name (string)
+ *
+ * Authentication:
+ *   - Requires Authorization: Bearer <CRON_SECRET>
+ *
+ * Example:
+ *   GET /api/admin/clubs/ManCity/aliases
+ */
+router.get(
+  "/:id/aliases",
+  validateCronSecret,
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await clubsService.listClubAliases(req.params.id);
+    res.json(result);
+  })
+);
+
+/**
+ * POST /api/admin/clubs/:id/aliases
+ *
+ * Add another name for a club, e.g. the spelling a fixtures feed uses.
+ * Imports and club lookups then resolve that name to the club. Returns
+ * 409 if the name (ignoring accents, case and punctuation) already refers
+ * to a club.
+ *
+ * Path parameters:
+ *   - id: Club ID (integer) or name (string)
+ *
+ * JSON body:
+ *   - alias: The other name (required)
+ *
+ * Authentication:
+ *   - Requires Authorization: Bearer <CRON_SECRET>
+ *
+ * Example:
+ *   POST /api/admin/clubs/ManCity/aliases
+ *   { "alias": "Manchester City" }
+ */
+router.post(
+  "/:id/aliases",
+  validateCronSecret,
+  validateBody(clubAliasSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const alias = await clubsService.addClubAlias(
+      req.params.id,
+      req.validated.alias
+    );
+    res.status(201).json(alias);
+  })
+);
+
+/**
+ * DELETE /api/admin/clubs/:id/aliases/:aliasId
+ *
+ * Remove one of a club's aliases.
+ *
+ * Path parameters:
+ *   - id: Club ID (integer) or name (string)
+ *   - aliasId: Alias ID (integer)
+ *
+ * Authentication:
+ *   - Requires Authorization: Bearer <CRON_SECRET>
+ *
+ * Example:
+ *   DELETE /api/admin/clubs/ManCity/aliases/12
+ */
+router.delete(
+  "/:id/aliases/:aliasId",
+  validateCronSecret,
+  asyncHandler(async (req: Request, res: Response) => {
+    const aliasId = parseInt(req.params.aliasId, 10);
+
+    if (isNaN(aliasId)) {
+      throw new ApiError(400, "Alias ID must be a number");
+    }
+
+    await clubsService.removeClubAlias(req.params.id, aliasId);
+    res.status(204).end();
+  })
+);
+
+/**
+ * POST /api/admin/clubs/merge
+ *
+ * Merge a duplicate club into another. The duplicate's ratings, rating
+ * periods, fixtures, aliases and profile move to the kept club; where the
+ * kept club already has a row for the same date or match, or a profile,
+ * its own row is kept and the duplicate's is dropped. The duplicate is deleted and its names
+ * become aliases of the kept club.
+ *
+ * JSON body:
+ *   - from: Club to merge in and delete, ID or name (required)
+ *   - into: Club to keep, ID or name (required)
+ *
+ * Authentication:
+ *   - Requires Authorization: Bearer <CRON_SECRET>
+ *
+ * Example:
+ *   POST /api/admin/clubs/merge
+ *   { "from": "Man City", "into": "ManCity" }
+ */
+router.post(
+  "/merge",
+  validateCronSecret,
+  validateBody(clubMergeSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { from, into } = req.validated;
+
+    const result = await clubsService.mergeClubs(from, into);
+    res.json(result);
+  })
+);
+
+export default router;
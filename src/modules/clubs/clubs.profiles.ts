@@ -0,0 +1,75 @@
+/**
+ * Club Profile Seeds
+ *
+ * Reads club profile seed files (CSV or JSON) and validates every row.
+ * Matching rows to clubs and storing them is left to the service.
+ *
+ * CSV columns / JSON keys (all but club optional):
+ *   club, fullName, shortName, city, stadium, foundedYear,
+ *   primaryColor, secondaryColor, crestPath
+ *
+ * club is any name the club resolves by (API name, display name or alias).
+ */
+
+import fs from "fs";
+import path from "path";
+import { parse } from "csv-parse/sync";
+import { ClubProfileSeed } from "./clubs.types";
+import { clubProfileSeedSchema } from "../../shared/validation/schemas";
+
+/**
+ * Seed file loaded when no other file is given
+ */
+export const DEFAULT_PROFILES_FILE = path.join(
+  __dirname,
+  "../../../data/club-profiles.json"
+);
+
+/**
+ * Read and validate a club profile seed file
+ *
+ * @param filePath - Path to a .csv or .json file
+ * @throws Error listing every invalid row, so nothing is half-loaded
+ */
+export function readClubProfilesFile(filePath: string): ClubProfileSeed[] {
+  const content = fs.readFileSync(filePath, "utf8");
+  const extension = path.extname(filePath).toLowerCase();
+  let rows: unknown[];
+
+  if (extension === ".json") {
+    rows = JSON.parse(content);
+    if (!Array.isArray(rows)) {
+      throw new Error("Club profiles JSON must be an array of profile objects");
+    }
+  } else if (extension === ".csv") {
+    rows = parse(content, {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+    });
+  } else {
+    throw new Error(`Unsupported profiles file type: ${extension || filePath}`);
+  }
+
+  const seeds: ClubProfileSeed[] = [];
+  const problems: string[] = [];
+
+  rows.forEach((row, index) => {
+    const result = clubProfileSeedSchema.safeParse(row);
+
+    if (result.success) {
+      seeds.push(result.data);
+    } else {
+      const issues = result.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      problems.push(`row ${index + 1}: ${issues}`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid club profiles in ${filePath}:\n${problems.join("\n")}`);
+  }
+
+  return seeds;
+}
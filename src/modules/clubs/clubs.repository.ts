@@ -7,8 +7,24 @@
  */
 
 import { db } from "../../shared/database/connection";
+import { streamQuery, mapStream } from "../../shared/database/stream";
 import { formatDateOnly } from "../../shared/utils/date-formatter";
-import { Club, ClubRow } from "./clubs.types";
+import {
+  AliasRow,
+  Club,
+  ClubAlias,
+  ClubAliasSource,
+  ClubHistoryEntry,
+  ClubMergeCounts,
+  ClubProfile,
+  ClubProfileEntry,
+  ClubRatingPeriod,
+  ClubRow,
+  ClubSeek,
+  HistoryRow,
+  PeriodRow,
+  ProfileRow,
+} from "./clubs.types";
 
 /**
  * Find a club by ID
@@ -38,13 +54,214 @@ export async function findClubByApiName(apiName: string): Promise<Club | null> {
   return mapRowToClub(result.rows[0]);
 }
 
+/**
+ * Every club, for building a name index
+ */
+export async function findAllClubs(): Promise<Club[]> {
+  const result = await db.query<ClubRow>(
+    "SELECT id, api_name, display_name, country, level FROM clubs ORDER BY id"
+  );
+
+  return result.rows.map(mapRowToClub);
+}
+
+/**
+ * Every alias, for building a name index
+ */
+export async function findAllAliasNames(): Promise<
+  Array<{ clubId: number; alias: string }>
+> {
+  const result = await db.query<{ club_id: number; alias: string }>(
+    "SELECT club_id, alias FROM club_aliases ORDER BY id"
+  );
+
+  return result.rows.map((row) => ({ clubId: row.club_id, alias: row.alias }));
+}
+
+/**
+ * A club's aliases, oldest first
+ */
+export async function findClubAliases(
+  clubId: number,
+  client: Pick<typeof db, "query"> = db
+): Promise<ClubAlias[]> {
+  const result = await client.query<AliasRow>(
+    "SELECT * FROM club_aliases WHERE club_id = $1 ORDER BY id",
+    [clubId]
+  );
+
+  return result.rows.map(mapRowToAlias);
+}
+
+/**
+ * Add an alias unless its normalized form is already taken
+ *
+ * @returns The new alias, or null if the normalized name exists
+ */
+export async function insertClubAlias(
+  alias: {
+    clubId: number;
+    alias: string;
+    normalizedAlias: string;
+    source: ClubAliasSource;
+  },
+  client: Pick<typeof db, "query"> = db
+): Promise<ClubAlias | null> {
+  const result = await client.query<AliasRow>(
+    `INSERT INTO club_aliases (club_id, alias, normalized_alias, source)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (normalized_alias) DO NOTHING
+     RETURNING *`,
+    [alias.clubId, alias.alias, alias.normalizedAlias, alias.source]
+  );
+
+  return result.rows.length > 0 ? mapRowToAlias(result.rows[0]) : null;
+}
+
+/**
+ * Delete one of a club's aliases
+ *
+ * @returns Whether the alias existed
+ */
+export async function deleteClubAlias(
+  clubId: number,
+  aliasId: number
+): Promise<boolean> {
+  const result = await db.query(
+    "DELETE FROM club_aliases WHERE id = $1 AND club_id = $2",
+    [aliasId, clubId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Lock clubs for the rest of the caller's transaction
+ */
+export async function lockClubs(
+  client: Pick<typeof db, "query">,
+  ids: number[]
+): Promise<void> {
+  await client.query("SELECT id FROM clubs WHERE id = ANY($1) FOR UPDATE", [
+    ids,
+  ]);
+}
+
+/**
+ * Re-point one club's ratings, periods, fixtures, aliases and profile to
+ * another
+ *
+ * Rows that would collide with one the target already has (same date and
+ * source, same period start, same match, a profile) are deleted instead,
+ * as are fixtures between the two clubs. Runs on the caller's transaction
+ * client.
+ */
+export async function moveClubRows(
+  client: Pick<typeof db, "query">,
+  fromId: number,
+  intoId: number
+): Promise<{ moved: ClubMergeCounts; dropped: ClubMergeCounts }> {
+  const count = async (sql: string, params: number[] = [fromId, intoId]) =>
+    (await client.query(sql, params)).rowCount ?? 0;
+
+  const movedRatings = await count(
+    `UPDATE elo_ratings r SET club_id = $2
+     WHERE r.club_id = $1
+       AND NOT EXISTS (
+         SELECT 1 FROM elo_ratings t
+         WHERE t.club_id = $2 AND t.date = r.date AND t.source = r.source
+       )`
+  );
+  const droppedRatings = await count(
+    "DELETE FROM elo_ratings WHERE club_id = $1",
+    [fromId]
+  );
+
+  const movedPeriods = await count(
+    `UPDATE rating_periods p SET club_id = $2
+     WHERE p.club_id = $1
+       AND NOT EXISTS (
+         SELECT 1 FROM rating_periods t
+         WHERE t.club_id = $2 AND t.valid_from = p.valid_from
+       )`
+  );
+  const droppedPeriods = await count(
+    "DELETE FROM rating_periods WHERE club_id = $1",
+    [fromId]
+  );
+
+  const droppedBetween = await count(
+    `DELETE FROM fixtures
+     WHERE (home_club_id = $1 AND away_club_id = $2)
+        OR (home_club_id = $2 AND away_club_id = $1)`
+  );
+  const movedHome = await count(
+    `UPDATE fixtures f SET home_club_id = $2, updated_at = NOW()
+     WHERE f.home_club_id = $1
+       AND NOT EXISTS (
+         SELECT 1 FROM fixtures t
+         WHERE t.home_club_id = $2
+           AND t.away_club_id = f.away_club_id
+           AND t.match_date = f.match_date
+       )`
+  );
+  const movedAway = await count(
+    `UPDATE fixtures f SET away_club_id = $2, updated_at = NOW()
+     WHERE f.away_club_id = $1
+       AND NOT EXISTS (
+         SELECT 1 FROM fixtures t
+         WHERE t.away_club_id = $2
+           AND t.home_club_id = f.home_club_id
+           AND t.match_date = f.match_date
+       )`
+  );
+  const droppedFixtures = await count(
+    "DELETE FROM fixtures WHERE home_club_id = $1 OR away_club_id = $1",
+    [fromId]
+  );
+
+  await count("UPDATE club_aliases SET club_id = $2 WHERE club_id = $1");
+  await count(
+    `UPDATE club_profiles SET club_id = $2
+     WHERE club_id = $1
+       AND NOT EXISTS (SELECT 1 FROM club_profiles WHERE club_id = $2)`
+  );
+
+  return {
+    moved: {
+      eloRatings: movedRatings,
+      ratingPeriods: movedPeriods,
+      fixtures: movedHome + movedAway,
+    },
+    dropped: {
+      eloRatings: droppedRatings,
+      ratingPeriods: droppedPeriods,
+      fixtures: droppedBetween + droppedFixtures,
+    },
+  };
+}
+
+/**
+ * Delete a club (its remaining rows cascade)
+ */
+export async function deleteClub(
+  client: Pick<typeof db, "query">,
+  id: number
+): Promise<void> {
+  await client.query("DELETE FROM clubs WHERE id = $1", [id]);
+}
+
 /**
  * Search clubs with filters
+ *
+ * Ordered by display name, then ID. With a seek key, rows are read after
+ * (or before) that key and still returned in name order.
  */
 export async function searchClubs(options: {
   query?: string;
   country?: string;
   level?: number;
+  seek?: ClubSeek;
   limit: number;
 }): Promise<Club[]> {
   const whereClauses: string[] = [];
@@ -67,20 +284,69 @@ export async function searchClubs(options: {
     params.push(options.level);
   }
 
+  if (options.seek) {
+    const operator = options.seek.direction === "next" ? ">" : "<";
+    whereClauses.push(
+      `(display_name, id) ${operator} ($${params.length + 1}, $${params.length + 2})`
+    );
+    params.push(options.seek.displayName, options.seek.id);
+  }
+
   const whereClause =
     whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
 
+  // Reading backwards walks the other way, then flips the page
+  const backwards = options.seek?.direction === "prev";
+  const order = backwards ? "DESC" : "ASC";
+
   const query = `
     SELECT id, api_name, display_name, country, level
     FROM clubs
     ${whereClause}
-    ORDER BY display_name ASC
+    ORDER BY display_name ${order}, id ${order}
     LIMIT $${params.length + 1}
   `;
   params.push(options.limit);
 
   const result = await db.query<ClubRow>(query, params);
-  return result.rows.map(mapRowToClub);
+  const rows = backwards ? result.rows.reverse() : result.rows;
+
+  return rows.map(mapRowToClub);
+}
+
+/**
+ * Rating history query for one club, oldest first
+ */
+function buildHistoryQuery(
+  clubId: number,
+  options: { from?: string; to?: string; source?: string }
+): { sql: string; params: any[] } {
+  const whereClauses = ["club_id = $1"];
+  const params: any[] = [clubId];
+
+  if (options.from) {
+    whereClauses.push(`date >= $${params.length + 1}`);
+    params.push(options.from);
+  }
+
+  if (options.to) {
+    whereClauses.push(`date <= $${params.length + 1}`);
+    params.push(options.to);
+  }
+
+  if (options.source) {
+    whereClauses.push(`source = $${params.length + 1}`);
+    params.push(options.source);
+  }
+
+  const sql = `
+    SELECT date, elo, rank
+    FROM elo_ratings
+    WHERE ${whereClauses.join(" AND ")}
+    ORDER BY date ASC
+  `;
+
+  return { sql, params };
 }
 
 /**
@@ -91,39 +357,90 @@ export async function getClubHistory(
   options: {
     from?: string;
     to?: string;
+    source?: string;
   }
-): Promise<Array<{ date: string; elo: number; rank: number | null }>> {
+): Promise<ClubHistoryEntry[]> {
+  const { sql, params } = buildHistoryQuery(clubId, options);
+  const result = await db.query<HistoryRow>(sql, params);
+
+  return result.rows.map(mapRowToHistoryEntry);
+}
+
+/**
+ * Stream club Elo rating history (for exports)
+ */
+export function streamClubHistory(
+  clubId: number,
+  options: {
+    from?: string;
+    to?: string;
+    source?: string;
+  }
+): AsyncIterable<ClubHistoryEntry> {
+  const { sql, params } = buildHistoryQuery(clubId, options);
+
+  return mapStream(streamQuery<HistoryRow>(sql, params), mapRowToHistoryEntry);
+}
+
+/**
+ * Rating periods query for one club, overlapping a date range
+ */
+function buildPeriodsQuery(
+  clubId: number,
+  options: { from?: string; to?: string }
+): { sql: string; params: any[] } {
   const whereClauses = ["club_id = $1"];
   const params: any[] = [clubId];
 
   if (options.from) {
-    whereClauses.push(`date >= $${params.length + 1}`);
+    whereClauses.push(`valid_to >= $${params.length + 1}`);
     params.push(options.from);
   }
 
   if (options.to) {
-    whereClauses.push(`date <= $${params.length + 1}`);
+    whereClauses.push(`valid_from <= $${params.length + 1}`);
     params.push(options.to);
   }
 
-  const query = `
-    SELECT date, elo, rank
-    FROM elo_ratings
+  const sql = `
+    SELECT valid_from, valid_to, elo, rank
+    FROM rating_periods
     WHERE ${whereClauses.join(" AND ")}
-    ORDER BY date ASC
+    ORDER BY valid_from ASC
   `;
 
-  const result = await db.query<{
-    date: Date;
-    elo: string;
-    rank: number | null;
-  }>(query, params);
+  return { sql, params };
+}
 
-  return result.rows.map((row) => ({
-    date: formatDateOnly(row.date)!,
-    elo: parseFloat(row.elo),
-    rank: row.rank,
-  }));
+/**
+ * Get a club's ClubElo rating periods overlapping a date range
+ */
+export async function getClubPeriods(
+  clubId: number,
+  options: {
+    from?: string;
+    to?: string;
+  }
+): Promise<ClubRatingPeriod[]> {
+  const { sql, params } = buildPeriodsQuery(clubId, options);
+  const result = await db.query<PeriodRow>(sql, params);
+
+  return result.rows.map(mapRowToPeriod);
+}
+
+/**
+ * Stream a club's ClubElo rating periods (for exports)
+ */
+export function streamClubPeriods(
+  clubId: number,
+  options: {
+    from?: string;
+    to?: string;
+  }
+): AsyncIterable<ClubRatingPeriod> {
+  const { sql, params } = buildPeriodsQuery(clubId, options);
+
+  return mapStream(streamQuery<PeriodRow>(sql, params), mapRowToPeriod);
 }
 
 /**
@@ -158,6 +475,139 @@ export async function upsertClub(club: {
   return result.rows[0].id;
 }
 
+/**
+ * Upsert many clubs in one statement
+ *
+ * Used by the daily snapshot import. Runs on the caller's transaction client
+ * so the clubs and their ratings are committed together. API names must be
+ * unique within the batch. Rows are written in API name order, so two
+ * imports running at once lock them in the same order and cannot deadlock.
+ *
+ * @returns Club IDs keyed by API name
+ */
+export async function upsertClubs(
+  clubs: Array<{
+    apiName: string;
+    displayName: string;
+    country: string;
+    level: number;
+  }>,
+  client: Pick<typeof db, "query"> = db
+): Promise<Map<string, number>> {
+  if (clubs.length === 0) {
+    return new Map();
+  }
+
+  const query = `
+    INSERT INTO clubs (api_name, display_name, country, level)
+    SELECT * FROM unnest($1::text[], $2::text[], $3::text[], $4::int[])
+    ON CONFLICT (api_name)
+    DO UPDATE SET
+      display_name = EXCLUDED.display_name,
+      country = EXCLUDED.country,
+      level = EXCLUDED.level
+    RETURNING id, api_name
+  `;
+
+  const ordered = [...clubs].sort((a, b) => a.apiName.localeCompare(b.apiName));
+
+  const result = await client.query<{ id: number; api_name: string }>(query, [
+    ordered.map((club) => club.apiName),
+    ordered.map((club) => club.displayName),
+    ordered.map((club) => club.country),
+    ordered.map((club) => club.level),
+  ]);
+
+  return new Map(result.rows.map((row) => [row.api_name, row.id]));
+}
+
+/**
+ * A club's profile
+ */
+export async function findClubProfile(
+  clubId: number
+): Promise<ClubProfile | null> {
+  const result = await db.query<ProfileRow>(
+    "SELECT * FROM club_profiles WHERE club_id = $1",
+    [clubId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return mapRowToProfile(result.rows[0]);
+}
+
+/**
+ * Every club profile, by API name
+ */
+export async function findAllClubProfiles(): Promise<ClubProfileEntry[]> {
+  const result = await db.query<ProfileRow>(
+    `SELECT p.*, c.api_name
+     FROM club_profiles p
+     JOIN clubs c ON c.id = p.club_id
+     ORDER BY c.api_name`
+  );
+
+  return result.rows.map((row) => ({
+    clubId: row.club_id,
+    apiName: row.api_name!,
+    ...mapRowToProfile(row),
+  }));
+}
+
+/**
+ * Insert or replace club profiles in one statement
+ *
+ * Every field is overwritten, so a blank field in the seed clears it.
+ *
+ * @returns Number of profiles written
+ */
+export async function upsertClubProfiles(
+  profiles: Array<ClubProfile & { clubId: number }>,
+  client: Pick<typeof db, "query"> = db
+): Promise<number> {
+  if (profiles.length === 0) {
+    return 0;
+  }
+
+  const result = await client.query(
+    `INSERT INTO club_profiles (
+       club_id, full_name, short_name, city, stadium, founded_year,
+       primary_color, secondary_color, crest_path
+     )
+     SELECT * FROM unnest(
+       $1::int[], $2::text[], $3::text[], $4::text[], $5::text[], $6::int[],
+       $7::text[], $8::text[], $9::text[]
+     )
+     ON CONFLICT (club_id)
+     DO UPDATE SET
+       full_name = EXCLUDED.full_name,
+       short_name = EXCLUDED.short_name,
+       city = EXCLUDED.city,
+       stadium = EXCLUDED.stadium,
+       founded_year = EXCLUDED.founded_year,
+       primary_color = EXCLUDED.primary_color,
+       secondary_color = EXCLUDED.secondary_color,
+       crest_path = EXCLUDED.crest_path,
+       updated_at = NOW()`,
+    [
+      profiles.map((p) => p.clubId),
+      profiles.map((p) => p.fullName),
+      profiles.map((p) => p.shortName),
+      profiles.map((p) => p.city),
+      profiles.map((p) => p.stadium),
+      profiles.map((p) => p.foundedYear),
+      profiles.map((p) => p.primaryColor),
+      profiles.map((p) => p.secondaryColor),
+      profiles.map((p) => p.crestPath),
+    ]
+  );
+
+  return result.rowCount ?? 0;
+}
+
 /**
  * Map database row to Club DTO
  */
@@ -170,3 +620,55 @@ function mapRowToClub(row: ClubRow): Club {
     level: row.level,
   };
 }
+
+/**
+ * Map database row to ClubAlias DTO
+ */
+function mapRowToAlias(row: AliasRow): ClubAlias {
+  return {
+    id: row.id,
+    clubId: row.club_id,
+    alias: row.alias,
+    source: row.source,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Map database row to ClubProfile DTO
+ */
+function mapRowToProfile(row: ProfileRow): ClubProfile {
+  return {
+    fullName: row.full_name,
+    shortName: row.short_name,
+    city: row.city,
+    stadium: row.stadium,
+    foundedYear: row.founded_year,
+    primaryColor: row.primary_color,
+    secondaryColor: row.secondary_color,
+    crestPath: row.crest_path,
+  };
+}
+
+/**
+ * Map database row to ClubHistoryEntry DTO
+ */
+function mapRowToHistoryEntry(row: HistoryRow): ClubHistoryEntry {
+  return {
+    date: formatDateOnly(row.date)!,
+    elo: parseFloat(row.elo),
+    rank: row.rank,
+  };
+}
+
+/**
+ * Map database row to ClubRatingPeriod DTO
+ */
+function mapRowToPeriod(row: PeriodRow): ClubRatingPeriod {
+  return {
+    from: formatDateOnly(row.valid_from)!,
+    to: formatDateOnly(row.valid_to)!,
+    elo: parseFloat(row.elo),
+    rank: row.rank,
+  };
+}
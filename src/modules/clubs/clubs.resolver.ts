@@ -0,0 +1,181 @@
+/**
+ * Club Name Resolution
+ *
+ * PURE FUNCTIONS - Match club names from feeds and URLs to stored clubs,
+ * ignoring accents, case, spaces and punctuation, and suggest near misses.
+ * No database or HTTP access here.
+ */
+
+import { Club, ClubNameSuggestion } from "./clubs.types";
+
+/**
+ * Suggestions scoring below this are left out
+ */
+export const MIN_SUGGESTION_SCORE = 0.6;
+
+// Letters NFKD does not split into a base letter and an accent
+const FOLDED_LETTERS: Record<string, string> = {
+  ø: "o",
+  æ: "ae",
+  œ: "oe",
+  ß: "ss",
+  ð: "d",
+  đ: "d",
+  þ: "th",
+  ł: "l",
+  ı: "i",
+};
+
+/**
+ * Comparable form of a club name
+ *
+ * "Bodø/Glimt", "BODO GLIMT" and "BodoGlimt" all become "bodoglimt".
+ */
+export function normalizeClubName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[øæœßðđþłı]/g, (letter) => FOLDED_LETTERS[letter])
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Levenshtein edit distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two normalized names, 0-1
+ *
+ * One minus the edit distance over the longer length. A name that starts
+ * with the other ("bayern" / "bayernmunich") scores at least 0.7.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) {
+    return 0;
+  }
+
+  const longer = Math.max(a.length, b.length);
+  const score = 1 - editDistance(a, b) / longer;
+
+  if (a.startsWith(b) || b.startsWith(a)) {
+    return Math.max(score, 0.7);
+  }
+
+  return score;
+}
+
+/**
+ * Lookup of clubs by any of their names
+ */
+export interface ClubNameIndex {
+  /** Club with this name, ignoring accents, case and punctuation */
+  resolve(name: string): Club | null;
+  /** Closest clubs by name, best first */
+  suggest(name: string, limit?: number): ClubNameSuggestion[];
+  /** Make a newly created club resolvable */
+  add(club: Club): void;
+}
+
+// Lower wins when two clubs share a normalized name
+const PRIORITY = { apiName: 0, alias: 1, displayName: 2 };
+
+/**
+ * Build a name index from clubs and their aliases
+ *
+ * An exact API name always resolves to its own club. Otherwise a
+ * normalized name belongs to the club whose API name it is, then the club
+ * it is an alias of, then the club it is the display name of (lowest ID on
+ * a tie).
+ */
+export function createClubNameIndex(
+  clubs: Club[],
+  aliases: Array<{ clubId: number; alias: string }>
+): ClubNameIndex {
+  const clubsById = new Map<number, Club>();
+  const clubsByApiName = new Map<string, Club>();
+  const entries = new Map<
+    string,
+    { club: Club; name: string; priority: number }
+  >();
+
+  const addName = (club: Club, name: string, priority: number) => {
+    const key = normalizeClubName(name);
+    const existing = entries.get(key);
+
+    if (
+      key &&
+      (!existing ||
+        priority < existing.priority ||
+        (priority === existing.priority && club.id < existing.club.id))
+    ) {
+      entries.set(key, { club, name, priority });
+    }
+  };
+
+  const addClub = (club: Club) => {
+    clubsById.set(club.id, club);
+    clubsByApiName.set(club.apiName, club);
+    addName(club, club.apiName, PRIORITY.apiName);
+    addName(club, club.displayName, PRIORITY.displayName);
+  };
+
+  clubs.forEach(addClub);
+
+  for (const { clubId, alias } of aliases) {
+    const club = clubsById.get(clubId);
+    if (club) {
+      addName(club, alias, PRIORITY.alias);
+    }
+  }
+
+  return {
+    resolve(name) {
+      return (
+        clubsByApiName.get(name) ||
+        entries.get(normalizeClubName(name))?.club ||
+        null
+      );
+    },
+
+    suggest(name, limit = 5) {
+      const key = normalizeClubName(name);
+      const best = new Map<number, ClubNameSuggestion>();
+
+      for (const [entryKey, entry] of entries) {
+        const score = Math.round(nameSimilarity(key, entryKey) * 1000) / 1000;
+        const current = best.get(entry.club.id);
+
+        if (
+          score >= MIN_SUGGESTION_SCORE &&
+          (!current || score > current.score)
+        ) {
+          best.set(entry.club.id, { club: entry.club, name: entry.name, score });
+        }
+      }
+
+      return Array.from(best.values())
+        .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+        .slice(0, limit);
+    },
+
+    add: addClub,
+  };
+}
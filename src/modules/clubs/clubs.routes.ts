@@ -8,11 +8,33 @@
 
 import { Router, Request, Response } from "express";
 import * as clubsService from "./clubs.service";
-import { asyncHandler } from "../../shared/middleware/error-handler";
-import { validateDateRange } from "../../shared/middleware/validation";
+import { rankingsService } from "../rankings";
+import { ApiError, asyncHandler } from "../../shared/middleware/error-handler";
+import { snapshotCacheHeaders } from "../../shared/middleware/cache-headers";
+import {
+  negotiateExportFormat,
+  sendExport,
+} from "../../shared/middleware/export";
+import {
+  validateDateRange,
+  validateSource,
+} from "../../shared/middleware/validation";
 
 const router = Router();
 
+/**
+ * CSV columns of exported history (ClubHistoryEntry / ClubRatingPeriod)
+ */
+const HISTORY_COLUMNS = ["date", "elo", "rank"];
+const PERIOD_COLUMNS = ["from", "to", "elo", "rank"];
+
+/**
+ * ETag / Last-Modified from the latest snapshot date, with 304 support
+ */
+const cacheHeaders = snapshotCacheHeaders(
+  rankingsService.getLatestSnapshotDate
+);
+
 /**
  * GET /api/elo/clubs
  *
@@ -22,31 +44,124 @@ const router = Router();
  *   - q: Search query (searches in display name), optional
  *   - country: Filter by country code, optional
  *   - level: Filter by league level, optional
- *   - limit: Maximum number of results, optional. Defaults to 100.
+ *   - limit: Maximum number of results (1-1000), optional. Defaults to 100.
+ *   - cursor: Keyset cursor from a previous response's nextCursor /
+ *     prevCursor, optional. Pass an empty cursor to start; the response then
+ *     carries pagination.nextCursor and pagination.prevCursor.
  *
  * Example:
  *   GET /api/elo/clubs?q=Man
  *   GET /api/elo/clubs?country=ENG&limit=50
+ *   GET /api/elo/clubs?country=ENG&limit=50&cursor=
  */
 router.get(
   "/",
+  cacheHeaders,
   asyncHandler(async (req: Request, res: Response) => {
-    const { q, country, level: levelParam, limit: limitParam } = req.query;
+    const {
+      q,
+      country,
+      level: levelParam,
+      limit: limitParam,
+      cursor,
+    } = req.query;
 
     const level = levelParam ? parseInt(levelParam as string, 10) : undefined;
     const limit = limitParam ? parseInt(limitParam as string, 10) : undefined;
 
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 1000)) {
+      throw new ApiError(400, "Limit must be between 1 and 1000");
+    }
+
+    if (cursor !== undefined && typeof cursor !== "string") {
+      throw new ApiError(400, "Cursor must be a single value");
+    }
+
     const result = await clubsService.searchClubs({
       query: q as string | undefined,
       country: country as string | undefined,
       level,
       limit,
+      cursor,
     });
 
     res.json(result);
   })
 );
 
+/**
+ * GET /api/elo/clubs/resolve
+ *
+ * Match a club name to a stored club, ignoring accents, case, spaces and
+ * punctuation. API names, display names and aliases all match. The closest
+ * names come back as suggestions whether or not there is a match.
+ *
+ * Query parameters:
+ *   - name: Club name (required)
+ *   - limit: Maximum number of suggestions (1-20), optional. Defaults to 5.
+ *
+ * Example:
+ *   GET /api/elo/clubs/resolve?name=Bodo%20Glimt
+ *   GET /api/elo/clubs/resolve?name=Man%20City&limit=3
+ */
+router.get(
+  "/resolve",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, limit: limitParam } = req.query;
+
+    if (typeof name !== "string" || !name.trim()) {
+      throw new ApiError(400, "Name is required");
+    }
+
+    const limit = limitParam ? parseInt(limitParam as string, 10) : undefined;
+
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 20)) {
+      throw new ApiError(400, "Limit must be between 1 and 20");
+    }
+
+    const result = await clubsService.resolveClubName(name, limit);
+    res.json(result);
+  })
+);
+
+/**
+ * GET /api/elo/clubs/profiles
+ *
+ * Every club profile (full and short name, city, stadium, founding year,
+ * colours, crest), with each club's ID and API name. Pages load this once
+ * to label and decorate rankings, fixtures and club lists.
+ *
+ * Example:
+ *   GET /api/elo/clubs/profiles
+ */
+router.get(
+  "/profiles",
+  asyncHandler(async (_req: Request, res: Response) => {
+    const result = await clubsService.listClubProfiles();
+    res.json(result);
+  })
+);
+
+/**
+ * GET /api/elo/clubs/:id
+ *
+ * Get a club with its profile. profile is null until one is seeded.
+ *
+ * Path parameters:
+ *   - id: Club ID (integer) or name (string)
+ *
+ * Example:
+ *   GET /api/elo/clubs/ManCity
+ *   GET /api/elo/clubs/1
+ */
+router.get(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await clubsService.getClubDetails(req.params.id);
+    res.json(result);
+  })
+);
+
 /**
  * GET /api/elo/clubs/:id/history
  *
@@ -58,22 +173,119 @@ router.get(
  * Query parameters:
  *   - from: Start date (YYYY-MM-DD), optional. Defaults to earliest.
  *   - to: End date (YYYY-MM-DD), optional. Defaults to latest.
+ *   - source: Rating source ("clubelo" or "internal"), optional. Defaults to "clubelo".
+ *   - format: "points" (one entry per rating date) or "intervals" (ClubElo
+ *     From/To periods, for step charts), optional. Defaults to "points".
+ *     "csv" / "ndjson" stream the points as a file. For other formats of
+ *     intervals, send Accept: text/csv or application/x-ndjson.
  *
  * Example:
  *   GET /api/elo/clubs/1/history?from=2024-01-01&to=2024-12-31
  *   GET /api/elo/clubs/ManCity/history
+ *   GET /api/elo/clubs/ManCity/history?source=internal
+ *   GET /api/elo/clubs/ManCity/history?format=intervals&from=2020-01-01
+ *   GET /api/elo/clubs/ManCity/history?format=csv
  */
 router.get(
   "/:id/history",
   validateDateRange,
+  validateSource(),
+  cacheHeaders,
   asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { from, to } = req.query;
+    const { from, to, source, format } = req.query;
+
+    if (
+      format !== undefined &&
+      !["points", "intervals", "json", "csv", "ndjson"].includes(
+        format as string
+      )
+    ) {
+      throw new ApiError(
+        400,
+        "Format must be points, intervals, json, csv or ndjson"
+      );
+    }
+
+    // "format" picks the shape here; csv / ndjson imply points
+    const intervals = format === "intervals";
+    const output = negotiateExportFormat(
+      req,
+      res,
+      format === "points" || intervals ? undefined : format
+    );
+    const args = [
+      id,
+      from as string | undefined,
+      to as string | undefined,
+      (source as string | undefined) || undefined,
+    ] as const;
+
+    if (output !== "json") {
+      if (intervals) {
+        const exported = await clubsService.exportClubHistoryIntervals(...args);
+
+        return sendExport(res, output, exported.periods, {
+          columns: PERIOD_COLUMNS,
+          filename: `${exported.club.apiName}-intervals`,
+        });
+      }
+
+      const exported = await clubsService.exportClubHistory(...args);
+
+      return sendExport(res, output, exported.history, {
+        columns: HISTORY_COLUMNS,
+        filename: `${exported.club.apiName}-history`,
+      });
+    }
+
+    if (intervals) {
+      const result = await clubsService.getClubHistoryIntervals(...args);
+
+      return res.json(result);
+    }
+
+    const result = await clubsService.getClubHistory(...args);
+
+    res.json(result);
+  })
+);
+
+/**
+ * GET /api/elo/clubs/:id/compare/:otherId
+ *
+ * Compare two clubs head to head: both histories aligned on common dates,
+ * the current Elo gap, the largest and smallest gaps over time and the
+ * win/draw/loss probability if they met today.
+ *
+ * Path parameters:
+ *   - id: Club ID (integer) or API name (string)
+ *   - otherId: Other club ID (integer) or API name (string)
+ *
+ * Query parameters:
+ *   - from: Start date (YYYY-MM-DD), optional. Defaults to earliest.
+ *   - to: End date (YYYY-MM-DD), optional. Defaults to latest.
+ *   - source: Rating source ("clubelo" or "internal"), optional. Defaults to "clubelo".
+ *
+ * Example:
+ *   GET /api/elo/clubs/ManCity/compare/Liverpool
+ *   GET /api/elo/clubs/1/compare/2?from=2020-01-01
+ */
+router.get(
+  "/:id/compare/:otherId",
+  validateDateRange,
+  validateSource(),
+  cacheHeaders,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, otherId } = req.params;
+    const { from, to, source } = req.query;
 
-    const result = await clubsService.getClubHistory(
+    const result = await clubsService.compareClubs(
       id,
+      otherId,
       from as string | undefined,
-      to as string | undefined
+      to as string | undefined,
+      (source as string | undefined) || undefined
     );
 
     res.json(result);
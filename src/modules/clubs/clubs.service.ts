@@ -2,6 +2,7 @@
  * Clubs Service
  *
  * BUSINESS LOGIC LAYER - Orchestrates operations for clubs domain.
+ * Club lists and histories are cached until the next import.
  *
  * RULE: No SQL here - only business logic and orchestration.
  */
@@ -12,16 +13,70 @@ import {
   ClubSearchFilters,
   ClubListResponse,
   ClubHistoryResponse,
+  ClubHistoryEntry,
+  ClubHistoryIntervalsResponse,
+  ClubHistoryExport,
+  ClubHistoryIntervalsExport,
+  ClubComparisonPoint,
+  ClubComparisonProbabilities,
+  ClubComparisonResponse,
+  ClubAliasesResponse,
+  ClubAlias,
+  ClubResolution,
+  ClubMergeResult,
+  ClubDetails,
+  ClubProfile,
+  ClubProfileSeed,
+  ClubProfileSeedSummary,
+  ClubProfilesResponse,
 } from "./clubs.types";
+import {
+  createClubNameIndex,
+  normalizeClubName,
+  ClubNameIndex,
+} from "./clubs.resolver";
+import { matchProbabilities } from "../fixtures";
+import { cached, invalidateCache } from "../../shared/cache/response-cache";
+import { withTransaction } from "../../shared/database/transaction";
 import { ApiError } from "../../shared/middleware/error-handler";
+import {
+  decodeCursor,
+  toKeysetPage,
+  KeysetCursor,
+} from "../../shared/utils/cursor";
 import { logger } from "../../shared/utils/logger";
 
 /**
- * Get a club by ID or API name
+ * Sort key stored in a club list cursor
+ */
+interface ClubCursorKey {
+  name: string;
+  id: number;
+}
+
+/**
+ * Load a name index of every club and alias
+ *
+ * Importers build one per run and add the clubs they create to it.
+ */
+export async function createClubResolver(): Promise<ClubNameIndex> {
+  const [clubs, aliases] = await Promise.all([
+    clubsRepo.findAllClubs(),
+    clubsRepo.findAllAliasNames(),
+  ]);
+
+  return createClubNameIndex(clubs, aliases);
+}
+
+/**
+ * Get a club by ID or name
  *
- * @param identifier - Club ID (number) or API name (string)
+ * Names are tried as an exact API name first, then resolved against API
+ * names, display names and aliases ignoring accents, case and punctuation.
+ *
+ * @param identifier - Club ID (number) or name (string)
  * @returns Club if found
- * @throws ApiError if club not found
+ * @throws ApiError if club not found, with close name suggestions
  */
 export async function getClub(identifier: number | string): Promise<Club> {
   logger.debug("Fetching club", { identifier });
@@ -37,6 +92,19 @@ export async function getClub(identifier: number | string): Promise<Club> {
       club = await clubsRepo.findClubById(id);
     } else {
       club = await clubsRepo.findClubByApiName(identifier);
+
+      if (!club) {
+        const resolver = await createClubResolver();
+        club = resolver.resolve(identifier);
+
+        if (!club) {
+          throw new ApiError(404, "Club not found", {
+            suggestions: resolver
+              .suggest(identifier)
+              .map((suggestion) => suggestion.club.apiName),
+          });
+        }
+      }
     }
   }
 
@@ -47,27 +115,302 @@ export async function getClub(identifier: number | string): Promise<Club> {
   return club;
 }
 
+/**
+ * Resolve a club name, with the closest names as suggestions
+ *
+ * @param name - API name, display name or alias, in any accents / case
+ * @param limit - Maximum number of suggestions
+ */
+export async function resolveClubName(
+  name: string,
+  limit: number = 5
+): Promise<ClubResolution> {
+  const resolver = await createClubResolver();
+
+  return {
+    query: name,
+    club: resolver.resolve(name),
+    suggestions: resolver.suggest(name, limit),
+  };
+}
+
+/**
+ * List a club's aliases
+ *
+ * @throws ApiError if club not found
+ */
+export async function listClubAliases(
+  identifier: number | string
+): Promise<ClubAliasesResponse> {
+  const club = await getClub(identifier);
+
+  return { club, aliases: await clubsRepo.findClubAliases(club.id) };
+}
+
+/**
+ * Add an alias to a club
+ *
+ * @throws ApiError if club not found, the alias has no letters or digits,
+ *   or the name already resolves to a club
+ */
+export async function addClubAlias(
+  identifier: number | string,
+  alias: string
+): Promise<ClubAlias> {
+  const club = await getClub(identifier);
+  const normalizedAlias = normalizeClubName(alias);
+
+  if (!normalizedAlias) {
+    throw new ApiError(400, "Alias must contain letters or digits");
+  }
+
+  const existing = (await createClubResolver()).resolve(alias);
+  if (existing) {
+    throw new ApiError(
+      409,
+      `"${alias}" already refers to ${existing.apiName}`,
+      { clubId: existing.id }
+    );
+  }
+
+  const created = await clubsRepo.insertClubAlias({
+    clubId: club.id,
+    alias: alias.trim(),
+    normalizedAlias,
+    source: "manual",
+  });
+
+  // Lost a race with another request adding the same name
+  if (!created) {
+    throw new ApiError(409, `"${alias}" already refers to another club`);
+  }
+
+  await invalidateCache(`alias ${alias} added to ${club.apiName}`);
+
+  return created;
+}
+
+/**
+ * Remove one of a club's aliases
+ *
+ * @throws ApiError if the club or alias is not found
+ */
+export async function removeClubAlias(
+  identifier: number | string,
+  aliasId: number
+): Promise<void> {
+  const club = await getClub(identifier);
+
+  if (!(await clubsRepo.deleteClubAlias(club.id, aliasId))) {
+    throw new ApiError(404, "Alias not found");
+  }
+
+  await invalidateCache(`alias ${aliasId} removed from ${club.apiName}`);
+}
+
+/**
+ * Merge a duplicate club into another
+ *
+ * The duplicate's ratings, rating periods, fixtures, aliases and profile
+ * move to the kept club in one transaction; where the kept club already
+ * has a row for the same date or match, or a profile, the kept club's row
+ * wins. The duplicate is then deleted and its API and display names
+ * become aliases, so imports using them resolve to the kept club.
+ *
+ * @param from - Club to merge in and delete
+ * @param into - Club to keep
+ * @throws ApiError if either club is not found or both are the same
+ */
+export async function mergeClubs(
+  from: number | string,
+  into: number | string
+): Promise<ClubMergeResult> {
+  const merged = await getClub(from);
+  const club = await getClub(into);
+
+  if (merged.id === club.id) {
+    throw new ApiError(400, "Cannot merge a club into itself");
+  }
+
+  const result = await withTransaction(async (client) => {
+    await clubsRepo.lockClubs(client, [merged.id, club.id]);
+    const counts = await clubsRepo.moveClubRows(client, merged.id, club.id);
+    await clubsRepo.deleteClub(client, merged.id);
+
+    for (const name of new Set([merged.apiName, merged.displayName])) {
+      const normalizedAlias = normalizeClubName(name);
+      if (normalizedAlias) {
+        await clubsRepo.insertClubAlias(
+          { clubId: club.id, alias: name, normalizedAlias, source: "merge" },
+          client
+        );
+      }
+    }
+
+    return {
+      ...counts,
+      aliases: await clubsRepo.findClubAliases(club.id, client),
+    };
+  });
+
+  logger.info(`Merged club ${merged.apiName} into ${club.apiName}`, {
+    moved: result.moved,
+    dropped: result.dropped,
+  });
+  await invalidateCache(`club ${merged.apiName} merged into ${club.apiName}`);
+
+  return { club, merged, ...result };
+}
+
+/**
+ * Get a club with its profile
+ *
+ * @param identifier - Club ID (number) or name (string)
+ * @throws ApiError if club not found
+ */
+export async function getClubDetails(
+  identifier: number | string
+): Promise<ClubDetails> {
+  return cached("clubs.getClubDetails", { identifier }, async () => {
+    const club = await getClub(identifier);
+
+    return { ...club, profile: await clubsRepo.findClubProfile(club.id) };
+  });
+}
+
+/**
+ * Every club profile, for pages that show many clubs at once
+ */
+export async function listClubProfiles(): Promise<ClubProfilesResponse> {
+  return cached("clubs.listClubProfiles", {}, async () => ({
+    profiles: await clubsRepo.findAllClubProfiles(),
+  }));
+}
+
+/**
+ * Store profiles from a seed file
+ *
+ * Seed names are resolved like any other club name. Names that match no
+ * club are skipped and reported (import the club first); a seed with two
+ * rows for the same club is rejected.
+ */
+export async function seedClubProfiles(
+  seeds: ClubProfileSeed[]
+): Promise<ClubProfileSeedSummary> {
+  const resolver = await createClubResolver();
+  const profiles = new Map<number, ClubProfile & { clubId: number }>();
+  const unknownClubs: string[] = [];
+
+  for (const { club: name, ...profile } of seeds) {
+    const club = resolver.resolve(name);
+
+    if (!club) {
+      unknownClubs.push(name);
+      continue;
+    }
+
+    if (profiles.has(club.id)) {
+      throw new Error(`Seed has more than one profile for ${club.apiName}`);
+    }
+
+    profiles.set(club.id, { clubId: club.id, ...profile });
+  }
+
+  const seeded = await clubsRepo.upsertClubProfiles(
+    Array.from(profiles.values())
+  );
+
+  if (unknownClubs.length > 0) {
+    logger.warn(`No club found for ${unknownClubs.length} profiles`, {
+      unknownClubs,
+    });
+  }
+  if (seeded > 0) {
+    await invalidateCache(`${seeded} club profiles seeded`);
+  }
+
+  return { seeded, unknownClubs };
+}
+
 /**
  * Search/list clubs with filters
  *
+ * With a cursor ("" for the first page) the list is paged by keyset and
+ * the response carries next / previous cursors.
+ *
  * @param filters - Search and filter options
  * @returns List of clubs matching filters
  */
 export async function searchClubs(
   filters: ClubSearchFilters
+): Promise<ClubListResponse> {
+  return cached("clubs.searchClubs", filters, () => loadClubs(filters));
+}
+
+async function loadClubs(
+  filters: ClubSearchFilters
 ): Promise<ClubListResponse> {
   const limit = filters.limit || 100;
 
   logger.debug("Searching clubs", { filters });
 
-  const clubs = await clubsRepo.searchClubs({
+  const options = {
     query: filters.query,
     country: filters.country,
     level: filters.level,
-    limit,
+  };
+
+  if (filters.cursor === undefined) {
+    const clubs = await clubsRepo.searchClubs({ ...options, limit });
+
+    return { clubs };
+  }
+
+  const cursor = filters.cursor ? parseClubCursor(filters.cursor) : null;
+
+  // One extra row shows whether another page follows
+  const rows = await clubsRepo.searchClubs({
+    ...options,
+    seek: cursor
+      ? {
+          displayName: cursor.key.name,
+          id: cursor.key.id,
+          direction: cursor.direction,
+        }
+      : undefined,
+    limit: limit + 1,
   });
+  const page = toKeysetPage(rows, limit, cursor, (club) => ({
+    name: club.displayName,
+    id: club.id,
+  }));
 
-  return { clubs };
+  return {
+    clubs: page.items,
+    pagination: {
+      pageSize: limit,
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+    },
+  };
+}
+
+/**
+ * Decode a club list cursor from a request
+ *
+ * @throws ApiError if the cursor was not issued by this endpoint
+ */
+function parseClubCursor(value: string): KeysetCursor<ClubCursorKey> {
+  const cursor = decodeCursor<ClubCursorKey>(
+    value,
+    (key) => typeof key?.name === "string" && Number.isInteger(key.id)
+  );
+
+  if (!cursor) {
+    throw new ApiError(400, "Invalid cursor");
+  }
+
+  return cursor;
 }
 
 /**
@@ -76,12 +419,27 @@ export async function searchClubs(
  * @param identifier - Club ID or API name
  * @param from - Start date (YYYY-MM-DD), optional
  * @param to - End date (YYYY-MM-DD), optional
+ * @param source - Rating source, optional. Defaults to "clubelo".
  * @returns Club info and history
  */
 export async function getClubHistory(
   identifier: number | string,
   from?: string,
-  to?: string
+  to?: string,
+  source: string = "clubelo"
+): Promise<ClubHistoryResponse> {
+  return cached(
+    "clubs.getClubHistory",
+    { identifier, from, to, source },
+    () => loadClubHistory(identifier, from, to, source)
+  );
+}
+
+async function loadClubHistory(
+  identifier: number | string,
+  from: string | undefined,
+  to: string | undefined,
+  source: string
 ): Promise<ClubHistoryResponse> {
   // First, get the club
   const club = await getClub(identifier);
@@ -90,13 +448,281 @@ export async function getClubHistory(
     clubId: club.id,
     from,
     to,
+    source,
   });
 
   // Then get its history
-  const history = await clubsRepo.getClubHistory(club.id, { from, to });
+  const history = await clubsRepo.getClubHistory(club.id, {
+    from,
+    to,
+    source,
+  });
 
   return {
     club,
+    source,
     history,
   };
 }
+
+/**
+ * Get a club's rating history as From/To intervals
+ *
+ * Each period is the span of days a ClubElo rating applied, which suits
+ * step charts and answers "what was the rating on day X" exactly.
+ *
+ * @param identifier - Club ID or API name
+ * @param from - Start date (YYYY-MM-DD), optional
+ * @param to - End date (YYYY-MM-DD), optional
+ * @param source - Rating source, optional. Only "clubelo" has intervals.
+ * @throws ApiError if club not found or the source has no intervals
+ */
+export async function getClubHistoryIntervals(
+  identifier: number | string,
+  from?: string,
+  to?: string,
+  source: string = "clubelo"
+): Promise<ClubHistoryIntervalsResponse> {
+  return cached(
+    "clubs.getClubHistoryIntervals",
+    { identifier, from, to, source },
+    () => loadClubHistoryIntervals(identifier, from, to, source)
+  );
+}
+
+async function loadClubHistoryIntervals(
+  identifier: number | string,
+  from: string | undefined,
+  to: string | undefined,
+  source: string
+): Promise<ClubHistoryIntervalsResponse> {
+  if (source !== "clubelo") {
+    throw new ApiError(
+      400,
+      "Interval history is only available for the clubelo source"
+    );
+  }
+
+  const club = await getClub(identifier);
+
+  logger.debug("Fetching club rating periods", { clubId: club.id, from, to });
+
+  const periods = await clubsRepo.getClubPeriods(club.id, { from, to });
+
+  return {
+    club,
+    source,
+    format: "intervals",
+    periods,
+  };
+}
+
+/**
+ * Stream a club's full rating history, for CSV / NDJSON exports
+ *
+ * The club is looked up first, so an unknown club is still a 404 before
+ * anything is written. Not cached.
+ *
+ * @param identifier - Club ID or API name
+ * @param from - Start date (YYYY-MM-DD), optional
+ * @param to - End date (YYYY-MM-DD), optional
+ * @param source - Rating source, optional. Defaults to "clubelo".
+ * @throws ApiError if club not found
+ */
+export async function exportClubHistory(
+  identifier: number | string,
+  from?: string,
+  to?: string,
+  source: string = "clubelo"
+): Promise<ClubHistoryExport> {
+  const club = await getClub(identifier);
+
+  logger.debug("Exporting club history", { clubId: club.id, from, to, source });
+
+  return {
+    club,
+    source,
+    history: clubsRepo.streamClubHistory(club.id, { from, to, source }),
+  };
+}
+
+/**
+ * Stream a club's rating periods, for CSV / NDJSON exports
+ *
+ * @throws ApiError if club not found or the source has no intervals
+ */
+export async function exportClubHistoryIntervals(
+  identifier: number | string,
+  from?: string,
+  to?: string,
+  source: string = "clubelo"
+): Promise<ClubHistoryIntervalsExport> {
+  if (source !== "clubelo") {
+    throw new ApiError(
+      400,
+      "Interval history is only available for the clubelo source"
+    );
+  }
+
+  const club = await getClub(identifier);
+
+  logger.debug("Exporting club rating periods", { clubId: club.id, from, to });
+
+  return {
+    club,
+    source,
+    periods: clubsRepo.streamClubPeriods(club.id, { from, to }),
+  };
+}
+
+/**
+ * Compare two clubs' Elo ratings over time
+ *
+ * Aligns both histories on the dates where each club has a rating and
+ * estimates the result if they met today.
+ *
+ * @param identifier - Club ID or API name
+ * @param otherIdentifier - Other club ID or API name
+ * @param from - Start date (YYYY-MM-DD), optional
+ * @param to - End date (YYYY-MM-DD), optional
+ * @param source - Rating source, optional. Defaults to "clubelo".
+ * @returns Aligned histories, gaps and probabilities
+ * @throws ApiError if either club is not found or both are the same club
+ */
+export async function compareClubs(
+  identifier: number | string,
+  otherIdentifier: number | string,
+  from?: string,
+  to?: string,
+  source: string = "clubelo"
+): Promise<ClubComparisonResponse> {
+  return cached(
+    "clubs.compareClubs",
+    { identifier, otherIdentifier, from, to, source },
+    () => loadComparison(identifier, otherIdentifier, from, to, source)
+  );
+}
+
+async function loadComparison(
+  identifier: number | string,
+  otherIdentifier: number | string,
+  from: string | undefined,
+  to: string | undefined,
+  source: string
+): Promise<ClubComparisonResponse> {
+  const [first, second] = await Promise.all([
+    getClubHistory(identifier, from, to, source),
+    getClubHistory(otherIdentifier, from, to, source),
+  ]);
+
+  if (first.club.id === second.club.id) {
+    throw new ApiError(400, "Cannot compare a club with itself");
+  }
+
+  logger.debug("Comparing clubs", {
+    clubId: first.club.id,
+    otherClubId: second.club.id,
+  });
+
+  const history = alignHistories(first.history, second.history);
+  const current = latestGap(first.history, second.history);
+
+  let largestGap: ClubComparisonPoint | null = null;
+  let smallestGap: ClubComparisonPoint | null = null;
+
+  for (const point of history) {
+    if (!largestGap || Math.abs(point.gap) > Math.abs(largestGap.gap)) {
+      largestGap = point;
+    }
+    if (!smallestGap || Math.abs(point.gap) < Math.abs(smallestGap.gap)) {
+      smallestGap = point;
+    }
+  }
+
+  const probabilities = current
+    ? {
+        home: toClubProbabilities(current.elo, current.otherElo, false),
+        away: invert(toClubProbabilities(current.otherElo, current.elo, false)),
+        neutral: toClubProbabilities(current.elo, current.otherElo, true),
+      }
+    : null;
+
+  return {
+    club: first.club,
+    otherClub: second.club,
+    source,
+    current,
+    largestGap,
+    smallestGap,
+    probabilities,
+    history,
+  };
+}
+
+/**
+ * Pair up entries from two histories that share a date
+ */
+function alignHistories(
+  history: ClubHistoryEntry[],
+  otherHistory: ClubHistoryEntry[]
+): ClubComparisonPoint[] {
+  const otherByDate = new Map(otherHistory.map((e) => [e.date, e.elo]));
+
+  return history
+    .filter((entry) => otherByDate.has(entry.date))
+    .map((entry) =>
+      toPoint(entry.date, entry.elo, otherByDate.get(entry.date)!)
+    );
+}
+
+/**
+ * Gap between the latest rating of each club
+ *
+ * Dated with the more recent of the two ratings.
+ */
+function latestGap(
+  history: ClubHistoryEntry[],
+  otherHistory: ClubHistoryEntry[]
+): ClubComparisonPoint | null {
+  const latest = history[history.length - 1];
+  const otherLatest = otherHistory[otherHistory.length - 1];
+
+  if (!latest || !otherLatest) {
+    return null;
+  }
+
+  const date = latest.date > otherLatest.date ? latest.date : otherLatest.date;
+  return toPoint(date, latest.elo, otherLatest.elo);
+}
+
+function toPoint(
+  date: string,
+  elo: number,
+  otherElo: number
+): ClubComparisonPoint {
+  return {
+    date,
+    elo,
+    otherElo,
+    gap: Math.round((elo - otherElo) * 100) / 100,
+  };
+}
+
+/**
+ * Home/draw/away probabilities as win/draw/loss for the home club
+ */
+function toClubProbabilities(
+  homeElo: number,
+  awayElo: number,
+  neutral: boolean
+): ClubComparisonProbabilities {
+  const p = matchProbabilities(homeElo, awayElo, neutral);
+  return { win: p.homeWin, draw: p.draw, loss: p.awayWin };
+}
+
+/**
+ * Swap win and loss (view the same match from the other side)
+ */
+function invert(p: ClubComparisonProbabilities): ClubComparisonProbabilities {
+  return { win: p.loss, draw: p.draw, loss: p.win };
+}
@@ -5,6 +5,9 @@
  * No other module should know about database schema - only these DTOs.
  */
 
+import { CursorPaginationMeta } from "../../shared/types/common.types";
+import { CursorDirection } from "../../shared/utils/cursor";
+
 /**
  * Club entity (Public DTO)
  */
@@ -23,7 +26,8 @@ export interface ClubSearchFilters {
   query?: string; // Search in display name
   country?: string; // Filter by country code
   level?: number; // Filter by league level
-  limit?: number; // Max results
+  limit?: number; // Max results (page size with a cursor)
+  cursor?: string; // Keyset cursor ("" for the first page)
 }
 
 /**
@@ -31,6 +35,16 @@ export interface ClubSearchFilters {
  */
 export interface ClubListResponse {
   clubs: Club[];
+  pagination?: CursorPaginationMeta; // Only with a cursor
+}
+
+/**
+ * Keyset position in the club list (internal, used by the repository)
+ */
+export interface ClubSeek {
+  displayName: string;
+  id: number;
+  direction: CursorDirection;
 }
 
 /**
@@ -47,9 +61,198 @@ export interface ClubHistoryEntry {
  */
 export interface ClubHistoryResponse {
   club: Club;
+  source: string; // Rating source the history comes from
   history: ClubHistoryEntry[];
 }
 
+/**
+ * Rating valid over an interval of days (ClubElo From/To)
+ */
+export interface ClubRatingPeriod {
+  from: string; // YYYY-MM-DD, first day the rating applied
+  to: string; // YYYY-MM-DD, last day the rating applied (inclusive)
+  elo: number;
+  rank: number | null;
+}
+
+/**
+ * Club history response in interval format
+ */
+export interface ClubHistoryIntervalsResponse {
+  club: Club;
+  source: string;
+  format: "intervals";
+  periods: ClubRatingPeriod[];
+}
+
+/**
+ * Club history streamed for CSV / NDJSON export
+ */
+export interface ClubHistoryExport {
+  club: Club;
+  source: string;
+  history: AsyncIterable<ClubHistoryEntry>;
+}
+
+/**
+ * Club rating periods streamed for CSV / NDJSON export
+ */
+export interface ClubHistoryIntervalsExport {
+  club: Club;
+  source: string;
+  periods: AsyncIterable<ClubRatingPeriod>;
+}
+
+/**
+ * Both clubs' ratings on one date
+ */
+export interface ClubComparisonPoint {
+  date: string; // YYYY-MM-DD
+  elo: number;
+  otherElo: number;
+  gap: number; // elo - otherElo
+}
+
+/**
+ * Win/draw/loss probabilities from the first club's point of view
+ */
+export interface ClubComparisonProbabilities {
+  win: number | null;
+  draw: number | null;
+  loss: number | null;
+}
+
+/**
+ * Head-to-head comparison response
+ */
+export interface ClubComparisonResponse {
+  club: Club;
+  otherClub: Club;
+  source: string;
+  current: ClubComparisonPoint | null; // Latest rating of each club
+  largestGap: ClubComparisonPoint | null; // Largest |gap| on a common date
+  smallestGap: ClubComparisonPoint | null; // Smallest |gap| on a common date
+  probabilities: {
+    home: ClubComparisonProbabilities; // First club at home
+    away: ClubComparisonProbabilities; // First club away
+    neutral: ClubComparisonProbabilities;
+  } | null;
+  history: ClubComparisonPoint[]; // Dates both clubs have a rating
+}
+
+/**
+ * How an alias was added
+ */
+export type ClubAliasSource = "manual" | "merge";
+
+/**
+ * Another name a club is known by
+ */
+export interface ClubAlias {
+  id: number;
+  clubId: number;
+  alias: string;
+  source: ClubAliasSource; // "merge" for names of clubs merged into this one
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * A club's aliases
+ */
+export interface ClubAliasesResponse {
+  club: Club;
+  aliases: ClubAlias[];
+}
+
+/**
+ * Near match for a club name
+ */
+export interface ClubNameSuggestion {
+  club: Club;
+  name: string; // API name, display name or alias that matched
+  score: number; // Similarity, 0-1
+}
+
+/**
+ * Result of resolving a club name
+ */
+export interface ClubResolution {
+  query: string;
+  club: Club | null; // Exact match, ignoring accents, case and punctuation
+  suggestions: ClubNameSuggestion[]; // Closest names, best first
+}
+
+/**
+ * Rows affected by a club merge, per table
+ */
+export interface ClubMergeCounts {
+  eloRatings: number;
+  ratingPeriods: number;
+  fixtures: number;
+}
+
+/**
+ * Result of merging one club into another
+ */
+export interface ClubMergeResult {
+  club: Club; // The club that was kept
+  merged: Club; // The club that was merged in and deleted
+  moved: ClubMergeCounts; // Rows re-pointed to the kept club
+  dropped: ClubMergeCounts; // Rows deleted because the kept club already had one for the same date / match
+  aliases: ClubAlias[]; // The kept club's aliases afterwards
+}
+
+/**
+ * Descriptive details for a club (fields are null when unknown)
+ */
+export interface ClubProfile {
+  fullName: string | null; // e.g. "Manchester City FC"
+  shortName: string | null; // e.g. "Man City"
+  city: string | null;
+  stadium: string | null;
+  foundedYear: number | null;
+  primaryColor: string | null; // #RRGGBB
+  secondaryColor: string | null; // #RRGGBB
+  crestPath: string | null; // Served from public/, e.g. "/crests/mancity.svg"
+}
+
+/**
+ * A club with its profile
+ */
+export interface ClubDetails extends Club {
+  profile: ClubProfile | null;
+}
+
+/**
+ * Profile of one club, with the club's API name for lookups
+ */
+export interface ClubProfileEntry extends ClubProfile {
+  clubId: number;
+  apiName: string;
+}
+
+/**
+ * Every club profile
+ */
+export interface ClubProfilesResponse {
+  profiles: ClubProfileEntry[];
+}
+
+/**
+ * One row of a profile seed file
+ */
+export interface ClubProfileSeed extends ClubProfile {
+  club: string; // API name, display name or alias
+}
+
+/**
+ * Outcome of loading a profile seed file
+ */
+export interface ClubProfileSeedSummary {
+  seeded: number;
+  unknownClubs: string[]; // Seed names that matched no club
+}
+
 /**
  * Internal database row type (NOT exported from index.ts)
  * This stays private to the repository layer
@@ -61,3 +264,49 @@ export interface ClubRow {
   country: string;
   level: number;
 }
+
+/**
+ * Internal elo_ratings history row (NOT exported from index.ts)
+ */
+export interface HistoryRow {
+  date: Date;
+  elo: string;
+  rank: number | null;
+}
+
+/**
+ * Internal rating_periods row (NOT exported from index.ts)
+ */
+export interface PeriodRow {
+  valid_from: Date;
+  valid_to: Date;
+  elo: string;
+  rank: number | null;
+}
+
+/**
+ * Internal club_aliases row (NOT exported from index.ts)
+ */
+export interface AliasRow {
+  id: number;
+  club_id: number;
+  alias: string;
+  source: ClubAliasSource;
+  created_at: Date;
+}
+
+/**
+ * Internal club_profiles row (NOT exported from index.ts)
+ */
+export interface ProfileRow {
+  club_id: number;
+  api_name?: string; // When joined with clubs
+  full_name: string | null;
+  short_name: string | null;
+  city: string | null;
+  stadium: string | null;
+  founded_year: number | null;
+  primary_color: string | null;
+  secondary_color: string | null;
+  crest_path: string | null;
+}
@@ -8,6 +8,7 @@
 
 // Export routes (for server.ts to mount)
 export { default as clubsRoutes } from "./clubs.routes";
+export { default as clubAdminRoutes } from "./club-admin.routes";
 
 // Export types (for other modules to use)
 export type {
@@ -16,11 +17,38 @@ export type {
   ClubListResponse,
   ClubHistoryEntry,
   ClubHistoryResponse,
+  ClubRatingPeriod,
+  ClubHistoryIntervalsResponse,
+  ClubHistoryExport,
+  ClubHistoryIntervalsExport,
+  ClubComparisonPoint,
+  ClubComparisonProbabilities,
+  ClubComparisonResponse,
+  ClubAliasSource,
+  ClubAlias,
+  ClubAliasesResponse,
+  ClubNameSuggestion,
+  ClubResolution,
+  ClubMergeCounts,
+  ClubMergeResult,
+  ClubProfile,
+  ClubDetails,
+  ClubProfileEntry,
+  ClubProfilesResponse,
+  ClubProfileSeed,
+  ClubProfileSeedSummary,
 } from "./clubs.types";
+export type { ClubNameIndex } from "./clubs.resolver";
 
 // Export service (for programmatic access)
 export * as clubsService from "./clubs.service";
 
 // Export repository (ONLY for external-data module that needs to upsert clubs)
 // This is an exception to show how to handle cross-module dependencies
-export { upsertClub } from "./clubs.repository";
+export { upsertClub, upsertClubs } from "./clubs.repository";
+
+// Export name resolution (for importers to match feed names to clubs)
+export { createClubResolver } from "./clubs.service";
+
+// Export profile seed loading (for the seed script)
+export { readClubProfilesFile, DEFAULT_PROFILES_FILE } from "./clubs.profiles";
@@ -0,0 +1,161 @@
+/**
+ * Countries Service Tests
+ *
+ * Unit tests for country aggregation and strength ranking.
+ * We mock the repository and the snapshot days to test service
+ * orchestration.
+ */
+
+import * as countriesService from "../countries.service";
+import * as countriesRepo from "../countries.repository";
+import { dataGapsService } from "../../data-gaps";
+import { ApiError } from "../../../shared/middleware/error-handler";
+
+jest.mock("../countries.repository");
+jest.mock("../../data-gaps", () => ({
+  dataGapsService: { findSnapshotDays: jest.fn() },
+}));
+
+const mockRepo = countriesRepo as jest.Mocked<typeof countriesRepo>;
+const mockGaps = dataGapsService as jest.Mocked<typeof dataGapsService>;
+
+function aggregate(
+  country: string,
+  level: number | null,
+  meanElo: number,
+  clubs = 20
+) {
+  return {
+    country,
+    level,
+    clubs,
+    meanElo,
+    medianElo: meanElo - 10,
+    topAverageElo: meanElo + 150,
+    maxElo: meanElo + 250,
+  };
+}
+
+describe("Countries Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGaps.findSnapshotDays.mockResolvedValue([
+      "2015-11-20",
+      "2015-11-30",
+      "2025-09-29",
+      "2025-09-30",
+      "2025-10-31",
+      "2025-11-18",
+    ]);
+  });
+
+  function mockSnapshot() {
+    mockRepo.findAggregates
+      .mockResolvedValueOnce([
+        aggregate("ENG", null, 1600.123, 44),
+        aggregate("ESP", null, 1620, 42),
+        aggregate("LIE", null, 1200, 1),
+      ])
+      .mockResolvedValueOnce([
+        aggregate("ENG", 1, 1750),
+        aggregate("ENG", 2, 1450, 24),
+        aggregate("ESP", 1, 1700),
+        aggregate("ESP", 2, 1540, 22),
+        aggregate("LIE", 2, 1200, 1),
+      ]);
+  }
+
+  describe("getCountries", () => {
+    it("should rank countries by top-flight mean Elo", async () => {
+      mockSnapshot();
+
+      const result = await countriesService.getCountries({});
+
+      expect(result.date).toBe("2025-11-18");
+      expect(result.source).toBe("clubelo");
+      expect(result.topN).toBe(5);
+      expect(result.countries.map((c) => [c.country, c.rank])).toEqual([
+        ["ENG", 1],
+        ["ESP", 2],
+        ["LIE", null],
+      ]);
+      expect(result.countries[0].strength).toBe(1750);
+      expect(result.countries[0].meanElo).toBe(1600.12);
+      expect(result.countries[0].levels.map((l) => l.level)).toEqual([1, 2]);
+    });
+
+    it("should resolve the date to a snapshot on or before it", async () => {
+      mockSnapshot();
+
+      await countriesService.getCountries({ date: "2025-11-20", topN: 3 });
+
+      expect(mockGaps.findSnapshotDays).toHaveBeenCalledWith("clubelo");
+      expect(mockRepo.findAggregates).toHaveBeenCalledWith(
+        "2025-11-18",
+        "clubelo",
+        { topN: 3, byLevel: true }
+      );
+    });
+
+    it("should skip days that only hold club history ratings", async () => {
+      mockSnapshot();
+      mockGaps.findSnapshotDays.mockResolvedValueOnce(["2025-11-18"]);
+
+      const result = await countriesService.getCountries({ date: "2025-11-19" });
+
+      expect(result.date).toBe("2025-11-18");
+    });
+
+    it("should throw 404 when there is no snapshot", async () => {
+      mockGaps.findSnapshotDays.mockResolvedValueOnce([]);
+
+      await expect(countriesService.getCountries({})).rejects.toThrow(
+        ApiError
+      );
+      expect(mockRepo.findAggregates).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getCountryStrength", () => {
+    it("should return the country with its strength history", async () => {
+      mockSnapshot();
+      mockRepo.findStrengthHistory.mockResolvedValueOnce([
+        {
+          date: "2025-10-31",
+          strength: 1740.456,
+          clubs: 20,
+          rank: 2,
+          countries: 40,
+        },
+      ]);
+
+      const result = await countriesService.getCountryStrength("esp", {});
+
+      expect(result.country.country).toBe("ESP");
+      expect(result.country.rank).toBe(2);
+      expect(result.history[0].strength).toBe(1740.46);
+      expect(mockRepo.findStrengthHistory).toHaveBeenCalledWith(
+        "ESP",
+        ["2015-11-30", "2025-09-30", "2025-10-31", "2025-11-18"],
+        "clubelo"
+      );
+    });
+
+    it("should throw 404 for a country without ratings", async () => {
+      mockSnapshot();
+
+      await expect(
+        countriesService.getCountryStrength("XYZ", {})
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockRepo.findStrengthHistory).not.toHaveBeenCalled();
+    });
+
+    it("should reject a history start after the snapshot date", async () => {
+      mockSnapshot();
+
+      await expect(
+        countriesService.getCountryStrength("ENG", { from: "2026-01-01" })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Countries Repository
+ *
+ * DATA ACCESS LAYER - All SQL for country aggregates is isolated here.
+ *
+ * RULE: No business logic here - only database operations.
+ */
+
+import { db } from "../../shared/database/connection";
+import {
+  CountryAggregate,
+  EloAggregateRow,
+  StrengthHistoryPoint,
+  StrengthHistoryRow,
+} from "./countries.types";
+
+/**
+ * Aggregate one snapshot's ratings per country, or per country and level
+ *
+ * Rows without a level (country totals) have level null.
+ */
+export async function findAggregates(
+  date: string,
+  source: string,
+  options: { topN: number; byLevel: boolean }
+): Promise<CountryAggregate[]> {
+  const groupBy = options.byLevel ? "country, level" : "country";
+
+  const query = `
+    SELECT
+      country,
+      ${options.byLevel ? "level" : "NULL::int AS level"},
+      COUNT(*) AS clubs,
+      AVG(elo) AS mean_elo,
+      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY elo) AS median_elo,
+      AVG(elo) FILTER (WHERE position <= $3) AS top_average_elo,
+      MAX(elo) AS max_elo
+    FROM (
+      SELECT
+        country,
+        level,
+        elo,
+        ROW_NUMBER() OVER (PARTITION BY ${groupBy} ORDER BY elo DESC) AS position
+      FROM elo_ratings
+      WHERE date = $1 AND source = $2
+    ) ranked
+    GROUP BY ${groupBy}
+    ORDER BY ${groupBy}
+  `;
+
+  const result = await db.query<EloAggregateRow>(query, [
+    date,
+    source,
+    options.topN,
+  ]);
+
+  return result.rows.map((row) => ({
+    country: row.country,
+    level: row.level,
+    clubs: parseInt(row.clubs, 10),
+    meanElo: parseFloat(row.mean_elo),
+    medianElo: Number(row.median_elo),
+    topAverageElo: parseFloat(row.top_average_elo),
+    maxElo: parseFloat(row.max_elo),
+  }));
+}
+
+/**
+ * Rank countries by top-flight mean Elo on each of the given snapshot
+ * dates and return one country's series
+ */
+export async function findStrengthHistory(
+  country: string,
+  snapshotDates: string[],
+  source: string
+): Promise<StrengthHistoryPoint[]> {
+  const query = `
+    WITH snapshots AS (
+      SELECT UNNEST($2::date[]) AS date
+    ),
+    leagues AS (
+      SELECT e.date, e.country, AVG(e.elo) AS strength, COUNT(*) AS clubs
+      FROM elo_ratings e
+      JOIN snapshots s ON s.date = e.date
+      WHERE e.source = $1 AND e.level = 1
+      GROUP BY e.date, e.country
+    ),
+    ranked AS (
+      SELECT
+        *,
+        RANK() OVER (PARTITION BY date ORDER BY strength DESC) AS rank,
+        COUNT(*) OVER (PARTITION BY date) AS countries
+      FROM leagues
+    )
+    SELECT date::text AS date, strength, clubs, rank, countries
+    FROM ranked
+    WHERE country = $3
+    ORDER BY date ASC
+  `;
+
+  const result = await db.query<StrengthHistoryRow>(query, [
+    source,
+    snapshotDates,
+    country,
+  ]);
+
+  return result.rows.map((row) => ({
+    date: row.date,
+    strength: parseFloat(row.strength),
+    clubs: parseInt(row.clubs, 10),
+    rank: parseInt(row.rank, 10),
+    countries: parseInt(row.countries, 10),
+  }));
+}
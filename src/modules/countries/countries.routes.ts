@@ -0,0 +1,102 @@
+/**
+ * Countries Routes
+ *
+ * API LAYER - Express route handlers for country aggregates.
+ * Mounted under /api/elo/countries.
+ *
+ * RULE: No business logic here - delegate to service layer.
+ */
+
+import { Router, Request, Response } from "express";
+import * as countriesService from "./countries.service";
+import { ApiError, asyncHandler } from "../../shared/middleware/error-handler";
+import {
+  validateDate,
+  validateSource,
+} from "../../shared/middleware/validation";
+
+const router = Router();
+
+/**
+ * GET /api/elo/countries
+ *
+ * Club counts and mean, median and top-N Elo per country and league level,
+ * with countries ranked by league strength (top-flight mean Elo).
+ *
+ * Query parameters:
+ *   - date: Snapshot date (YYYY-MM-DD), optional. Defaults to latest date.
+ *   - topN: Clubs averaged for topAverageElo (1-50), optional. Defaults to 5.
+ *   - source: Rating source ("clubelo" or "internal"), optional. Defaults to "clubelo".
+ *
+ * Example:
+ *   GET /api/elo/countries
+ *   GET /api/elo/countries?date=2020-06-01&topN=3
+ */
+router.get(
+  "/",
+  validateDate("date"),
+  validateSource(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { date, source } = req.query;
+
+    const result = await countriesService.getCountries({
+      date: date as string | undefined,
+      source: source as string | undefined,
+      topN: parseTopN(req.query.topN),
+    });
+
+    res.json(result);
+  })
+);
+
+/**
+ * GET /api/elo/countries/:code/strength
+ *
+ * One country's aggregates plus its league strength rank among all
+ * countries over time (one point per month).
+ *
+ * Query parameters:
+ *   - date: Snapshot date (YYYY-MM-DD), optional. Defaults to latest date.
+ *   - from: History start (YYYY-MM-DD), optional. Defaults to 10 years before "date".
+ *   - topN: Clubs averaged for topAverageElo (1-50), optional. Defaults to 5.
+ *   - source: Rating source ("clubelo" or "internal"), optional. Defaults to "clubelo".
+ *
+ * Example:
+ *   GET /api/elo/countries/ENG/strength
+ *   GET /api/elo/countries/ESP/strength?date=2015-06-01&from=2005-01-01
+ */
+router.get(
+  "/:code/strength",
+  validateDate("date"),
+  validateDate("from"),
+  validateSource(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { date, from, source } = req.query;
+
+    const result = await countriesService.getCountryStrength(req.params.code, {
+      date: date as string | undefined,
+      from: from as string | undefined,
+      source: source as string | undefined,
+      topN: parseTopN(req.query.topN),
+    });
+
+    res.json(result);
+  })
+);
+
+/**
+ * Parse and bound-check the topN query parameter
+ */
+function parseTopN(value: unknown): number | undefined {
+  if (value === undefined) return undefined;
+
+  const topN = parseInt(value as string, 10);
+
+  if (isNaN(topN) || topN < 1 || topN > 50) {
+    throw new ApiError(400, "topN must be between 1 and 50");
+  }
+
+  return topN;
+}
+
+export default router;
@@ -0,0 +1,195 @@
+/**
+ * Countries Service
+ *
+ * BUSINESS LOGIC LAYER - Builds per-country rating aggregates and ranks
+ * countries by league strength.
+ *
+ * RULE: No SQL here - only business logic and orchestration.
+ */
+
+import * as countriesRepo from "./countries.repository";
+import {
+  CountriesFilters,
+  CountriesResponse,
+  CountryAggregate,
+  CountryStrength,
+  CountryStrengthFilters,
+  CountryStrengthResponse,
+  EloAggregate,
+} from "./countries.types";
+import { dataGapsService } from "../data-gaps";
+import { ApiError } from "../../shared/middleware/error-handler";
+import { addDays } from "../../shared/utils/date-formatter";
+import { logger } from "../../shared/utils/logger";
+
+const DEFAULT_SOURCE = "clubelo";
+
+/**
+ * Clubs averaged for the "top N" figure when the caller does not ask
+ */
+const DEFAULT_TOP_N = 5;
+
+/**
+ * How far back the strength history goes when no start date is given
+ */
+const DEFAULT_HISTORY_DAYS = 3650;
+
+/**
+ * Get aggregates for every country on a snapshot date
+ *
+ * Countries are ranked by league strength (top-flight mean Elo).
+ *
+ * @param filters - Date, source and top-N size
+ * @returns Countries with overall and per-level statistics
+ * @throws ApiError if there is no snapshot on or before the date
+ */
+export async function getCountries(
+  filters: CountriesFilters
+): Promise<CountriesResponse> {
+  const source = filters.source || DEFAULT_SOURCE;
+  const topN = filters.topN ?? DEFAULT_TOP_N;
+  const date = await resolveDate(source, filters.date);
+
+  logger.debug("Fetching country aggregates", { date, source, topN });
+
+  const [totals, levels] = await Promise.all([
+    countriesRepo.findAggregates(date, source, { topN, byLevel: false }),
+    countriesRepo.findAggregates(date, source, { topN, byLevel: true }),
+  ]);
+
+  const countries: CountryStrength[] = totals.map((total) => {
+    const countryLevels = levels
+      .filter((row) => row.country === total.country && row.level !== null)
+      .map((row) => ({ level: row.level!, ...roundAggregate(row) }));
+    const topFlight = countryLevels.find((row) => row.level === 1);
+
+    return {
+      country: total.country,
+      rank: null,
+      strength: topFlight ? topFlight.meanElo : null,
+      ...roundAggregate(total),
+      levels: countryLevels,
+    };
+  });
+
+  countries.sort(
+    (a, b) =>
+      (b.strength ?? -Infinity) - (a.strength ?? -Infinity) ||
+      b.meanElo - a.meanElo
+  );
+  countries.forEach((country, i) => {
+    if (country.strength !== null) country.rank = i + 1;
+  });
+
+  return { date, source, topN, countries };
+}
+
+/**
+ * Get one country's aggregates and its league strength rank over time
+ *
+ * @param code - Country code (e.g. "ENG"), case-insensitive
+ * @param filters - Date, history start, source and top-N size
+ * @throws ApiError if the country has no ratings on the snapshot date
+ */
+export async function getCountryStrength(
+  code: string,
+  filters: CountryStrengthFilters
+): Promise<CountryStrengthResponse> {
+  const country = code.toUpperCase();
+  const overview = await getCountries(filters);
+  const current = overview.countries.find((c) => c.country === country);
+
+  if (!current) {
+    throw new ApiError(
+      404,
+      `No ${overview.source} ratings for ${country} on ${overview.date}`
+    );
+  }
+
+  const from = filters.from || addDays(overview.date, -DEFAULT_HISTORY_DAYS);
+
+  if (from > overview.date) {
+    throw new ApiError(400, "'from' must be on or before 'date'");
+  }
+
+  const snapshots = await dataGapsService.findSnapshotDays(overview.source);
+  const history = await countriesRepo.findStrengthHistory(
+    country,
+    lastSnapshotOfEachMonth(snapshots, from, overview.date),
+    overview.source
+  );
+
+  return {
+    date: overview.date,
+    source: overview.source,
+    topN: overview.topN,
+    country: current,
+    history: history.map((point) => ({
+      ...point,
+      strength: round(point.strength),
+    })),
+  };
+}
+
+/**
+ * Use the latest snapshot on or before the requested date
+ *
+ * Days that only hold imported club history ratings are skipped, so
+ * aggregates always cover a full table.
+ */
+async function resolveDate(source: string, date?: string): Promise<string> {
+  const snapshots = await dataGapsService.findSnapshotDays(source);
+  const candidates = date
+    ? snapshots.filter((snapshot) => snapshot <= date)
+    : snapshots;
+  const snapshot = candidates[candidates.length - 1];
+
+  if (!snapshot) {
+    throw new ApiError(
+      404,
+      date
+        ? `No ${source} rating data on or before ${date}`
+        : `No ${source} rating data available`
+    );
+  }
+
+  return snapshot;
+}
+
+/**
+ * The last snapshot day of each month from "from" to "to", oldest first
+ *
+ * @param snapshots - Snapshot days, oldest first
+ */
+function lastSnapshotOfEachMonth(
+  snapshots: string[],
+  from: string,
+  to: string
+): string[] {
+  const lastByMonth = new Map<string, string>();
+
+  for (const date of snapshots) {
+    if (date >= from && date <= to) {
+      lastByMonth.set(date.slice(0, 7), date);
+    }
+  }
+
+  return [...lastByMonth.values()];
+}
+
+function roundAggregate(row: CountryAggregate): EloAggregate {
+  return {
+    clubs: row.clubs,
+    meanElo: round(row.meanElo),
+    medianElo: round(row.medianElo),
+    topAverageElo: round(row.topAverageElo),
+    maxElo: round(row.maxElo),
+  };
+}
+
+/**
+ * Round to 2 decimal places for the API response
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
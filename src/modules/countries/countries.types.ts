@@ -0,0 +1,113 @@
+/**
+ * Countries Module - Type Definitions
+ *
+ * DTOs for per-country rating aggregates. These are the PUBLIC CONTRACT.
+ */
+
+/**
+ * Summary statistics over a group of club ratings
+ */
+export interface EloAggregate {
+  clubs: number;
+  meanElo: number;
+  medianElo: number;
+  topAverageElo: number; // Mean of the best topN clubs
+  maxElo: number;
+}
+
+/**
+ * Aggregates for one league level of a country
+ */
+export interface LeagueStrength extends EloAggregate {
+  level: number;
+}
+
+/**
+ * Aggregates for one country, overall and per level
+ *
+ * League strength is the mean Elo of the top flight (level 1). Countries
+ * without level 1 clubs on that date have no strength and no rank.
+ */
+export interface CountryStrength extends EloAggregate {
+  country: string;
+  rank: number | null;
+  strength: number | null;
+  levels: LeagueStrength[];
+}
+
+/**
+ * Filters for the countries overview
+ */
+export interface CountriesFilters {
+  date?: string; // YYYY-MM-DD, falls back to the latest snapshot on/before it
+  source?: string;
+  topN?: number;
+}
+
+/**
+ * Countries overview response
+ */
+export interface CountriesResponse {
+  date: string;
+  source: string;
+  topN: number;
+  countries: CountryStrength[]; // Sorted by rank, unranked countries last
+}
+
+/**
+ * Country's league strength and rank on one snapshot date
+ */
+export interface StrengthHistoryPoint {
+  date: string;
+  strength: number;
+  clubs: number; // Top-flight clubs rated on that date
+  rank: number;
+  countries: number; // Countries ranked on that date
+}
+
+/**
+ * Filters for a single country's strength report
+ */
+export interface CountryStrengthFilters extends CountriesFilters {
+  from?: string; // History start. Defaults to 10 years before the date.
+}
+
+/**
+ * Single country strength report
+ */
+export interface CountryStrengthResponse {
+  date: string;
+  source: string;
+  topN: number;
+  country: CountryStrength;
+  history: StrengthHistoryPoint[]; // One point per month, oldest first
+}
+
+/**
+ * Aggregate row for a country, or one of its levels (repository result)
+ */
+export interface CountryAggregate extends EloAggregate {
+  country: string;
+  level: number | null; // null for the whole country
+}
+
+/**
+ * Internal database row types (NOT exported from index.ts)
+ */
+export interface EloAggregateRow {
+  country: string;
+  level: number | null;
+  clubs: string; // COUNT(*) is bigint
+  mean_elo: string;
+  median_elo: number;
+  top_average_elo: string;
+  max_elo: string;
+}
+
+export interface StrengthHistoryRow {
+  date: string;
+  strength: string;
+  clubs: string;
+  rank: string;
+  countries: string;
+}
@@ -0,0 +1,25 @@
+/**
+ * Countries Module - Public API
+ *
+ * BARREL FILE - Controls what this module exposes.
+ *
+ * This module aggregates club ratings per country and league level.
+ */
+
+// Export routes (for server.ts to mount)
+export { default as countriesRoutes } from "./countries.routes";
+
+// Export types (for other modules to use)
+export type {
+  EloAggregate,
+  LeagueStrength,
+  CountryStrength,
+  CountriesFilters,
+  CountriesResponse,
+  StrengthHistoryPoint,
+  CountryStrengthFilters,
+  CountryStrengthResponse,
+} from "./countries.types";
+
+// Export service (for programmatic access)
+export * as countriesService from "./countries.service";
@@ -0,0 +1,189 @@
+/**
+ * Data Gaps Service Tests
+ *
+ * Unit tests for snapshot day detection, the gap report and the list of
+ * days to repair. We mock the repository to test service orchestration.
+ */
+
+import * as dataGapsService from "../data-gaps.service";
+import * as dataGapsRepo from "../data-gaps.repository";
+import { ApiError } from "../../../shared/middleware/error-handler";
+
+jest.mock("../data-gaps.repository");
+
+const mockRepo = dataGapsRepo as jest.Mocked<typeof dataGapsRepo>;
+
+/**
+ * January 2025 snapshots of 600 clubs, except on the given days
+ */
+function januarySnapshots(missing: number[]): Array<{ date: string; clubs: number }> {
+  return Array.from({ length: 31 }, (_, i) => i + 1)
+    .filter((day) => !missing.includes(day))
+    .map((day) => ({
+      date: `2025-01-${String(day).padStart(2, "0")}`,
+      clubs: 600,
+    }));
+}
+
+describe("Data Gaps Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRepo.countClubsByDate.mockResolvedValue(januarySnapshots([5, 6, 20, 21]));
+    mockRepo.findClubGaps.mockResolvedValue({ total: 0, gaps: [] });
+  });
+
+  describe("selectSnapshotDays", () => {
+    it("should skip days that only hold club history ratings", () => {
+      expect(
+        dataGapsService.selectSnapshotDays([
+          { date: "2025-01-01", clubs: 600 },
+          { date: "2025-01-02", clubs: 3 },
+          { date: "2025-01-03", clubs: 580 },
+        ])
+      ).toEqual(["2025-01-01", "2025-01-03"]);
+    });
+
+    it("should keep early snapshots that cover far fewer clubs", () => {
+      expect(
+        dataGapsService.selectSnapshotDays([
+          { date: "1960-01-01", clubs: 90 },
+          { date: "1960-01-02", clubs: 4 },
+          { date: "1960-01-03", clubs: 92 },
+          { date: "2025-01-01", clubs: 600 },
+          { date: "2025-01-02", clubs: 12 },
+        ])
+      ).toEqual(["1960-01-01", "1960-01-03", "2025-01-01"]);
+    });
+
+    it("should only compare a day with days in its window", () => {
+      expect(
+        dataGapsService.selectSnapshotDays([
+          { date: "2025-01-01", clubs: 100 },
+          { date: "2025-01-31", clubs: 49 },
+          { date: "2025-02-01", clubs: 49 },
+        ])
+      ).toEqual(["2025-01-01", "2025-02-01"]);
+    });
+
+    it("should return nothing without ratings", () => {
+      expect(dataGapsService.selectSnapshotDays([])).toEqual([]);
+    });
+  });
+
+  describe("getDataGaps", () => {
+    it("should report missing ranges and club gaps for the full range", async () => {
+      mockRepo.findClubGaps.mockResolvedValueOnce({
+        total: 1,
+        gaps: [
+          {
+            clubId: 3,
+            apiName: "Leeds",
+            displayName: "Leeds",
+            from: "2025-01-10",
+            to: "2025-01-12",
+            missingSnapshots: 3,
+          },
+        ],
+      });
+
+      const result = await dataGapsService.getDataGaps();
+
+      expect(mockRepo.findClubGaps).toHaveBeenCalledWith(
+        "clubelo",
+        expect.arrayContaining(["2025-01-01", "2025-01-31"]),
+        100
+      );
+      expect(mockRepo.findClubGaps.mock.calls[0][1]).toHaveLength(27);
+      expect(result).toMatchObject({
+        source: "clubelo",
+        from: "2025-01-01",
+        to: "2025-01-31",
+        expectedDays: 31,
+        snapshotDays: 27,
+        missingDays: 4,
+        missingRanges: [
+          { from: "2025-01-05", to: "2025-01-06", days: 2 },
+          { from: "2025-01-20", to: "2025-01-21", days: 2 },
+        ],
+        clubGapCount: 1,
+      });
+      expect(result.clubGaps[0].apiName).toBe("Leeds");
+    });
+
+    it("should report days covered only by club histories as missing", async () => {
+      mockRepo.countClubsByDate.mockResolvedValueOnce([
+        ...januarySnapshots([5, 6, 20, 21]),
+        { date: "2025-01-05", clubs: 2 },
+        { date: "2025-01-20", clubs: 1 },
+      ].sort((a, b) => a.date.localeCompare(b.date)));
+
+      const result = await dataGapsService.getDataGaps();
+
+      expect(result).toMatchObject({
+        from: "2025-01-01",
+        snapshotDays: 27,
+        missingDays: 4,
+      });
+      expect(result.missingRanges.map((range) => range.from)).toEqual([
+        "2025-01-05",
+        "2025-01-20",
+      ]);
+      expect(mockRepo.findClubGaps.mock.calls[0][1]).not.toContain("2025-01-05");
+    });
+
+    it("should only scan snapshots inside a given range", async () => {
+      const result = await dataGapsService.getDataGaps({
+        from: "2025-01-15",
+        to: "2025-01-25",
+      });
+
+      expect(result).toMatchObject({ expectedDays: 11, snapshotDays: 9 });
+      expect(mockRepo.findClubGaps.mock.calls[0][1]).toHaveLength(9);
+    });
+
+    it("should throw 400 when from is after to", async () => {
+      await expect(
+        dataGapsService.getDataGaps({ from: "2025-02-01", to: "2025-01-15" })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it("should throw 404 when nothing is stored", async () => {
+      mockRepo.countClubsByDate.mockResolvedValueOnce([]);
+
+      await expect(dataGapsService.getDataGaps()).rejects.toThrow(ApiError);
+    });
+  });
+
+  describe("findMissingSnapshotDates", () => {
+    it("should list missing days between the first and latest snapshot", async () => {
+      expect(await dataGapsService.findMissingSnapshotDates(3)).toEqual([
+        "2025-01-21",
+        "2025-01-20",
+        "2025-01-06",
+      ]);
+    });
+
+    it("should not treat club history days as snapshots", async () => {
+      mockRepo.countClubsByDate.mockResolvedValueOnce([
+        ...januarySnapshots([5, 6, 20, 21]),
+        { date: "2025-01-21", clubs: 2 },
+      ].sort((a, b) => a.date.localeCompare(b.date)));
+
+      expect(await dataGapsService.findMissingSnapshotDates(1)).toEqual([
+        "2025-01-21",
+      ]);
+    });
+
+    it("should leave out days it is told to skip", async () => {
+      expect(
+        await dataGapsService.findMissingSnapshotDates(2, ["2025-01-21"])
+      ).toEqual(["2025-01-20", "2025-01-06"]);
+    });
+
+    it("should return nothing on an empty database", async () => {
+      mockRepo.countClubsByDate.mockResolvedValueOnce([]);
+
+      expect(await dataGapsService.findMissingSnapshotDates(5)).toEqual([]);
+    });
+  });
+});
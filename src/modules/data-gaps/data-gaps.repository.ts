@@ -0,0 +1,100 @@
+/**
+ * Data Gaps Repository
+ *
+ * DATA ACCESS LAYER - All SQL for finding holes in elo_ratings is isolated
+ * here. Deciding which days are snapshots is left to the service.
+ *
+ * RULE: No business logic here - only database operations.
+ */
+
+import { db } from "../../shared/database/connection";
+import { ClubGap } from "./data-gaps.types";
+
+/**
+ * Number of clubs rated on each day, oldest first
+ */
+export async function countClubsByDate(
+  source: string
+): Promise<Array<{ date: string; clubs: number }>> {
+  const result = await db.query<{ date: string; clubs: number }>(
+    `SELECT date::text AS date, COUNT(*)::int AS clubs
+     FROM elo_ratings
+     WHERE source = $1
+     GROUP BY date
+     ORDER BY date ASC`,
+    [source]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Find clubs absent from snapshots between two of their own ratings
+ *
+ * Only ratings on the given snapshot days count, so imported club
+ * histories neither open nor close a gap. Each pair of consecutive
+ * snapshots a club appears in with other snapshots in between is one gap.
+ */
+export async function findClubGaps(
+  source: string,
+  snapshotDates: string[],
+  limit: number
+): Promise<{ total: number; gaps: ClubGap[] }> {
+  const result = await db.query<{
+    club_id: number;
+    api_name: string;
+    display_name: string;
+    from: string;
+    to: string;
+    missing_snapshots: number;
+    total: number;
+  }>(
+    `WITH snapshots AS (
+       SELECT UNNEST($2::date[]) AS date
+     ),
+     club_dates AS (
+       SELECT
+         e.club_id,
+         e.date,
+         LAG(e.date) OVER (PARTITION BY e.club_id ORDER BY e.date) AS prev_date
+       FROM elo_ratings e
+       JOIN snapshots s ON s.date = e.date
+       WHERE e.source = $1
+     ),
+     gaps AS (
+       SELECT
+         cd.club_id,
+         MIN(s.date) AS gap_from,
+         MAX(s.date) AS gap_to,
+         COUNT(*)::int AS missing_snapshots
+       FROM club_dates cd
+       JOIN snapshots s ON s.date > cd.prev_date AND s.date < cd.date
+       GROUP BY cd.club_id, cd.prev_date, cd.date
+     )
+     SELECT
+       g.club_id,
+       c.api_name,
+       c.display_name,
+       g.gap_from::text AS "from",
+       g.gap_to::text AS "to",
+       g.missing_snapshots,
+       COUNT(*) OVER ()::int AS total
+     FROM gaps g
+     JOIN clubs c ON c.id = g.club_id
+     ORDER BY g.gap_to DESC, c.api_name ASC
+     LIMIT $3`,
+    [source, snapshotDates, limit]
+  );
+
+  return {
+    total: result.rows[0]?.total ?? 0,
+    gaps: result.rows.map((row) => ({
+      clubId: row.club_id,
+      apiName: row.api_name,
+      displayName: row.display_name,
+      from: row.from,
+      to: row.to,
+      missingSnapshots: row.missing_snapshots,
+    })),
+  };
+}
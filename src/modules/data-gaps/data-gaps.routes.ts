@@ -0,0 +1,66 @@
+/**
+ * Data Gaps Routes
+ *
+ * API LAYER - Express route handlers for the data gap report.
+ * Mounted under /api/admin/data-gaps.
+ *
+ * Protected by CRON_SECRET authentication.
+ *
+ * RULE: No business logic here - delegate to service layer.
+ */
+
+import { Router, Request, Response } from "express";
+import * as dataGapsService from "./data-gaps.service";
+import { ApiError, asyncHandler } from "../../shared/middleware/error-handler";
+import {
+  validateCronSecret,
+  validateDateRange,
+} from "../../shared/middleware/validation";
+
+const router = Router();
+
+/**
+ * GET /api/admin/data-gaps
+ *
+ * Report days between the first and latest ClubElo snapshot that have no
+ * ratings, and clubs missing from snapshots between two of their ratings.
+ * Missing days can be refetched with POST /api/cron/repair-gaps.
+ *
+ * Query parameters:
+ *   - from: Start of the scan (YYYY-MM-DD), optional. Defaults to the first snapshot.
+ *   - to: End of the scan (YYYY-MM-DD), optional. Defaults to the latest snapshot.
+ *   - limit: Club gaps returned (1-1000), optional. Defaults to 100.
+ *
+ * Authentication:
+ *   - Requires Authorization: Bearer <CRON_SECRET>
+ *
+ * Example:
+ *   GET /api/admin/data-gaps
+ *   GET /api/admin/data-gaps?from=2024-07-01&limit=20
+ */
+router.get(
+  "/",
+  validateCronSecret,
+  validateDateRange,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { from, to } = req.query;
+    let limit: number | undefined;
+
+    if (req.query.limit !== undefined) {
+      limit = parseInt(req.query.limit as string, 10);
+      if (isNaN(limit) || limit < 1 || limit > 1000) {
+        throw new ApiError(400, "Limit must be between 1 and 1000");
+      }
+    }
+
+    const result = await dataGapsService.getDataGaps({
+      from: from as string | undefined,
+      to: to as string | undefined,
+      limit,
+    });
+
+    res.json(result);
+  })
+);
+
+export default router;
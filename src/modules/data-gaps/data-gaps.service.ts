@@ -0,0 +1,213 @@
+/**
+ * Data Gaps Service
+ *
+ * BUSINESS LOGIC LAYER - Finds ClubElo snapshot days that were never
+ * imported and clubs that drop out of the snapshots and later reappear.
+ *
+ * RULE: No SQL here - only business logic and orchestration.
+ */
+
+import * as dataGapsRepo from "./data-gaps.repository";
+import {
+  DataGapsFilters,
+  DataGapsResponse,
+  MissingDateRange,
+} from "./data-gaps.types";
+import { cached } from "../../shared/cache/response-cache";
+import { ApiError } from "../../shared/middleware/error-handler";
+import { addDays } from "../../shared/utils/date-formatter";
+import { logger } from "../../shared/utils/logger";
+
+/**
+ * Only the daily ClubElo import produces one snapshot per day
+ */
+const SOURCE = "clubelo";
+
+const DEFAULT_CLUB_GAP_LIMIT = 100;
+
+/**
+ * Share of the busiest nearby day's club count a day needs to count as a
+ * snapshot
+ *
+ * A daily snapshot rates every club ClubElo covers at the time, while an
+ * imported club history adds one rating per club on the days its Elo
+ * changed. Days that only hold history rows fall far below the snapshots
+ * around them. Comparing with nearby days rather than the whole table
+ * keeps early snapshots, which cover far fewer clubs than recent ones.
+ */
+const SNAPSHOT_MIN_CLUB_SHARE = 0.5;
+
+/**
+ * Days either side of a day that it is compared with
+ */
+const SNAPSHOT_WINDOW_DAYS = 30;
+
+/**
+ * Pick the days that hold a full snapshot
+ *
+ * @param counts - Clubs rated on each day, oldest first
+ * @returns Snapshot dates, oldest first
+ */
+export function selectSnapshotDays(
+  counts: Array<{ date: string; clubs: number }>
+): string[] {
+  let windowStart = 0;
+  let windowEnd = 0;
+
+  return counts
+    .filter((day) => {
+      const earliest = addDays(day.date, -SNAPSHOT_WINDOW_DAYS);
+      const latest = addDays(day.date, SNAPSHOT_WINDOW_DAYS);
+
+      while (counts[windowStart].date < earliest) windowStart++;
+      while (windowEnd < counts.length && counts[windowEnd].date <= latest) {
+        windowEnd++;
+      }
+
+      const mostClubs = counts
+        .slice(windowStart, windowEnd)
+        .reduce((most, nearby) => Math.max(most, nearby.clubs), 0);
+
+      return day.clubs >= mostClubs * SNAPSHOT_MIN_CLUB_SHARE;
+    })
+    .map((day) => day.date);
+}
+
+/**
+ * Report missing snapshot days and club gaps
+ *
+ * @param filters - Date range and club gap limit
+ * @returns Missing day ranges and club gaps (most recent first)
+ * @throws ApiError if there are no ClubElo ratings or the range is reversed
+ */
+export async function getDataGaps(
+  filters: DataGapsFilters = {}
+): Promise<DataGapsResponse> {
+  const snapshots = await findSnapshotDays();
+  const { from, to } = resolveRange(snapshots, filters.from, filters.to);
+  const limit = filters.limit ?? DEFAULT_CLUB_GAP_LIMIT;
+
+  logger.debug("Scanning for data gaps", { from, to, limit });
+
+  const inRange = snapshots.filter((date) => date >= from && date <= to);
+  const missingRanges = groupConsecutiveDays(
+    findMissingDays(new Set(inRange), from, to)
+  );
+  const clubGaps = await dataGapsRepo.findClubGaps(SOURCE, inRange, limit);
+
+  const missingDays = missingRanges.reduce((sum, range) => sum + range.days, 0);
+
+  return {
+    source: SOURCE,
+    from,
+    to,
+    expectedDays: inRange.length + missingDays,
+    snapshotDays: inRange.length,
+    missingDays,
+    missingRanges,
+    clubGapCount: clubGaps.total,
+    clubGaps: clubGaps.gaps,
+  };
+}
+
+/**
+ * List days with no snapshot, newest first
+ *
+ * @param limit - Maximum number of days
+ * @param skip - Days not to list, e.g. ones the source has no data for
+ * @returns Dates (YYYY-MM-DD); empty when nothing is stored yet
+ */
+export async function findMissingSnapshotDates(
+  limit: number,
+  skip: Iterable<string> = []
+): Promise<string[]> {
+  const snapshots = await findSnapshotDays();
+
+  if (snapshots.length === 0 || limit < 1) {
+    return [];
+  }
+
+  const known = new Set([...snapshots, ...skip]);
+
+  return findMissingDays(known, snapshots[0], snapshots[snapshots.length - 1])
+    .reverse()
+    .slice(0, limit);
+}
+
+/**
+ * Stored snapshot days of a source, oldest first
+ *
+ * Days that only hold imported club history ratings are left out. Cached
+ * until the next write.
+ *
+ * @param source - Rating source name. Defaults to "clubelo".
+ * @returns Dates (YYYY-MM-DD)
+ */
+export async function findSnapshotDays(source = SOURCE): Promise<string[]> {
+  return cached("dataGaps.snapshotDays", { source }, async () =>
+    selectSnapshotDays(await dataGapsRepo.countClubsByDate(source))
+  );
+}
+
+/**
+ * Days from "from" to "to" that are not in a set, oldest first
+ */
+function findMissingDays(
+  present: Set<string>,
+  from: string,
+  to: string
+): string[] {
+  const missing: string[] = [];
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (!present.has(date)) {
+      missing.push(date);
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Group sorted days into runs of consecutive days
+ */
+function groupConsecutiveDays(days: string[]): MissingDateRange[] {
+  const ranges: MissingDateRange[] = [];
+
+  for (const date of days) {
+    const last = ranges[ranges.length - 1];
+
+    if (last && addDays(last.to, 1) === date) {
+      last.to = date;
+      last.days++;
+    } else {
+      ranges.push({ from: date, to: date, days: 1 });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Default the range to the first and latest stored snapshots
+ */
+function resolveRange(
+  snapshots: string[],
+  from?: string,
+  to?: string
+): { from: string; to: string } {
+  if (snapshots.length === 0) {
+    throw new ApiError(404, `No ${SOURCE} rating data available`);
+  }
+
+  const range = {
+    from: from || snapshots[0],
+    to: to || snapshots[snapshots.length - 1],
+  };
+
+  if (range.from > range.to) {
+    throw new ApiError(400, "'from' must be on or before 'to'");
+  }
+
+  return range;
+}
@@ -0,0 +1,50 @@
+/**
+ * Data Gaps Types
+ *
+ * Type definitions for missing snapshot detection.
+ */
+
+/**
+ * Consecutive days with no snapshot (club history ratings do not count)
+ */
+export interface MissingDateRange {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  days: number;
+}
+
+/**
+ * A club missing from snapshots between two of its ratings
+ */
+export interface ClubGap {
+  clubId: number;
+  apiName: string;
+  displayName: string;
+  from: string; // First snapshot the club is missing from
+  to: string; // Last snapshot the club is missing from
+  missingSnapshots: number;
+}
+
+/**
+ * Data gaps request filters
+ */
+export interface DataGapsFilters {
+  from?: string; // YYYY-MM-DD, defaults to the first snapshot
+  to?: string; // YYYY-MM-DD, defaults to the latest snapshot
+  limit?: number; // Club gaps returned, defaults to 100
+}
+
+/**
+ * Data gaps response
+ */
+export interface DataGapsResponse {
+  source: string;
+  from: string;
+  to: string;
+  expectedDays: number; // Days from "from" to "to"
+  snapshotDays: number; // Days with a full snapshot
+  missingDays: number;
+  missingRanges: MissingDateRange[];
+  clubGapCount: number; // All club gaps, before the limit
+  clubGaps: ClubGap[]; // Most recent first
+}
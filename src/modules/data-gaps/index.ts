@@ -0,0 +1,23 @@
+/**
+ * Data Gaps Module - Public API
+ *
+ * BARREL FILE - Controls what this module exposes.
+ *
+ * This module finds holes in the stored ClubElo snapshots, and tells
+ * snapshot days apart from days that only hold club history ratings.
+ */
+
+// Export routes (for server.ts to mount)
+export { default as dataGapsRoutes } from "./data-gaps.routes";
+
+// Export types (for other modules to use)
+export type {
+  MissingDateRange,
+  ClubGap,
+  DataGapsFilters,
+  DataGapsResponse,
+} from "./data-gaps.types";
+
+// Export service (for the repair job in external-data, and snapshot days
+// for rankings, countries and simulations)
+export * as dataGapsService from "./data-gaps.service";
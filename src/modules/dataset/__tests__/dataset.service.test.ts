@@ -0,0 +1,216 @@
+/**
+ * Dataset Service Tests
+ *
+ * Dump / restore round trips through a temporary directory. We mock the
+ * repository, the transaction wrapper and the response cache.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as datasetRepo from "../dataset.repository";
+import {
+  dumpDataset,
+  restoreDataset,
+  verifyDataset,
+  MANIFEST_FILE,
+} from "../dataset.service";
+import { DatasetTable } from "../dataset.types";
+import { withTransaction } from "../../../shared/database/transaction";
+import { invalidateCache } from "../../../shared/cache/response-cache";
+
+jest.mock("../dataset.repository");
+jest.mock("../../../shared/database/transaction");
+jest.mock("../../../shared/cache/response-cache");
+
+const mockRepo = datasetRepo as jest.Mocked<typeof datasetRepo>;
+const mockWithTransaction = withTransaction as jest.Mock;
+const client = { query: jest.fn() };
+
+const TABLE_ROWS: Record<DatasetTable, string[]> = {
+  clubs: [
+    '{"id":1,"api_name":"ManCity","display_name":"Man City"}',
+    '{"id":2,"api_name":"Liverpool","display_name":"Liverpool"}',
+  ],
+  club_aliases: ['{"id":3,"club_id":1,"alias":"Manchester City"}'],
+  club_profiles: ['{"club_id":1,"short_name":"Man City"}'],
+  rating_periods: [
+    '{"id":4,"club_id":1,"valid_from":"2025-11-20","valid_to":"2025-11-22","elo":2050.5}',
+  ],
+  elo_ratings: ['{"id":7,"club_id":1,"date":"2025-11-22","elo":2050.5}'],
+  fixtures: [],
+  results: [],
+};
+
+async function* linesOf(lines: string[]): AsyncGenerator<string> {
+  for (const line of lines) {
+    yield line;
+  }
+}
+
+describe("Dataset Service", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dataset-"));
+    mockWithTransaction.mockImplementation((callback) => callback(client));
+    mockRepo.streamTableRows.mockImplementation((_client, table) =>
+      linesOf(TABLE_ROWS[table])
+    );
+    mockRepo.getTableColumns.mockResolvedValue([
+      { table: "clubs", column: "id", type: "integer" },
+    ]);
+    mockRepo.getLatestSnapshotDate.mockResolvedValue("2025-11-22");
+    mockRepo.getMigrationVersion.mockResolvedValue(12);
+    mockRepo.countRows.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("dumpDataset", () => {
+    it("should write one NDJSON file per table and a manifest", async () => {
+      const manifest = await dumpDataset(dir);
+
+      expect(manifest).toMatchObject({
+        formatVersion: 1,
+        migrationVersion: 12,
+        latestSnapshotDate: "2025-11-22",
+      });
+      expect(manifest.schemaVersion).toMatch(/^[0-9a-f]{16}$/);
+      expect(manifest.tables.map((t) => [t.name, t.rows])).toEqual([
+        ["clubs", 2],
+        ["club_aliases", 1],
+        ["club_profiles", 1],
+        ["rating_periods", 1],
+        ["elo_ratings", 1],
+        ["fixtures", 0],
+        ["results", 0],
+      ]);
+      expect(fs.readFileSync(path.join(dir, "clubs.ndjson"), "utf8")).toBe(
+        TABLE_ROWS.clubs.join("\n") + "\n"
+      );
+      expect(
+        JSON.parse(fs.readFileSync(path.join(dir, MANIFEST_FILE), "utf8"))
+      ).toEqual(manifest);
+    });
+
+    it("should read every table in one read-only snapshot", async () => {
+      await dumpDataset(dir);
+
+      expect(mockWithTransaction).toHaveBeenCalledTimes(1);
+      expect(mockWithTransaction).toHaveBeenCalledWith(expect.any(Function), {
+        isolation: "REPEATABLE READ",
+        readOnly: true,
+      });
+      expect(mockRepo.getTableColumns).toHaveBeenCalledWith(
+        client,
+        expect.any(Array)
+      );
+      expect(mockRepo.streamTableRows).toHaveBeenCalledTimes(7);
+      for (const [queryClient] of mockRepo.streamTableRows.mock.calls) {
+        expect(queryClient).toBe(client);
+      }
+    });
+
+    it("should refuse a directory that already holds a dump", async () => {
+      await dumpDataset(dir);
+
+      await expect(dumpDataset(dir)).rejects.toThrow("already contains a dump");
+    });
+  });
+
+  describe("verifyDataset", () => {
+    it("should reject a file that does not match its checksum", async () => {
+      await dumpDataset(dir);
+      fs.appendFileSync(path.join(dir, "elo_ratings.ndjson"), "{}\n");
+
+      await expect(verifyDataset(dir)).rejects.toThrow(
+        "Checksum mismatch for elo_ratings.ndjson"
+      );
+    });
+
+    it("should reject a directory without a manifest", async () => {
+      await expect(verifyDataset(dir)).rejects.toThrow("No manifest.json");
+    });
+  });
+
+  describe("restoreDataset", () => {
+    it("should insert every table in order in one transaction", async () => {
+      await dumpDataset(dir);
+      mockWithTransaction.mockClear();
+
+      const summary = await restoreDataset(dir);
+
+      expect(summary.rows).toEqual({
+        clubs: 2,
+        club_aliases: 1,
+        club_profiles: 1,
+        rating_periods: 1,
+        elo_ratings: 1,
+        fixtures: 0,
+        results: 0,
+      });
+      expect(mockWithTransaction).toHaveBeenCalledTimes(1);
+      expect(mockRepo.insertRows.mock.calls.map(([, table]) => table)).toEqual([
+        "clubs",
+        "club_aliases",
+        "club_profiles",
+        "rating_periods",
+        "elo_ratings",
+        "fixtures",
+        "results",
+      ]);
+      expect(mockRepo.insertRows).toHaveBeenCalledWith(
+        client,
+        "clubs",
+        TABLE_ROWS.clubs
+      );
+      expect(mockRepo.resetIdSequence).toHaveBeenCalledTimes(7);
+      expect(mockRepo.truncateTables).not.toHaveBeenCalled();
+      expect(invalidateCache).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refuse non-empty tables unless replacing", async () => {
+      await dumpDataset(dir);
+      mockRepo.countRows.mockResolvedValueOnce(5);
+
+      await expect(restoreDataset(dir)).rejects.toThrow(
+        "Table clubs is not empty"
+      );
+      expect(mockRepo.insertRows).not.toHaveBeenCalled();
+
+      await restoreDataset(dir, { replace: true });
+
+      expect(mockRepo.truncateTables).toHaveBeenCalledWith(client, [
+        "clubs",
+        "club_aliases",
+        "club_profiles",
+        "rating_periods",
+        "elo_ratings",
+        "fixtures",
+        "results",
+      ]);
+    });
+
+    it("should refuse a dump from another schema version", async () => {
+      await dumpDataset(dir);
+      mockRepo.getTableColumns.mockResolvedValue([
+        { table: "clubs", column: "id", type: "bigint" },
+      ]);
+      mockRepo.getMigrationVersion.mockResolvedValue(13);
+
+      await expect(restoreDataset(dir)).rejects.toThrow(
+        /\(migration 12\) does not match database schema version [0-9a-f]{16} \(migration 13\)/
+      );
+      expect(mockRepo.truncateTables).not.toHaveBeenCalled();
+      expect(mockRepo.insertRows).not.toHaveBeenCalled();
+
+      await restoreDataset(dir, { ignoreSchemaVersion: true });
+
+      expect(mockRepo.insertRows).toHaveBeenCalledTimes(7);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Dataset Table Coverage Tests
+ *
+ * Restore with --replace truncates the dumped tables with CASCADE, which
+ * also empties every table that references them. These tests read the
+ * foreign keys the migrations create and check that each such table is
+ * dumped too, after the tables it references.
+ */
+
+import { loadMigrations, MIGRATIONS_DIR } from "../../../shared/database/migrations";
+import { DATASET_TABLES } from "../dataset.types";
+
+/**
+ * Tables each table references, from the up migrations
+ */
+function foreignKeysFromMigrations(): Record<string, Set<string>> {
+  const references: Record<string, Set<string>> = {};
+
+  for (const { up } of loadMigrations(MIGRATIONS_DIR)) {
+    const statements = [
+      ...up.matchAll(/CREATE TABLE IF NOT EXISTS (\w+) \(([\s\S]*?)\n\);/g),
+      ...up.matchAll(/ALTER TABLE (\w+)\s([\s\S]*?);/g),
+    ];
+
+    for (const [, table, body] of statements) {
+      for (const [, target] of body.matchAll(/REFERENCES (\w+)/g)) {
+        (references[table] ??= new Set()).add(target);
+      }
+    }
+  }
+
+  return references;
+}
+
+describe("Dataset Tables", () => {
+  const references = foreignKeysFromMigrations();
+  const dumped: readonly string[] = DATASET_TABLES;
+
+  it("should find the foreign keys in the migrations", () => {
+    expect(references.elo_ratings).toEqual(new Set(["clubs"]));
+    expect(references.results).toEqual(new Set(["fixtures"]));
+  });
+
+  it("should dump every table that references a dumped table", () => {
+    const missing = Object.entries(references)
+      .filter(([, targets]) =>
+        Array.from(targets).some((target) => dumped.includes(target))
+      )
+      .map(([table]) => table)
+      .filter((table) => !dumped.includes(table));
+
+    expect(missing).toEqual([]);
+  });
+
+  it("should list each table after the tables it references", () => {
+    for (const table of dumped) {
+      for (const target of references[table] ?? []) {
+        expect(dumped.indexOf(target)).toBeLessThan(dumped.indexOf(table));
+      }
+    }
+  });
+});
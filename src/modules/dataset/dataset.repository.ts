@@ -0,0 +1,177 @@
+/**
+ * Dataset Repository
+ *
+ * DATA ACCESS LAYER - SQL for dumping and restoring whole tables.
+ *
+ * Rows travel as the JSON Postgres produces with row_to_json and are read
+ * back with json_populate_recordset, so every column round trips with its
+ * own type rules and no per-table mapping is needed.
+ *
+ * RULE: No business logic here - only database operations.
+ */
+
+import { db } from "../../shared/database/connection";
+import { streamCursor, mapStream } from "../../shared/database/stream";
+import { DatasetTable } from "./dataset.types";
+
+export type Queryable = Pick<typeof db, "query">;
+
+/**
+ * Primary key of each table that is not keyed by id
+ */
+const KEY_COLUMNS: Partial<Record<DatasetTable, string>> = {
+  club_profiles: "club_id",
+};
+
+/**
+ * Stream every row of a table as a JSON object string, by primary key
+ *
+ * Runs in the caller's transaction, so every table of a dump is read from
+ * the same snapshot.
+ */
+export function streamTableRows(
+  client: Queryable,
+  table: DatasetTable
+): AsyncIterable<string> {
+  const key = KEY_COLUMNS[table] ?? "id";
+
+  return mapStream(
+    streamCursor<{ line: string }>(
+      client,
+      `SELECT row_to_json(t)::text AS line FROM ${table} t ORDER BY t.${key}`
+    ),
+    (row) => row.line
+  );
+}
+
+/**
+ * Columns of the given tables, in table then column order
+ */
+export async function getTableColumns(
+  client: Queryable,
+  tables: readonly DatasetTable[]
+): Promise<Array<{ table: string; column: string; type: string }>> {
+  const result = await client.query<{
+    table_name: string;
+    column_name: string;
+    data_type: string;
+  }>(
+    `SELECT table_name, column_name, data_type
+     FROM information_schema.columns
+     WHERE table_schema = current_schema() AND table_name = ANY($1)
+     ORDER BY table_name, ordinal_position`,
+    [tables]
+  );
+
+  return result.rows.map((row) => ({
+    table: row.table_name,
+    column: row.column_name,
+    type: row.data_type,
+  }));
+}
+
+/**
+ * Latest rating date across all sources
+ */
+export async function getLatestSnapshotDate(
+  client: Queryable
+): Promise<string | null> {
+  const result = await client.query<{ max_date: string | null }>(
+    "SELECT MAX(date)::text AS max_date FROM elo_ratings"
+  );
+
+  return result.rows[0]?.max_date || null;
+}
+
+/**
+ * Latest applied schema migration (null before the first migrate:up)
+ */
+export async function getMigrationVersion(
+  client: Queryable
+): Promise<number | null> {
+  const exists = await client.query<{ regclass: string | null }>(
+    "SELECT to_regclass('schema_migrations')::text AS regclass"
+  );
+
+  if (!exists.rows[0]?.regclass) {
+    return null;
+  }
+
+  const result = await client.query<{ version: number | null }>(
+    "SELECT MAX(version) AS version FROM schema_migrations"
+  );
+
+  return result.rows[0]?.version ?? null;
+}
+
+/**
+ * Count the rows of a table
+ */
+export async function countRows(
+  client: Queryable,
+  table: DatasetTable
+): Promise<number> {
+  const result = await client.query<{ total: string }>(
+    `SELECT COUNT(*) AS total FROM ${table}`
+  );
+
+  return parseInt(result.rows[0].total, 10);
+}
+
+/**
+ * Empty tables, and every table that references them
+ */
+export async function truncateTables(
+  client: Queryable,
+  tables: readonly DatasetTable[]
+): Promise<void> {
+  await client.query(`TRUNCATE ${tables.join(", ")} RESTART IDENTITY CASCADE`);
+}
+
+/**
+ * Insert rows given as JSON object strings, keeping their IDs
+ */
+export async function insertRows(
+  client: Queryable,
+  table: DatasetTable,
+  lines: string[]
+): Promise<void> {
+  if (lines.length === 0) {
+    return;
+  }
+
+  await client.query(
+    `INSERT INTO ${table}
+     SELECT * FROM json_populate_recordset(NULL::${table}, $1::json)`,
+    [`[${lines.join(",")}]`]
+  );
+}
+
+/**
+ * Move a table's ID sequence past the restored IDs
+ *
+ * Tables without a serial id column (club_profiles) are left alone.
+ */
+export async function resetIdSequence(
+  client: Queryable,
+  table: DatasetTable
+): Promise<void> {
+  const result = await client.query(
+    `SELECT pg_get_serial_sequence(table_name, column_name) AS sequence
+     FROM information_schema.columns
+     WHERE table_schema = current_schema()
+       AND table_name = $1
+       AND column_name = 'id'`,
+    [table]
+  );
+
+  const sequence = result.rows[0]?.sequence;
+  if (!sequence) {
+    return;
+  }
+
+  await client.query(
+    `SELECT setval($1, COALESCE(MAX(id), 0) + 1, false) FROM ${table}`,
+    [sequence]
+  );
+}
@@ -0,0 +1,307 @@
+/**
+ * Dataset Service
+ *
+ * BUSINESS LOGIC LAYER - Full-dataset dumps and restores.
+ *
+ * A dump is a directory with one NDJSON file per table and a manifest.json
+ * holding each file's row count and SHA-256, the schema version, the latest
+ * applied migration and the latest snapshot date. All tables are read from
+ * one snapshot. The manifest is written last, so a directory without one
+ * is an unfinished dump.
+ *
+ * RULE: No SQL here - only business logic and orchestration.
+ */
+
+import { createHash } from "crypto";
+import { once } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import * as datasetRepo from "./dataset.repository";
+import {
+  DATASET_TABLES,
+  DatasetManifest,
+  DatasetTable,
+  DatasetTableEntry,
+  RestoreOptions,
+  RestoreSummary,
+} from "./dataset.types";
+import { withTransaction } from "../../shared/database/transaction";
+import { invalidateCache } from "../../shared/cache/response-cache";
+import { logger } from "../../shared/utils/logger";
+
+/**
+ * Layout version of dump directories; bump when the file format changes
+ */
+export const DATASET_FORMAT_VERSION = 1;
+
+export const MANIFEST_FILE = "manifest.json";
+
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Fingerprint of the dumped tables' columns
+ *
+ * Dumps only restore cleanly into a database with the same columns, so the
+ * manifest records this and restore compares it.
+ */
+export async function getSchemaVersion(
+  client: datasetRepo.Queryable
+): Promise<string> {
+  const columns = await datasetRepo.getTableColumns(client, DATASET_TABLES);
+  const signature = columns
+    .map(({ table, column, type }) => `${table}.${column}:${type}`)
+    .join("\n");
+
+  return createHash("sha256").update(signature).digest("hex").slice(0, 16);
+}
+
+/**
+ * Dump every dataset table into a directory
+ *
+ * Everything is read in one REPEATABLE READ transaction, so rows written
+ * during the dump are either in every file or in none, and foreign keys
+ * between the files always resolve.
+ *
+ * @param outDir - Created if missing; must not already hold a dump
+ * @returns The manifest that was written
+ */
+export async function dumpDataset(outDir: string): Promise<DatasetManifest> {
+  const manifestPath = path.join(outDir, MANIFEST_FILE);
+
+  if (fs.existsSync(manifestPath)) {
+    throw new Error(`${outDir} already contains a dump`);
+  }
+
+  fs.mkdirSync(outDir, { recursive: true });
+
+  const manifest = await withTransaction(
+    async (client): Promise<DatasetManifest> => {
+      const schemaVersion = await getSchemaVersion(client);
+      const migrationVersion = await datasetRepo.getMigrationVersion(client);
+      const latestSnapshotDate = await datasetRepo.getLatestSnapshotDate(client);
+      const tables: DatasetTableEntry[] = [];
+
+      for (const table of DATASET_TABLES) {
+        const entry = await dumpTable(client, outDir, table);
+        logger.info(`Dumped ${entry.rows} rows from ${table}`);
+        tables.push(entry);
+      }
+
+      return {
+        formatVersion: DATASET_FORMAT_VERSION,
+        schemaVersion,
+        migrationVersion,
+        createdAt: new Date().toISOString(),
+        latestSnapshotDate,
+        tables,
+      };
+    },
+    { isolation: "REPEATABLE READ", readOnly: true }
+  );
+
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+
+  return manifest;
+}
+
+/**
+ * Stream one table to <table>.ndjson, hashing as it goes
+ */
+async function dumpTable(
+  client: datasetRepo.Queryable,
+  outDir: string,
+  table: DatasetTable
+): Promise<DatasetTableEntry> {
+  const file = `${table}.ndjson`;
+  const out = fs.createWriteStream(path.join(outDir, file));
+  const hash = createHash("sha256");
+  let rows = 0;
+
+  try {
+    for await (const line of datasetRepo.streamTableRows(client, table)) {
+      const chunk = line + "\n";
+      hash.update(chunk);
+      rows++;
+
+      if (!out.write(chunk)) {
+        await once(out, "drain");
+      }
+    }
+  } finally {
+    out.end();
+    await once(out, "close");
+  }
+
+  return { name: table, file, rows, sha256: hash.digest("hex") };
+}
+
+/**
+ * Read a dump's manifest and check every file against it
+ *
+ * @throws Error if the manifest is missing or unsupported, or a file is
+ *   missing or does not match its checksum
+ */
+export async function verifyDataset(inDir: string): Promise<DatasetManifest> {
+  const manifestPath = path.join(inDir, MANIFEST_FILE);
+
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`No ${MANIFEST_FILE} in ${inDir}`);
+  }
+
+  const manifest: DatasetManifest = JSON.parse(
+    fs.readFileSync(manifestPath, "utf8")
+  );
+
+  if (manifest.formatVersion !== DATASET_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported dump format version ${manifest.formatVersion} (expected ${DATASET_FORMAT_VERSION})`
+    );
+  }
+
+  for (const table of DATASET_TABLES) {
+    const entry = manifest.tables.find((t) => t.name === table);
+
+    if (!entry) {
+      throw new Error(`Manifest has no entry for ${table}`);
+    }
+
+    const filePath = path.join(inDir, entry.file);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Missing dump file ${entry.file}`);
+    }
+
+    const sha256 = await hashFile(filePath);
+
+    if (sha256 !== entry.sha256) {
+      throw new Error(`Checksum mismatch for ${entry.file}`);
+    }
+  }
+
+  return manifest;
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+
+  return hash.digest("hex");
+}
+
+/**
+ * Load a dump into the database
+ *
+ * The dump's files and schema version are checked before anything is
+ * written, and all tables are restored in one transaction. Row IDs are kept, so fixtures and ratings
+ * still point at their clubs.
+ *
+ * @throws Error if the dump fails verification, was taken from another
+ *   schema version, or the tables already hold data (without replace)
+ */
+export async function restoreDataset(
+  inDir: string,
+  options: RestoreOptions = {}
+): Promise<RestoreSummary> {
+  const manifest = await verifyDataset(inDir);
+  const rows = {} as Record<DatasetTable, number>;
+
+  await withTransaction(async (client) => {
+    if (!options.ignoreSchemaVersion) {
+      await assertSameSchema(client, manifest);
+    }
+
+    if (options.replace) {
+      await datasetRepo.truncateTables(client, DATASET_TABLES);
+    } else {
+      for (const table of DATASET_TABLES) {
+        if ((await datasetRepo.countRows(client, table)) > 0) {
+          throw new Error(
+            `Table ${table} is not empty; restore with --replace to overwrite it`
+          );
+        }
+      }
+    }
+
+    for (const table of DATASET_TABLES) {
+      const entry = manifest.tables.find((t) => t.name === table)!;
+      rows[table] = await restoreTable(client, table, path.join(inDir, entry.file));
+
+      if (rows[table] !== entry.rows) {
+        throw new Error(
+          `Restored ${rows[table]} rows into ${table}, manifest lists ${entry.rows}`
+        );
+      }
+
+      await datasetRepo.resetIdSequence(client, table);
+      logger.info(`Restored ${rows[table]} rows into ${table}`);
+    }
+  });
+
+  await invalidateCache(`dataset restore from ${inDir}`);
+
+  return { manifest, rows };
+}
+
+/**
+ * Check that a dump was taken from a database with the same columns
+ *
+ * @throws Error naming both schema versions and migrations
+ */
+async function assertSameSchema(
+  client: datasetRepo.Queryable,
+  manifest: DatasetManifest
+): Promise<void> {
+  const schemaVersion = await getSchemaVersion(client);
+
+  if (manifest.schemaVersion === schemaVersion) {
+    return;
+  }
+
+  const migrationVersion = await datasetRepo.getMigrationVersion(client);
+
+  throw new Error(
+    `Dump schema version ${manifest.schemaVersion} (migration ${
+      manifest.migrationVersion ?? "unknown"
+    }) does not match database schema version ${schemaVersion} (migration ${
+      migrationVersion ?? "none"
+    })`
+  );
+}
+
+/**
+ * Insert one NDJSON file in batches
+ */
+async function restoreTable(
+  client: datasetRepo.Queryable,
+  table: DatasetTable,
+  filePath: string
+): Promise<number> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+  let batch: string[] = [];
+  let rows = 0;
+
+  for await (const line of lines) {
+    if (!line) {
+      continue;
+    }
+
+    batch.push(line);
+    rows++;
+
+    if (batch.length === INSERT_BATCH_SIZE) {
+      await datasetRepo.insertRows(client, table, batch);
+      batch = [];
+    }
+  }
+
+  await datasetRepo.insertRows(client, table, batch);
+
+  return rows;
+}
@@ -0,0 +1,58 @@
+/**
+ * Dataset Module - Type Definitions
+ *
+ * Manifest and summaries for full-dataset dumps. PUBLIC CONTRACT ONLY.
+ */
+
+/**
+ * Tables included in a dump, in restore (foreign key) order
+ */
+export const DATASET_TABLES = [
+  "clubs",
+  "club_aliases",
+  "club_profiles",
+  "rating_periods",
+  "elo_ratings",
+  "fixtures",
+  "results",
+] as const;
+
+export type DatasetTable = (typeof DATASET_TABLES)[number];
+
+/**
+ * One table file in a dump
+ */
+export interface DatasetTableEntry {
+  name: DatasetTable;
+  file: string; // Relative to the dump directory (NDJSON, one row per line)
+  rows: number;
+  sha256: string; // Hex digest of the file contents
+}
+
+/**
+ * manifest.json of a dump
+ */
+export interface DatasetManifest {
+  formatVersion: number; // Layout of the dump files
+  schemaVersion: string; // Fingerprint of the dumped tables' columns
+  migrationVersion?: number | null; // Latest applied migration (absent in older dumps)
+  createdAt: string; // ISO timestamp
+  latestSnapshotDate: string | null; // Latest elo_ratings date, any source
+  tables: DatasetTableEntry[];
+}
+
+/**
+ * Restore options
+ */
+export interface RestoreOptions {
+  replace?: boolean; // Empty the tables first instead of requiring them empty
+  ignoreSchemaVersion?: boolean; // Restore into a database with other columns
+}
+
+/**
+ * Result of a restore
+ */
+export interface RestoreSummary {
+  manifest: DatasetManifest;
+  rows: Record<DatasetTable, number>;
+}
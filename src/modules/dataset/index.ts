@@ -0,0 +1,19 @@
+/**
+ * Dataset Module - Public API
+ *
+ * BARREL FILE - Controls what this module exposes.
+ *
+ * RULE: Only export what other modules need. Keep internals private.
+ */
+
+// Export types (for scripts to use)
+export type {
+  DatasetTable,
+  DatasetTableEntry,
+  DatasetManifest,
+  RestoreOptions,
+  RestoreSummary,
+} from "./dataset.types";
+
+// Export service (for the dump / restore scripts)
+export * as datasetService from "./dataset.service";
@@ -0,0 +1,152 @@
+/**
+ * Historical Backfill Tests
+ *
+ * Unit tests for date planning, skipping and checkpoint resume.
+ * We mock the ClubElo client, the importer, the run ledger and the repository.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  loadCheckpoint,
+  planBackfillDates,
+  runBackfill,
+} from "../backfill.service";
+import * as clubeloClient from "../clubelo-client";
+import * as dataImporter from "../data-importer.service";
+import * as externalDataRepo from "../external-data.repository";
+
+jest.mock("../clubelo-client");
+jest.mock("../data-importer.service");
+jest.mock("../external-data.repository");
+jest.mock("../../import-runs", () => ({
+  importRunsService: {
+    trackImportRun: jest.fn(async (_run, work) => ({
+      ...(await work()),
+      runId: 1,
+    })),
+  },
+}));
+
+const mockClient = clubeloClient as jest.Mocked<typeof clubeloClient>;
+const mockImporter = dataImporter as jest.Mocked<typeof dataImporter>;
+const mockRepo = externalDataRepo as jest.Mocked<typeof externalDataRepo>;
+
+const row = {
+  Rank: "1",
+  Club: "ManCity",
+  Country: "ENG",
+  Level: "1",
+  Elo: "2050",
+  From: "2025-01-01",
+  To: "2025-01-07",
+};
+
+describe("Historical Backfill", () => {
+  let checkpointPath: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    checkpointPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "backfill-")),
+      "checkpoint.json"
+    );
+    mockRepo.findRatingDates.mockResolvedValue([]);
+    mockClient.fetchDailySnapshot.mockResolvedValue([row]);
+    mockImporter.importDailySnapshot.mockResolvedValue({
+      success: 1,
+      errors: 0,
+      errorSamples: [],
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(checkpointPath), { recursive: true, force: true });
+  });
+
+  describe("planBackfillDates", () => {
+    it("should include both ends for daily sampling", () => {
+      expect(planBackfillDates("2024-02-27", "2024-03-01")).toEqual([
+        "2024-02-27",
+        "2024-02-28",
+        "2024-02-29",
+        "2024-03-01",
+      ]);
+    });
+
+    it("should step by the sampling interval", () => {
+      expect(planBackfillDates("2025-01-01", "2025-01-20", 7)).toEqual([
+        "2025-01-01",
+        "2025-01-08",
+        "2025-01-15",
+      ]);
+    });
+  });
+
+  describe("runBackfill", () => {
+    it("should skip dates already stored and record the rest", async () => {
+      mockRepo.findRatingDates.mockResolvedValueOnce(["2025-01-02"]);
+
+      const summary = await runBackfill({
+        from: "2025-01-01",
+        to: "2025-01-03",
+        concurrency: 2,
+        checkpointPath,
+      });
+
+      expect(summary).toMatchObject({
+        planned: 3,
+        fetched: 2,
+        skipped: 1,
+        failed: 0,
+        rowsImported: 2,
+      });
+      expect(mockClient.fetchDailySnapshot).not.toHaveBeenCalledWith(
+        "2025-01-02"
+      );
+      expect(loadCheckpoint(checkpointPath).completed).toEqual([
+        "2025-01-01",
+        "2025-01-03",
+      ]);
+    });
+
+    it("should resume from the checkpoint and retry failed dates", async () => {
+      mockClient.fetchDailySnapshot.mockImplementation(async (date) => {
+        if (date === "2025-01-02") throw new Error("HTTP 503");
+        return [row];
+      });
+
+      const first = await runBackfill({
+        from: "2025-01-01",
+        to: "2025-01-03",
+        concurrency: 1,
+        checkpointPath,
+      });
+
+      expect(first.failedDates).toEqual(["2025-01-02"]);
+      expect(loadCheckpoint(checkpointPath).failed).toEqual(["2025-01-02"]);
+
+      mockClient.fetchDailySnapshot.mockClear();
+      mockClient.fetchDailySnapshot.mockResolvedValue([row]);
+
+      const second = await runBackfill({
+        from: "2025-01-01",
+        to: "2025-01-03",
+        checkpointPath,
+      });
+
+      expect(second).toMatchObject({ fetched: 1, skipped: 2, failed: 0 });
+      expect(mockClient.fetchDailySnapshot).toHaveBeenCalledTimes(1);
+      expect(mockClient.fetchDailySnapshot).toHaveBeenCalledWith("2025-01-02");
+      expect(loadCheckpoint(checkpointPath).failed).toEqual([]);
+    });
+
+    it("should not check stored snapshots when forced", async () => {
+      await runBackfill({ from: "2025-01-01", to: "2025-01-01", force: true });
+
+      expect(mockRepo.findRatingDates).not.toHaveBeenCalled();
+      expect(mockClient.fetchDailySnapshot).toHaveBeenCalledWith("2025-01-01");
+    });
+  });
+});
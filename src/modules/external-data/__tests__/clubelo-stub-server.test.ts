@@ -0,0 +1,84 @@
+/**
+ * ClubElo Stub Server Tests
+ *
+ * Runs the real ClubElo client against the stub server and the recorded
+ * CSV files in test-data/clubelo, with injected faults.
+ */
+
+import path from "path";
+import { ClubEloStub, startClubEloStub } from "../clubelo-stub-server";
+
+const STUB_DIR = path.join(__dirname, "../../../../test-data/clubelo");
+
+describe("ClubElo Stub Server", () => {
+  let stub: ClubEloStub;
+  let client: typeof import("../clubelo-client");
+
+  beforeAll(async () => {
+    stub = await startClubEloStub({ dir: STUB_DIR });
+
+    // The client reads its settings on load, so load it pointed at the stub
+    process.env.CLUBELO_API_BASE = stub.url;
+    process.env.HTTP_TIMEOUT = "500";
+    process.env.HTTP_MAX_RETRIES = "2";
+    jest.isolateModules(() => {
+      client = require("../clubelo-client");
+    });
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.clearFaults();
+    stub.requests.length = 0;
+  });
+
+  it("should serve a recorded daily snapshot", async () => {
+    const rows = await client.fetchDailySnapshot("2025-11-18");
+
+    expect(rows).toHaveLength(6);
+    expect(rows[0]).toMatchObject({ Rank: "1", Club: "Liverpool" });
+    expect(stub.requests).toEqual(["/2025-11-18"]);
+  });
+
+  it("should serve club history and fixtures", async () => {
+    expect(await client.fetchClubHistory("ManCity")).toHaveLength(4);
+    expect(await client.fetchFixtures()).toHaveLength(3);
+    expect(await client.fetchFixtures("2025-11-22")).toHaveLength(2);
+  });
+
+  it("should answer unknown dates with a header-only CSV", async () => {
+    expect(await client.fetchDailySnapshot("1999-01-01")).toEqual([]);
+  });
+
+  it("should retry after an injected 5xx", async () => {
+    stub.injectFault({
+      kind: "error",
+      status: 503,
+      path: "/2025-11-17",
+      times: 1,
+    });
+
+    const rows = await client.fetchDailySnapshot("2025-11-17");
+
+    expect(rows).toHaveLength(5);
+    expect(stub.requests).toEqual(["/2025-11-17", "/2025-11-17"]);
+  });
+
+  it("should give up on an injected timeout", async () => {
+    stub.injectFault({ kind: "timeout", path: "/fixtures" });
+
+    await expect(client.fetchFixtures()).rejects.toThrow();
+    expect(stub.requests[0]).toBe("/fixtures");
+  });
+
+  it("should reject injected malformed CSV", async () => {
+    stub.injectFault({ kind: "malformed" });
+
+    await expect(client.fetchClubHistory("ManCity")).rejects.toThrow(
+      "Failed to parse CSV"
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Data Importer Tests
+ *
+ * Unit tests for the set-based daily snapshot import.
+ * We mock the clubs module's public API and the transaction wrapper.
+ */
+
+import { importDailySnapshot } from "../data-importer.service";
+import { ClubEloRow } from "../clubelo-client";
+import { createClubResolver, upsertClubs } from "../../clubs";
+import { createClubNameIndex } from "../../clubs/clubs.resolver";
+import { withTransaction } from "../../../shared/database/transaction";
+
+jest.mock("../../clubs", () => ({
+  createClubResolver: jest.fn(),
+  upsertClub: jest.fn(),
+  upsertClubs: jest.fn(),
+}));
+jest.mock("../../../shared/database/connection");
+jest.mock("../../../shared/database/transaction");
+
+const mockUpsertClubs = upsertClubs as jest.Mock;
+const mockCreateClubResolver = createClubResolver as jest.Mock;
+const mockWithTransaction = withTransaction as jest.Mock;
+const client = { query: jest.fn() };
+
+function snapshotRow(overrides: Partial<ClubEloRow> = {}): ClubEloRow {
+  return {
+    Rank: "1",
+    Club: "ManCity",
+    Country: "ENG",
+    Level: "1",
+    Elo: "2050.5",
+    From: "2025-11-15",
+    To: "2025-11-18",
+    ...overrides,
+  };
+}
+
+describe("Data Importer", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client.query.mockResolvedValue({ rows: [], rowCount: 0 });
+    mockWithTransaction.mockImplementation((callback) => callback(client));
+    mockCreateClubResolver.mockResolvedValue(createClubNameIndex([], []));
+    mockUpsertClubs.mockImplementation(async (clubs) =>
+      new Map(clubs.map((club: any, i: number) => [club.apiName, i + 10]))
+    );
+  });
+
+  describe("importDailySnapshot", () => {
+    it("should write the whole snapshot in one transaction, by API name", async () => {
+      const stats = await importDailySnapshot(
+        [
+          snapshotRow(),
+          snapshotRow({ Club: "Liverpool", Rank: "None", Elo: "1990" }),
+        ],
+        new Date(2025, 10, 18)
+      );
+
+      expect(stats).toEqual({ success: 2, errors: 0, errorSamples: [] });
+      expect(mockWithTransaction).toHaveBeenCalledTimes(1);
+      expect(mockUpsertClubs).toHaveBeenCalledTimes(1);
+      expect(
+        mockUpsertClubs.mock.calls[0][0].map((club: any) => club.apiName)
+      ).toEqual(["Liverpool", "ManCity"]);
+      expect(mockUpsertClubs.mock.calls[0][1]).toBe(client);
+      expect(client.query).toHaveBeenCalledTimes(2);
+
+      const [ratingsSql, ratingsParams] = client.query.mock.calls[0];
+      expect(ratingsSql).toContain("INSERT INTO elo_ratings");
+      expect(ratingsSql).toContain("unnest");
+      expect(ratingsParams).toEqual([
+        "2025-11-18",
+        [10, 11],
+        [null, 1],
+        ["ENG", "ENG"],
+        [1, 1],
+        [1990, 2050.5],
+        "clubelo",
+      ]);
+
+      const [periodsSql, periodsParams] = client.query.mock.calls[1];
+      expect(periodsSql).toContain("INSERT INTO rating_periods");
+      expect(periodsParams[0]).toEqual([10, 11]);
+      expect(periodsParams[1]).toEqual(["2025-11-15", "2025-11-15"]);
+      expect(periodsParams[2]).toEqual(["2025-11-18", "2025-11-18"]);
+    });
+
+    it("should reject invalid and duplicate rows as errors", async () => {
+      const stats = await importDailySnapshot(
+        [
+          snapshotRow(),
+          snapshotRow({ Club: "Broken", Elo: "n/a" }),
+          snapshotRow({ Club: "BadRank", Rank: "x" }),
+          snapshotRow({ Elo: "2049" }),
+        ],
+        new Date(2025, 10, 18)
+      );
+
+      expect(stats).toEqual({
+        success: 1,
+        errors: 3,
+        errorSamples: [
+          "Broken: invalid row (Rank=1, Level=1, Elo=n/a)",
+          "BadRank: invalid row (Rank=x, Level=1, Elo=2050.5)",
+          "ManCity: duplicate row",
+        ],
+      });
+      expect(mockUpsertClubs.mock.calls[0][0]).toEqual([
+        expect.objectContaining({ apiName: "ManCity", elo: 2050.5 }),
+      ]);
+    });
+
+    it("should store other spellings of a stored club against that club", async () => {
+      mockCreateClubResolver.mockResolvedValue(
+        createClubNameIndex(
+          [
+            {
+              id: 4,
+              apiName: "Bodoe",
+              displayName: "Bodø/Glimt",
+              country: "NOR",
+              level: 1,
+            },
+          ],
+          [{ clubId: 4, alias: "Bodo Glimt" }]
+        )
+      );
+
+      const stats = await importDailySnapshot(
+        [
+          snapshotRow({ Club: "BODØ/GLIMT", Country: "NOR" }),
+          snapshotRow({ Club: "Bodo  Glimt", Country: "NOR" }),
+        ],
+        new Date(2025, 10, 18)
+      );
+
+      expect(stats.errorSamples).toEqual(["Bodo  Glimt: duplicate row"]);
+      expect(mockUpsertClubs.mock.calls[0][0]).toEqual([
+        expect.objectContaining({ apiName: "Bodoe", displayName: "Bodø/Glimt" }),
+      ]);
+    });
+
+    it("should tag ratings with the source and skip periods for other sources", async () => {
+      await importDailySnapshot(
+        [snapshotRow()],
+        new Date(2025, 10, 18),
+        "inhouse"
+      );
+
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(client.query.mock.calls[0][1][6]).toBe("inhouse");
+    });
+
+    it("should skip the periods statement when no row has a valid period", async () => {
+      await importDailySnapshot(
+        [snapshotRow({ From: "2025-11-18", To: "2025-11-10" })],
+        new Date(2025, 10, 18)
+      );
+
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(client.query.mock.calls[0][0]).toContain("INSERT INTO elo_ratings");
+    });
+
+    it("should not open a transaction when every row is invalid", async () => {
+      const stats = await importDailySnapshot(
+        [snapshotRow({ Level: "" })],
+        new Date(2025, 10, 18)
+      );
+
+      expect(stats).toMatchObject({ success: 0, errors: 1 });
+      expect(mockWithTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should throw when the transaction fails", async () => {
+      client.query.mockRejectedValueOnce(new Error("deadlock detected"));
+
+      await expect(
+        importDailySnapshot([snapshotRow()], new Date(2025, 10, 18))
+      ).rejects.toThrow("deadlock detected");
+    });
+  });
+});
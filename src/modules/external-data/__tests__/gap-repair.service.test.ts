@@ -0,0 +1,117 @@
+/**
+ * Gap Repair Tests
+ *
+ * Unit tests for refetching missing snapshot days.
+ * We mock the ClubElo client, the importer, the gap finder and the run
+ * ledger.
+ */
+
+import { repairGaps } from "../gap-repair.service";
+import * as clubeloClient from "../clubelo-client";
+import * as dataImporter from "../data-importer.service";
+import { dataGapsService } from "../../data-gaps";
+import { importRunsService } from "../../import-runs";
+
+jest.mock("../clubelo-client");
+jest.mock("../data-importer.service");
+jest.mock("../../../shared/database/connection");
+jest.mock("../../data-gaps", () => ({
+  dataGapsService: { findMissingSnapshotDates: jest.fn() },
+}));
+jest.mock("../../import-runs", () => ({
+  importRunsService: {
+    trackImportRun: jest.fn(async (_run, work) => ({
+      ...(await work()),
+      runId: 1,
+    })),
+    findEmptySnapshotDates: jest.fn(),
+  },
+}));
+
+const mockClient = clubeloClient as jest.Mocked<typeof clubeloClient>;
+const mockImporter = dataImporter as jest.Mocked<typeof dataImporter>;
+const mockGaps = dataGapsService as jest.Mocked<typeof dataGapsService>;
+const mockRuns = importRunsService as jest.Mocked<typeof importRunsService>;
+
+const row = {
+  Rank: "1",
+  Club: "ManCity",
+  Country: "ENG",
+  Level: "1",
+  Elo: "2050",
+  From: "2025-01-01",
+  To: "2025-01-07",
+};
+
+describe("Gap Repair", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockImporter.importDailySnapshot.mockResolvedValue({
+      success: 1,
+      errors: 0,
+      errorSamples: [],
+    });
+    mockRuns.findEmptySnapshotDates.mockResolvedValue([]);
+  });
+
+  it("should refetch missing days newest first and report each outcome", async () => {
+    mockGaps.findMissingSnapshotDates.mockResolvedValueOnce([
+      "2025-01-21",
+      "2025-01-20",
+      "2025-01-06",
+    ]);
+    mockClient.fetchDailySnapshot.mockImplementation(async (date) => {
+      if (date === "2025-01-20") throw new Error("ClubElo API returned 503");
+      if (date === "2025-01-06") return [];
+      return [row];
+    });
+
+    const summary = await repairGaps(3, "cron");
+
+    expect(mockGaps.findMissingSnapshotDates).toHaveBeenCalledWith(3, []);
+    expect(mockClient.fetchDailySnapshot.mock.calls.map((c) => c[0])).toEqual([
+      "2025-01-21",
+      "2025-01-20",
+      "2025-01-06",
+    ]);
+    expect(summary).toEqual({
+      maxDays: 3,
+      attempted: 3,
+      repaired: ["2025-01-21"],
+      empty: ["2025-01-06"],
+      failed: [{ date: "2025-01-20", error: "ClubElo API returned 503" }],
+      rowsImported: 1,
+    });
+    expect(mockRuns.trackImportRun).toHaveBeenCalledWith(
+      {
+        type: "daily",
+        trigger: "cron",
+        parameters: { date: "2025-01-21", source: "clubelo", repair: true },
+      },
+      expect.any(Function)
+    );
+  });
+
+  it("should skip days ClubElo returned no data for before", async () => {
+    mockRuns.findEmptySnapshotDates.mockResolvedValueOnce(["2025-01-06"]);
+    mockGaps.findMissingSnapshotDates.mockResolvedValueOnce(["2024-12-30"]);
+    mockClient.fetchDailySnapshot.mockResolvedValue([row]);
+
+    const summary = await repairGaps(1, "cron");
+
+    expect(mockRuns.findEmptySnapshotDates).toHaveBeenCalledWith("clubelo");
+    expect(mockGaps.findMissingSnapshotDates).toHaveBeenCalledWith(1, [
+      "2025-01-06",
+    ]);
+    expect(summary.repaired).toEqual(["2024-12-30"]);
+  });
+
+  it("should do nothing when there are no gaps", async () => {
+    mockGaps.findMissingSnapshotDates.mockResolvedValueOnce([]);
+
+    const summary = await repairGaps(5, "manual");
+
+    expect(summary.attempted).toBe(0);
+    expect(mockClient.fetchDailySnapshot).not.toHaveBeenCalled();
+  });
+});
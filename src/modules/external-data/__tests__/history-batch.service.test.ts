@@ -0,0 +1,130 @@
+/**
+ * Club History Batch Tests
+ *
+ * Unit tests for listing clubs, skipping complete histories and per-club
+ * results. We mock the ClubElo client, the importer, the run ledger, the
+ * repository and the latest snapshot date.
+ */
+
+import { importAllClubHistories } from "../history-batch.service";
+import * as clubeloClient from "../clubelo-client";
+import * as dataImporter from "../data-importer.service";
+import * as externalDataRepo from "../external-data.repository";
+import { rankingsService } from "../../rankings";
+
+jest.mock("../clubelo-client");
+jest.mock("../data-importer.service");
+jest.mock("../external-data.repository");
+jest.mock("../../rankings", () => ({
+  rankingsService: { getLatestSnapshotDate: jest.fn() },
+}));
+jest.mock("../../import-runs", () => ({
+  importRunsService: {
+    trackImportRun: jest.fn(async (_run, work) => ({
+      ...(await work()),
+      runId: 1,
+    })),
+  },
+}));
+
+const mockClient = clubeloClient as jest.Mocked<typeof clubeloClient>;
+const mockImporter = dataImporter as jest.Mocked<typeof dataImporter>;
+const mockRepo = externalDataRepo as jest.Mocked<typeof externalDataRepo>;
+const mockLatestDate = rankingsService.getLatestSnapshotDate as jest.Mock;
+
+const historyRow = {
+  Rank: "1",
+  Club: "ManCity",
+  Country: "ENG",
+  Level: "1",
+  Elo: "2050",
+  From: "2025-01-01",
+  To: "2025-01-07",
+};
+
+describe("Club History Batch", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient.fetchClubHistory.mockResolvedValue([historyRow, historyRow]);
+    mockImporter.importClubHistory.mockResolvedValue({
+      success: 2,
+      errors: 0,
+      errorSamples: [],
+    });
+  });
+
+  it("should import clubs from the latest snapshot and skip complete ones", async () => {
+    mockLatestDate.mockResolvedValueOnce("2025-11-18");
+    mockRepo.findSnapshotClubApiNames.mockResolvedValueOnce([
+      "Arsenal",
+      "Liverpool",
+    ]);
+    mockRepo.findClubsWithCompletePeriods.mockResolvedValueOnce(["Arsenal"]);
+
+    const summary = await importAllClubHistories({ delayMs: 0 });
+
+    expect(mockLatestDate).toHaveBeenCalledWith("clubelo");
+    expect(mockRepo.findSnapshotClubApiNames).toHaveBeenCalledWith(
+      "clubelo",
+      "2025-11-18"
+    );
+    expect(mockRepo.findClubsWithCompletePeriods).toHaveBeenCalledWith(
+      ["Arsenal", "Liverpool"],
+      "2025-11-18"
+    );
+    expect(mockClient.fetchClubHistory).toHaveBeenCalledTimes(1);
+    expect(mockClient.fetchClubHistory).toHaveBeenCalledWith("Liverpool");
+    expect(summary).toMatchObject({
+      date: "2025-11-18",
+      imported: 1,
+      skipped: 1,
+      failed: 0,
+    });
+    expect(summary.clubs).toEqual([
+      { club: "Arsenal", status: "skipped", ratings: 0, errors: 0 },
+      { club: "Liverpool", status: "imported", ratings: 2, errors: 0 },
+    ]);
+  });
+
+  it("should list clubs from ClubElo when nothing is stored", async () => {
+    mockLatestDate.mockResolvedValueOnce(null);
+    mockRepo.findClubsWithCompletePeriods.mockResolvedValueOnce([]);
+    mockClient.fetchDailySnapshot.mockResolvedValueOnce([
+      { ...historyRow, Club: "Liverpool" },
+      { ...historyRow, Club: "Arsenal" },
+    ]);
+
+    const summary = await importAllClubHistories({ delayMs: 0, limit: 1 });
+
+    expect(mockClient.fetchDailySnapshot).toHaveBeenCalledTimes(1);
+    expect(summary.clubs.map((club) => club.club)).toEqual(["Arsenal"]);
+  });
+
+  it("should record a failed club and carry on", async () => {
+    mockLatestDate.mockResolvedValueOnce("2025-11-18");
+    mockRepo.findSnapshotClubApiNames.mockResolvedValueOnce([
+      "Arsenal",
+      "Liverpool",
+    ]);
+    mockClient.fetchClubHistory
+      .mockRejectedValueOnce(new Error("HTTP 404: Not Found"))
+      .mockResolvedValueOnce([]);
+
+    const onClub = jest.fn();
+    const summary = await importAllClubHistories(
+      { delayMs: 0, force: true },
+      onClub
+    );
+
+    expect(summary.clubs[0]).toMatchObject({
+      club: "Arsenal",
+      status: "failed",
+      error: "HTTP 404: Not Found",
+    });
+    expect(summary.clubs[1].status).toBe("empty");
+    expect(onClub).toHaveBeenCalledTimes(2);
+    expect(onClub).toHaveBeenLastCalledWith(summary.clubs[1], 1, 2);
+    // Forced runs do not look for complete histories
+    expect(mockRepo.findClubsWithCompletePeriods).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Local File Source Tests
+ *
+ * Unit tests for reading ratings and fixtures from CSV and JSON files.
+ * Each test writes its files to a temporary directory.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createLocalFileSource } from "../local-file-source";
+
+describe("Local File Source", () => {
+  let dir: string;
+
+  function write(file: string, contents: string) {
+    const filePath = path.join(dir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, contents);
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "rating-source-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should read a daily snapshot from CSV", async () => {
+    write(
+      "snapshots/2025-11-18.csv",
+      "Rank,Club,Country,Level,Elo,From,To\n1,ManCity,ENG,1,2050.5,2025-11-15,2025-11-18\n"
+    );
+
+    const rows = await createLocalFileSource(dir).fetchDailySnapshot(
+      "2025-11-18"
+    );
+
+    expect(rows).toEqual([
+      {
+        Rank: "1",
+        Club: "ManCity",
+        Country: "ENG",
+        Level: "1",
+        Elo: "2050.5",
+        From: "2025-11-15",
+        To: "2025-11-18",
+      },
+    ]);
+  });
+
+  it("should read club history from JSON as strings", async () => {
+    write(
+      "clubs/Liverpool.json",
+      JSON.stringify([
+        {
+          Rank: null,
+          Club: "Liverpool",
+          Country: "ENG",
+          Level: 1,
+          Elo: 1990,
+          From: "2025-01-01",
+          To: "2025-01-07",
+        },
+      ])
+    );
+
+    const rows = await createLocalFileSource(dir).fetchClubHistory("Liverpool");
+
+    expect(rows[0]).toMatchObject({ Rank: "", Level: "1", Elo: "1990" });
+  });
+
+  it("should read all fixtures or one date's fixtures", async () => {
+    write("fixtures.json", JSON.stringify([{ HomeTeam: "Arsenal" }]));
+    write("fixtures/2025-11-20.json", JSON.stringify([{ HomeTeam: "Spurs" }]));
+
+    const source = createLocalFileSource(dir);
+
+    expect((await source.fetchFixtures())[0].HomeTeam).toBe("Arsenal");
+    expect((await source.fetchFixtures("2025-11-20"))[0].HomeTeam).toBe(
+      "Spurs"
+    );
+  });
+
+  it("should return nothing when the file is missing", async () => {
+    expect(
+      await createLocalFileSource(dir).fetchDailySnapshot("2025-11-18")
+    ).toEqual([]);
+  });
+
+  it("should use the given name as the source tag", () => {
+    expect(createLocalFileSource(dir).name).toBe("local");
+    expect(createLocalFileSource(dir, "inhouse").name).toBe("inhouse");
+  });
+
+  it("should reject paths outside the directory", async () => {
+    const source = createLocalFileSource(dir);
+
+    await expect(source.fetchClubHistory("../secrets")).rejects.toThrow(
+      "Invalid club name"
+    );
+    await expect(source.fetchDailySnapshot("../../x")).rejects.toThrow(
+      "YYYY-MM-DD"
+    );
+  });
+
+  it("should reject JSON that is not an array", async () => {
+    write("snapshots/2025-11-18.json", "{}");
+
+    await expect(
+      createLocalFileSource(dir).fetchDailySnapshot("2025-11-18")
+    ).rejects.toThrow("must contain a JSON array");
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Results Importer Tests
+ *
+ * Unit tests for results feed parsing and fixture matching.
+ * We mock the fixtures and clubs modules to avoid touching the database.
+ */
+
+import {
+  importResults,
+  parseResultRow,
+  ResultFeedRow,
+} from "../results-importer.service";
+import { findFixtureIdByTeams, upsertResult } from "../../fixtures";
+import { createClubResolver } from "../../clubs";
+import { createClubNameIndex } from "../../clubs/clubs.resolver";
+
+// Mock the fixtures and clubs modules' public API
+jest.mock("../../fixtures", () => ({
+  findFixtureIdByTeams: jest.fn(),
+  upsertResult: jest.fn(),
+}));
+jest.mock("../../clubs", () => ({
+  createClubResolver: jest.fn(),
+}));
+
+const mockFindFixture = findFixtureIdByTeams as jest.Mock;
+const mockUpsertResult = upsertResult as jest.Mock;
+const mockCreateClubResolver = createClubResolver as jest.Mock;
+
+function feedRow(overrides: Partial<ResultFeedRow> = {}): ResultFeedRow {
+  return {
+    Date: "2025-11-23",
+    HomeTeam: "ManCity",
+    AwayTeam: "Liverpool",
+    HomeGoals: "2",
+    AwayGoals: "1",
+    ...overrides,
+  };
+}
+
+describe("Results Importer", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCreateClubResolver.mockResolvedValue(createClubNameIndex([], []));
+  });
+
+  describe("parseResultRow", () => {
+    it("should parse a finished match with defaults", () => {
+      expect(parseResultRow(feedRow())).toEqual({
+        matchDate: "2025-11-23",
+        homeTeam: "ManCity",
+        awayTeam: "Liverpool",
+        homeGoals: 2,
+        awayGoals: 1,
+        status: "finished",
+        extraTime: false,
+        penalties: false,
+      });
+    });
+
+    it("should parse extra time and penalty flags", () => {
+      const parsed = parseResultRow(
+        feedRow({ HomeGoals: 1, AwayGoals: 1, ExtraTime: "true", Penalties: "1" })
+      );
+
+      expect(parsed?.extraTime).toBe(true);
+      expect(parsed?.penalties).toBe(true);
+    });
+
+    it("should drop the score for postponed matches", () => {
+      const parsed = parseResultRow(
+        feedRow({ Status: "Postponed", HomeGoals: "", AwayGoals: "" })
+      );
+
+      expect(parsed?.status).toBe("postponed");
+      expect(parsed?.homeGoals).toBeNull();
+    });
+
+    it("should reject finished matches without a score", () => {
+      expect(parseResultRow(feedRow({ AwayGoals: "" }))).toBeNull();
+    });
+
+    it("should reject negative or fractional goals", () => {
+      expect(parseResultRow(feedRow({ HomeGoals: "-1" }))).toBeNull();
+      expect(parseResultRow(feedRow({ HomeGoals: "1.5" }))).toBeNull();
+    });
+
+    it("should reject unknown statuses", () => {
+      expect(parseResultRow(feedRow({ Status: "suspended" }))).toBeNull();
+    });
+  });
+
+  describe("importResults", () => {
+    it("should upsert results for matching fixtures", async () => {
+      mockFindFixture.mockResolvedValueOnce(7);
+
+      const stats = await importResults([feedRow()], "manual");
+
+      expect(stats).toEqual({ success: 1, errors: 0, unmatched: 0 });
+      expect(mockFindFixture).toHaveBeenCalledWith(
+        "ManCity",
+        "Liverpool",
+        "2025-11-23"
+      );
+      expect(mockUpsertResult).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fixtureId: 7,
+          homeGoals: 2,
+          awayGoals: 1,
+          source: "manual",
+        })
+      );
+    });
+
+    it("should match fixtures by any name the clubs resolve by", async () => {
+      mockCreateClubResolver.mockResolvedValue(
+        createClubNameIndex(
+          [
+            { id: 1, apiName: "ManCity", displayName: "Man City", country: "ENG", level: 1 },
+            { id: 2, apiName: "Liverpool", displayName: "Liverpool", country: "ENG", level: 1 },
+          ],
+          [{ clubId: 1, alias: "Manchester City" }]
+        )
+      );
+      mockFindFixture.mockResolvedValueOnce(7);
+
+      const stats = await importResults([
+        feedRow({ HomeTeam: "Manchester City", AwayTeam: "LIVERPOOL" }),
+      ]);
+
+      expect(stats.success).toBe(1);
+      expect(mockCreateClubResolver).toHaveBeenCalledTimes(1);
+      expect(mockFindFixture).toHaveBeenCalledWith(
+        "ManCity",
+        "Liverpool",
+        "2025-11-23"
+      );
+    });
+
+    it("should count rows without a fixture as unmatched", async () => {
+      mockFindFixture.mockResolvedValueOnce(null);
+
+      const stats = await importResults([feedRow()]);
+
+      expect(stats).toEqual({ success: 0, errors: 0, unmatched: 1 });
+      expect(mockUpsertResult).not.toHaveBeenCalled();
+    });
+
+    it("should count invalid rows and database failures as errors", async () => {
+      mockFindFixture.mockResolvedValueOnce(3);
+      mockUpsertResult.mockRejectedValueOnce(new Error("connection lost"));
+
+      const stats = await importResults([
+        feedRow({ HomeTeam: "" }),
+        feedRow(),
+      ]);
+
+      expect(stats).toEqual({ success: 0, errors: 2, unmatched: 0 });
+    });
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Historical Backfill Service
+ *
+ * BUSINESS LOGIC - Imports a range of daily snapshots with a concurrency
+ * limit, resuming from a checkpoint file after interruptions.
+ *
+ * Each date is fetched from a rating source (ClubElo unless configured
+ * otherwise, see rating-source.ts) and stored with
+ * data-importer.service.importDailySnapshot, exactly like the daily import,
+ * and recorded in the import_runs ledger as a "daily" run.
+ */
+
+import fs from "fs";
+import path from "path";
+import { getRatingSource, RatingSource } from "./rating-source";
+import * as dataImporter from "./data-importer.service";
+import * as externalDataRepo from "./external-data.repository";
+import { importRunsService, ImportTrigger } from "../import-runs";
+import { addDays } from "../../shared/utils/date-formatter";
+import { logger } from "../../shared/utils/logger";
+
+/**
+ * Backfill options
+ */
+export interface BackfillOptions {
+  from: string; // YYYY-MM-DD, first date
+  to: string; // YYYY-MM-DD, last date (inclusive)
+  everyDays?: number; // Sample one date every N days. Defaults to 1.
+  concurrency?: number; // Dates fetched at once. Defaults to 2.
+  checkpointPath?: string; // JSON file recording finished dates
+  force?: boolean; // Re-import dates that already have a snapshot
+  trigger?: ImportTrigger; // Recorded on each import run. Defaults to "cli".
+  source?: RatingSource; // Defaults to RATING_SOURCE
+}
+
+/**
+ * Outcome of a backfill run
+ */
+export interface BackfillSummary {
+  planned: number; // Dates in the range after sampling
+  fetched: number; // Dates fetched and imported this run
+  skipped: number; // Already in the checkpoint or the database
+  failed: number;
+  failedDates: string[];
+  rowsImported: number;
+  rowErrors: number; // Rows importDailySnapshot could not store
+}
+
+/**
+ * Checkpoint file contents
+ *
+ * Completed dates are skipped on the next run. Failed dates are retried.
+ */
+export interface BackfillCheckpoint {
+  completed: string[];
+  failed: string[];
+  updatedAt: string;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * List the dates to import, oldest first
+ *
+ * @param from - First date (YYYY-MM-DD)
+ * @param to - Last date (YYYY-MM-DD), included when it falls on the step
+ * @param everyDays - Step between dates
+ */
+export function planBackfillDates(
+  from: string,
+  to: string,
+  everyDays = 1
+): string[] {
+  if (everyDays < 1) {
+    throw new Error("everyDays must be at least 1");
+  }
+
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, everyDays)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Read a checkpoint file, or start empty when it does not exist
+ */
+export function loadCheckpoint(filePath: string): BackfillCheckpoint {
+  if (!fs.existsSync(filePath)) {
+    return { completed: [], failed: [], updatedAt: new Date().toISOString() };
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+  return {
+    completed: Array.isArray(parsed.completed) ? parsed.completed : [],
+    failed: Array.isArray(parsed.failed) ? parsed.failed : [],
+    updatedAt: parsed.updatedAt || new Date().toISOString(),
+  };
+}
+
+/**
+ * Write a checkpoint file atomically (write a temp file, then rename)
+ */
+function saveCheckpoint(filePath: string, checkpoint: BackfillCheckpoint) {
+  const tempPath = `${filePath}.tmp`;
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    tempPath,
+    JSON.stringify(
+      {
+        completed: [...checkpoint.completed].sort(),
+        failed: [...checkpoint.failed].sort(),
+        updatedAt: new Date().toISOString(),
+      },
+      null,
+      2
+    )
+  );
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Dates in a range that already have a snapshot from the source stored
+ */
+async function findExistingSnapshotDates(
+  source: string,
+  from: string,
+  to: string
+): Promise<Set<string>> {
+  return new Set(await externalDataRepo.findRatingDates(source, from, to));
+}
+
+/**
+ * Fetch and import one date's snapshot as a "daily" import run
+ *
+ * @param date - Snapshot date (YYYY-MM-DD)
+ * @param trigger - Recorded on the import run
+ * @param parameters - Extra parameters recorded alongside the date
+ * @param source - Where to fetch from. Defaults to RATING_SOURCE.
+ * @returns The run's counts; fetched is 0 when the source had no data
+ */
+export async function importSnapshotDate(
+  date: string,
+  trigger: ImportTrigger,
+  parameters: Record<string, unknown> = {},
+  source: RatingSource = getRatingSource()
+) {
+  return importRunsService.trackImportRun(
+    {
+      type: "daily",
+      trigger,
+      parameters: { date, source: source.name, ...parameters },
+    },
+    async () => {
+      const rows = await source.fetchDailySnapshot(date);
+
+      if (rows.length === 0) {
+        logger.warn(`No data found for ${date}`);
+        return { fetched: 0, imported: 0, errors: 0, errorSamples: [] };
+      }
+
+      const stats = await dataImporter.importDailySnapshot(
+        rows,
+        new Date(date),
+        source.name
+      );
+      return {
+        fetched: rows.length,
+        imported: stats.success,
+        errors: stats.errors,
+        errorSamples: stats.errorSamples,
+      };
+    }
+  );
+}
+
+/**
+ * Import every sampled date in a range
+ *
+ * Dates finished in an earlier run (per the checkpoint) or already in the
+ * database are skipped unless forced. The checkpoint is saved after every
+ * date, so an interrupted run resumes where it stopped.
+ *
+ * @param options - Range, sampling, concurrency and checkpoint settings
+ * @returns Counts of dates fetched, skipped and failed
+ */
+export async function runBackfill(
+  options: BackfillOptions
+): Promise<BackfillSummary> {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const source = options.source ?? getRatingSource();
+  const planned = planBackfillDates(
+    options.from,
+    options.to,
+    options.everyDays ?? 1
+  );
+
+  const checkpoint = options.checkpointPath
+    ? loadCheckpoint(options.checkpointPath)
+    : { completed: [], failed: [], updatedAt: new Date().toISOString() };
+  const completed = new Set(checkpoint.completed);
+  const failed = new Set(checkpoint.failed);
+
+  const existing = options.force
+    ? new Set<string>()
+    : await findExistingSnapshotDates(source.name, options.from, options.to);
+
+  const queue = planned.filter(
+    (date) => !completed.has(date) && !existing.has(date)
+  );
+
+  const summary: BackfillSummary = {
+    planned: planned.length,
+    fetched: 0,
+    skipped: planned.length - queue.length,
+    failed: 0,
+    failedDates: [],
+    rowsImported: 0,
+    rowErrors: 0,
+  };
+
+  logger.info("Starting backfill", {
+    source: source.name,
+    from: options.from,
+    to: options.to,
+    planned: planned.length,
+    queued: queue.length,
+    concurrency,
+  });
+
+  const persist = () => {
+    if (options.checkpointPath) {
+      saveCheckpoint(options.checkpointPath, {
+        completed: [...completed],
+        failed: [...failed],
+        updatedAt: checkpoint.updatedAt,
+      });
+    }
+  };
+
+  const importDate = async (date: string) => {
+    try {
+      const run = await importSnapshotDate(
+        date,
+        options.trigger || "cli",
+        { backfill: true },
+        source
+      );
+
+      summary.rowsImported += run.imported;
+      summary.rowErrors += run.errors;
+      summary.fetched++;
+      completed.add(date);
+      failed.delete(date);
+    } catch (error) {
+      summary.failed++;
+      summary.failedDates.push(date);
+      failed.add(date);
+      logger.error(`Backfill failed for ${date}`, {
+        error: (error as Error).message,
+      });
+    }
+
+    persist();
+  };
+
+  // Worker pool: each worker takes the next date until the queue is empty
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(concurrency, queue.length) },
+    async () => {
+      while (next < queue.length) {
+        await importDate(queue[next++]);
+      }
+    }
+  );
+  await Promise.all(workers);
+
+  summary.failedDates.sort();
+
+  logger.info("Backfill complete", {
+    fetched: summary.fetched,
+    skipped: summary.skipped,
+    failed: summary.failed,
+  });
+
+  return summary;
+}
@@ -3,44 +3,25 @@
  *
  * EXTERNAL DATA SOURCE - Handles fetching data from ClubElo public CSV API.
  * This is the ONLY place that knows about the ClubElo API structure.
+ * Importers reach it through the "clubelo" source in rating-source.ts.
  *
  * Moved from: src/lib/clubelo-api.ts
  */
 
 import { parse } from "csv-parse/sync";
+import type { FixtureRow, RatingRow } from "./rating-source";
 import { config } from "../../shared/config/environment";
 import { logger } from "../../shared/utils/logger";
 
 /**
  * Raw row from ClubElo CSV API (club ratings)
  */
-export interface ClubEloRow {
-  Rank: string;
-  Club: string;
-  Country: string;
-  Level: string;
-  Elo: string;
-  From: string;
-  To: string;
-}
+export type ClubEloRow = RatingRow;
 
 /**
  * Raw row from ClubElo fixtures CSV API
  */
-export interface ClubEloFixtureRow {
-  Date: string;
-  HomeTeam: string;
-  AwayTeam: string;
-  Country: string;
-  Competition: string;
-  HomeLevel: string;
-  AwayLevel: string;
-  HomeElo: string;
-  AwayElo: string;
-  HomeProbW: string;
-  ProbD: string;
-  AwayProbW: string;
-}
+export type ClubEloFixtureRow = FixtureRow;
 
 /**
  * Fetch CSV data from a URL with retry logic and exponential backoff
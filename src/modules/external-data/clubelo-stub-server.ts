@@ -0,0 +1,196 @@
+/**
+ * ClubElo Stub Server
+ *
+ * EXTERNAL DATA SOURCE (TEST DOUBLE) - A small HTTP server that answers
+ * like the ClubElo API from recorded CSV files, so tests and local
+ * development run without the network. Point CLUBELO_API_BASE at it.
+ *
+ * Routes (files are read from the stub directory):
+ *   GET /fixtures              fixtures.csv
+ *   GET /fixtures/YYYY-MM-DD   fixtures/YYYY-MM-DD.csv
+ *   GET /YYYY-MM-DD            YYYY-MM-DD.csv
+ *   GET /<Club>                <Club>.csv
+ *
+ * A missing file is answered with a header-only CSV, as ClubElo does for
+ * dates and clubs it has no data for.
+ *
+ * Faults can be injected per path to exercise retries and error handling:
+ * a 5xx status, a request that never gets a response, or malformed CSV.
+ */
+
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { AddressInfo } from "net";
+
+/**
+ * A fault to inject
+ *
+ * - error: respond with a status code (default 503)
+ * - timeout: never respond; the client has to give up
+ * - malformed: respond 200 with CSV that cannot be parsed
+ */
+export interface StubFault {
+  kind: "error" | "timeout" | "malformed";
+  path?: string; // Only requests for this path (e.g. "/2025-11-18"). Defaults to all.
+  status?: number; // For "error"
+  times?: number; // Apply to this many requests, then stop. Defaults to every request.
+}
+
+/**
+ * Stub server options
+ */
+export interface ClubEloStubOptions {
+  dir: string; // Directory of recorded CSV files
+  port?: number; // Defaults to 0 (any free port)
+  host?: string; // Defaults to 127.0.0.1
+  faults?: StubFault[];
+}
+
+/**
+ * A running stub server
+ */
+export interface ClubEloStub {
+  url: string; // Base URL for CLUBELO_API_BASE (no trailing slash)
+  requests: string[]; // Paths requested so far, in order
+  injectFault(fault: StubFault): void;
+  clearFaults(): void;
+  close(): Promise<void>;
+}
+
+const RATINGS_HEADER = "Rank,Club,Country,Level,Elo,From,To\n";
+const FIXTURES_HEADER =
+  "Date,HomeTeam,AwayTeam,Country,Competition,HomeLevel,AwayLevel,HomeElo,AwayElo,HomeProbW,ProbD,AwayProbW\n";
+
+/**
+ * An unterminated quote: csv-parse rejects it
+ */
+const MALFORMED_CSV = 'Rank,Club,Country,Level,Elo,From,To\n1,"ManCity,ENG,1\n';
+
+/**
+ * Map a request path to its CSV file and the header served when the file
+ * is missing. Returns null for paths ClubElo would not serve.
+ */
+function resolveFile(
+  dir: string,
+  urlPath: string
+): { file: string; emptyCsv: string } | null {
+  let segments: string[];
+  try {
+    segments = urlPath
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment));
+  } catch {
+    return null; // Malformed percent-encoding
+  }
+
+  if (segments.some((segment) => segment === ".." || /[\\/]/.test(segment))) {
+    return null;
+  }
+
+  if (segments[0] === "fixtures" && segments.length <= 2) {
+    return {
+      file: path.join(dir, ...segments) + ".csv",
+      emptyCsv: FIXTURES_HEADER,
+    };
+  }
+
+  if (segments.length === 1) {
+    return {
+      file: path.join(dir, segments[0]) + ".csv",
+      emptyCsv: RATINGS_HEADER,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Start a stub server
+ *
+ * @param options - Directory, port and faults
+ * @returns The running server; close it when done
+ */
+export async function startClubEloStub(
+  options: ClubEloStubOptions
+): Promise<ClubEloStub> {
+  const faults = (options.faults || []).map((fault) => ({ ...fault }));
+  const requests: string[] = [];
+
+  const takeFault = (urlPath: string): StubFault | null => {
+    const index = faults.findIndex(
+      (fault) => !fault.path || fault.path === urlPath
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    const fault = faults[index];
+    if (fault.times !== undefined) {
+      fault.times--;
+      if (fault.times <= 0) {
+        faults.splice(index, 1);
+      }
+    }
+    return fault;
+  };
+
+  const server = http.createServer((req, res) => {
+    const urlPath = new URL(req.url || "/", "http://stub").pathname;
+    requests.push(urlPath);
+
+    const fault = takeFault(urlPath);
+    if (fault?.kind === "timeout") {
+      return; // Left open until the client aborts or the server closes
+    }
+    if (fault?.kind === "error") {
+      const status = fault.status ?? 503;
+      res.writeHead(status, { "Content-Type": "text/plain" });
+      res.end(http.STATUS_CODES[status] || "Error");
+      return;
+    }
+    if (fault?.kind === "malformed") {
+      res.writeHead(200, { "Content-Type": "text/csv" });
+      res.end(MALFORMED_CSV);
+      return;
+    }
+
+    const target = resolveFile(options.dir, urlPath);
+    if (req.method !== "GET" || !target) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not Found");
+      return;
+    }
+
+    fs.readFile(target.file, "utf8", (error, csv) => {
+      if (error && error.code !== "ENOENT") {
+        res.writeHead(500, { "Content-Type": "text/plain" });
+        res.end(error.message);
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "text/csv" });
+      res.end(error ? target.emptyCsv : csv);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host || "127.0.0.1", resolve);
+  });
+
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${address.address}:${address.port}`,
+    requests,
+    injectFault: (fault) => faults.push({ ...fault }),
+    clearFaults: () => faults.splice(0, faults.length),
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
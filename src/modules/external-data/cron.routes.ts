@@ -4,13 +4,17 @@
  * API LAYER - Express route handlers for scheduled import jobs.
  * These endpoints are called by Vercel Cron or other schedulers.
  *
- * Protected by CRON_SECRET authentication.
+ * Protected by CRON_SECRET authentication. Every import is recorded in the
+ * import_runs ledger; the response includes its runId.
  */
 
 import { Router, Request, Response } from "express";
-import * as clubeloClient from "./clubelo-client";
 import * as dataImporter from "./data-importer.service";
 import * as fixturesImporter from "./fixtures-importer.service";
+import * as gapRepair from "./gap-repair.service";
+import { getRatingSource } from "./rating-source";
+import { importRunsService, ImportTrigger } from "../import-runs";
+import { config } from "../../shared/config/environment";
 import { asyncHandler } from "../../shared/middleware/error-handler";
 import { validateCronSecret } from "../../shared/middleware/validation";
 import { getYesterday } from "../../shared/utils/date-formatter";
@@ -18,10 +22,18 @@ import { logger } from "../../shared/utils/logger";
 
 const router = Router();
 
+/**
+ * Tell scheduled calls (Vercel Cron) apart from someone calling by hand
+ */
+function requestTrigger(req: Request): ImportTrigger {
+  return /vercel-cron/i.test(req.get("user-agent") || "") ? "cron" : "manual";
+}
+
 /**
  * POST /api/cron/import-daily
  *
- * Import daily snapshot of club ratings from ClubElo API.
+ * Import daily snapshot of club ratings from the configured rating source
+ * (RATING_SOURCE, ClubElo by default).
  *
  * Query parameters:
  *   - date: Date in YYYY-MM-DD format (optional, defaults to yesterday)
@@ -38,34 +50,58 @@ router.post(
   validateCronSecret,
   asyncHandler(async (req: Request, res: Response) => {
     const dateStr = (req.query.date as string) || getYesterday();
+    const source = getRatingSource();
+
+    logger.info(`Starting daily import for ${dateStr} from ${source.name}`);
+
+    const run = await importRunsService.trackImportRun(
+      {
+        type: "daily",
+        trigger: requestTrigger(req),
+        parameters: { date: dateStr, source: source.name },
+      },
+      async () => {
+        // Step 1: Fetch data from the rating source
+        const rows = await source.fetchDailySnapshot(dateStr);
 
-    logger.info(`Starting daily import for ${dateStr}`);
+        if (rows.length === 0) {
+          logger.warn(`No data found for ${dateStr}`);
+          return { fetched: 0, imported: 0, errors: 0, errorSamples: [] };
+        }
 
-    // Step 1: Fetch data from ClubElo API
-    const rows = await clubeloClient.fetchDailySnapshot(dateStr);
+        // Step 2: Import to database
+        const stats = await dataImporter.importDailySnapshot(
+          rows,
+          new Date(dateStr),
+          source.name
+        );
 
-    if (rows.length === 0) {
-      logger.warn(`No data found for ${dateStr}`);
+        return {
+          fetched: rows.length,
+          imported: stats.success,
+          errors: stats.errors,
+          errorSamples: stats.errorSamples,
+        };
+      }
+    );
+
+    if (run.fetched === 0) {
       return res.json({
         success: true,
         count: 0,
         message: "No data found",
         date: dateStr,
+        runId: run.runId,
       });
     }
 
-    // Step 2: Import to database
-    const stats = await dataImporter.importDailySnapshot(
-      rows,
-      new Date(dateStr)
-    );
-
     res.json({
       success: true,
       date: dateStr,
-      fetched: rows.length,
-      imported: stats.success,
-      errors: stats.errors,
+      fetched: run.fetched,
+      imported: run.imported,
+      errors: run.errors,
+      runId: run.runId,
     });
   })
 );
@@ -73,7 +109,8 @@ router.post(
 /**
  * POST /api/cron/import-fixtures
  *
- * Import upcoming fixtures from ClubElo API.
+ * Import upcoming fixtures from the configured rating source
+ * (RATING_SOURCE, ClubElo by default).
  *
  * Query parameters:
  *   - date: Date in YYYY-MM-DD format (optional, fetches all upcoming if not provided)
@@ -91,6 +128,7 @@ router.post(
   validateCronSecret,
   asyncHandler(async (req: Request, res: Response) => {
     const date = req.query.date as string | undefined;
+    const source = getRatingSource();
 
     logger.info(
       date
@@ -98,26 +136,82 @@ router.post(
         : "Starting fixtures import for upcoming matches"
     );
 
-    // Step 1: Fetch fixtures from ClubElo API
-    const rows = await clubeloClient.fetchFixtures(date);
+    const run = await importRunsService.trackImportRun(
+      {
+        type: "fixtures",
+        trigger: requestTrigger(req),
+        parameters: { date: date ?? null, source: source.name },
+      },
+      async () => {
+        // Step 1: Fetch fixtures from the rating source
+        const rows = await source.fetchFixtures(date);
 
-    if (rows.length === 0) {
-      logger.warn("No fixtures found");
+        if (rows.length === 0) {
+          logger.warn("No fixtures found");
+          return { fetched: 0, imported: 0, errors: 0, errorSamples: [] };
+        }
+
+        // Step 2: Import to database
+        const stats = await fixturesImporter.importFixtures(
+          rows,
+          source.name
+        );
+
+        return {
+          fetched: rows.length,
+          imported: stats.success,
+          errors: stats.errors,
+          errorSamples: stats.errorSamples,
+        };
+      }
+    );
+
+    if (run.fetched === 0) {
       return res.json({
         success: true,
         count: 0,
         message: "No fixtures found",
+        runId: run.runId,
       });
     }
 
-    // Step 2: Import to database
-    const stats = await fixturesImporter.importFixtures(rows);
-
     res.json({
       success: true,
-      fetched: rows.length,
-      imported: stats.success,
-      errors: stats.errors,
+      fetched: run.fetched,
+      imported: run.imported,
+      errors: run.errors,
+      runId: run.runId,
+    });
+  })
+);
+
+/**
+ * POST /api/cron/repair-gaps
+ *
+ * Refetch snapshot days missing between the first and latest stored
+ * snapshot, newest first. At most GAP_REPAIR_MAX_DAYS days are fetched per
+ * call; call again (or on a schedule) to work through a longer backlog.
+ * See GET /api/admin/data-gaps for the full report.
+ *
+ * Authentication:
+ *   - Requires Authorization: Bearer <CRON_SECRET>
+ *
+ * Example:
+ *   POST /api/cron/repair-gaps
+ *   Headers: Authorization: Bearer <secret>
+ */
+router.post(
+  "/repair-gaps",
+  validateCronSecret,
+  asyncHandler(async (req: Request, res: Response) => {
+    const summary = await gapRepair.repairGaps(
+      config.gapRepairMaxDays,
+      requestTrigger(req)
+    );
+
+    res.json({
+      success: summary.failed.length === 0,
+      ...summary,
     });
   })
 );
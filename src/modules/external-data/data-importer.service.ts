@@ -1,8 +1,12 @@
 /**
  * Data Importer Service
  *
- * BUSINESS LOGIC - Orchestrates importing ClubElo data into our database.
- * Uses the clubs module's upsertClub via public API (not direct repository access).
+ * BUSINESS LOGIC - Orchestrates importing rating source data into our
+ * database. Each rating is tagged with the name of the source it came from.
+ * Uses the clubs module's upsertClub/upsertClubs via public API (not direct
+ * repository access). Names are resolved through the clubs module's
+ * resolver, so other spellings of an existing club (aliases, accents,
+ * case) are stored against that club instead of creating a duplicate.
  *
  * Moved from: src/lib/importer.ts
  * Key improvements:
@@ -11,18 +15,46 @@
  * - Better error handling and logging
  */
 
-import { ClubEloRow } from "./clubelo-client";
-import { upsertClub } from "../clubs";
+import { RatingRow } from "./rating-source";
+import {
+  createClubResolver,
+  upsertClub,
+  upsertClubs,
+  ClubNameIndex,
+} from "../clubs";
 import { db } from "../../shared/database/connection";
 import { withTransaction } from "../../shared/database/transaction";
+import { invalidateCache } from "../../shared/cache/response-cache";
 import { logger } from "../../shared/utils/logger";
 import { formatDateOnly } from "../../shared/utils/date-formatter";
 
+/**
+ * Only ClubElo ratings carry From/To periods for rating_periods
+ */
+const CLUBELO_SOURCE = "clubelo";
+
 /**
  * Sanitize club name to create a stable API name
+ *
+ * Only tidies whitespace; matching other spellings of a stored club is
+ * left to the club resolver.
  */
 function sanitizeApiName(clubName: string): string {
-  return clubName.trim();
+  return clubName.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Store a parsed row against the stored club its name resolves to
+ */
+function resolveClubNames<T extends { apiName: string; displayName: string }>(
+  parsed: T,
+  resolver: ClubNameIndex
+): T {
+  const club = resolver.resolve(parsed.apiName);
+
+  return club
+    ? { ...parsed, apiName: club.apiName, displayName: club.displayName }
+    : parsed;
 }
 
 /**
@@ -39,10 +71,34 @@ function parseDate(dateStr: string): Date {
   }
 }
 
+/**
+ * Parse the From/To interval a ClubElo rating was valid for
+ *
+ * Returns null when either date is missing or the interval is reversed.
+ */
+function parsePeriod(row: RatingRow): { validFrom: Date; validTo: Date } | null {
+  if (!row.From || !row.To) {
+    return null;
+  }
+
+  const validFrom = parseDate(row.From);
+  const validTo = parseDate(row.To);
+
+  if (
+    isNaN(validFrom.getTime()) ||
+    isNaN(validTo.getTime()) ||
+    validTo < validFrom
+  ) {
+    return null;
+  }
+
+  return { validFrom, validTo };
+}
+
 /**
  * Validate and parse a ClubElo row
  */
-function parseClubEloRow(row: ClubEloRow): {
+function parseRatingRow(row: RatingRow): {
   apiName: string;
   displayName: string;
   country: string;
@@ -92,15 +148,18 @@ function parseClubEloRow(row: ClubEloRow): {
  * Uses transaction to ensure atomicity.
  */
 async function upsertClubRating(
-  row: ClubEloRow,
-  date: Date
+  row: RatingRow,
+  date: Date,
+  source: string,
+  resolver: ClubNameIndex
 ): Promise<void> {
-  const parsed = parseClubEloRow(row);
+  const parsed = parseRatingRow(row);
   if (!parsed) {
     return; // Skip invalid rows
   }
 
-  const { apiName, displayName, country, level, rank, elo } = parsed;
+  const { apiName, displayName, country, level, rank, elo } =
+    resolveClubNames(parsed, resolver);
 
   await withTransaction(async (client) => {
     // Step 1: Upsert club using clubs module's public API
@@ -115,80 +174,205 @@ async function upsertClubRating(
     await client.query(
       `INSERT INTO elo_ratings (club_id, date, rank, country, level, elo, source)
        VALUES ($1, $2, $3, $4, $5, $6, $7)
-       ON CONFLICT (club_id, date)
+       ON CONFLICT (club_id, date, source)
        DO UPDATE SET
          rank = EXCLUDED.rank,
          country = EXCLUDED.country,
          level = EXCLUDED.level,
          elo = EXCLUDED.elo`,
-      [clubId, date, rank, country, level, elo, "clubelo"]
+      [clubId, date, rank, country, level, elo, source]
     );
+
+    // Step 3: Record the interval the rating was valid for. An earlier
+    // period still open past the new start is closed the day before.
+    const period = source === CLUBELO_SOURCE ? parsePeriod(row) : null;
+    if (period) {
+      await client.query(
+        `WITH trimmed AS (
+           UPDATE rating_periods
+           SET valid_to = $2::date - 1
+           WHERE club_id = $1 AND valid_from < $2 AND valid_to >= $2
+         )
+         INSERT INTO rating_periods (club_id, valid_from, valid_to, elo, rank)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (club_id, valid_from)
+         DO UPDATE SET
+           valid_to = EXCLUDED.valid_to,
+           elo = EXCLUDED.elo,
+           rank = EXCLUDED.rank`,
+        [clubId, period.validFrom, period.validTo, elo, rank]
+      );
+    }
   });
 }
 
 /**
  * Import a daily snapshot of ratings for all clubs
  *
- * @param rows - Array of ClubElo CSV rows
+ * Rows are validated first; invalid rows and repeated clubs are rejected
+ * and counted as errors. The remaining rows are written set-based in one
+ * transaction: one statement each for clubs, elo_ratings and
+ * rating_periods. A database error rolls back the whole snapshot and is
+ * thrown, so a retry starts from a clean slate. Cached API responses are
+ * cleared once the transaction commits.
+ *
+ * @param rows - Array of rating rows
  * @param snapshotDate - The date this snapshot represents
- * @returns Statistics about the import
+ * @param source - Source name stored on each rating. Defaults to "clubelo".
+ * @returns Statistics about the import, with a message per rejected row
  */
 export async function importDailySnapshot(
-  rows: ClubEloRow[],
-  snapshotDate: Date
-): Promise<{ success: number; errors: number }> {
+  rows: RatingRow[],
+  snapshotDate: Date,
+  source = CLUBELO_SOURCE
+): Promise<{ success: number; errors: number; errorSamples: string[] }> {
   const dateStr = formatDateOnly(snapshotDate)!;
   logger.info(`Importing ${rows.length} club ratings for ${dateStr}`);
 
-  let successCount = 0;
-  let errorCount = 0;
+  const accepted = new Map<
+    string,
+    NonNullable<ReturnType<typeof parseRatingRow>> & {
+      period: ReturnType<typeof parsePeriod>;
+    }
+  >();
+  const errorSamples: string[] = [];
+  const resolver = await createClubResolver();
 
   for (const row of rows) {
-    try {
-      await upsertClubRating(row, snapshotDate);
-      successCount++;
+    const valid = parseRatingRow(row);
+    if (!valid) {
+      errorSamples.push(
+        `${row.Club}: invalid row (Rank=${row.Rank}, Level=${row.Level}, Elo=${row.Elo})`
+      );
+      continue;
+    }
 
-      // Log progress every 50 clubs
-      if (successCount % 50 === 0) {
-        logger.debug(`Processed ${successCount}/${rows.length} clubs`);
-      }
-    } catch (error) {
-      errorCount++;
-      logger.error(`Failed to import ${row.Club}`, {
-        error: (error as Error).message,
-      });
+    const parsed = resolveClubNames(valid, resolver);
+
+    if (accepted.has(parsed.apiName)) {
+      logger.warn(`Skipping duplicate row for ${parsed.displayName}`);
+      errorSamples.push(`${row.Club}: duplicate row`);
+      continue;
     }
+
+    accepted.set(parsed.apiName, {
+      ...parsed,
+      period: source === CLUBELO_SOURCE ? parsePeriod(row) : null,
+    });
   }
 
+  // In API name order, so concurrent imports lock clubs, ratings and
+  // periods in the same order
+  const ratings = [...accepted.values()].sort((a, b) =>
+    a.apiName.localeCompare(b.apiName)
+  );
+
+  if (ratings.length > 0) {
+    await withTransaction(async (client) => {
+      // Step 1: Upsert every club using clubs module's public API
+      const clubIds = await upsertClubs(ratings, client);
+      const clubId = (apiName: string) => clubIds.get(apiName)!;
+
+      // Step 2: Upsert all Elo ratings for this date
+      await client.query(
+        `INSERT INTO elo_ratings (club_id, date, rank, country, level, elo, source)
+         SELECT club_id, $1::date, rank, country, level, elo, $7
+         FROM unnest($2::int[], $3::int[], $4::text[], $5::int[], $6::float8[])
+           AS t(club_id, rank, country, level, elo)
+         ON CONFLICT (club_id, date, source)
+         DO UPDATE SET
+           rank = EXCLUDED.rank,
+           country = EXCLUDED.country,
+           level = EXCLUDED.level,
+           elo = EXCLUDED.elo`,
+        [
+          dateStr,
+          ratings.map((r) => clubId(r.apiName)),
+          ratings.map((r) => r.rank),
+          ratings.map((r) => r.country),
+          ratings.map((r) => r.level),
+          ratings.map((r) => r.elo),
+          source,
+        ]
+      );
+
+      // Step 3: Record the intervals the ratings were valid for. Earlier
+      // periods still open past a new start are closed the day before.
+      const withPeriods = ratings.filter((r) => r.period);
+      if (withPeriods.length > 0) {
+        await client.query(
+          `WITH incoming AS (
+             SELECT *
+             FROM unnest($1::int[], $2::date[], $3::date[], $4::float8[], $5::int[])
+               AS t(club_id, valid_from, valid_to, elo, rank)
+           ),
+           trimmed AS (
+             UPDATE rating_periods p
+             SET valid_to = i.valid_from - 1
+             FROM incoming i
+             WHERE p.club_id = i.club_id
+               AND p.valid_from < i.valid_from
+               AND p.valid_to >= i.valid_from
+           )
+           INSERT INTO rating_periods (club_id, valid_from, valid_to, elo, rank)
+           SELECT club_id, valid_from, valid_to, elo, rank FROM incoming
+           ON CONFLICT (club_id, valid_from)
+           DO UPDATE SET
+             valid_to = EXCLUDED.valid_to,
+             elo = EXCLUDED.elo,
+             rank = EXCLUDED.rank`,
+          [
+            withPeriods.map((r) => clubId(r.apiName)),
+            withPeriods.map((r) => formatDateOnly(r.period!.validFrom)),
+            withPeriods.map((r) => formatDateOnly(r.period!.validTo)),
+            withPeriods.map((r) => r.elo),
+            withPeriods.map((r) => r.rank),
+          ]
+        );
+      }
+    });
+
+    await invalidateCache(`${source} snapshot ${dateStr}`);
+  }
+
+  const successCount = ratings.length;
+  const errorCount = errorSamples.length;
+
   logger.info(`Import complete for ${dateStr}`, {
     success: successCount,
     errors: errorCount,
   });
 
-  return { success: successCount, errors: errorCount };
+  return { success: successCount, errors: errorCount, errorSamples };
 }
 
 /**
  * Import full history for a single club
  *
- * @param rows - Array of ClubElo CSV rows (historical data for one club)
+ * Cached API responses are cleared when any rating was stored.
+ *
+ * @param rows - Array of rating rows (historical data for one club)
  * @param clubApiName - The API name of the club
- * @returns Statistics about the import
+ * @param source - Source name stored on each rating. Defaults to "clubelo".
+ * @returns Statistics about the import, with a message per failed row
  */
 export async function importClubHistory(
-  rows: ClubEloRow[],
-  clubApiName: string
-): Promise<{ success: number; errors: number }> {
+  rows: RatingRow[],
+  clubApiName: string,
+  source = CLUBELO_SOURCE
+): Promise<{ success: number; errors: number; errorSamples: string[] }> {
   logger.info(`Importing ${rows.length} historical ratings for ${clubApiName}`);
 
   let successCount = 0;
   let errorCount = 0;
+  const errorSamples: string[] = [];
+  const resolver = await createClubResolver();
 
   for (const row of rows) {
     try {
       // Parse the "From" date from the row
       const date = parseDate(row.From);
-      await upsertClubRating(row, date);
+      await upsertClubRating(row, date, source, resolver);
       successCount++;
 
       // Log progress every 100 entries
@@ -197,16 +381,21 @@ export async function importClubHistory(
       }
     } catch (error) {
       errorCount++;
+      errorSamples.push(`${row.From}: ${(error as Error).message}`);
       logger.error(`Failed to import rating from ${row.From}`, {
         error: (error as Error).message,
       });
     }
   }
 
+  if (successCount > 0) {
+    await invalidateCache(`${source} history for ${clubApiName}`);
+  }
+
   logger.info(`Import complete for ${clubApiName}`, {
     success: successCount,
     errors: errorCount,
   });
 
-  return { success: successCount, errors: errorCount };
+  return { success: successCount, errors: errorCount, errorSamples };
 }
@@ -0,0 +1,94 @@
+/**
+ * External Data Repository
+ *
+ * DATA ACCESS LAYER - SQL the bulk importers (backfill, club history batch)
+ * need to plan their work: which clubs to import and what is already stored.
+ *
+ * RULE: No business logic here - only database operations.
+ */
+
+import { db } from "../../shared/database/connection";
+
+/**
+ * API names of every stored club, alphabetically
+ */
+export async function findAllClubApiNames(): Promise<string[]> {
+  const result = await db.query<{ api_name: string }>(
+    "SELECT api_name FROM clubs ORDER BY api_name ASC"
+  );
+
+  return result.rows.map((row) => row.api_name);
+}
+
+/**
+ * API names of the clubs in one stored snapshot, alphabetically
+ */
+export async function findSnapshotClubApiNames(
+  source: string,
+  date: string
+): Promise<string[]> {
+  const result = await db.query<{ api_name: string }>(
+    `SELECT c.api_name
+     FROM elo_ratings e
+     JOIN clubs c ON e.club_id = c.id
+     WHERE e.source = $1 AND e.date = $2
+     ORDER BY c.api_name ASC`,
+    [source, date]
+  );
+
+  return result.rows.map((row) => row.api_name);
+}
+
+/**
+ * API names of the listed clubs whose rating periods are gapless, start on
+ * their first ClubElo rating and reach the date
+ */
+export async function findClubsWithCompletePeriods(
+  apiNames: string[],
+  date: string
+): Promise<string[]> {
+  const result = await db.query<{ api_name: string }>(
+    `SELECT c.api_name
+     FROM clubs c
+     JOIN (
+       SELECT
+         club_id,
+         MIN(valid_from) AS first_from,
+         MAX(valid_to) AS last_to,
+         SUM(valid_to - valid_from + 1) AS days
+       FROM rating_periods
+       GROUP BY club_id
+     ) p ON p.club_id = c.id
+     JOIN (
+       SELECT club_id, MIN(date) AS first_date
+       FROM elo_ratings
+       WHERE source = 'clubelo'
+       GROUP BY club_id
+     ) e ON e.club_id = c.id
+     WHERE c.api_name = ANY($1)
+       AND p.first_from = e.first_date
+       AND p.last_to >= $2
+       AND p.days = p.last_to - p.first_from + 1`,
+    [apiNames, date]
+  );
+
+  return result.rows.map((row) => row.api_name);
+}
+
+/**
+ * Dates in a range with at least one rating from the source
+ */
+export async function findRatingDates(
+  source: string,
+  from: string,
+  to: string
+): Promise<string[]> {
+  const result = await db.query<{ date: string }>(
+    `SELECT DISTINCT date::text AS date
+     FROM elo_ratings
+     WHERE source = $1 AND date BETWEEN $2 AND $3`,
+    [source, from, to]
+  );
+
+  return result.rows.map((row) => row.date);
+}
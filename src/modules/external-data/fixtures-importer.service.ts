@@ -1,8 +1,10 @@
 /**
  * Fixtures Importer Service
  *
- * BUSINESS LOGIC - Orchestrates importing fixture data from ClubElo.
- * Uses transaction wrapper to ensure atomicity.
+ * BUSINESS LOGIC - Orchestrates importing fixture data from a rating source.
+ * Uses transaction wrapper to ensure atomicity. Team names are resolved
+ * through the clubs module's resolver, since the fixtures feed can spell a
+ * club differently from the ratings feed.
  *
  * Moved from: src/lib/fixtures-importer.ts
  * Key improvements:
@@ -11,34 +13,53 @@
  * - Better error handling and logging
  */
 
-import { ClubEloFixtureRow } from "./clubelo-client";
-import { upsertClub } from "../clubs";
+import { FixtureRow } from "./rating-source";
+import { createClubResolver, upsertClub, ClubNameIndex } from "../clubs";
 import { upsertFixture } from "../fixtures";
 import { withTransaction } from "../../shared/database/transaction";
+import { invalidateCache } from "../../shared/cache/response-cache";
 import { logger } from "../../shared/utils/logger";
 import { formatDateOnly } from "../../shared/utils/date-formatter";
 
 /**
  * Find or create a club by name
  *
+ * Names matching a stored club's API name, display name or alias (ignoring
+ * accents, case and punctuation) use that club. Otherwise a club is created
+ * and added to the resolver, with a warning if it looks like an existing
+ * one - add an alias or merge the two if it is.
+ *
  * Returns the club ID.
  * Uses the clubs module's public API.
  */
 async function findOrCreateClub(
+  resolver: ClubNameIndex,
   clubName: string,
   country: string,
   level: number
 ): Promise<number> {
-  const apiName = clubName.trim();
-  const displayName = clubName.trim();
+  const name = clubName.trim().replace(/\s+/g, " ");
+  const existing = resolver.resolve(name);
+
+  if (existing) {
+    return existing.id;
+  }
+
+  const similar = resolver.suggest(name, 3);
+  if (similar.length > 0) {
+    logger.warn(`Creating club ${name} from fixtures; similar clubs exist`, {
+      similar: similar.map((suggestion) => suggestion.club.apiName),
+    });
+  }
 
   // Use clubs module's upsertClub function
   const clubId = await upsertClub({
-    apiName,
-    displayName,
+    apiName: name,
+    displayName: name,
     country,
     level,
   });
+  resolver.add({ id: clubId, apiName: name, displayName: name, country, level });
 
   return clubId;
 }
@@ -46,7 +67,7 @@ async function findOrCreateClub(
 /**
  * Parse and validate a fixture row
  */
-function parseFixtureRow(row: ClubEloFixtureRow): {
+function parseFixtureRow(row: FixtureRow): {
   matchDate: string;
   country: string;
   competition: string;
@@ -98,7 +119,11 @@ function parseFixtureRow(row: ClubEloFixtureRow): {
  *
  * Uses transaction to ensure all operations succeed or fail together.
  */
-async function importSingleFixture(row: ClubEloFixtureRow): Promise<void> {
+async function importSingleFixture(
+  row: FixtureRow,
+  source: string,
+  resolver: ClubNameIndex
+): Promise<void> {
   const parsed = parseFixtureRow(row);
   if (!parsed) {
     return; // Skip invalid rows
@@ -121,6 +146,7 @@ async function importSingleFixture(row: ClubEloFixtureRow): Promise<void> {
   await withTransaction(async () => {
     // Step 1: Find or create home club
     const homeClubId = await findOrCreateClub(
+      resolver,
       row.HomeTeam,
       country,
       homeLevel
@@ -128,6 +154,7 @@ async function importSingleFixture(row: ClubEloFixtureRow): Promise<void> {
 
     // Step 2: Find or create away club
     const awayClubId = await findOrCreateClub(
+      resolver,
       row.AwayTeam,
       country,
       awayLevel
@@ -147,33 +174,39 @@ async function importSingleFixture(row: ClubEloFixtureRow): Promise<void> {
       homeWinProb,
       drawProb,
       awayWinProb,
-      source: "clubelo",
+      source,
     });
   });
 }
 
 /**
- * Import fixtures from ClubElo API
+ * Import fixtures from a rating source
+ *
+ * Cached API responses are cleared when at least one fixture was stored.
  *
- * @param rows - Array of fixture rows from ClubElo API
- * @returns Statistics about the import
+ * @param rows - Array of fixture rows
+ * @param source - Source name stored on each fixture. Defaults to "clubelo".
+ * @returns Statistics about the import, with a message per failed fixture
  */
 export async function importFixtures(
-  rows: ClubEloFixtureRow[]
-): Promise<{ success: number; errors: number }> {
-  logger.info(`Importing ${rows.length} fixtures from ClubElo`);
+  rows: FixtureRow[],
+  source = "clubelo"
+): Promise<{ success: number; errors: number; errorSamples: string[] }> {
+  logger.info(`Importing ${rows.length} fixtures from ${source}`);
 
   if (rows.length === 0) {
-    logger.warn("No fixtures returned from ClubElo API");
-    return { success: 0, errors: 0 };
+    logger.warn(`No fixtures returned from ${source}`);
+    return { success: 0, errors: 0, errorSamples: [] };
   }
 
   let successCount = 0;
   let errorCount = 0;
+  const errorSamples: string[] = [];
+  const resolver = await createClubResolver();
 
   for (const row of rows) {
     try {
-      await importSingleFixture(row);
+      await importSingleFixture(row, source, resolver);
       successCount++;
 
       // Log progress every 10 fixtures
@@ -182,6 +215,9 @@ export async function importFixtures(
       }
     } catch (error) {
       errorCount++;
+      errorSamples.push(
+        `${row.HomeTeam} vs ${row.AwayTeam}: ${(error as Error).message}`
+      );
       logger.error(
         `Failed to import fixture: ${row.HomeTeam} vs ${row.AwayTeam}`,
         { error: (error as Error).message }
@@ -189,10 +225,14 @@ export async function importFixtures(
     }
   }
 
+  if (successCount > 0) {
+    await invalidateCache(`${source} fixtures`);
+  }
+
   logger.info("Fixtures import complete", {
     success: successCount,
     errors: errorCount,
   });
 
-  return { success: successCount, errors: errorCount };
+  return { success: successCount, errors: errorCount, errorSamples };
 }
@@ -0,0 +1,98 @@
+/**
+ * Gap Repair Service
+ *
+ * BUSINESS LOGIC - Refetches ClubElo snapshot days that are missing from
+ * the database, such as days whose scheduled import failed.
+ *
+ * Missing days come from the data-gaps module, which scans ClubElo
+ * snapshots, so days are always refetched from the ClubElo source. Each
+ * day is imported with backfill.service.importSnapshotDate, so it is
+ * recorded in the import_runs ledger like any other daily import. Days
+ * the ledger shows ClubElo had no data for are not fetched again, so
+ * each run reaches further back instead of retrying the same empty days.
+ */
+
+import { importSnapshotDate } from "./backfill.service";
+import { clubeloSource } from "./rating-source";
+import { dataGapsService } from "../data-gaps";
+import { importRunsService, ImportTrigger } from "../import-runs";
+import { logger } from "../../shared/utils/logger";
+
+/**
+ * Outcome of a repair run
+ */
+export interface GapRepairSummary {
+  maxDays: number; // Days this run was allowed to refetch
+  attempted: number;
+  repaired: string[]; // Days imported with data
+  empty: string[]; // Days ClubElo returned no data for
+  failed: Array<{ date: string; error: string }>;
+  rowsImported: number;
+}
+
+/**
+ * Refetch the most recent missing snapshot days
+ *
+ * Days are imported one at a time, newest first, so a recent hole is
+ * filled before older ones. A failed day is reported and the run carries
+ * on, and is retried next time. An empty day is recorded and skipped from
+ * then on.
+ *
+ * @param maxDays - Most days to refetch in this run
+ * @param trigger - Recorded on each import run
+ * @returns Days repaired, empty and failed
+ */
+export async function repairGaps(
+  maxDays: number,
+  trigger: ImportTrigger
+): Promise<GapRepairSummary> {
+  const emptyDates = await importRunsService.findEmptySnapshotDates(
+    clubeloSource.name
+  );
+  const dates = await dataGapsService.findMissingSnapshotDates(
+    maxDays,
+    emptyDates
+  );
+
+  logger.info("Starting gap repair", { maxDays, missing: dates.length });
+
+  const summary: GapRepairSummary = {
+    maxDays,
+    attempted: dates.length,
+    repaired: [],
+    empty: [],
+    failed: [],
+    rowsImported: 0,
+  };
+
+  for (const date of dates) {
+    try {
+      const run = await importSnapshotDate(
+        date,
+        trigger,
+        { repair: true },
+        clubeloSource
+      );
+
+      if (run.fetched === 0) {
+        summary.empty.push(date);
+      } else {
+        summary.repaired.push(date);
+        summary.rowsImported += run.imported;
+      }
+    } catch (error) {
+      summary.failed.push({ date, error: (error as Error).message });
+      logger.error(`Gap repair failed for ${date}`, {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  logger.info("Gap repair complete", {
+    repaired: summary.repaired.length,
+    empty: summary.empty.length,
+    failed: summary.failed.length,
+  });
+
+  return summary;
+}
@@ -0,0 +1,263 @@
+/**
+ * Club History Batch Service
+ *
+ * BUSINESS LOGIC - Imports the full history of many clubs in one run,
+ * pausing between requests to stay within the API's rate limits.
+ *
+ * Each club is fetched from a rating source (ClubElo unless configured
+ * otherwise, see rating-source.ts) and stored with
+ * data-importer.service.importClubHistory, exactly like the single-club
+ * import, and recorded in the import_runs ledger as a "club" run.
+ */
+
+import { getRatingSource, RatingSource } from "./rating-source";
+import * as dataImporter from "./data-importer.service";
+import * as externalDataRepo from "./external-data.repository";
+import { importRunsService, ImportTrigger } from "../import-runs";
+import { rankingsService } from "../rankings";
+import { getYesterday } from "../../shared/utils/date-formatter";
+import { logger } from "../../shared/utils/logger";
+
+/**
+ * Where the list of clubs comes from
+ *
+ * - snapshot: clubs in the latest stored snapshot from the source, or in
+ *   the source's snapshot for yesterday when nothing is stored yet
+ * - clubs: every club in the clubs table
+ */
+export type ClubListSource = "snapshot" | "clubs";
+
+/**
+ * Batch import options
+ */
+export interface HistoryBatchOptions {
+  list?: ClubListSource; // Defaults to "snapshot"
+  delayMs?: number; // Pause between API requests. Defaults to 1000.
+  force?: boolean; // Re-import clubs whose history is already complete
+  limit?: number; // Stop after this many clubs (useful for trial runs)
+  trigger?: ImportTrigger; // Recorded on each import run. Defaults to "cli".
+  source?: RatingSource; // Defaults to RATING_SOURCE
+}
+
+/**
+ * Outcome for one club
+ */
+export interface ClubHistoryResult {
+  club: string;
+  status: "imported" | "skipped" | "empty" | "failed";
+  ratings: number; // Rows imported
+  errors: number; // Rows importClubHistory could not store
+  error?: string; // Why the club failed
+}
+
+/**
+ * Outcome of a batch run
+ */
+export interface HistoryBatchSummary {
+  date: string; // Snapshot date the club list and completeness refer to
+  clubs: ClubHistoryResult[];
+  imported: number;
+  skipped: number;
+  empty: number;
+  failed: number;
+}
+
+const DEFAULT_DELAY_MS = 1000;
+
+/**
+ * Collect the API names to import and the date they were listed on
+ */
+async function listClubs(
+  list: ClubListSource,
+  source: RatingSource
+): Promise<{ date: string; clubs: string[] }> {
+  const latestDate = await rankingsService.getLatestSnapshotDate(source.name);
+
+  if (list === "clubs") {
+    return {
+      date: latestDate || getYesterday(),
+      clubs: await externalDataRepo.findAllClubApiNames(),
+    };
+  }
+
+  if (latestDate) {
+    return {
+      date: latestDate,
+      clubs: await externalDataRepo.findSnapshotClubApiNames(
+        source.name,
+        latestDate
+      ),
+    };
+  }
+
+  // Fresh database: take the list from the source itself
+  const date = getYesterday();
+  const rows = await source.fetchDailySnapshot(date);
+  return {
+    date,
+    clubs: [...new Set(rows.map((row) => row.Club.trim()))].sort(),
+  };
+}
+
+/**
+ * Find clubs whose full history is already stored
+ *
+ * A history import writes a rating on the first day of every ClubElo
+ * period. The history is complete when the periods have no gaps, reach the
+ * snapshot date and start on the club's first stored rating. Daily
+ * snapshots alone leave the first period starting before the first rating.
+ *
+ * Only ClubElo imports record periods, so this applies to ClubElo only.
+ */
+export async function findCompleteClubs(
+  apiNames: string[],
+  date: string
+): Promise<Set<string>> {
+  if (apiNames.length === 0) {
+    return new Set();
+  }
+
+  return new Set(
+    await externalDataRepo.findClubsWithCompletePeriods(apiNames, date)
+  );
+}
+
+/**
+ * Import the full history of every listed club
+ *
+ * Clubs are imported one at a time with a pause between API requests.
+ * A failure is recorded against the club and the run carries on.
+ *
+ * @param options - Club list, rate limit and skip settings
+ * @param onClub - Called after each club, e.g. to print progress
+ * @returns Per-club results and totals
+ */
+export async function importAllClubHistories(
+  options: HistoryBatchOptions = {},
+  onClub?: (result: ClubHistoryResult, index: number, total: number) => void
+): Promise<HistoryBatchSummary> {
+  const delayMs = options.delayMs ?? DEFAULT_DELAY_MS;
+  const source = options.source ?? getRatingSource();
+  const { date, clubs: listed } = await listClubs(
+    options.list || "snapshot",
+    source
+  );
+  const clubs =
+    options.limit !== undefined ? listed.slice(0, options.limit) : listed;
+
+  // Other sources have no periods to check, so every club is re-imported
+  const complete =
+    options.force || source.name !== "clubelo"
+      ? new Set<string>()
+      : await findCompleteClubs(clubs, date);
+
+  logger.info("Starting club history batch", {
+    source: source.name,
+    date,
+    clubs: clubs.length,
+    complete: complete.size,
+    delayMs,
+  });
+
+  const results: ClubHistoryResult[] = [];
+  let requested = false;
+
+  for (const [index, club] of clubs.entries()) {
+    let result: ClubHistoryResult;
+
+    if (complete.has(club)) {
+      result = { club, status: "skipped", ratings: 0, errors: 0 };
+    } else {
+      if (requested && delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+      requested = true;
+      result = await importClub(club, options.trigger || "cli", source);
+    }
+
+    results.push(result);
+    onClub?.(result, index, clubs.length);
+  }
+
+  const count = (status: ClubHistoryResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+
+  const summary: HistoryBatchSummary = {
+    date,
+    clubs: results,
+    imported: count("imported"),
+    skipped: count("skipped"),
+    empty: count("empty"),
+    failed: count("failed"),
+  };
+
+  logger.info("Club history batch complete", {
+    imported: summary.imported,
+    skipped: summary.skipped,
+    empty: summary.empty,
+    failed: summary.failed,
+  });
+
+  return summary;
+}
+
+/**
+ * Fetch and import one club's history
+ */
+async function importClub(
+  club: string,
+  trigger: ImportTrigger,
+  source: RatingSource
+): Promise<ClubHistoryResult> {
+  try {
+    const run = await importRunsService.trackImportRun(
+      {
+        type: "club",
+        trigger,
+        parameters: { club, source: source.name, batch: true },
+      },
+      async () => {
+        const rows = await source.fetchClubHistory(club);
+
+        if (rows.length === 0) {
+          logger.warn(`No history returned for ${club}`);
+          return { fetched: 0, imported: 0, errors: 0, errorSamples: [] };
+        }
+
+        const stats = await dataImporter.importClubHistory(
+          rows,
+          club,
+          source.name
+        );
+        return {
+          fetched: rows.length,
+          imported: stats.success,
+          errors: stats.errors,
+          errorSamples: stats.errorSamples,
+        };
+      }
+    );
+
+    if (run.fetched === 0) {
+      return { club, status: "empty", ratings: 0, errors: 0 };
+    }
+
+    return {
+      club,
+      status: "imported",
+      ratings: run.imported,
+      errors: run.errors,
+    };
+  } catch (error) {
+    logger.error(`History import failed for ${club}`, {
+      error: (error as Error).message,
+    });
+    return {
+      club,
+      status: "failed",
+      ratings: 0,
+      errors: 0,
+      error: (error as Error).message,
+    };
+  }
+}
@@ -3,7 +3,8 @@
  *
  * BARREL FILE - Controls what this module exposes.
  *
- * This module handles all external data sources (ClubElo API).
+ * This module handles all external data sources (ClubElo API, local rating
+ * files, local results feeds).
  */
 
 // Export routes (for server.ts to mount)
@@ -11,8 +12,34 @@ export { default as cronRoutes } from "./cron.routes";
 
 // Export services (for scripts)
 export * as clubeloClient from "./clubelo-client";
+export { getRatingSource, clubeloSource } from "./rating-source";
+export { createLocalFileSource } from "./local-file-source";
+export { startClubEloStub } from "./clubelo-stub-server";
 export * as dataImporter from "./data-importer.service";
 export * as fixturesImporter from "./fixtures-importer.service";
+export * as resultsImporter from "./results-importer.service";
+export * as backfill from "./backfill.service";
+export * as historyBatch from "./history-batch.service";
+export * as gapRepair from "./gap-repair.service";
 
 // Export types (for other modules)
 export type { ClubEloRow, ClubEloFixtureRow } from "./clubelo-client";
+export type { RatingSource, RatingRow, FixtureRow } from "./rating-source";
+export type {
+  StubFault,
+  ClubEloStubOptions,
+  ClubEloStub,
+} from "./clubelo-stub-server";
+export type { ResultFeedRow } from "./results-importer.service";
+export type {
+  BackfillOptions,
+  BackfillSummary,
+  BackfillCheckpoint,
+} from "./backfill.service";
+export type {
+  ClubListSource,
+  HistoryBatchOptions,
+  ClubHistoryResult,
+  HistoryBatchSummary,
+} from "./history-batch.service";
+export type { GapRepairSummary } from "./gap-repair.service";
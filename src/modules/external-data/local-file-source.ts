@@ -0,0 +1,133 @@
+/**
+ * Local File Rating Source
+ *
+ * EXTERNAL DATA SOURCE - Reads ratings and fixtures from a directory of
+ * CSV or JSON files, for offline testing and for loading in-house ratings.
+ *
+ * Directory layout (each file may be .csv or .json):
+ *   snapshots/YYYY-MM-DD.csv   Every club's rating on that date
+ *   clubs/<Club>.csv           One club's full history
+ *   fixtures.csv               All upcoming fixtures
+ *   fixtures/YYYY-MM-DD.csv    Fixtures on that date
+ *
+ * CSV files use the ClubElo column names. JSON files hold an array of
+ * objects with the same keys. A missing file means no data.
+ */
+
+import fs from "fs";
+import path from "path";
+import { parse } from "csv-parse/sync";
+import type { FixtureRow, RatingRow, RatingSource } from "./rating-source";
+import { logger } from "../../shared/utils/logger";
+
+/**
+ * Read the rows of <base>.csv or <base>.json, or [] when neither exists
+ */
+async function readRows<T>(base: string): Promise<T[]> {
+  for (const ext of [".csv", ".json"]) {
+    const filePath = base + ext;
+
+    let text: string;
+    try {
+      text = await fs.promises.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        continue;
+      }
+      throw error;
+    }
+
+    const rows =
+      ext === ".csv" ? parseCsv(text, filePath) : parseJson(text, filePath);
+    logger.debug(`Read ${rows.length} rows from ${filePath}`);
+    return rows as T[];
+  }
+
+  logger.debug(`No local data file for ${base}`);
+  return [];
+}
+
+function parseCsv(text: string, filePath: string): Record<string, string>[] {
+  try {
+    return parse(text, {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+    }) as Record<string, string>[];
+  } catch (error) {
+    throw new Error(`Failed to parse ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Parse a JSON array, turning values into strings like CSV cells
+ */
+function parseJson(text: string, filePath: string): Record<string, string>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Failed to parse ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${filePath} must contain a JSON array`);
+  }
+
+  return parsed.map((item) =>
+    Object.fromEntries(
+      Object.entries(item as Record<string, unknown>).map(([key, value]) => [
+        key,
+        value === null || value === undefined ? "" : String(value),
+      ])
+    )
+  );
+}
+
+/**
+ * Reject dates and club names that would reach outside the directory
+ */
+function fileName(value: string, label: string): string {
+  if (!value || value.trim() === "" || /[\\/]|^\.\.?$/.test(value)) {
+    throw new Error(`Invalid ${label}: "${value}"`);
+  }
+  return value.trim();
+}
+
+function checkDate(date: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error("Date must be in YYYY-MM-DD format");
+  }
+  return date;
+}
+
+/**
+ * Create a source reading from a directory
+ *
+ * @param dir - Directory holding the files
+ * @param name - Recorded in elo_ratings.source and fixtures.source. Defaults to "local".
+ */
+export function createLocalFileSource(
+  dir: string,
+  name = "local"
+): RatingSource {
+  return {
+    name,
+
+    async fetchDailySnapshot(date: string): Promise<RatingRow[]> {
+      return readRows(path.join(dir, "snapshots", checkDate(date)));
+    },
+
+    async fetchClubHistory(club: string): Promise<RatingRow[]> {
+      return readRows(path.join(dir, "clubs", fileName(club, "club name")));
+    },
+
+    async fetchFixtures(date?: string): Promise<FixtureRow[]> {
+      return readRows(
+        date
+          ? path.join(dir, "fixtures", checkDate(date))
+          : path.join(dir, "fixtures")
+      );
+    },
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Rating Sources
+ *
+ * EXTERNAL DATA SOURCE - The interface every ratings provider implements,
+ * and the registry that picks one by name.
+ *
+ * Importers only see RatingRow and FixtureRow. A source's name is written
+ * to elo_ratings.source and fixtures.source for every row it produces.
+ *
+ * Available sources:
+ * - clubelo: the ClubElo public CSV API (clubelo-client.ts)
+ * - local: CSV or JSON files in RATING_SOURCE_DIR (local-file-source.ts)
+ */
+
+import * as clubeloClient from "./clubelo-client";
+import { createLocalFileSource } from "./local-file-source";
+import { config } from "../../shared/config/environment";
+
+/**
+ * One club rating from a source
+ *
+ * Columns follow the ClubElo CSV layout, which every source produces.
+ * Values are strings, as read from a CSV file.
+ */
+export interface RatingRow {
+  Rank: string; // "None" when unranked
+  Club: string;
+  Country: string;
+  Level: string;
+  Elo: string;
+  From: string; // First day the rating was valid (YYYY-MM-DD)
+  To: string; // Last day the rating was valid (YYYY-MM-DD)
+}
+
+/**
+ * One upcoming fixture with predictions from a source
+ */
+export interface FixtureRow {
+  Date: string;
+  HomeTeam: string;
+  AwayTeam: string;
+  Country: string;
+  Competition: string;
+  HomeLevel: string;
+  AwayLevel: string;
+  HomeElo: string;
+  AwayElo: string;
+  HomeProbW: string;
+  ProbD: string;
+  AwayProbW: string;
+}
+
+/**
+ * A provider of club ratings and fixtures
+ *
+ * Fetch methods return an empty array when the source has no data.
+ */
+export interface RatingSource {
+  name: string; // Recorded in elo_ratings.source and fixtures.source
+  fetchDailySnapshot(date: string): Promise<RatingRow[]>;
+  fetchClubHistory(club: string): Promise<RatingRow[]>;
+  fetchFixtures(date?: string): Promise<FixtureRow[]>;
+}
+
+/**
+ * ClubElo public API
+ */
+export const clubeloSource: RatingSource = {
+  name: "clubelo",
+  fetchDailySnapshot: (date) => clubeloClient.fetchDailySnapshot(date),
+  fetchClubHistory: (club) => clubeloClient.fetchClubHistory(club),
+  fetchFixtures: (date) => clubeloClient.fetchFixtures(date),
+};
+
+/**
+ * Get a rating source
+ *
+ * @param kind - Source to use. Defaults to RATING_SOURCE.
+ * @returns The source
+ * @throws Error for an unknown source, or "local" without RATING_SOURCE_DIR
+ */
+export function getRatingSource(
+  kind: string = config.ratingSource
+): RatingSource {
+  switch (kind) {
+    case "clubelo":
+      return clubeloSource;
+    case "local":
+      if (!config.ratingSourceDir) {
+        throw new Error("RATING_SOURCE_DIR is required for the local source");
+      }
+      return createLocalFileSource(
+        config.ratingSourceDir,
+        config.ratingSourceTag
+      );
+    default:
+      throw new Error(
+        `Unknown rating source "${kind}" (expected clubelo or local)`
+      );
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Results Importer Service
+ *
+ * BUSINESS LOGIC - Imports final scores for fixtures from a local results feed.
+ * The feed is a CSV or JSON file; each row is matched to a stored fixture by
+ * home team, away team and match date. Team names go through the club
+ * resolver, so aliases and other spellings of a stored club match too.
+ *
+ * CSV columns / JSON keys:
+ *   Date, HomeTeam, AwayTeam, HomeGoals, AwayGoals,
+ *   Status (optional, default "finished"), ExtraTime (optional), Penalties (optional)
+ */
+
+import fs from "fs";
+import path from "path";
+import { parse } from "csv-parse/sync";
+import { findFixtureIdByTeams, upsertResult, MatchStatus } from "../fixtures";
+import { createClubResolver } from "../clubs";
+import { logger } from "../../shared/utils/logger";
+import { formatDateOnly } from "../../shared/utils/date-formatter";
+
+/**
+ * Raw row from a results feed
+ */
+export interface ResultFeedRow {
+  Date: string;
+  HomeTeam: string;
+  AwayTeam: string;
+  HomeGoals: string | number | null;
+  AwayGoals: string | number | null;
+  Status?: string;
+  ExtraTime?: string | boolean;
+  Penalties?: string | boolean;
+}
+
+const MATCH_STATUSES: MatchStatus[] = [
+  "finished",
+  "postponed",
+  "abandoned",
+  "cancelled",
+];
+
+/**
+ * Read a results feed from a local CSV or JSON file
+ *
+ * @param filePath - Path to a .csv or .json file
+ * @returns Raw feed rows
+ */
+export function readResultsFile(filePath: string): ResultFeedRow[] {
+  const content = fs.readFileSync(filePath, "utf8");
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === ".json") {
+    const data = JSON.parse(content);
+    if (!Array.isArray(data)) {
+      throw new Error("Results JSON must be an array of result objects");
+    }
+    return data as ResultFeedRow[];
+  }
+
+  if (extension === ".csv") {
+    return parse(content, {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+    }) as ResultFeedRow[];
+  }
+
+  throw new Error(`Unsupported results file type: ${extension || filePath}`);
+}
+
+/**
+ * Parse a boolean flag from a feed ("true", "1", "yes")
+ */
+function parseFlag(value: string | boolean | undefined): boolean {
+  if (typeof value === "boolean") return value;
+  return ["true", "1", "yes", "y"].includes((value || "").trim().toLowerCase());
+}
+
+/**
+ * Parse a goal count (null when blank)
+ */
+function parseGoals(value: string | number | null): number | null {
+  if (value === null || value === undefined || String(value).trim() === "") {
+    return null;
+  }
+  const goals = Number(value);
+  return Number.isInteger(goals) && goals >= 0 ? goals : NaN;
+}
+
+/**
+ * Validate and parse a results feed row
+ */
+export function parseResultRow(row: ResultFeedRow): {
+  matchDate: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeGoals: number | null;
+  awayGoals: number | null;
+  status: MatchStatus;
+  extraTime: boolean;
+  penalties: boolean;
+} | null {
+  const date = new Date(row.Date);
+  const homeTeam = (row.HomeTeam || "").trim();
+  const awayTeam = (row.AwayTeam || "").trim();
+  const status = ((row.Status || "").trim().toLowerCase() ||
+    "finished") as MatchStatus;
+  const homeGoals = parseGoals(row.HomeGoals);
+  const awayGoals = parseGoals(row.AwayGoals);
+
+  if (isNaN(date.getTime()) || !homeTeam || !awayTeam) {
+    logger.warn("Skipping result row with missing date or teams", { row });
+    return null;
+  }
+
+  if (!MATCH_STATUSES.includes(status)) {
+    logger.warn(`Skipping result with unknown status: ${row.Status}`, {
+      homeTeam,
+      awayTeam,
+    });
+    return null;
+  }
+
+  const hasScore = homeGoals !== null && awayGoals !== null;
+  if (
+    Number.isNaN(homeGoals) ||
+    Number.isNaN(awayGoals) ||
+    (status === "finished" && !hasScore)
+  ) {
+    logger.warn(`Skipping invalid score: ${homeTeam} vs ${awayTeam}`, {
+      homeGoals: row.HomeGoals,
+      awayGoals: row.AwayGoals,
+    });
+    return null;
+  }
+
+  return {
+    matchDate: formatDateOnly(date)!,
+    homeTeam,
+    awayTeam,
+    homeGoals: status === "finished" ? homeGoals : null,
+    awayGoals: status === "finished" ? awayGoals : null,
+    status,
+    extraTime: parseFlag(row.ExtraTime),
+    penalties: parseFlag(row.Penalties),
+  };
+}
+
+/**
+ * Import results for stored fixtures
+ *
+ * Rows that do not match a stored fixture are counted as unmatched;
+ * the fixture must be imported first.
+ *
+ * @param rows - Results feed rows
+ * @param source - Name of the feed, stored on each result
+ * @returns Statistics about the import
+ */
+export async function importResults(
+  rows: ResultFeedRow[],
+  source = "local"
+): Promise<{ success: number; errors: number; unmatched: number }> {
+  logger.info(`Importing ${rows.length} results from ${source} feed`);
+
+  let successCount = 0;
+  let errorCount = 0;
+  let unmatchedCount = 0;
+  const resolver = await createClubResolver();
+  const apiName = (name: string) => resolver.resolve(name)?.apiName ?? name;
+
+  for (const row of rows) {
+    try {
+      const parsed = parseResultRow(row);
+      if (!parsed) {
+        errorCount++;
+        continue;
+      }
+
+      const fixtureId = await findFixtureIdByTeams(
+        apiName(parsed.homeTeam),
+        apiName(parsed.awayTeam),
+        parsed.matchDate
+      );
+
+      if (fixtureId === null) {
+        unmatchedCount++;
+        logger.debug(
+          `No fixture for ${parsed.homeTeam} vs ${parsed.awayTeam} on ${parsed.matchDate}`
+        );
+        continue;
+      }
+
+      await upsertResult({
+        fixtureId,
+        homeGoals: parsed.homeGoals,
+        awayGoals: parsed.awayGoals,
+        status: parsed.status,
+        extraTime: parsed.extraTime,
+        penalties: parsed.penalties,
+        source,
+      });
+      successCount++;
+    } catch (error) {
+      errorCount++;
+      logger.error(
+        `Failed to import result: ${row.HomeTeam} vs ${row.AwayTeam}`,
+        { error: (error as Error).message }
+      );
+    }
+  }
+
+  logger.info("Results import complete", {
+    success: successCount,
+    errors: errorCount,
+    unmatched: unmatchedCount,
+  });
+
+  return {
+    success: successCount,
+    errors: errorCount,
+    unmatched: unmatchedCount,
+  };
+}
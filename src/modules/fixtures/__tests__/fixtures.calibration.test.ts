@@ -0,0 +1,136 @@
+/**
+ * Prediction Calibration Tests
+ *
+ * Unit tests for the scoring rules and reliability curve.
+ */
+
+import {
+  brierScore,
+  logLoss,
+  matchOutcome,
+  rankedProbabilityScore,
+  reliabilityCurve,
+  scorePredictions,
+  ScoredPrediction,
+} from "../fixtures.calibration";
+
+function prediction(
+  homeWin: number,
+  draw: number,
+  awayWin: number,
+  outcome: ScoredPrediction["outcome"]
+): ScoredPrediction {
+  return { predictions: { homeWin, draw, awayWin }, outcome };
+}
+
+describe("Prediction Calibration", () => {
+  describe("matchOutcome", () => {
+    const base = {
+      status: "finished" as const,
+      extraTime: false,
+      penalties: false,
+    };
+
+    it("should derive the regular-time outcome from the score", () => {
+      expect(matchOutcome({ ...base, homeGoals: 2, awayGoals: 1 })).toBe("home");
+      expect(matchOutcome({ ...base, homeGoals: 0, awayGoals: 3 })).toBe("away");
+      expect(matchOutcome({ ...base, homeGoals: 1, awayGoals: 1 })).toBe("draw");
+    });
+
+    it("should treat extra-time and penalty deciders as draws", () => {
+      expect(
+        matchOutcome({ ...base, homeGoals: 2, awayGoals: 1, extraTime: true })
+      ).toBe("draw");
+    });
+
+    it("should return null without a score", () => {
+      expect(
+        matchOutcome({ ...base, homeGoals: null, awayGoals: null })
+      ).toBeNull();
+    });
+  });
+
+  describe("scoring rules", () => {
+    it("should score a perfect forecast as zero", () => {
+      const perfect = prediction(1, 0, 0, "home");
+
+      expect(brierScore(perfect)).toBe(0);
+      expect(logLoss(perfect)).toBeCloseTo(0, 10);
+      expect(rankedProbabilityScore(perfect)).toBe(0);
+    });
+
+    it("should compute the multi-class Brier score", () => {
+      // (0.5 - 1)^2 + 0.3^2 + 0.2^2 = 0.38
+      expect(brierScore(prediction(0.5, 0.3, 0.2, "home"))).toBeCloseTo(
+        0.38,
+        10
+      );
+    });
+
+    it("should compute log-loss from the outcome probability", () => {
+      expect(logLoss(prediction(0.5, 0.25, 0.25, "draw"))).toBeCloseTo(
+        Math.log(4),
+        10
+      );
+    });
+
+    it("should penalise distant misses more in the RPS", () => {
+      const drawForecast = prediction(0.2, 0.6, 0.2, "home");
+      const awayForecast = prediction(0.2, 0.2, 0.6, "home");
+
+      expect(rankedProbabilityScore(drawForecast)).toBeLessThan(
+        rankedProbabilityScore(awayForecast)
+      );
+    });
+
+    it("should rescale probabilities that do not sum to 1", () => {
+      expect(brierScore(prediction(1, 0.6, 0.4, "home"))).toBeCloseTo(
+        brierScore(prediction(0.5, 0.3, 0.2, "home")),
+        10
+      );
+    });
+  });
+
+  describe("reliabilityCurve", () => {
+    it("should bucket every outcome probability", () => {
+      const curve = reliabilityCurve(
+        [
+          prediction(0.55, 0.25, 0.2, "home"),
+          prediction(0.5, 0.3, 0.2, "away"),
+        ],
+        5
+      );
+
+      expect(curve).toHaveLength(5);
+      expect(curve[2]).toEqual({
+        lower: 0.4,
+        upper: 0.6,
+        count: 2,
+        meanPredicted: 0.525,
+        observedFrequency: 0.5,
+      });
+      expect(curve[4].count).toBe(0);
+      expect(curve[4].observedFrequency).toBeNull();
+    });
+  });
+
+  describe("scorePredictions", () => {
+    it("should return null scores for an empty set", () => {
+      const scores = scorePredictions([], 10);
+
+      expect(scores.matches).toBe(0);
+      expect(scores.brierScore).toBeNull();
+      expect(scores.reliability).toHaveLength(10);
+    });
+
+    it("should average scores across matches", () => {
+      const scores = scorePredictions(
+        [prediction(1, 0, 0, "home"), prediction(0.5, 0.3, 0.2, "home")],
+        10
+      );
+
+      expect(scores.matches).toBe(2);
+      expect(scores.brierScore).toBe(0.19);
+    });
+  });
+});
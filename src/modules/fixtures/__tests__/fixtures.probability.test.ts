@@ -0,0 +1,62 @@
+/**
+ * Match Probability Tests
+ *
+ * Unit tests for the Elo-to-probability model.
+ */
+
+import {
+  expectedGoalDifference,
+  matchProbabilities,
+} from "../fixtures.probability";
+
+describe("Match Probabilities", () => {
+  it("should sum to 1", () => {
+    const p = matchProbabilities(1850, 1720);
+
+    expect(p.homeWin! + p.draw! + p.awayWin!).toBeCloseTo(1, 3);
+  });
+
+  it("should be symmetric for equal ratings at a neutral venue", () => {
+    const p = matchProbabilities(1800, 1800, true);
+
+    expect(p.homeWin).toBe(p.awayWin);
+    expect(p.draw).toBeGreaterThan(0);
+  });
+
+  it("should favour the home side when ratings are equal", () => {
+    const p = matchProbabilities(1800, 1800);
+
+    expect(p.homeWin!).toBeGreaterThan(p.awayWin!);
+  });
+
+  it("should make draws less likely as the gap grows", () => {
+    const close = matchProbabilities(1800, 1780, true);
+    const mismatch = matchProbabilities(2000, 1500, true);
+
+    expect(mismatch.draw!).toBeLessThan(close.draw!);
+    expect(mismatch.homeWin!).toBeGreaterThan(0.8);
+  });
+
+  it("should use custom parameters", () => {
+    const p = matchProbabilities(1800, 1800, false, {
+      homeAdvantage: 0,
+      drawMargin: 0,
+      eloPerGoal: 250,
+    });
+
+    expect(p).toEqual({ homeWin: 0.5, draw: 0, awayWin: 0.5 });
+  });
+
+  describe("expectedGoalDifference", () => {
+    const params = { homeAdvantage: 50, drawMargin: 100, eloPerGoal: 250 };
+
+    it("should scale the rating edge by Elo per goal", () => {
+      expect(expectedGoalDifference(1900, 1700, false, params)).toBe(1);
+      expect(expectedGoalDifference(1700, 1900, true, params)).toBe(-0.8);
+    });
+
+    it("should be zero for equal sides at a neutral venue", () => {
+      expect(expectedGoalDifference(1800, 1800, true, params)).toBe(0);
+    });
+  });
+});
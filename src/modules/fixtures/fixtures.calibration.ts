@@ -0,0 +1,189 @@
+/**
+ * Prediction Calibration
+ *
+ * PURE FUNCTIONS - Scoring rules for home/draw/away probability forecasts.
+ * No database or HTTP access here.
+ */
+
+import {
+  MatchPredictions,
+  MatchResult,
+  CalibrationScores,
+  ReliabilityBucket,
+} from "./fixtures.types";
+
+/**
+ * Regular-time outcome of a match
+ */
+export type MatchOutcome = "home" | "draw" | "away";
+
+/**
+ * Forecast paired with what actually happened
+ */
+export interface ScoredPrediction {
+  predictions: MatchPredictions;
+  outcome: MatchOutcome;
+}
+
+/**
+ * Smallest probability used for log-loss (avoids log(0))
+ */
+const MIN_PROBABILITY = 1e-15;
+
+/**
+ * Outcome of a finished match after regular time
+ *
+ * Predictions are for 90 minutes, so a tie decided in extra time or on
+ * penalties counts as a draw.
+ */
+export function matchOutcome(result: MatchResult): MatchOutcome | null {
+  if (result.homeGoals === null || result.awayGoals === null) {
+    return null;
+  }
+
+  if (result.extraTime || result.penalties) {
+    return "draw";
+  }
+
+  if (result.homeGoals > result.awayGoals) return "home";
+  if (result.homeGoals < result.awayGoals) return "away";
+  return "draw";
+}
+
+/**
+ * Probabilities as [home, draw, away], rescaled to sum to 1
+ */
+function toVector(predictions: MatchPredictions): [number, number, number] {
+  const home = predictions.homeWin ?? 0;
+  const draw = predictions.draw ?? 0;
+  const away = predictions.awayWin ?? 0;
+  const total = home + draw + away;
+
+  if (total <= 0) {
+    return [1 / 3, 1 / 3, 1 / 3];
+  }
+
+  return [home / total, draw / total, away / total];
+}
+
+/**
+ * Observed outcome as a one-hot [home, draw, away] vector
+ */
+function outcomeVector(outcome: MatchOutcome): [number, number, number] {
+  return [
+    outcome === "home" ? 1 : 0,
+    outcome === "draw" ? 1 : 0,
+    outcome === "away" ? 1 : 0,
+  ];
+}
+
+/**
+ * Multi-class Brier score for one match (0 = perfect, 2 = worst)
+ */
+export function brierScore(prediction: ScoredPrediction): number {
+  const p = toVector(prediction.predictions);
+  const o = outcomeVector(prediction.outcome);
+
+  return p.reduce((sum, pi, i) => sum + Math.pow(pi - o[i], 2), 0);
+}
+
+/**
+ * Log-loss for one match (negative log of the outcome's probability)
+ */
+export function logLoss(prediction: ScoredPrediction): number {
+  const p = toVector(prediction.predictions);
+  const index = outcomeVector(prediction.outcome).indexOf(1);
+
+  return -Math.log(Math.max(p[index], MIN_PROBABILITY));
+}
+
+/**
+ * Ranked probability score for one match (0 = perfect, 1 = worst)
+ *
+ * Treats home / draw / away as ordered, so predicting a draw when the
+ * home side wins is penalised less than predicting an away win.
+ */
+export function rankedProbabilityScore(prediction: ScoredPrediction): number {
+  const p = toVector(prediction.predictions);
+  const o = outcomeVector(prediction.outcome);
+
+  let cumulativeP = 0;
+  let cumulativeO = 0;
+  let sum = 0;
+
+  for (let i = 0; i < p.length - 1; i++) {
+    cumulativeP += p[i];
+    cumulativeO += o[i];
+    sum += Math.pow(cumulativeP - cumulativeO, 2);
+  }
+
+  return sum / (p.length - 1);
+}
+
+/**
+ * Reliability curve over all three outcome probabilities
+ *
+ * Every match contributes three forecasts (home, draw, away). Each is placed
+ * in an equal-width probability bucket and compared with how often that
+ * outcome happened.
+ */
+export function reliabilityCurve(
+  predictions: ScoredPrediction[],
+  buckets: number
+): ReliabilityBucket[] {
+  const totals = Array.from({ length: buckets }, () => ({
+    count: 0,
+    predicted: 0,
+    observed: 0,
+  }));
+
+  for (const prediction of predictions) {
+    const p = toVector(prediction.predictions);
+    const o = outcomeVector(prediction.outcome);
+
+    p.forEach((probability, i) => {
+      const index = Math.min(Math.floor(probability * buckets), buckets - 1);
+      totals[index].count++;
+      totals[index].predicted += probability;
+      totals[index].observed += o[i];
+    });
+  }
+
+  return totals.map((total, index) => ({
+    lower: round(index / buckets),
+    upper: round((index + 1) / buckets),
+    count: total.count,
+    meanPredicted: total.count > 0 ? round(total.predicted / total.count) : null,
+    observedFrequency:
+      total.count > 0 ? round(total.observed / total.count) : null,
+  }));
+}
+
+/**
+ * Average scoring rules and reliability curve for a set of predictions
+ */
+export function scorePredictions(
+  predictions: ScoredPrediction[],
+  buckets: number
+): CalibrationScores {
+  const count = predictions.length;
+  const mean = (score: (p: ScoredPrediction) => number): number | null =>
+    count > 0
+      ? round(predictions.reduce((sum, p) => sum + score(p), 0) / count)
+      : null;
+
+  return {
+    matches: count,
+    brierScore: mean(brierScore),
+    logLoss: mean(logLoss),
+    rankedProbabilityScore: mean(rankedProbabilityScore),
+    reliability: reliabilityCurve(predictions, buckets),
+  };
+}
+
+/**
+ * Round to 4 decimal places for the API response
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,99 @@
+/**
+ * Match Probabilities
+ *
+ * PURE FUNCTIONS - Turn two Elo ratings into home/draw/away probabilities.
+ * No database or HTTP access here.
+ */
+
+import { MatchPredictions } from "./fixtures.types";
+import { config } from "../../shared/config/environment";
+
+/**
+ * Parameters of the Elo-to-probability model
+ */
+export interface ProbabilityParameters {
+  homeAdvantage: number; // Elo points added to the home side
+  drawMargin: number; // Elo-scale width of the draw band (larger = more draws)
+  eloPerGoal: number; // Elo difference worth one goal of expected margin
+}
+
+/**
+ * Defaults from config, tuned to resemble the ClubElo fixtures feed
+ */
+export const DEFAULT_PROBABILITY_PARAMETERS: ProbabilityParameters = {
+  homeAdvantage: config.predictionHomeAdvantage,
+  drawMargin: config.predictionDrawMargin,
+  eloPerGoal: config.predictionEloPerGoal,
+};
+
+/**
+ * Logistic curve on the Elo scale (400 points = 10x odds)
+ */
+function logistic(diff: number): number {
+  return 1 / (1 + Math.pow(10, -diff / 400));
+}
+
+/**
+ * Home/draw/away probabilities for a match between two ratings
+ *
+ * Ordered logistic model: the home side wins when its effective rating
+ * edge clears the draw margin, the away side when it falls below minus the
+ * margin, and anything in between is a draw.
+ *
+ * @param homeElo - Rating of the home side
+ * @param awayElo - Rating of the away side
+ * @param neutral - True when neither side has home advantage
+ * @param params - Model parameters, optional
+ */
+export function matchProbabilities(
+  homeElo: number,
+  awayElo: number,
+  neutral: boolean = false,
+  params: ProbabilityParameters = DEFAULT_PROBABILITY_PARAMETERS
+): MatchPredictions {
+  const diff = effectiveDifference(homeElo, awayElo, neutral, params);
+
+  const homeWin = logistic(diff - params.drawMargin);
+  const awayWin = logistic(-diff - params.drawMargin);
+
+  return {
+    homeWin: round(homeWin),
+    draw: round(1 - homeWin - awayWin),
+    awayWin: round(awayWin),
+  };
+}
+
+/**
+ * Expected goal difference (home minus away) for a match
+ *
+ * Linear in the effective rating difference, so equal sides at a neutral
+ * venue are expected to finish level.
+ */
+export function expectedGoalDifference(
+  homeElo: number,
+  awayElo: number,
+  neutral: boolean = false,
+  params: ProbabilityParameters = DEFAULT_PROBABILITY_PARAMETERS
+): number {
+  const diff = effectiveDifference(homeElo, awayElo, neutral, params);
+  return Math.round((diff / params.eloPerGoal) * 100) / 100;
+}
+
+/**
+ * Home rating edge including home advantage
+ */
+function effectiveDifference(
+  homeElo: number,
+  awayElo: number,
+  neutral: boolean,
+  params: ProbabilityParameters
+): number {
+  return homeElo - awayElo + (neutral ? 0 : params.homeAdvantage);
+}
+
+/**
+ * Round to 4 decimal places for the API response
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
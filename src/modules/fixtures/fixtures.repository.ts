@@ -7,20 +7,116 @@
  */
 
 import { db } from "../../shared/database/connection";
+import { streamQuery, mapStream } from "../../shared/database/stream";
 import { formatDateOnly } from "../../shared/utils/date-formatter";
-import { Fixture, FixtureRow } from "./fixtures.types";
+import {
+  Fixture,
+  FixtureRow,
+  MatchResult,
+  MatchResultRow,
+  MatchStatus,
+} from "./fixtures.types";
 
 /**
- * Search fixtures with filters
+ * Fixture columns and club joins (shared by all fixture reads)
+ */
+const FIXTURE_COLUMNS = `
+    f.id, f.match_date, f.country, f.competition,
+    f.home_elo, f.away_elo,
+    f.home_win_prob, f.draw_prob, f.away_win_prob,
+    hc.id as home_club_id, hc.display_name as home_club_name,
+    hc.country as home_club_country,
+    ac.id as away_club_id, ac.display_name as away_club_name,
+    ac.country as away_club_country
+`;
+
+const FIXTURE_JOINS = `
+  FROM fixtures f
+  JOIN clubs hc ON f.home_club_id = hc.id
+  JOIN clubs ac ON f.away_club_id = ac.id
+`;
+
+const FIXTURE_SELECT = `SELECT ${FIXTURE_COLUMNS} ${FIXTURE_JOINS}`;
+
+/**
+ * Find a fixture by ID
+ */
+export async function findFixtureById(id: number): Promise<Fixture | null> {
+  const query = `
+    ${FIXTURE_SELECT}
+    WHERE f.id = $1
+  `;
+  const result = await db.query<FixtureRow>(query, [id]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return mapRowToFixture(result.rows[0]);
+}
+
+/**
+ * Find the ID of a fixture by its teams' API names and match date
+ */
+export async function findFixtureIdByTeams(
+  homeApiName: string,
+  awayApiName: string,
+  matchDate: string
+): Promise<number | null> {
+  const query = `
+    SELECT f.id
+    FROM fixtures f
+    JOIN clubs hc ON f.home_club_id = hc.id
+    JOIN clubs ac ON f.away_club_id = ac.id
+    WHERE hc.api_name = $1 AND ac.api_name = $2 AND f.match_date = $3
+  `;
+  const result = await db.query<{ id: number }>(query, [
+    homeApiName,
+    awayApiName,
+    matchDate,
+  ]);
+
+  return result.rows[0]?.id ?? null;
+}
+
+/**
+ * Find the result of a fixture
+ */
+export async function findResultByFixtureId(
+  fixtureId: number
+): Promise<MatchResult | null> {
+  const query = `
+    SELECT home_goals, away_goals, status, extra_time, penalties
+    FROM results
+    WHERE fixture_id = $1
+  `;
+  const result = await db.query<MatchResultRow>(query, [fixtureId]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return mapRowToMatchResult(result.rows[0]);
+}
+
+/**
+ * Fixture search filters shared by paged and streamed reads
  */
-export async function searchFixtures(options: {
+interface FixtureSearchOptions {
   date?: string;
   fromDate?: string;
   toDate?: string;
   country?: string;
   competition?: string;
-  limit: number;
-}): Promise<Fixture[]> {
+}
+
+/**
+ * Fixtures matching filters, by date then ID
+ */
+function buildSearchQuery(options: FixtureSearchOptions): {
+  sql: string;
+  params: any[];
+} {
   const whereClauses: string[] = [];
   const params: any[] = [];
 
@@ -52,20 +148,24 @@ export async function searchFixtures(options: {
   const whereClause =
     whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
 
-  const query = `
-    SELECT
-      f.id, f.match_date, f.country, f.competition,
-      f.home_elo, f.away_elo,
-      f.home_win_prob, f.draw_prob, f.away_win_prob,
-      hc.id as home_club_id, hc.display_name as home_club_name,
-      hc.country as home_club_country,
-      ac.id as away_club_id, ac.display_name as away_club_name,
-      ac.country as away_club_country
-    FROM fixtures f
-    JOIN clubs hc ON f.home_club_id = hc.id
-    JOIN clubs ac ON f.away_club_id = ac.id
+  const sql = `
+    ${FIXTURE_SELECT}
     ${whereClause}
     ORDER BY f.match_date ASC, f.id ASC
+  `;
+
+  return { sql, params };
+}
+
+/**
+ * Search fixtures with filters
+ */
+export async function searchFixtures(
+  options: FixtureSearchOptions & { limit: number }
+): Promise<Fixture[]> {
+  const { sql, params } = buildSearchQuery(options);
+
+  const query = `${sql}
     LIMIT $${params.length + 1}
   `;
   params.push(options.limit);
@@ -74,6 +174,71 @@ export async function searchFixtures(options: {
   return result.rows.map(mapRowToFixture);
 }
 
+/**
+ * Stream every fixture matching filters (for exports)
+ */
+export function streamFixtures(
+  options: FixtureSearchOptions
+): AsyncIterable<Fixture> {
+  const { sql, params } = buildSearchQuery(options);
+
+  return mapStream(streamQuery<FixtureRow>(sql, params), mapRowToFixture);
+}
+
+/**
+ * Find finished fixtures that have both predictions and a final score
+ */
+export async function findScoredFixtures(options: {
+  fromDate?: string;
+  toDate?: string;
+  country?: string;
+  competition?: string;
+}): Promise<Array<{ fixture: Fixture; result: MatchResult }>> {
+  const whereClauses = [
+    "r.status = 'finished'",
+    "f.home_win_prob IS NOT NULL",
+    "f.draw_prob IS NOT NULL",
+    "f.away_win_prob IS NOT NULL",
+  ];
+  const params: any[] = [];
+
+  if (options.fromDate) {
+    whereClauses.push(`f.match_date >= $${params.length + 1}`);
+    params.push(options.fromDate);
+  }
+
+  if (options.toDate) {
+    whereClauses.push(`f.match_date <= $${params.length + 1}`);
+    params.push(options.toDate);
+  }
+
+  if (options.country) {
+    whereClauses.push(`f.country = $${params.length + 1}`);
+    params.push(options.country);
+  }
+
+  if (options.competition) {
+    whereClauses.push(`f.competition ILIKE $${params.length + 1}`);
+    params.push(`%${options.competition}%`);
+  }
+
+  const query = `
+    SELECT ${FIXTURE_COLUMNS},
+      r.home_goals, r.away_goals, r.status, r.extra_time, r.penalties
+    ${FIXTURE_JOINS}
+    JOIN results r ON r.fixture_id = f.id
+    WHERE ${whereClauses.join(" AND ")}
+    ORDER BY f.match_date ASC, f.id ASC
+  `;
+
+  const result = await db.query<FixtureRow & MatchResultRow>(query, params);
+
+  return result.rows.map((row) => ({
+    fixture: mapRowToFixture(row),
+    result: mapRowToMatchResult(row),
+  }));
+}
+
 /**
  * Upsert a fixture (insert or update if exists)
  *
@@ -133,6 +298,60 @@ export async function upsertFixture(fixture: {
   ]);
 }
 
+/**
+ * Upsert the result of a fixture
+ *
+ * Used by data import operations.
+ */
+export async function upsertResult(result: {
+  fixtureId: number;
+  homeGoals: number | null;
+  awayGoals: number | null;
+  status: MatchStatus;
+  extraTime: boolean;
+  penalties: boolean;
+  source: string;
+}): Promise<void> {
+  const query = `
+    INSERT INTO results (
+      fixture_id, home_goals, away_goals, status, extra_time, penalties,
+      source, created_at, updated_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+    ON CONFLICT (fixture_id)
+    DO UPDATE SET
+      home_goals = EXCLUDED.home_goals,
+      away_goals = EXCLUDED.away_goals,
+      status = EXCLUDED.status,
+      extra_time = EXCLUDED.extra_time,
+      penalties = EXCLUDED.penalties,
+      source = EXCLUDED.source,
+      updated_at = NOW()
+  `;
+
+  await db.query(query, [
+    result.fixtureId,
+    result.homeGoals,
+    result.awayGoals,
+    result.status,
+    result.extraTime,
+    result.penalties,
+    result.source,
+  ]);
+}
+
+/**
+ * Map database row to MatchResult DTO
+ */
+function mapRowToMatchResult(row: MatchResultRow): MatchResult {
+  return {
+    homeGoals: row.home_goals,
+    awayGoals: row.away_goals,
+    status: row.status,
+    extraTime: row.extra_time,
+    penalties: row.penalties,
+  };
+}
+
 /**
  * Map database row to Fixture DTO
  */
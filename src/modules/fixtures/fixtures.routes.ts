@@ -9,11 +9,36 @@
 import { Router, Request, Response } from "express";
 import * as fixturesService from "./fixtures.service";
 import { FixtureFilters } from "./fixtures.types";
-import { asyncHandler } from "../../shared/middleware/error-handler";
+import { ApiError, asyncHandler } from "../../shared/middleware/error-handler";
+import {
+  negotiateExportFormat,
+  sendExport,
+} from "../../shared/middleware/export";
 import { validateDate, validateDateRange } from "../../shared/middleware/validation";
 
 const router = Router();
 
+/**
+ * CSV columns of an exported fixture (Fixture field paths)
+ */
+const FIXTURE_COLUMNS = [
+  "id",
+  "matchDate",
+  "homeTeam.id",
+  "homeTeam.name",
+  "homeTeam.country",
+  "homeTeam.elo",
+  "awayTeam.id",
+  "awayTeam.name",
+  "awayTeam.country",
+  "awayTeam.elo",
+  "country",
+  "competition",
+  "predictions.homeWin",
+  "predictions.draw",
+  "predictions.awayWin",
+];
+
 /**
  * GET /api/elo/fixtures
  *
@@ -26,12 +51,17 @@ const router = Router();
  *   - country: Filter by country code, optional
  *   - competition: Filter by competition name, optional
  *   - limit: Maximum number of results, optional. Defaults to 100.
+ *   - format: "json", "csv" or "ndjson", optional. Also negotiable with
+ *     Accept: text/csv or application/x-ndjson. CSV and NDJSON stream every
+ *     matching fixture and ignore limit; nested fields become dotted columns
+ *     (homeTeam.elo, predictions.homeWin).
  *
  * Example:
  *   GET /api/elo/fixtures
  *   GET /api/elo/fixtures?date=2025-11-20
  *   GET /api/elo/fixtures?from=2025-11-20&to=2025-11-30
  *   GET /api/elo/fixtures?country=ENG&competition=Premier%20League
+ *   GET /api/elo/fixtures?from=2025-08-01&format=csv
  */
 router.get(
   "/",
@@ -63,9 +93,43 @@ router.get(
       limit,
     };
 
+    const format = negotiateExportFormat(req, res);
+
+    if (format !== "json") {
+      return sendExport(res, format, fixturesService.exportFixtures(filters), {
+        columns: FIXTURE_COLUMNS,
+        filename: "fixtures",
+      });
+    }
+
     const result = await fixturesService.getFixtures(filters);
     res.json(result);
   })
 );
 
+/**
+ * GET /api/elo/fixtures/:id
+ *
+ * Get a single fixture with its final result.
+ *
+ * Path parameters:
+ *   - id: Fixture ID (integer)
+ *
+ * Example:
+ *   GET /api/elo/fixtures/42
+ */
+router.get(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id) || id < 1 || String(id) !== req.params.id) {
+      throw new ApiError(400, "Fixture ID must be a positive integer");
+    }
+
+    const result = await fixturesService.getFixture(id);
+    res.json(result);
+  })
+);
+
 export default router;
@@ -7,17 +7,40 @@
  */
 
 import * as fixturesRepo from "./fixtures.repository";
-import { FixtureFilters, FixturesResponse } from "./fixtures.types";
+import {
+  matchOutcome,
+  scorePredictions,
+  ScoredPrediction,
+} from "./fixtures.calibration";
+import {
+  Fixture,
+  FixtureFilters,
+  FixturesResponse,
+  FixtureDetailResponse,
+  CalibrationFilters,
+  CalibrationGroup,
+  CalibrationReport,
+} from "./fixtures.types";
+import { cached } from "../../shared/cache/response-cache";
+import { ApiError } from "../../shared/middleware/error-handler";
 import { logger } from "../../shared/utils/logger";
 
 /**
  * Get fixtures with filters
  *
+ * Results are cached until the next fixtures or snapshot import.
+ *
  * @param filters - Search and filter options
  * @returns Fixtures matching the filters
  */
 export async function getFixtures(
   filters: FixtureFilters
+): Promise<FixturesResponse> {
+  return cached("fixtures.getFixtures", filters, () => loadFixtures(filters));
+}
+
+async function loadFixtures(
+  filters: FixtureFilters
 ): Promise<FixturesResponse> {
   const limit = filters.limit || 100;
 
@@ -39,3 +62,129 @@ export async function getFixtures(
 
   return { fixtures };
 }
+
+/**
+ * Stream every fixture matching filters, for CSV / NDJSON exports
+ *
+ * Same filters as getFixtures; the limit is ignored. Not cached.
+ *
+ * @param filters - Search and filter options
+ * @returns Fixtures in date order
+ */
+export function exportFixtures(
+  filters: Omit<FixtureFilters, "limit">
+): AsyncIterable<Fixture> {
+  logger.debug("Exporting fixtures", {
+    date: filters.date,
+    dateRange: filters.dateRange,
+    country: filters.country,
+    competition: filters.competition,
+  });
+
+  return fixturesRepo.streamFixtures({
+    date: filters.date,
+    fromDate: filters.dateRange?.from,
+    toDate: filters.dateRange?.to,
+    country: filters.country,
+    competition: filters.competition,
+  });
+}
+
+/**
+ * Get a single fixture together with its result
+ *
+ * @param id - Fixture ID
+ * @returns Fixture and its result (null if not played or not imported yet)
+ * @throws ApiError if fixture not found
+ */
+export async function getFixture(id: number): Promise<FixtureDetailResponse> {
+  logger.debug("Fetching fixture", { id });
+
+  const fixture = await fixturesRepo.findFixtureById(id);
+
+  if (!fixture) {
+    throw new ApiError(404, "Fixture not found");
+  }
+
+  const result = await fixturesRepo.findResultByFixtureId(id);
+
+  return { fixture, result };
+}
+
+/**
+ * Score stored predictions against final results
+ *
+ * Computes the Brier score, log-loss and ranked probability score of the
+ * home/draw/away probabilities, plus a reliability curve, overall and
+ * grouped by country, competition and month.
+ *
+ * @param filters - Date range, country, competition and bucket count
+ * @returns Calibration report
+ */
+export async function getCalibrationReport(
+  filters: CalibrationFilters
+): Promise<CalibrationReport> {
+  const buckets = filters.buckets || 10;
+
+  logger.debug("Building calibration report", { filters });
+
+  const scored = await fixturesRepo.findScoredFixtures({
+    fromDate: filters.dateRange?.from,
+    toDate: filters.dateRange?.to,
+    country: filters.country,
+    competition: filters.competition,
+  });
+
+  // Pair each forecast with its regular-time outcome
+  const entries: Array<{
+    country: string;
+    competition: string;
+    month: string;
+    prediction: ScoredPrediction;
+  }> = [];
+
+  for (const { fixture, result } of scored) {
+    const outcome = matchOutcome(result);
+    if (!outcome) continue;
+
+    entries.push({
+      country: fixture.country,
+      competition: fixture.competition || "Unknown",
+      month: fixture.matchDate.substring(0, 7),
+      prediction: { predictions: fixture.predictions, outcome },
+    });
+  }
+
+  const groupBy = (
+    key: "country" | "competition" | "month"
+  ): CalibrationGroup[] => {
+    const groups = new Map<string, ScoredPrediction[]>();
+
+    for (const entry of entries) {
+      const list = groups.get(entry[key]) || [];
+      list.push(entry.prediction);
+      groups.set(entry[key], list);
+    }
+
+    return Array.from(groups.keys())
+      .sort()
+      .map((groupKey) => ({
+        key: groupKey,
+        ...scorePredictions(groups.get(groupKey)!, buckets),
+      }));
+  };
+
+  return {
+    from: filters.dateRange?.from || null,
+    to: filters.dateRange?.to || null,
+    country: filters.country || null,
+    competition: filters.competition || null,
+    overall: scorePredictions(
+      entries.map((entry) => entry.prediction),
+      buckets
+    ),
+    byCountry: groupBy("country"),
+    byCompetition: groupBy("competition"),
+    byMonth: groupBy("month"),
+  };
+}
@@ -38,6 +38,30 @@ export interface Fixture {
   predictions: MatchPredictions;
 }
 
+/**
+ * Status of a fixture's result
+ */
+export type MatchStatus = "finished" | "postponed" | "abandoned" | "cancelled";
+
+/**
+ * Final result of a fixture (Public DTO)
+ */
+export interface MatchResult {
+  homeGoals: number | null; // Null unless finished
+  awayGoals: number | null; // Null unless finished
+  status: MatchStatus;
+  extraTime: boolean;
+  penalties: boolean;
+}
+
+/**
+ * Single fixture with its result
+ */
+export interface FixtureDetailResponse {
+  fixture: Fixture;
+  result: MatchResult | null; // Null until a result is imported
+}
+
 /**
  * Fixture search filters
  */
@@ -56,6 +80,59 @@ export interface FixturesResponse {
   fixtures: Fixture[];
 }
 
+/**
+ * Calibration report filters
+ */
+export interface CalibrationFilters {
+  dateRange?: DateRangeFilter; // Match date range
+  country?: string;         // Country code
+  competition?: string;     // Competition name (partial match)
+  buckets?: number;         // Reliability buckets (default 10)
+}
+
+/**
+ * Reliability-curve bucket: predicted vs observed frequency
+ */
+export interface ReliabilityBucket {
+  lower: number;            // Bucket lower bound (inclusive)
+  upper: number;            // Bucket upper bound
+  count: number;            // Forecasts in this bucket
+  meanPredicted: number | null;
+  observedFrequency: number | null;
+}
+
+/**
+ * Scoring rules and reliability curve for a set of predictions
+ */
+export interface CalibrationScores {
+  matches: number;
+  brierScore: number | null;           // 0 (perfect) to 2
+  logLoss: number | null;              // Lower is better
+  rankedProbabilityScore: number | null; // 0 (perfect) to 1
+  reliability: ReliabilityBucket[];
+}
+
+/**
+ * Calibration scores for one group (country, competition or month)
+ */
+export interface CalibrationGroup extends CalibrationScores {
+  key: string;
+}
+
+/**
+ * Calibration report response
+ */
+export interface CalibrationReport {
+  from: string | null;
+  to: string | null;
+  country: string | null;
+  competition: string | null;
+  overall: CalibrationScores;
+  byCountry: CalibrationGroup[];
+  byCompetition: CalibrationGroup[];
+  byMonth: CalibrationGroup[];
+}
+
 /**
  * Internal database row (NOT exported from index.ts)
  */
@@ -76,3 +153,14 @@ export interface FixtureRow {
   away_club_name: string;
   away_club_country: string;
 }
+
+/**
+ * Internal database row (NOT exported from index.ts)
+ */
+export interface MatchResultRow {
+  home_goals: number | null;
+  away_goals: number | null;
+  status: MatchStatus;
+  extra_time: boolean;
+  penalties: boolean;
+}
@@ -8,18 +8,39 @@
 
 // Export routes (for server.ts to mount)
 export { default as fixturesRoutes } from "./fixtures.routes";
+export { default as predictionsRoutes } from "./predictions.routes";
 
 // Export types (for other modules to use)
 export type {
   Fixture,
   FixtureTeam,
   MatchPredictions,
+  MatchResult,
+  MatchStatus,
   FixtureFilters,
   FixturesResponse,
+  FixtureDetailResponse,
+  CalibrationFilters,
+  CalibrationScores,
+  CalibrationGroup,
+  CalibrationReport,
+  ReliabilityBucket,
 } from "./fixtures.types";
 
 // Export service (for programmatic access)
 export * as fixturesService from "./fixtures.service";
 
-// Export repository (ONLY for external-data module that needs to upsert fixtures)
-export { upsertFixture } from "./fixtures.repository";
+// Export probability model (shared with clubs comparisons and the predictor)
+export {
+  matchProbabilities,
+  expectedGoalDifference,
+  DEFAULT_PROBABILITY_PARAMETERS,
+} from "./fixtures.probability";
+export type { ProbabilityParameters } from "./fixtures.probability";
+
+// Export repository (ONLY for external-data module that needs to upsert fixtures and results)
+export {
+  upsertFixture,
+  upsertResult,
+  findFixtureIdByTeams,
+} from "./fixtures.repository";
@@ -0,0 +1,71 @@
+/**
+ * Predictions Routes
+ *
+ * API LAYER - Express route handlers for prediction quality reports.
+ * Mounted under /api/elo/predictions.
+ *
+ * RULE: No business logic here - delegate to service layer.
+ */
+
+import { Router, Request, Response } from "express";
+import * as fixturesService from "./fixtures.service";
+import { CalibrationFilters } from "./fixtures.types";
+import { ApiError, asyncHandler } from "../../shared/middleware/error-handler";
+import { validateDateRange } from "../../shared/middleware/validation";
+
+const router = Router();
+
+/**
+ * GET /api/elo/predictions/calibration
+ *
+ * Score the stored home/draw/away probabilities against final results.
+ * Returns the Brier score, log-loss, ranked probability score and a
+ * reliability curve, overall and by country, competition and month.
+ *
+ * Query parameters:
+ *   - from: Start match date (YYYY-MM-DD), optional
+ *   - to: End match date (YYYY-MM-DD), optional
+ *   - country: Filter by country code, optional
+ *   - competition: Filter by competition name, optional
+ *   - buckets: Number of reliability buckets (2-50), optional. Defaults to 10.
+ *
+ * Example:
+ *   GET /api/elo/predictions/calibration
+ *   GET /api/elo/predictions/calibration?country=ENG&from=2025-08-01&buckets=5
+ */
+router.get(
+  "/calibration",
+  validateDateRange,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { from, to, country, competition, buckets: bucketsParam } = req.query;
+
+    const buckets = bucketsParam
+      ? parseInt(bucketsParam as string, 10)
+      : undefined;
+
+    if (
+      buckets !== undefined &&
+      (isNaN(buckets) || buckets < 2 || buckets > 50)
+    ) {
+      throw new ApiError(400, "Buckets must be between 2 and 50");
+    }
+
+    const filters: CalibrationFilters = {
+      dateRange:
+        from || to
+          ? {
+              from: from as string | undefined,
+              to: to as string | undefined,
+            }
+          : undefined,
+      country: country as string | undefined,
+      competition: competition as string | undefined,
+      buckets,
+    };
+
+    const result = await fixturesService.getCalibrationReport(filters);
+    res.json(result);
+  })
+);
+
+export default router;
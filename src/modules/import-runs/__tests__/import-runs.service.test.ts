@@ -0,0 +1,134 @@
+/**
+ * Import Runs Service Tests
+ *
+ * Unit tests for recording runs in the ledger and reading them back.
+ * We mock the repository to test service orchestration.
+ */
+
+import * as importRunsService from "../import-runs.service";
+import * as importRunsRepo from "../import-runs.repository";
+import { ApiError } from "../../../shared/middleware/error-handler";
+
+jest.mock("../import-runs.repository");
+
+const mockRepo = importRunsRepo as jest.Mocked<typeof importRunsRepo>;
+
+const dailyRun = {
+  type: "daily" as const,
+  trigger: "cron" as const,
+  parameters: { date: "2025-11-18" },
+};
+
+describe("Import Runs Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRepo.insertRun.mockResolvedValue(7);
+    mockRepo.finishRun.mockResolvedValue();
+  });
+
+  describe("trackImportRun", () => {
+    it("should record a successful run with its counts", async () => {
+      const samples = Array.from(
+        { length: 12 },
+        (_, i) => `Club${i}: invalid row`
+      );
+
+      const result = await importRunsService.trackImportRun(dailyRun, async () => ({
+        fetched: 640,
+        imported: 628,
+        errors: 12,
+        errorSamples: samples,
+      }));
+
+      expect(result).toMatchObject({ imported: 628, errors: 12, runId: 7 });
+      expect(mockRepo.insertRun).toHaveBeenCalledWith(dailyRun);
+      expect(mockRepo.finishRun).toHaveBeenCalledWith(7, "succeeded", {
+        fetched: 640,
+        imported: 628,
+        errors: 12,
+        errorSamples: samples.slice(0, 10),
+      });
+    });
+
+    it("should mark the run failed and rethrow", async () => {
+      await expect(
+        importRunsService.trackImportRun(dailyRun, async () => {
+          throw new Error("ClubElo API returned 503");
+        })
+      ).rejects.toThrow("ClubElo API returned 503");
+
+      expect(mockRepo.finishRun).toHaveBeenCalledWith(
+        7,
+        "failed",
+        {},
+        "ClubElo API returned 503"
+      );
+    });
+
+    it("should still import when the ledger cannot be written", async () => {
+      mockRepo.insertRun.mockRejectedValueOnce(
+        new Error('relation "import_runs" does not exist')
+      );
+      const work = jest.fn().mockResolvedValue({
+        fetched: 1,
+        imported: 1,
+        errors: 0,
+        errorSamples: [],
+      });
+
+      const result = await importRunsService.trackImportRun(dailyRun, work);
+
+      expect(work).toHaveBeenCalled();
+      expect(result.runId).toBeNull();
+      expect(mockRepo.finishRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listImportRuns", () => {
+    it("should return runs with pagination metadata", async () => {
+      mockRepo.countRuns.mockResolvedValueOnce(45);
+      mockRepo.findRuns.mockResolvedValueOnce([]);
+
+      const result = await importRunsService.listImportRuns({
+        type: "daily",
+        pagination: { page: 2, pageSize: 20 },
+      });
+
+      expect(result.pagination).toEqual({
+        page: 2,
+        pageSize: 20,
+        total: 45,
+        totalPages: 3,
+      });
+      expect(mockRepo.findRuns).toHaveBeenCalledWith({
+        type: "daily",
+        pagination: { page: 2, pageSize: 20 },
+      });
+    });
+  });
+
+  describe("getImportRun", () => {
+    it("should throw 404 for an unknown run", async () => {
+      mockRepo.findRunById.mockResolvedValueOnce(null);
+
+      await expect(importRunsService.getImportRun(99)).rejects.toThrow(ApiError);
+      await expect(importRunsService.getImportRun(99)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe("findEmptySnapshotDates", () => {
+    it("should read empty daily runs of the source from the ledger", async () => {
+      mockRepo.findEmptyDailyDates.mockResolvedValueOnce(["2025-01-06"]);
+
+      expect(await importRunsService.findEmptySnapshotDates("clubelo")).toEqual([
+        "2025-01-06",
+      ]);
+      expect(mockRepo.findEmptyDailyDates).toHaveBeenCalledWith(
+        "clubelo",
+        "clubelo"
+      );
+    });
+  });
+});
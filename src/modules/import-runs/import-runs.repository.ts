@@ -0,0 +1,185 @@
+/**
+ * Import Runs Repository
+ *
+ * DATA ACCESS LAYER - All SQL for the import_runs ledger is isolated here.
+ *
+ * RULE: No business logic here - only database operations.
+ */
+
+import { db } from "../../shared/database/connection";
+import {
+  ImportRun,
+  ImportRunFilters,
+  ImportRunOutcome,
+  ImportRunRow,
+  ImportRunStatus,
+  NewImportRun,
+} from "./import-runs.types";
+
+/**
+ * Record a run as started
+ *
+ * @returns The new run's ID
+ */
+export async function insertRun(run: NewImportRun): Promise<number> {
+  const result = await db.query<{ id: number }>(
+    `INSERT INTO import_runs (type, trigger, parameters)
+     VALUES ($1, $2, $3)
+     RETURNING id`,
+    [run.type, run.trigger, JSON.stringify(run.parameters)]
+  );
+
+  return result.rows[0].id;
+}
+
+/**
+ * Record a run's outcome
+ */
+export async function finishRun(
+  id: number,
+  status: ImportRunStatus,
+  outcome: Partial<ImportRunOutcome>,
+  errorMessage: string | null = null
+): Promise<void> {
+  await db.query(
+    `UPDATE import_runs
+     SET status = $2,
+         finished_at = NOW(),
+         fetched = $3,
+         imported = $4,
+         errors = $5,
+         error_samples = $6,
+         error_message = $7
+     WHERE id = $1`,
+    [
+      id,
+      status,
+      outcome.fetched ?? null,
+      outcome.imported ?? null,
+      outcome.errors ?? null,
+      JSON.stringify(outcome.errorSamples ?? []),
+      errorMessage,
+    ]
+  );
+}
+
+/**
+ * Build WHERE clause for run filters
+ */
+function buildWhere(filters: ImportRunFilters): {
+  where: string;
+  params: any[];
+} {
+  const whereClauses: string[] = [];
+  const params: any[] = [];
+
+  if (filters.type) {
+    whereClauses.push(`type = $${params.length + 1}`);
+    params.push(filters.type);
+  }
+
+  if (filters.trigger) {
+    whereClauses.push(`trigger = $${params.length + 1}`);
+    params.push(filters.trigger);
+  }
+
+  if (filters.status) {
+    whereClauses.push(`status = $${params.length + 1}`);
+    params.push(filters.status);
+  }
+
+  return {
+    where: whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "",
+    params,
+  };
+}
+
+/**
+ * Count runs matching the filters
+ */
+export async function countRuns(filters: ImportRunFilters): Promise<number> {
+  const { where, params } = buildWhere(filters);
+  const result = await db.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM import_runs ${where}`,
+    params
+  );
+
+  return parseInt(result.rows[0].count, 10);
+}
+
+/**
+ * Find runs matching the filters, newest first
+ */
+export async function findRuns(filters: ImportRunFilters): Promise<ImportRun[]> {
+  const { where, params } = buildWhere(filters);
+  const { page, pageSize } = filters.pagination;
+
+  const result = await db.query<ImportRunRow>(
+    `SELECT * FROM import_runs
+     ${where}
+     ORDER BY started_at DESC, id DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, pageSize, (page - 1) * pageSize]
+  );
+
+  return result.rows.map(mapRowToRun);
+}
+
+/**
+ * Find a run by ID
+ */
+export async function findRunById(id: number): Promise<ImportRun | null> {
+  const result = await db.query<ImportRunRow>(
+    "SELECT * FROM import_runs WHERE id = $1",
+    [id]
+  );
+
+  return result.rows.length > 0 ? mapRowToRun(result.rows[0]) : null;
+}
+
+/**
+ * Dates of succeeded daily imports that fetched nothing from a source
+ *
+ * Runs recorded before sources were named count as the default source.
+ */
+export async function findEmptyDailyDates(
+  source: string,
+  defaultSource: string
+): Promise<string[]> {
+  const result = await db.query<{ date: string }>(
+    `SELECT DISTINCT parameters->>'date' AS date
+     FROM import_runs
+     WHERE type = 'daily'
+       AND status = 'succeeded'
+       AND fetched = 0
+       AND parameters->>'date' IS NOT NULL
+       AND COALESCE(parameters->>'source', $2) = $1`,
+    [source, defaultSource]
+  );
+
+  return result.rows.map((row) => row.date);
+}
+
+/**
+ * Map database row to ImportRun DTO
+ */
+function mapRowToRun(row: ImportRunRow): ImportRun {
+  const startedAt = new Date(row.started_at);
+  const finishedAt = row.finished_at ? new Date(row.finished_at) : null;
+
+  return {
+    id: row.id,
+    type: row.type,
+    trigger: row.trigger,
+    status: row.status,
+    parameters: row.parameters,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt ? finishedAt.toISOString() : null,
+    durationMs: finishedAt ? finishedAt.getTime() - startedAt.getTime() : null,
+    fetched: row.fetched,
+    imported: row.imported,
+    errors: row.errors,
+    errorSamples: row.error_samples,
+    errorMessage: row.error_message,
+  };
+}
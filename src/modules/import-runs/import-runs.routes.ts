@@ -0,0 +1,113 @@
+/**
+ * Import Runs Routes
+ *
+ * API LAYER - Express route handlers for the import run ledger.
+ * Mounted under /api/admin/imports.
+ *
+ * Protected by CRON_SECRET authentication.
+ *
+ * RULE: No business logic here - delegate to service layer.
+ */
+
+import { Router, Request, Response } from "express";
+import * as importRunsService from "./import-runs.service";
+import {
+  ImportRunStatus,
+  ImportRunType,
+  ImportTrigger,
+} from "./import-runs.types";
+import { ApiError, asyncHandler } from "../../shared/middleware/error-handler";
+import {
+  validateCronSecret,
+  validatePagination,
+} from "../../shared/middleware/validation";
+
+const router = Router();
+
+const RUN_TYPES: ImportRunType[] = ["daily", "club", "fixtures"];
+const TRIGGERS: ImportTrigger[] = ["cron", "cli", "manual"];
+const STATUSES: ImportRunStatus[] = ["running", "succeeded", "failed"];
+
+/**
+ * GET /api/admin/imports
+ *
+ * List import runs, newest first.
+ *
+ * Query parameters:
+ *   - type: "daily", "club" or "fixtures", optional.
+ *   - trigger: "cron", "cli" or "manual", optional.
+ *   - status: "running", "succeeded" or "failed", optional.
+ *   - page: Page number for pagination (starts at 1), optional. Defaults to 1.
+ *   - pageSize: Number of results per page, optional. Defaults to 100.
+ *
+ * Authentication:
+ *   - Requires Authorization: Bearer <CRON_SECRET>
+ *
+ * Example:
+ *   GET /api/admin/imports?type=daily&status=failed
+ */
+router.get(
+  "/",
+  validateCronSecret,
+  validatePagination,
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await importRunsService.listImportRuns({
+      type: parseChoice("type", req.query.type, RUN_TYPES),
+      trigger: parseChoice("trigger", req.query.trigger, TRIGGERS),
+      status: parseChoice("status", req.query.status, STATUSES),
+      pagination: req.pagination!,
+    });
+
+    res.json(result);
+  })
+);
+
+/**
+ * GET /api/admin/imports/:id
+ *
+ * Get a single import run with its parameters, counts and error samples.
+ *
+ * Path parameters:
+ *   - id: Import run ID (integer)
+ *
+ * Authentication:
+ *   - Requires Authorization: Bearer <CRON_SECRET>
+ *
+ * Example:
+ *   GET /api/admin/imports/42
+ */
+router.get(
+  "/:id",
+  validateCronSecret,
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id) || id < 1 || String(id) !== req.params.id) {
+      throw new ApiError(400, "Import run ID must be a positive integer");
+    }
+
+    const result = await importRunsService.getImportRun(id);
+    res.json(result);
+  })
+);
+
+/**
+ * Check an optional query parameter against its allowed values
+ */
+function parseChoice<T extends string>(
+  name: string,
+  value: unknown,
+  choices: T[]
+): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!choices.includes(value as T)) {
+    throw new ApiError(400, `${name} must be one of: ${choices.join(", ")}`);
+  }
+
+  return value as T;
+}
+
+export default router;
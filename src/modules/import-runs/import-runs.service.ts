@@ -0,0 +1,151 @@
+/**
+ * Import Runs Service
+ *
+ * BUSINESS LOGIC LAYER - Records every import in the import_runs ledger
+ * and serves the run history.
+ *
+ * RULE: No SQL here - only business logic and orchestration.
+ */
+
+import * as importRunsRepo from "./import-runs.repository";
+import {
+  ImportRun,
+  ImportRunFilters,
+  ImportRunListResponse,
+  ImportRunOutcome,
+  NewImportRun,
+} from "./import-runs.types";
+import { ApiError } from "../../shared/middleware/error-handler";
+import { logger } from "../../shared/utils/logger";
+
+/**
+ * Row errors kept per run
+ */
+const MAX_ERROR_SAMPLES = 10;
+
+/**
+ * Source of daily runs recorded before runs named their source
+ */
+const UNNAMED_RUN_SOURCE = "clubelo";
+
+/**
+ * Run an import and record it in the ledger
+ *
+ * The run is stored as "running" before the work starts and updated with
+ * its counts when it finishes. A thrown error marks the run "failed" and is
+ * rethrown. The ledger is best-effort: if it cannot be written (e.g. the
+ * table does not exist yet) the import still runs.
+ *
+ * @param run - Type, trigger and parameters of the import
+ * @param work - Fetches and imports, returning the counts to record
+ * @returns The work's result plus the run ID (null if not recorded)
+ */
+export async function trackImportRun<T extends ImportRunOutcome>(
+  run: NewImportRun,
+  work: () => Promise<T>
+): Promise<T & { runId: number | null }> {
+  let runId: number | null = null;
+
+  try {
+    runId = await importRunsRepo.insertRun(run);
+  } catch (error) {
+    logger.warn(`Could not record ${run.type} import run`, {
+      error: (error as Error).message,
+    });
+  }
+
+  let result: T;
+  try {
+    result = await work();
+  } catch (error) {
+    await finish(runId, () =>
+      importRunsRepo.finishRun(runId!, "failed", {}, (error as Error).message)
+    );
+    throw error;
+  }
+
+  await finish(runId, () =>
+    importRunsRepo.finishRun(runId!, "succeeded", {
+      ...result,
+      errorSamples: result.errorSamples.slice(0, MAX_ERROR_SAMPLES),
+    })
+  );
+
+  return { ...result, runId };
+}
+
+/**
+ * Write a run's outcome, logging instead of failing the import
+ */
+async function finish(
+  runId: number | null,
+  write: () => Promise<void>
+): Promise<void> {
+  if (runId === null) {
+    return;
+  }
+
+  try {
+    await write();
+  } catch (error) {
+    logger.warn(`Could not update import run ${runId}`, {
+      error: (error as Error).message,
+    });
+  }
+}
+
+/**
+ * List import runs, newest first
+ *
+ * @param filters - Type, trigger, status and pagination
+ * @returns Runs and pagination metadata
+ */
+export async function listImportRuns(
+  filters: ImportRunFilters
+): Promise<ImportRunListResponse> {
+  const { page, pageSize } = filters.pagination;
+
+  const [total, runs] = await Promise.all([
+    importRunsRepo.countRuns(filters),
+    importRunsRepo.findRuns(filters),
+  ]);
+
+  return {
+    runs,
+    pagination: {
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    },
+  };
+}
+
+/**
+ * Dates a daily import from the source finished without any data
+ *
+ * The source had nothing for these days, so refetching them is pointless.
+ *
+ * @param source - Rating source name, e.g. "clubelo"
+ * @returns Dates (YYYY-MM-DD), in no particular order
+ */
+export async function findEmptySnapshotDates(
+  source: string
+): Promise<string[]> {
+  return importRunsRepo.findEmptyDailyDates(source, UNNAMED_RUN_SOURCE);
+}
+
+/**
+ * Get one import run
+ *
+ * @throws ApiError if the run does not exist
+ */
+export async function getImportRun(id: number): Promise<ImportRun> {
+  const run = await importRunsRepo.findRunById(id);
+
+  if (!run) {
+    throw new ApiError(404, `Import run ${id} not found`);
+  }
+
+  return run;
+}
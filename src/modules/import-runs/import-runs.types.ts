@@ -0,0 +1,101 @@
+/**
+ * Import Runs Types
+ *
+ * Type definitions for the import run ledger.
+ */
+
+import { PaginationParams, PaginationMeta } from "../../shared/types/common.types";
+
+/**
+ * What was imported
+ *
+ * - daily: one ClubElo daily snapshot
+ * - club: one club's full ClubElo history
+ * - fixtures: upcoming ClubElo fixtures
+ */
+export type ImportRunType = "daily" | "club" | "fixtures";
+
+/**
+ * What started the import
+ *
+ * - cron: the scheduler calling a cron route
+ * - cli: a script under src/scripts or scripts/
+ * - manual: someone calling a cron route by hand
+ */
+export type ImportTrigger = "cron" | "cli" | "manual";
+
+export type ImportRunStatus = "running" | "succeeded" | "failed";
+
+/**
+ * Import run (Public DTO)
+ */
+export interface ImportRun {
+  id: number;
+  type: ImportRunType;
+  trigger: ImportTrigger;
+  status: ImportRunStatus;
+  parameters: Record<string, unknown>;
+  startedAt: string; // ISO timestamp
+  finishedAt: string | null; // null while running
+  durationMs: number | null;
+  fetched: number | null; // Rows returned by the API
+  imported: number | null; // Rows stored
+  errors: number | null; // Rows rejected or failed
+  errorSamples: string[]; // First few row errors
+  errorMessage: string | null; // Why a failed run stopped
+}
+
+/**
+ * Data needed to open a run
+ */
+export interface NewImportRun {
+  type: ImportRunType;
+  trigger: ImportTrigger;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Counts recorded when a run finishes
+ */
+export interface ImportRunOutcome {
+  fetched: number;
+  imported: number;
+  errors: number;
+  errorSamples: string[];
+}
+
+/**
+ * Import runs request filters
+ */
+export interface ImportRunFilters {
+  type?: ImportRunType;
+  trigger?: ImportTrigger;
+  status?: ImportRunStatus;
+  pagination: PaginationParams;
+}
+
+/**
+ * Import runs response
+ */
+export interface ImportRunListResponse {
+  runs: ImportRun[];
+  pagination: PaginationMeta;
+}
+
+/**
+ * Import run row (Database model)
+ */
+export interface ImportRunRow {
+  id: number;
+  type: ImportRunType;
+  trigger: ImportTrigger;
+  status: ImportRunStatus;
+  parameters: Record<string, unknown>;
+  started_at: Date;
+  finished_at: Date | null;
+  fetched: number | null;
+  imported: number | null;
+  errors: number | null;
+  error_samples: string[];
+  error_message: string | null;
+}
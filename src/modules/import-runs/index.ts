@@ -0,0 +1,26 @@
+/**
+ * Import Runs Module - Public API
+ *
+ * BARREL FILE - Controls what this module exposes.
+ *
+ * This module keeps the import_runs ledger: one row per import with its
+ * trigger, parameters, timing and outcome.
+ */
+
+// Export routes (for server.ts to mount)
+export { default as importRunsRoutes } from "./import-runs.routes";
+
+// Export types (for other modules to use)
+export type {
+  ImportRun,
+  ImportRunType,
+  ImportTrigger,
+  ImportRunStatus,
+  ImportRunOutcome,
+  ImportRunFilters,
+  ImportRunListResponse,
+  NewImportRun,
+} from "./import-runs.types";
+
+// Export service (for importers and scripts to record runs)
+export * as importRunsService from "./import-runs.service";
@@ -0,0 +1,109 @@
+/**
+ * Predictor Service Tests
+ *
+ * Unit tests for the business logic layer.
+ * We mock the repository and the clubs module to avoid the database.
+ */
+
+import * as predictorService from "../predictor.service";
+import * as predictorRepo from "../predictor.repository";
+import { clubsService } from "../../clubs";
+import { ApiError } from "../../../shared/middleware/error-handler";
+
+jest.mock("../predictor.repository");
+jest.mock("../../clubs", () => ({
+  clubsService: { getClub: jest.fn() },
+}));
+
+const mockRepo = predictorRepo as jest.Mocked<typeof predictorRepo>;
+const mockGetClub = clubsService.getClub as jest.Mock;
+
+const manCity = {
+  id: 1,
+  apiName: "ManCity",
+  displayName: "Manchester City",
+  country: "ENG",
+  level: 1,
+};
+const liverpool = {
+  id: 2,
+  apiName: "Liverpool",
+  displayName: "Liverpool",
+  country: "ENG",
+  level: 1,
+};
+
+describe("Predictor Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetClub.mockImplementation(async (identifier: string) =>
+      identifier === "Liverpool" ? liverpool : manCity
+    );
+  });
+
+  it("should predict from ratings on or before the match date", async () => {
+    mockRepo.findRatingOnOrBefore
+      .mockResolvedValueOnce({ date: "2025-11-18", elo: 2000 })
+      .mockResolvedValueOnce({ date: "2025-11-19", elo: 1900 });
+
+    const result = await predictorService.predictMatch({
+      home: "ManCity",
+      away: "Liverpool",
+      date: "2025-11-20",
+    });
+
+    expect(mockRepo.findRatingOnOrBefore).toHaveBeenCalledWith(
+      1,
+      "2025-11-20",
+      "clubelo"
+    );
+    expect(result.home).toEqual({
+      club: manCity,
+      elo: 2000,
+      ratingDate: "2025-11-18",
+    });
+    expect(result.away.ratingDate).toBe("2025-11-19");
+    expect(result.neutral).toBe(false);
+    expect(result.predictions.homeWin!).toBeGreaterThan(
+      result.predictions.awayWin!
+    );
+    expect(result.expectedGoalDifference).toBeGreaterThan(0);
+  });
+
+  it("should drop home advantage at a neutral venue", async () => {
+    mockRepo.findRatingOnOrBefore.mockResolvedValue({
+      date: "2025-11-18",
+      elo: 1900,
+    });
+
+    const result = await predictorService.predictMatch({
+      home: "ManCity",
+      away: "Liverpool",
+      neutral: true,
+    });
+
+    expect(result.predictions.homeWin).toBe(result.predictions.awayWin);
+    expect(result.expectedGoalDifference).toBe(0);
+  });
+
+  it("should throw 404 when a club has no rating yet", async () => {
+    mockRepo.findRatingOnOrBefore
+      .mockResolvedValueOnce({ date: "2025-11-18", elo: 2000 })
+      .mockResolvedValueOnce(null);
+
+    await expect(
+      predictorService.predictMatch({
+        home: "ManCity",
+        away: "Liverpool",
+        date: "1990-01-01",
+      })
+    ).rejects.toThrow(ApiError);
+  });
+
+  it("should reject a club playing itself", async () => {
+    await expect(
+      predictorService.predictMatch({ home: "ManCity", away: "1" })
+    ).rejects.toThrow("Home and away clubs must be different");
+    expect(mockRepo.findRatingOnOrBefore).not.toHaveBeenCalled();
+  });
+});
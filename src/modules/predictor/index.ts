@@ -0,0 +1,20 @@
+/**
+ * Predictor Module - Public API
+ *
+ * BARREL FILE - Controls what this module exposes.
+ *
+ * This module predicts hypothetical matches from stored Elo ratings.
+ */
+
+// Export routes (for server.ts to mount)
+export { default as predictorRoutes } from "./predictor.routes";
+
+// Export types (for other modules to use)
+export type {
+  PredictionRequest,
+  PredictionSide,
+  PredictionResponse,
+} from "./predictor.types";
+
+// Export service (for programmatic access)
+export * as predictorService from "./predictor.service";
@@ -0,0 +1,41 @@
+/**
+ * Predictor Repository
+ *
+ * DATA ACCESS LAYER - All SQL for match predictions is isolated here.
+ *
+ * RULE: No business logic here - only database operations.
+ */
+
+import { db } from "../../shared/database/connection";
+import { formatDateOnly } from "../../shared/utils/date-formatter";
+import { DatedRating, DatedRatingRow } from "./predictor.types";
+
+/**
+ * Find a club's latest rating on or before a date
+ *
+ * @returns Rating, or null if the club has none from this source yet
+ */
+export async function findRatingOnOrBefore(
+  clubId: number,
+  date: string,
+  source: string
+): Promise<DatedRating | null> {
+  const query = `
+    SELECT date, elo
+    FROM elo_ratings
+    WHERE club_id = $1 AND date <= $2 AND source = $3
+    ORDER BY date DESC
+    LIMIT 1
+  `;
+
+  const result = await db.query<DatedRatingRow>(query, [clubId, date, source]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return {
+    date: formatDateOnly(result.rows[0].date)!,
+    elo: parseFloat(result.rows[0].elo),
+  };
+}
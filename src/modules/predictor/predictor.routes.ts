@@ -0,0 +1,64 @@
+/**
+ * Predictor Routes
+ *
+ * API LAYER - Express route handlers for on-demand match predictions.
+ * Mounted under /api/elo/predict.
+ *
+ * RULE: No business logic here - delegate to service layer.
+ */
+
+import { Router, Request, Response } from "express";
+import * as predictorService from "./predictor.service";
+import { ApiError, asyncHandler } from "../../shared/middleware/error-handler";
+import {
+  validateDate,
+  validateSource,
+} from "../../shared/middleware/validation";
+
+const router = Router();
+
+/**
+ * GET /api/elo/predict
+ *
+ * Home/draw/away probabilities and expected goal difference for any two
+ * clubs, using each club's latest rating on or before the match date.
+ *
+ * Query parameters:
+ *   - home: Home club ID or API name (required)
+ *   - away: Away club ID or API name (required)
+ *   - date: Match date (YYYY-MM-DD), optional. Defaults to today.
+ *   - neutral: "true" for a neutral venue, optional. Defaults to false.
+ *   - source: Rating source ("clubelo" or "internal"), optional. Defaults to "clubelo".
+ *
+ * Example:
+ *   GET /api/elo/predict?home=ManCity&away=Liverpool
+ *   GET /api/elo/predict?home=ManCity&away=Liverpool&date=2025-11-20&neutral=true
+ */
+router.get(
+  "/",
+  validateDate("date"),
+  validateSource(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { home, away, date, neutral, source } = req.query;
+
+    if (!home || !away) {
+      throw new ApiError(400, "Both home and away clubs are required");
+    }
+
+    if (neutral !== undefined && neutral !== "true" && neutral !== "false") {
+      throw new ApiError(400, "Neutral must be true or false");
+    }
+
+    const result = await predictorService.predictMatch({
+      home: home as string,
+      away: away as string,
+      date: date as string | undefined,
+      neutral: neutral === "true",
+      source: (source as string | undefined) || undefined,
+    });
+
+    res.json(result);
+  })
+);
+
+export default router;
@@ -0,0 +1,86 @@
+/**
+ * Predictor Service
+ *
+ * BUSINESS LOGIC LAYER - Home/draw/away probabilities for any pairing.
+ *
+ * RULE: No SQL here - only business logic and orchestration.
+ */
+
+import * as predictorRepo from "./predictor.repository";
+import {
+  PredictionRequest,
+  PredictionResponse,
+  PredictionSide,
+} from "./predictor.types";
+import { clubsService } from "../clubs";
+import { matchProbabilities, expectedGoalDifference } from "../fixtures";
+import { ApiError } from "../../shared/middleware/error-handler";
+import { getToday } from "../../shared/utils/date-formatter";
+import { logger } from "../../shared/utils/logger";
+
+/**
+ * Predict a match from each club's rating on or before the match date
+ *
+ * Works for any two clubs, not just fixtures ClubElo publishes.
+ *
+ * @param request - Clubs, date, venue and rating source
+ * @returns Ratings used, probabilities and expected goal difference
+ * @throws ApiError if a club or its rating is not found
+ */
+export async function predictMatch(
+  request: PredictionRequest
+): Promise<PredictionResponse> {
+  const date = request.date || getToday();
+  const neutral = request.neutral ?? false;
+  const source = request.source || "clubelo";
+
+  const [homeClub, awayClub] = await Promise.all([
+    clubsService.getClub(request.home),
+    clubsService.getClub(request.away),
+  ]);
+
+  if (homeClub.id === awayClub.id) {
+    throw new ApiError(400, "Home and away clubs must be different");
+  }
+
+  logger.debug("Predicting match", {
+    homeClubId: homeClub.id,
+    awayClubId: awayClub.id,
+    date,
+    neutral,
+    source,
+  });
+
+  const [home, away] = await Promise.all(
+    [homeClub, awayClub].map(async (club): Promise<PredictionSide> => {
+      const rating = await predictorRepo.findRatingOnOrBefore(
+        club.id,
+        date,
+        source
+      );
+
+      if (!rating) {
+        throw new ApiError(
+          404,
+          `No ${source} rating for ${club.apiName} on or before ${date}`
+        );
+      }
+
+      return { club, elo: rating.elo, ratingDate: rating.date };
+    })
+  );
+
+  return {
+    date,
+    neutral,
+    source,
+    home,
+    away,
+    predictions: matchProbabilities(home.elo, away.elo, neutral),
+    expectedGoalDifference: expectedGoalDifference(
+      home.elo,
+      away.elo,
+      neutral
+    ),
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Predictor Module - Type Definitions
+ *
+ * DTOs for on-demand match predictions. These are the PUBLIC CONTRACT.
+ */
+
+import type { Club } from "../clubs";
+import type { MatchPredictions } from "../fixtures";
+
+/**
+ * Request for a match prediction
+ */
+export interface PredictionRequest {
+  home: number | string; // Club ID or API name
+  away: number | string; // Club ID or API name
+  date?: string; // YYYY-MM-DD, defaults to today
+  neutral?: boolean; // True when neither side plays at home
+  source?: string; // Rating source, defaults to "clubelo"
+}
+
+/**
+ * Rating used for one side of the prediction
+ */
+export interface PredictionSide {
+  club: Club;
+  elo: number;
+  ratingDate: string; // YYYY-MM-DD of the rating used (on or before the match)
+}
+
+/**
+ * Match prediction response
+ */
+export interface PredictionResponse {
+  date: string; // YYYY-MM-DD
+  neutral: boolean;
+  source: string;
+  home: PredictionSide;
+  away: PredictionSide;
+  predictions: MatchPredictions;
+  expectedGoalDifference: number; // Home minus away
+}
+
+/**
+ * Rating on a specific date (repository result)
+ */
+export interface DatedRating {
+  date: string; // YYYY-MM-DD
+  elo: number;
+}
+
+/**
+ * Internal database row type (NOT exported from index.ts)
+ */
+export interface DatedRatingRow {
+  date: Date;
+  elo: string; // DECIMAL comes back as string
+}
@@ -201,6 +201,59 @@ describe("Rankings Repository", () => {
       );
     });
 
+    it("should seek after a key instead of using OFFSET", async () => {
+      mockDb.query.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await rankingsRepo.findRankings("2024-11-20", {
+        source: "clubelo",
+        seek: { elo: 1850.5, clubId: 7, direction: "next" },
+        limit: 21,
+        offset: 0,
+      });
+
+      const [query, params] = mockDb.query.mock.calls[0];
+      expect(query).toContain("(e.elo, e.club_id) < ($3, $4)");
+      expect(query).toContain("ORDER BY e.elo DESC, e.club_id DESC");
+      expect(params).toEqual(["2024-11-20", "clubelo", 1850.5, 7, 21, 0]);
+    });
+
+    it("should return rows highest first when reading backwards", async () => {
+      mockDb.query.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 2,
+            api_name: "B",
+            display_name: "B",
+            country: "ENG",
+            level: 1,
+            rank: 5,
+            elo: "1900",
+          },
+          {
+            id: 1,
+            api_name: "A",
+            display_name: "A",
+            country: "ENG",
+            level: 1,
+            rank: 4,
+            elo: "1910",
+          },
+        ],
+        rowCount: 2,
+      } as any);
+
+      const result = await rankingsRepo.findRankings("2024-11-20", {
+        seek: { elo: 1890, clubId: 3, direction: "prev" },
+        limit: 2,
+        offset: 0,
+      });
+
+      const [query] = mockDb.query.mock.calls[0];
+      expect(query).toContain("(e.elo, e.club_id) > ($2, $3)");
+      expect(query).toContain("ORDER BY e.elo ASC, e.club_id ASC");
+      expect(result.map((club) => club.id)).toEqual([1, 2]);
+    });
+
     it("should handle NULL rank values", async () => {
       mockDb.query.mockResolvedValueOnce({
         rows: [
@@ -224,5 +277,149 @@ describe("Rankings Repository", () => {
 
       expect(result[0].rank).toBeNull();
     });
+
+    it("should join a second snapshot when comparing dates", async () => {
+      mockDb.query.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 1,
+            api_name: "ManCity",
+            display_name: "Manchester City",
+            country: "ENG",
+            level: 1,
+            rank: 2,
+            elo: "1990.5",
+            previous_elo: "2001.25",
+            previous_rank: 1,
+          },
+          {
+            id: 9,
+            api_name: "Newcomer",
+            display_name: "Newcomer",
+            country: "ENG",
+            level: 1,
+            rank: 40,
+            elo: "1700",
+            previous_elo: null,
+            previous_rank: null,
+          },
+        ],
+        rowCount: 2,
+      } as any);
+
+      const result = await rankingsRepo.findRankings("2024-11-20", {
+        country: "ENG",
+        compareDate: "2024-11-13",
+        limit: 10,
+        offset: 0,
+      });
+
+      expect(mockDb.query).toHaveBeenCalledWith(
+        expect.stringContaining("LEFT JOIN elo_ratings p"),
+        ["2024-11-20", "ENG", "2024-11-13", 10, 0]
+      );
+      expect(result[0]).toMatchObject({ eloChange: -10.75, rankChange: -1 });
+      expect(result[1]).toMatchObject({ eloChange: null, rankChange: null });
+    });
+  });
+
+  describe("findRankingsAsOf", () => {
+    it("should rank each club's latest rating before filtering", async () => {
+      mockDb.query.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 5,
+            api_name: "Milan",
+            display_name: "AC Milan",
+            country: "ITA",
+            level: 1,
+            rank: 3,
+            elo: "1890.5",
+            rating_date: "1999-03-07",
+          },
+        ],
+        rowCount: 1,
+      } as any);
+
+      const result = await rankingsRepo.findRankingsAsOf("1999-03-14", {
+        country: "ITA",
+        source: "clubelo",
+        limit: 20,
+        offset: 0,
+      });
+
+      const [query, params] = mockDb.query.mock.calls[0] as [string, any[]];
+      expect(query).toContain("DISTINCT ON (club_id)");
+      expect(query).toContain("WHERE source = $2 AND date <= $1\n");
+      expect(query).toContain("RANK() OVER (ORDER BY elo DESC)");
+      expect(query).toContain("WHERE r.country = $3");
+      expect(query).toContain("ORDER BY r.elo DESC, r.club_id DESC");
+      expect(params).toEqual(["1999-03-14", "clubelo", "ITA", 20, 0]);
+      expect(result).toEqual([
+        {
+          id: 5,
+          apiName: "Milan",
+          displayName: "AC Milan",
+          country: "ITA",
+          level: 1,
+          rank: 3,
+          elo: 1890.5,
+          ratingDate: "1999-03-07",
+        },
+      ]);
+    });
+  });
+
+  describe("findMovers", () => {
+    it("should order risers by Elo gained", async () => {
+      mockDb.query.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 3,
+            api_name: "Arsenal",
+            display_name: "Arsenal",
+            country: "ENG",
+            level: 1,
+            rank: 3,
+            elo: "1950",
+            previous_elo: "1920.5",
+            previous_rank: 6,
+          },
+        ],
+        rowCount: 1,
+      } as any);
+
+      const result = await rankingsRepo.findMovers(
+        "2024-11-13",
+        "2024-11-20",
+        { country: "ENG", source: "clubelo", direction: "up", limit: 5 }
+      );
+
+      expect(mockDb.query).toHaveBeenCalledWith(
+        expect.stringContaining("ORDER BY e.elo - p.elo DESC"),
+        ["2024-11-20", "2024-11-13", "clubelo", "ENG", 5]
+      );
+      expect(result[0]).toMatchObject({
+        apiName: "Arsenal",
+        previousElo: 1920.5,
+        previousRank: 6,
+        eloChange: 29.5,
+        rankChange: 3,
+      });
+    });
+
+    it("should only select fallers when going down", async () => {
+      mockDb.query.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await rankingsRepo.findMovers("2024-11-13", "2024-11-20", {
+        source: "clubelo",
+        direction: "down",
+        limit: 10,
+      });
+
+      const [query] = mockDb.query.mock.calls[0] as [string, any[]];
+      expect(query).toContain("e.elo < p.elo");
+      expect(query).toContain("ORDER BY e.elo - p.elo ASC");
+    });
   });
 });
@@ -2,21 +2,33 @@
  * Rankings Service Tests
  *
  * Unit tests for the business logic layer.
- * We mock the repository to test service orchestration.
+ * We mock the repository and the snapshot days to test service
+ * orchestration.
  */
 
 import * as rankingsService from "../rankings.service";
 import * as rankingsRepo from "../rankings.repository";
+import { dataGapsService } from "../../data-gaps";
 import { ApiError } from "../../../shared/middleware/error-handler";
 
 // Mock the repository module
 jest.mock("../rankings.repository");
+jest.mock("../../data-gaps", () => ({
+  dataGapsService: { findSnapshotDays: jest.fn() },
+}));
 
 const mockRepo = rankingsRepo as jest.Mocked<typeof rankingsRepo>;
+const mockGaps = dataGapsService as jest.Mocked<typeof dataGapsService>;
 
 describe("Rankings Service", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockGaps.findSnapshotDays.mockResolvedValue([
+      "2024-10-31",
+      "2024-11-13",
+      "2024-11-19",
+      "2024-11-20",
+    ]);
   });
 
   describe("getRankings", () => {
@@ -45,7 +57,8 @@ describe("Rankings Service", () => {
         "2024-11-20",
         undefined,
         undefined,
-        undefined
+        undefined,
+        "clubelo"
       );
     });
 
@@ -120,13 +133,15 @@ describe("Rankings Service", () => {
         "2024-11-20",
         "ESP",
         1,
-        1800
+        1800,
+        "clubelo"
       );
 
       expect(mockRepo.findRankings).toHaveBeenCalledWith("2024-11-20", {
         country: "ESP",
         level: 1,
         minElo: 1800,
+        source: "clubelo",
         limit: 20,
         offset: 0,
       });
@@ -161,6 +176,7 @@ describe("Rankings Service", () => {
         country: "ESP",
         level: 1,
         minElo: 1900,
+        source: "clubelo",
         clubs: mockClubs,
         pagination: {
           page: 1,
@@ -184,5 +200,375 @@ describe("Rankings Service", () => {
       expect(result.level).toBeNull();
       expect(result.minElo).toBeNull();
     });
+
+    it("should serve the requested rating source", async () => {
+      mockRepo.getLatestRatingsDate.mockResolvedValueOnce("2024-11-22");
+      mockRepo.countRankings.mockResolvedValueOnce(0);
+      mockRepo.findRankings.mockResolvedValueOnce([]);
+
+      const result = await rankingsService.getRankings({
+        source: "internal",
+        pagination: { page: 1, pageSize: 10 },
+      });
+
+      expect(result.source).toBe("internal");
+      expect(mockRepo.getLatestRatingsDate).toHaveBeenCalledWith("internal");
+      expect(mockRepo.findRankings).toHaveBeenCalledWith(
+        "2024-11-22",
+        expect.objectContaining({ source: "internal" })
+      );
+    });
+  });
+
+  describe("getRankings with a cursor", () => {
+    const club = (id: number, elo: number) => ({
+      id,
+      apiName: `Club${id}`,
+      displayName: `Club ${id}`,
+      country: "ENG",
+      level: 1,
+      rank: id,
+      elo,
+    });
+
+    it("should read one extra row and return a next cursor", async () => {
+      mockRepo.getLatestRatingsDate.mockResolvedValueOnce("2024-11-20");
+      mockRepo.countRankings.mockResolvedValueOnce(5);
+      mockRepo.findRankings.mockResolvedValueOnce([
+        club(1, 2000),
+        club(2, 1990),
+        club(3, 1980),
+      ]);
+
+      const result = await rankingsService.getRankings({
+        pagination: { page: 1, pageSize: 2, cursor: "" },
+      });
+
+      expect(mockRepo.findRankings).toHaveBeenCalledWith("2024-11-20", {
+        source: "clubelo",
+        limit: 3,
+        offset: 0,
+      });
+      expect(result.clubs.map((c) => c.id)).toEqual([1, 2]);
+      expect(result.pagination).toEqual({
+        pageSize: 2,
+        total: 5,
+        nextCursor: expect.any(String),
+        prevCursor: null,
+      });
+    });
+
+    it("should seek from the cursor on the cursor's snapshot", async () => {
+      mockRepo.countRankings.mockResolvedValueOnce(5).mockResolvedValueOnce(5);
+      mockRepo.getLatestRatingsDate.mockResolvedValueOnce("2024-11-20");
+      mockRepo.findRankings.mockResolvedValueOnce([
+        club(1, 2000),
+        club(2, 1990),
+        club(3, 1980),
+      ]);
+      const first = await rankingsService.getRankings({
+        pagination: { page: 1, pageSize: 2, cursor: "" },
+      });
+
+      // A newer snapshot landed, but the cursor keeps the old one
+      mockRepo.findRankings.mockResolvedValueOnce([club(3, 1980)]);
+      const second = await rankingsService.getRankings({
+        pagination: {
+          page: 1,
+          pageSize: 2,
+          cursor: (first.pagination as any).nextCursor,
+        },
+      });
+
+      expect(mockRepo.getLatestRatingsDate).toHaveBeenCalledTimes(1);
+      expect(mockRepo.findRankings).toHaveBeenLastCalledWith("2024-11-20", {
+        source: "clubelo",
+        seek: { elo: 1990, clubId: 2, direction: "next" },
+        limit: 3,
+        offset: 0,
+      });
+      expect(second.clubs.map((c) => c.id)).toEqual([3]);
+      expect(second.pagination).toMatchObject({
+        nextCursor: null,
+        prevCursor: expect.any(String),
+      });
+    });
+
+    it("should reject a malformed cursor", async () => {
+      await expect(
+        rankingsService.getRankings({
+          pagination: { page: 1, pageSize: 2, cursor: "not-a-cursor" },
+        })
+      ).rejects.toThrow("Invalid cursor");
+    });
+
+    it("should reject cursors with as-of rankings", async () => {
+      await expect(
+        rankingsService.getRankings({
+          date: "2024-11-20",
+          asOf: true,
+          pagination: { page: 1, pageSize: 2, cursor: "" },
+        })
+      ).rejects.toThrow(ApiError);
+    });
+  });
+
+  describe("getRankings with deltas", () => {
+    it("should compare with the previous snapshot by default", async () => {
+      mockRepo.countRankings.mockResolvedValueOnce(1);
+      mockRepo.findRankings.mockResolvedValueOnce([]);
+
+      const result = await rankingsService.getRankings({
+        date: "2024-11-20",
+        includeDelta: true,
+        pagination: { page: 1, pageSize: 10 },
+      });
+
+      expect(result.compareTo).toBe("2024-11-19");
+      expect(mockGaps.findSnapshotDays).toHaveBeenCalledWith("clubelo");
+      expect(mockRepo.findRankings).toHaveBeenCalledWith(
+        "2024-11-20",
+        expect.objectContaining({ compareDate: "2024-11-19" })
+      );
+    });
+
+    it("should use the snapshot on or before compareTo", async () => {
+      mockRepo.countRankings.mockResolvedValueOnce(1);
+      mockRepo.findRankings.mockResolvedValueOnce([]);
+
+      const result = await rankingsService.getRankings({
+        date: "2024-11-20",
+        includeDelta: true,
+        compareTo: "2024-11-01",
+        pagination: { page: 1, pageSize: 10 },
+      });
+
+      expect(result.compareTo).toBe("2024-10-31");
+    });
+
+    it("should not compare with a day that only holds club histories", async () => {
+      mockRepo.countRankings.mockResolvedValueOnce(1);
+      mockRepo.findRankings.mockResolvedValueOnce([]);
+      mockGaps.findSnapshotDays.mockResolvedValueOnce([
+        "2024-11-13",
+        "2024-11-20",
+      ]);
+
+      const result = await rankingsService.getRankings({
+        date: "2024-11-20",
+        includeDelta: true,
+        pagination: { page: 1, pageSize: 10 },
+      });
+
+      expect(result.compareTo).toBe("2024-11-13");
+    });
+
+    it("should return null deltas without an earlier snapshot", async () => {
+      mockRepo.countRankings.mockResolvedValueOnce(1);
+      mockGaps.findSnapshotDays.mockResolvedValueOnce(["2024-11-20"]);
+      mockRepo.findRankings.mockResolvedValueOnce([
+        {
+          id: 1,
+          apiName: "ManCity",
+          displayName: "Manchester City",
+          country: "ENG",
+          level: 1,
+          rank: 1,
+          elo: 1997.5,
+        },
+      ]);
+
+      const result = await rankingsService.getRankings({
+        date: "2024-11-20",
+        includeDelta: true,
+        pagination: { page: 1, pageSize: 10 },
+      });
+
+      expect(result.compareTo).toBeNull();
+      expect(result.clubs[0].eloChange).toBeNull();
+      expect(result.clubs[0].rankChange).toBeNull();
+    });
+  });
+
+  describe("getRankings as of a date", () => {
+    const club = {
+      id: 1,
+      apiName: "Milan",
+      displayName: "AC Milan",
+      country: "ITA",
+      level: 1,
+      rank: 1,
+    };
+
+    it("should keep and flag ratings older than the stale window", async () => {
+      mockRepo.countRankingsAsOf.mockResolvedValueOnce(2);
+      mockRepo.findRankingsAsOf.mockResolvedValueOnce([
+        { ...club, elo: 1900, ratingDate: "1999-03-10" },
+        { ...club, id: 2, rank: 2, elo: 1850, ratingDate: "1998-12-01" },
+      ]);
+
+      const result = await rankingsService.getRankings({
+        date: "1999-03-14",
+        asOf: true,
+        staleDays: 30,
+        pagination: { page: 1, pageSize: 10 },
+      });
+
+      expect(mockRepo.countRankings).not.toHaveBeenCalled();
+      expect(mockRepo.findRankingsAsOf).toHaveBeenCalledWith("1999-03-14", {
+        country: undefined,
+        level: undefined,
+        minElo: undefined,
+        source: "clubelo",
+        limit: 10,
+        offset: 0,
+      });
+      expect(result.asOf).toBe(true);
+      expect(result.staleDays).toBe(30);
+      expect(result.clubs.map((c) => c.stale)).toEqual([false, true]);
+      expect(result.pagination.total).toBe(2);
+    });
+
+    it("should reject deltas in as-of mode", async () => {
+      await expect(
+        rankingsService.getRankings({
+          asOf: true,
+          includeDelta: true,
+          pagination: { page: 1, pageSize: 10 },
+        })
+      ).rejects.toThrow(ApiError);
+      expect(mockRepo.findRankingsAsOf).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("exportRankings", () => {
+    async function* rowsOf<T>(rows: T[]): AsyncGenerator<T> {
+      yield* rows;
+    }
+
+    async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+      const result: T[] = [];
+      for await (const row of rows) {
+        result.push(row);
+      }
+      return result;
+    }
+
+    const club = {
+      id: 1,
+      apiName: "ManCity",
+      displayName: "Manchester City",
+      country: "ENG",
+      level: 1,
+      rank: 1,
+      elo: 2000,
+    };
+
+    it("should stream the full table of the latest snapshot", async () => {
+      mockRepo.getLatestRatingsDate.mockResolvedValueOnce("2024-11-20");
+      mockRepo.streamRankings.mockReturnValueOnce(rowsOf([club]));
+
+      const result = await rankingsService.exportRankings({ country: "ENG" });
+
+      expect(result.date).toBe("2024-11-20");
+      expect(mockRepo.streamRankings).toHaveBeenCalledWith("2024-11-20", {
+        country: "ENG",
+        level: undefined,
+        minElo: undefined,
+        source: "clubelo",
+        compareDate: undefined,
+      });
+      expect(await collect(result.clubs)).toEqual([club]);
+      expect(mockRepo.countRankings).not.toHaveBeenCalled();
+    });
+
+    it("should null deltas when there is no earlier snapshot", async () => {
+      mockGaps.findSnapshotDays.mockResolvedValueOnce(["2024-11-20"]);
+      mockRepo.streamRankings.mockReturnValueOnce(rowsOf([club]));
+
+      const result = await rankingsService.exportRankings({
+        date: "2024-11-20",
+        includeDelta: true,
+      });
+
+      expect(result.compareTo).toBeNull();
+      expect(await collect(result.clubs)).toEqual([
+        { ...club, eloChange: null, rankChange: null },
+      ]);
+    });
+
+    it("should flag stale clubs in as-of exports", async () => {
+      mockRepo.streamRankingsAsOf.mockReturnValueOnce(
+        rowsOf([
+          { ...club, ratingDate: "2024-11-01" },
+          { ...club, id: 2, ratingDate: "2024-01-01" },
+        ])
+      );
+
+      const result = await rankingsService.exportRankings({
+        date: "2024-11-20",
+        asOf: true,
+        staleDays: 60,
+      });
+
+      expect((await collect(result.clubs)).map((c) => c.stale)).toEqual([
+        false,
+        true,
+      ]);
+    });
+  });
+
+  describe("getMovers", () => {
+    it("should default to the week before the latest snapshot", async () => {
+      mockRepo.findMovers.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+      const result = await rankingsService.getMovers({ country: "ENG" });
+
+      expect(mockRepo.findMovers).toHaveBeenCalledWith(
+        "2024-11-13",
+        "2024-11-20",
+        expect.objectContaining({ direction: "up", limit: 10 })
+      );
+      expect(mockRepo.findMovers).toHaveBeenCalledWith(
+        "2024-11-13",
+        "2024-11-20",
+        expect.objectContaining({ direction: "down", country: "ENG" })
+      );
+      expect(result).toMatchObject({
+        from: "2024-11-13",
+        to: "2024-11-20",
+        country: "ENG",
+        level: null,
+      });
+    });
+
+    it("should move both dates back past club history days", async () => {
+      mockRepo.findMovers.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+      mockGaps.findSnapshotDays.mockResolvedValue([
+        "2024-11-01",
+        "2024-11-10",
+      ]);
+
+      const result = await rankingsService.getMovers({
+        from: "2024-11-05",
+        to: "2024-11-12",
+      });
+
+      expect(result).toMatchObject({ from: "2024-11-01", to: "2024-11-10" });
+    });
+
+    it("should reject a range that resolves to one snapshot", async () => {
+      await expect(
+        rankingsService.getMovers({ from: "2024-11-20", to: "2024-11-21" })
+      ).rejects.toThrow(ApiError);
+    });
+
+    it("should throw 404 when there is no data", async () => {
+      mockGaps.findSnapshotDays.mockResolvedValueOnce([]);
+
+      await expect(rankingsService.getMovers({})).rejects.toThrow(
+        "No rating data available"
+      );
+    });
   });
 });
@@ -15,6 +15,10 @@ export type {
   ClubRanking,
   RankingsFilters,
   RankingsResponse,
+  RankingsExport,
+  ClubMovement,
+  MoversFilters,
+  MoversResponse,
 } from "./rankings.types";
 
 // Export service (for scripts or other modules that need programmatic access)
@@ -8,16 +8,29 @@
  */
 
 import { db } from "../../shared/database/connection";
+import { streamQuery, mapStream } from "../../shared/database/stream";
 import { formatDateOnly } from "../../shared/utils/date-formatter";
-import { EloRatingRow, ClubRanking } from "./rankings.types";
+import {
+  EloRatingRow,
+  ClubRanking,
+  ClubMovement,
+  RankingsSeek,
+} from "./rankings.types";
 
 /**
- * Get the latest date we have ratings data for
+ * Get the latest date we have ratings data for (optionally for one source)
  */
-export async function getLatestRatingsDate(): Promise<string | null> {
-  const result = await db.query<{ max_date: string }>(
-    "SELECT MAX(date)::text as max_date FROM elo_ratings"
-  );
+export async function getLatestRatingsDate(
+  source?: string
+): Promise<string | null> {
+  const result = source
+    ? await db.query<{ max_date: string }>(
+        "SELECT MAX(date)::text as max_date FROM elo_ratings WHERE source = $1",
+        [source]
+      )
+    : await db.query<{ max_date: string }>(
+        "SELECT MAX(date)::text as max_date FROM elo_ratings"
+      );
 
   return result.rows[0]?.max_date || null;
 }
@@ -29,7 +42,8 @@ export async function countRankings(
   date: string,
   country?: string,
   level?: number,
-  minElo?: number
+  minElo?: number,
+  source?: string
 ): Promise<number> {
   const whereClauses = ["e.date = $1"];
   const params: any[] = [date];
@@ -49,6 +63,11 @@ export async function countRankings(
     params.push(minElo);
   }
 
+  if (source) {
+    whereClauses.push(`e.source = $${params.length + 1}`);
+    params.push(source);
+  }
+
   const query = `
     SELECT COUNT(*) as total
     FROM elo_ratings e
@@ -60,18 +79,26 @@ export async function countRankings(
 }
 
 /**
- * Find rankings with filters and pagination
+ * Filters shared by paged and streamed snapshot rankings
  */
-export async function findRankings(
+interface SnapshotRankingsOptions {
+  country?: string;
+  level?: number;
+  minElo?: number;
+  source?: string;
+  compareDate?: string; // Join a second snapshot to compute deltas
+  seek?: RankingsSeek;
+}
+
+/**
+ * Rankings of one snapshot, ordered by Elo, then club ID
+ *
+ * With a seek key, rows after (or before, in reverse order) that key.
+ */
+function buildRankingsQuery(
   date: string,
-  options: {
-    country?: string;
-    level?: number;
-    minElo?: number;
-    limit: number;
-    offset: number;
-  }
-): Promise<ClubRanking[]> {
+  options: SnapshotRankingsOptions
+): { sql: string; params: any[] } {
   const whereClauses = ["e.date = $1"];
   const params: any[] = [date];
 
@@ -90,22 +117,272 @@ export async function findRankings(
     params.push(options.minElo);
   }
 
-  const query = `
+  if (options.source) {
+    whereClauses.push(`e.source = $${params.length + 1}`);
+    params.push(options.source);
+  }
+
+  if (options.seek) {
+    const operator = options.seek.direction === "next" ? "<" : ">";
+    whereClauses.push(
+      `(e.elo, e.club_id) ${operator} ($${params.length + 1}, $${params.length + 2})`
+    );
+    params.push(options.seek.elo, options.seek.clubId);
+  }
+
+  // Reading backwards walks the index the other way
+  const order = options.seek?.direction === "prev" ? "ASC" : "DESC";
+
+  let previousColumns = "";
+  let previousJoin = "";
+
+  if (options.compareDate) {
+    previousColumns = ", p.elo AS previous_elo, p.rank AS previous_rank";
+    previousJoin = `
+    LEFT JOIN elo_ratings p
+      ON p.club_id = e.club_id AND p.source = e.source
+      AND p.date = $${params.length + 1}`;
+    params.push(options.compareDate);
+  }
+
+  const sql = `
     SELECT
       c.id, c.api_name, c.display_name, c.country, c.level,
-      e.rank, e.elo
+      e.rank, e.elo${previousColumns}
     FROM elo_ratings e
-    JOIN clubs c ON e.club_id = c.id
+    JOIN clubs c ON e.club_id = c.id${previousJoin}
     WHERE ${whereClauses.join(" AND ")}
-    ORDER BY e.elo DESC
+    ORDER BY e.elo ${order}, e.club_id ${order}
+  `;
+
+  return { sql, params };
+}
+
+/**
+ * Find rankings with filters and pagination
+ *
+ * Rows are ordered by Elo, then club ID, so ties page deterministically.
+ * With a seek key, rows are read after (or before) that key instead of
+ * using OFFSET, and are still returned highest Elo first.
+ */
+export async function findRankings(
+  date: string,
+  options: SnapshotRankingsOptions & {
+    limit: number;
+    offset: number;
+  }
+): Promise<ClubRanking[]> {
+  const { sql, params } = buildRankingsQuery(date, options);
+
+  const query = `${sql}
     LIMIT $${params.length + 1} OFFSET $${params.length + 2}
   `;
   params.push(options.limit, options.offset);
 
   const result = await db.query<EloRatingRow>(query, params);
+  const rows =
+    options.seek?.direction === "prev" ? result.rows.reverse() : result.rows;
 
   // Transform database rows to DTOs
-  return result.rows.map(mapRowToClubRanking);
+  return rows.map((row) => mapRowToRanking(row, !!options.compareDate));
+}
+
+/**
+ * Stream every ranking of a snapshot matching filters (for exports)
+ */
+export function streamRankings(
+  date: string,
+  options: Omit<SnapshotRankingsOptions, "seek">
+): AsyncIterable<ClubRanking> {
+  const { sql, params } = buildRankingsQuery(date, options);
+
+  return mapStream(streamQuery<EloRatingRow>(sql, params), (row) =>
+    mapRowToRanking(row, !!options.compareDate)
+  );
+}
+
+/**
+ * Filters shared by counted, paged and streamed as-of rankings
+ */
+interface AsOfOptions {
+  country?: string;
+  level?: number;
+  minElo?: number;
+  source: string;
+}
+
+/**
+ * Each club's latest rating on or before a date, ranked among all clubs
+ *
+ * Club history rows start a rating interval, so a club's latest row can be
+ * months old and still hold. Filters are applied after ranking, so ranks
+ * stay global like the stored snapshot ranks.
+ */
+function buildAsOfQuery(
+  date: string,
+  options: AsOfOptions
+): { sql: string; params: any[] } {
+  const whereClauses: string[] = [];
+  const params: any[] = [date, options.source];
+
+  if (options.country) {
+    whereClauses.push(`r.country = $${params.length + 1}`);
+    params.push(options.country);
+  }
+
+  if (options.level !== undefined) {
+    whereClauses.push(`r.level = $${params.length + 1}`);
+    params.push(options.level);
+  }
+
+  if (options.minElo !== undefined) {
+    whereClauses.push(`r.elo >= $${params.length + 1}`);
+    params.push(options.minElo);
+  }
+
+  const sql = `
+    WITH latest AS (
+      SELECT DISTINCT ON (club_id) club_id, date, country, level, elo
+      FROM elo_ratings
+      WHERE source = $2 AND date <= $1
+      ORDER BY club_id, date DESC
+    ),
+    ranked AS (
+      SELECT *, RANK() OVER (ORDER BY elo DESC)::int AS rank
+      FROM latest
+    )
+    SELECT
+      c.id, c.api_name, c.display_name, c.country, c.level,
+      r.rank, r.elo, r.date::text AS rating_date
+    FROM ranked r
+    JOIN clubs c ON r.club_id = c.id
+    ${whereClauses.length ? `WHERE ${whereClauses.join(" AND ")}` : ""}
+  `;
+
+  return { sql, params };
+}
+
+/**
+ * Count clubs with a rating on or before a date matching filters
+ */
+export async function countRankingsAsOf(
+  date: string,
+  options: AsOfOptions
+): Promise<number> {
+  const { sql, params } = buildAsOfQuery(date, options);
+
+  const result = await db.query<{ total: string }>(
+    `SELECT COUNT(*) as total FROM (${sql}) as_of`,
+    params
+  );
+  return parseInt(result.rows[0].total, 10);
+}
+
+/**
+ * Find rankings from each club's latest rating on or before a date
+ *
+ * Ranks are recomputed over that set, so dates between snapshots (or
+ * covered only by imported club histories) still produce a full table.
+ * Ties are ordered by club ID, highest first, like snapshot rankings.
+ */
+export async function findRankingsAsOf(
+  date: string,
+  options: AsOfOptions & { limit: number; offset: number }
+): Promise<ClubRanking[]> {
+  const { sql, params } = buildAsOfQuery(date, options);
+
+  const query = `${sql}
+    ORDER BY r.elo DESC, r.club_id DESC
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+  `;
+  params.push(options.limit, options.offset);
+
+  const result = await db.query<EloRatingRow>(query, params);
+
+  return result.rows.map((row) => ({
+    ...mapRowToClubRanking(row),
+    ratingDate: row.rating_date!,
+  }));
+}
+
+/**
+ * Stream every as-of ranking matching filters (for exports)
+ */
+export function streamRankingsAsOf(
+  date: string,
+  options: AsOfOptions
+): AsyncIterable<ClubRanking> {
+  const { sql, params } = buildAsOfQuery(date, options);
+
+  return mapStream(
+    streamQuery<EloRatingRow>(`${sql} ORDER BY r.elo DESC, r.club_id DESC`, params),
+    (row) => ({ ...mapRowToClubRanking(row), ratingDate: row.rating_date! })
+  );
+}
+
+/**
+ * Find the clubs that moved most between two snapshot dates
+ *
+ * Only clubs rated on both dates are considered. Country and level filters
+ * apply to the later snapshot.
+ *
+ * @param direction - "up" for the biggest risers, "down" for fallers
+ */
+export async function findMovers(
+  fromDate: string,
+  toDate: string,
+  options: {
+    country?: string;
+    level?: number;
+    source: string;
+    direction: "up" | "down";
+    limit: number;
+  }
+): Promise<ClubMovement[]> {
+  const whereClauses = [
+    "e.date = $1",
+    "e.source = $3",
+    options.direction === "up" ? "e.elo > p.elo" : "e.elo < p.elo",
+  ];
+  const params: any[] = [toDate, fromDate, options.source];
+
+  if (options.country) {
+    whereClauses.push(`e.country = $${params.length + 1}`);
+    params.push(options.country);
+  }
+
+  if (options.level !== undefined) {
+    whereClauses.push(`e.level = $${params.length + 1}`);
+    params.push(options.level);
+  }
+
+  const query = `
+    SELECT
+      c.id, c.api_name, c.display_name, c.country, c.level,
+      e.rank, e.elo, p.elo AS previous_elo, p.rank AS previous_rank
+    FROM elo_ratings e
+    JOIN elo_ratings p
+      ON p.club_id = e.club_id AND p.source = e.source AND p.date = $2
+    JOIN clubs c ON e.club_id = c.id
+    WHERE ${whereClauses.join(" AND ")}
+    ORDER BY e.elo - p.elo ${options.direction === "up" ? "DESC" : "ASC"}
+    LIMIT $${params.length + 1}
+  `;
+  params.push(options.limit);
+
+  const result = await db.query<EloRatingRow>(query, params);
+
+  return result.rows.map((row) => {
+    const deltas = mapRowToDeltas(row);
+
+    return {
+      ...mapRowToClubRanking(row),
+      previousElo: parseFloat(row.previous_elo!),
+      previousRank: row.previous_rank ?? null,
+      eloChange: deltas.eloChange!,
+      rankChange: deltas.rankChange,
+    };
+  });
 }
 
 /**
@@ -124,3 +401,36 @@ function mapRowToClubRanking(row: EloRatingRow): ClubRanking {
     elo: parseFloat(row.elo), // Postgres DECIMAL comes as string
   };
 }
+
+/**
+ * Map a snapshot row, with deltas when a second snapshot was joined
+ */
+function mapRowToRanking(row: EloRatingRow, withDeltas: boolean): ClubRanking {
+  return withDeltas
+    ? { ...mapRowToClubRanking(row), ...mapRowToDeltas(row) }
+    : mapRowToClubRanking(row);
+}
+
+/**
+ * Elo and rank change against a joined earlier snapshot
+ *
+ * Rank change is positive when the club climbed (smaller rank number).
+ */
+function mapRowToDeltas(row: EloRatingRow): {
+  eloChange: number | null;
+  rankChange: number | null;
+} {
+  const previousElo =
+    row.previous_elo != null ? parseFloat(row.previous_elo) : null;
+
+  return {
+    eloChange:
+      previousElo !== null
+        ? Math.round((parseFloat(row.elo) - previousElo) * 100) / 100
+        : null,
+    rankChange:
+      row.rank != null && row.previous_rank != null
+        ? row.previous_rank - row.rank
+        : null,
+  };
+}
@@ -37,6 +37,7 @@ router.get(
       country?: string;
       level?: number;
       minElo?: number;
+      source?: string;
       page: number;
       pageSize: number;
     };
@@ -47,6 +48,7 @@ router.get(
       country: validated.country,
       level: validated.level,
       minElo: validated.minElo,
+      source: validated.source,
       pagination: {
         page: validated.page,
         pageSize: validated.pageSize,
@@ -10,33 +10,80 @@
 import { Router, Request, Response } from "express";
 import * as rankingsService from "./rankings.service";
 import { RankingsFilters } from "./rankings.types";
-import { asyncHandler } from "../../shared/middleware/error-handler";
-import { validatePagination, validateDate } from "../../shared/middleware/validation";
+import { ApiError, asyncHandler } from "../../shared/middleware/error-handler";
+import { snapshotCacheHeaders } from "../../shared/middleware/cache-headers";
+import {
+  negotiateExportFormat,
+  sendExport,
+} from "../../shared/middleware/export";
+import {
+  validatePagination,
+  validateDate,
+  validateDateRange,
+  validateSource,
+} from "../../shared/middleware/validation";
 
 const router = Router();
 
+/**
+ * CSV columns of an exported ranking (ClubRanking field names)
+ */
+const RANKING_COLUMNS = [
+  "id",
+  "apiName",
+  "displayName",
+  "country",
+  "level",
+  "rank",
+  "elo",
+];
+
 /**
  * GET /api/elo/rankings
  *
  * Get club rankings for a specific date (or the latest available date).
+ * Responses carry ETag / Last-Modified from the latest snapshot date and
+ * answer 304 to a matching If-None-Match or If-Modified-Since.
  *
  * Query parameters:
  *   - date: ISO date string (YYYY-MM-DD), optional. Defaults to latest date.
  *   - country: Country code filter (e.g., "ENG"), optional.
  *   - level: League level filter (1, 2, etc.), optional.
  *   - minElo: Minimum Elo rating filter, optional.
+ *   - source: Rating source ("clubelo" or "internal"), optional. Defaults to "clubelo".
+ *   - includeDelta: "true" to add eloChange / rankChange to each club, optional.
+ *   - compareTo: Date to compare with (YYYY-MM-DD), optional. Implies includeDelta.
+ *     Defaults to the snapshot before "date".
+ *   - asOf: "true" to use each club's latest rating on or before "date" and
+ *     recompute ranks, optional. Works for dates without a snapshot.
+ *   - staleDays: With asOf, flag ratings older than this many days, optional.
+ *     Defaults to RANKINGS_STALE_DAYS.
  *   - page: Page number for pagination (starts at 1), optional. Defaults to 1.
  *   - pageSize: Number of results per page, optional. Defaults to 100.
  *   - limit: Legacy param, use pageSize instead. Optional.
+ *   - cursor: Keyset cursor from a previous response's nextCursor /
+ *     prevCursor, instead of page. Pass an empty cursor to start. Cursors
+ *     keep to the snapshot they started on. Not available with asOf.
+ *   - format: "json", "csv" or "ndjson", optional. Also negotiable with
+ *     Accept: text/csv or application/x-ndjson. CSV and NDJSON stream the
+ *     whole table and ignore page, pageSize and cursor.
  *
  * Example:
  *   GET /api/elo/rankings?date=2025-11-18&country=ENG&level=1&page=1&pageSize=20
  *   GET /api/elo/rankings?minElo=1900&pageSize=50
+ *   GET /api/elo/rankings?source=internal&country=ENG
+ *   GET /api/elo/rankings?includeDelta=true&compareTo=2025-11-01
+ *   GET /api/elo/rankings?date=1999-03-14&asOf=true&country=ITA
+ *   GET /api/elo/rankings?pageSize=50&cursor=
+ *   GET /api/elo/rankings?country=ENG&format=csv
  */
 router.get(
   "/",
   validateDate("date"),
+  validateDate("compareTo"),
+  validateSource(),
   validatePagination,
+  snapshotCacheHeaders(rankingsService.getLatestSnapshotDate),
   asyncHandler(async (req: Request, res: Response) => {
     // Extract and parse query parameters
     const {
@@ -44,10 +91,22 @@ router.get(
       country,
       level: levelParam,
       minElo: minEloParam,
+      source,
+      includeDelta,
+      compareTo,
+      asOf,
+      staleDays: staleDaysParam,
     } = req.query;
 
     const level = levelParam ? parseInt(levelParam as string, 10) : undefined;
     const minElo = minEloParam ? parseFloat(minEloParam as string) : undefined;
+    const staleDays = staleDaysParam
+      ? parseInt(staleDaysParam as string, 10)
+      : undefined;
+
+    if (staleDays !== undefined && (isNaN(staleDays) || staleDays < 0)) {
+      throw new ApiError(400, "staleDays must be a non-negative integer");
+    }
 
     // Build filters (pagination is already validated and attached to req)
     const filters: RankingsFilters = {
@@ -55,9 +114,30 @@ router.get(
       country: country as string | undefined,
       level,
       minElo,
+      source: source as string | undefined,
+      includeDelta: includeDelta === "true" || !!compareTo,
+      compareTo: compareTo as string | undefined,
+      asOf: asOf === "true",
+      staleDays,
       pagination: req.pagination!, // Validated by middleware
     };
 
+    const format = negotiateExportFormat(req, res);
+
+    if (format !== "json") {
+      const { pagination, ...exportFilters } = filters;
+      const exported = await rankingsService.exportRankings(exportFilters);
+
+      return sendExport(res, format, exported.clubs, {
+        columns: [
+          ...RANKING_COLUMNS,
+          ...(filters.includeDelta ? ["eloChange", "rankChange"] : []),
+          ...(filters.asOf ? ["ratingDate", "stale"] : []),
+        ],
+        filename: `rankings-${exported.date}`,
+      });
+    }
+
     // Delegate to service layer
     const result = await rankingsService.getRankings(filters);
 
@@ -66,4 +146,58 @@ router.get(
   })
 );
 
+/**
+ * GET /api/elo/rankings/movers
+ *
+ * Biggest risers and fallers between two snapshot dates, with Elo and rank
+ * changes. Each date falls back to the latest snapshot on or before it.
+ * Carries the same ETag / Last-Modified validators as /api/elo/rankings.
+ *
+ * Query parameters:
+ *   - from: Start date (YYYY-MM-DD), optional. Defaults to 7 days before "to".
+ *   - to: End date (YYYY-MM-DD), optional. Defaults to latest date.
+ *   - country: Country code filter (e.g., "ENG"), optional.
+ *   - level: League level filter (1, 2, etc.), optional.
+ *   - source: Rating source ("clubelo" or "internal"), optional. Defaults to "clubelo".
+ *   - limit: Risers and fallers to return (1-100), optional. Defaults to 10.
+ *
+ * Example:
+ *   GET /api/elo/rankings/movers
+ *   GET /api/elo/rankings/movers?from=2025-10-01&to=2025-11-01&country=ENG&level=1
+ */
+router.get(
+  "/movers",
+  validateDateRange,
+  validateSource(),
+  snapshotCacheHeaders(rankingsService.getLatestSnapshotDate),
+  asyncHandler(async (req: Request, res: Response) => {
+    const {
+      from,
+      to,
+      country,
+      level: levelParam,
+      source,
+      limit: limitParam,
+    } = req.query;
+
+    const level = levelParam ? parseInt(levelParam as string, 10) : undefined;
+    const limit = limitParam ? parseInt(limitParam as string, 10) : undefined;
+
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 100)) {
+      throw new ApiError(400, "Limit must be between 1 and 100");
+    }
+
+    const result = await rankingsService.getMovers({
+      from: from as string | undefined,
+      to: to as string | undefined,
+      country: country as string | undefined,
+      level,
+      source: source as string | undefined,
+      limit,
+    });
+
+    res.json(result);
+  })
+);
+
 export default router;
@@ -8,42 +8,129 @@
  */
 
 import * as rankingsRepo from "./rankings.repository";
-import { RankingsFilters, RankingsResponse } from "./rankings.types";
+import {
+  ClubRanking,
+  RankingsFilters,
+  RankingsResponse,
+  RankingsExport,
+  MoversFilters,
+  MoversResponse,
+} from "./rankings.types";
+import { dataGapsService } from "../data-gaps";
+import { cached } from "../../shared/cache/response-cache";
+import { mapStream } from "../../shared/database/stream";
 import { ApiError } from "../../shared/middleware/error-handler";
+import { addDays, isValidDateString } from "../../shared/utils/date-formatter";
+import {
+  decodeCursor,
+  toKeysetPage,
+  KeysetCursor,
+} from "../../shared/utils/cursor";
+import { config } from "../../shared/config/environment";
 import { logger } from "../../shared/utils/logger";
 
+/**
+ * Rating source served when the caller does not ask for one
+ */
+const DEFAULT_SOURCE = "clubelo";
+
+/**
+ * How far back the movers endpoint looks when no start date is given
+ */
+const DEFAULT_MOVERS_WINDOW_DAYS = 7;
+
+/**
+ * Risers / fallers returned when the caller does not ask for a limit
+ */
+const DEFAULT_MOVERS_LIMIT = 10;
+
+/**
+ * Sort key stored in a rankings cursor
+ *
+ * The snapshot date is part of the key, so a client scrolling through the
+ * latest rankings stays on the same snapshot when a new one is imported.
+ */
+interface RankingsCursorKey {
+  date: string;
+  elo: number;
+  id: number;
+}
+
+/**
+ * Get the latest snapshot date across all sources, or for one source
+ *
+ * Used in the ETag of rating responses, and by the club history batch to
+ * pick its club list. Not cached, so validators follow writes made by
+ * other processes.
+ *
+ * @param source - Only consider ratings from this source
+ * @returns Date (YYYY-MM-DD), or null with no ratings stored
+ */
+export async function getLatestSnapshotDate(
+  source?: string
+): Promise<string | null> {
+  return rankingsRepo.getLatestRatingsDate(source);
+}
+
 /**
  * Get club rankings for a specific date (or latest available)
  *
+ * Pages by page number, or by keyset cursor when pagination.cursor is set
+ * ("" for the first page). Results are cached until the next import.
+ *
  * @param filters - Filtering and pagination options
  * @returns Rankings response with clubs and pagination metadata
  */
 export async function getRankings(
   filters: RankingsFilters
 ): Promise<RankingsResponse> {
-  // Determine target date
-  let targetDate: string;
+  return cached("rankings.getRankings", filters, () => loadRankings(filters));
+}
 
-  if (filters.date) {
-    targetDate = filters.date;
-  } else {
-    // Find latest available date
-    const latestDate = await rankingsRepo.getLatestRatingsDate();
+async function loadRankings(
+  filters: RankingsFilters
+): Promise<RankingsResponse> {
+  const source = filters.source || DEFAULT_SOURCE;
+
+  if (filters.asOf && filters.includeDelta) {
+    throw new ApiError(400, "Deltas are not available for as-of rankings");
+  }
+
+  const useCursor = filters.pagination.cursor !== undefined;
+
+  if (filters.asOf && useCursor) {
+    throw new ApiError(
+      400,
+      "Cursor pagination is not available for as-of rankings"
+    );
+  }
 
-    if (!latestDate) {
-      throw new ApiError(404, "No rating data available");
-    }
+  const cursor = filters.pagination.cursor
+    ? parseRankingsCursor(filters.pagination.cursor)
+    : null;
 
-    targetDate = latestDate;
+  if (cursor && filters.date && filters.date !== cursor.key.date) {
+    throw new ApiError(400, "Cursor belongs to a different date");
   }
 
+  const targetDate = await resolveTargetDate(
+    filters.date || cursor?.key.date,
+    source
+  );
+
   logger.debug("Fetching rankings", {
     date: targetDate,
     country: filters.country,
     level: filters.level,
+    source,
     page: filters.pagination.page,
+    asOf: !!filters.asOf,
   });
 
+  if (filters.asOf) {
+    return getRankingsAsOf(targetDate, source, filters);
+  }
+
   // Calculate pagination
   const { page, pageSize } = filters.pagination;
   const offset = (page - 1) * pageSize;
@@ -53,32 +140,359 @@ export async function getRankings(
     targetDate,
     filters.country,
     filters.level,
-    filters.minElo
+    filters.minElo,
+    source
   );
 
-  // Fetch rankings
-  const clubs = await rankingsRepo.findRankings(targetDate, {
+  const compareDate = await resolveCompareDate(filters, targetDate, source);
+
+  const findOptions = {
     country: filters.country,
     level: filters.level,
     minElo: filters.minElo,
-    limit: pageSize,
-    offset,
-  });
+    source,
+    compareDate: compareDate || undefined,
+  };
+
+  // Fetch rankings: one extra row in cursor mode shows whether more follow
+  let clubs: ClubRanking[];
+  let pagination: RankingsResponse["pagination"];
 
-  // Build response
-  const totalPages = Math.ceil(totalResults / pageSize);
+  if (useCursor) {
+    const rows = await rankingsRepo.findRankings(targetDate, {
+      ...findOptions,
+      seek: cursor
+        ? {
+            elo: cursor.key.elo,
+            clubId: cursor.key.id,
+            direction: cursor.direction,
+          }
+        : undefined,
+      limit: pageSize + 1,
+      offset: 0,
+    });
+    const keysetPage = toKeysetPage(rows, pageSize, cursor, (club) => ({
+      date: targetDate,
+      elo: club.elo,
+      id: club.id,
+    }));
+
+    clubs = keysetPage.items;
+    pagination = {
+      pageSize,
+      total: totalResults,
+      nextCursor: keysetPage.nextCursor,
+      prevCursor: keysetPage.prevCursor,
+    };
+  } else {
+    clubs = await rankingsRepo.findRankings(targetDate, {
+      ...findOptions,
+      limit: pageSize,
+      offset,
+    });
+    pagination = {
+      page,
+      pageSize,
+      total: totalResults,
+      totalPages: Math.ceil(totalResults / pageSize),
+    };
+  }
+
+  // Without an earlier snapshot every delta is unknown
+  if (filters.includeDelta && !compareDate) {
+    clubs.forEach((club) => {
+      club.eloChange = null;
+      club.rankChange = null;
+    });
+  }
 
   return {
     date: targetDate,
     country: filters.country || null,
     level: filters.level ?? null,
     minElo: filters.minElo ?? null,
+    source,
+    ...(filters.includeDelta ? { compareTo: compareDate } : {}),
+    clubs,
+    pagination,
+  };
+}
+
+/**
+ * Stream every club of a rankings table, for CSV / NDJSON exports
+ *
+ * Takes the same filters as getRankings without pagination. Rows stream
+ * from the database as they are written, so results are not cached.
+ *
+ * @param filters - Filtering options
+ * @returns Resolved dates and a stream of clubs in rank order
+ */
+export async function exportRankings(
+  filters: Omit<RankingsFilters, "pagination">
+): Promise<RankingsExport> {
+  const source = filters.source || DEFAULT_SOURCE;
+
+  if (filters.asOf && filters.includeDelta) {
+    throw new ApiError(400, "Deltas are not available for as-of rankings");
+  }
+
+  const date = await resolveTargetDate(filters.date, source);
+  const options = {
+    country: filters.country,
+    level: filters.level,
+    minElo: filters.minElo,
+    source,
+  };
+
+  logger.debug("Exporting rankings", { date, ...options });
+
+  if (filters.asOf) {
+    const staleBefore = addDays(
+      date,
+      -(filters.staleDays ?? config.rankingsStaleDays)
+    );
+
+    return {
+      date,
+      source,
+      clubs: mapStream(
+        rankingsRepo.streamRankingsAsOf(date, options),
+        (club) => ({ ...club, stale: club.ratingDate! < staleBefore })
+      ),
+    };
+  }
+
+  const compareDate = await resolveCompareDate(filters, date, source);
+  let clubs = rankingsRepo.streamRankings(date, {
+    ...options,
+    compareDate: compareDate || undefined,
+  });
+
+  // Without an earlier snapshot every delta is unknown
+  if (filters.includeDelta && !compareDate) {
+    clubs = mapStream(clubs, (club) => ({
+      ...club,
+      eloChange: null,
+      rankChange: null,
+    }));
+  }
+
+  return {
+    date,
+    source,
+    ...(filters.includeDelta ? { compareTo: compareDate } : {}),
+    clubs,
+  };
+}
+
+/**
+ * The requested snapshot date, or the latest one for the source
+ *
+ * @throws ApiError if no date is given and the source has no ratings
+ */
+async function resolveTargetDate(
+  date: string | undefined,
+  source: string
+): Promise<string> {
+  if (date) {
+    return date;
+  }
+
+  const latestDate = await rankingsRepo.getLatestRatingsDate(source);
+
+  if (!latestDate) {
+    throw new ApiError(404, "No rating data available");
+  }
+
+  return latestDate;
+}
+
+/**
+ * The snapshot to compare with when deltas are requested
+ *
+ * compareTo falls back to the latest snapshot on or before it; otherwise
+ * the snapshot before the target date is used.
+ */
+async function resolveCompareDate(
+  filters: Pick<RankingsFilters, "includeDelta" | "compareTo">,
+  targetDate: string,
+  source: string
+): Promise<string | null> {
+  if (!filters.includeDelta) {
+    return null;
+  }
+
+  return filters.compareTo
+    ? findSnapshotOnOrBefore(filters.compareTo, source)
+    : findSnapshotOnOrBefore(addDays(targetDate, -1), source);
+}
+
+/**
+ * The latest snapshot day on or before a date (or overall)
+ *
+ * Days that only hold imported club history ratings are skipped, so a
+ * comparison is always made against a full table.
+ *
+ * @returns Date (YYYY-MM-DD), or null when no snapshot is that old
+ */
+async function findSnapshotOnOrBefore(
+  date: string | undefined,
+  source: string
+): Promise<string | null> {
+  const snapshots = await dataGapsService.findSnapshotDays(source);
+  const candidates = date
+    ? snapshots.filter((snapshot) => snapshot <= date)
+    : snapshots;
+
+  return candidates[candidates.length - 1] ?? null;
+}
+
+/**
+ * Decode a rankings cursor from a request
+ *
+ * @throws ApiError if the cursor was not issued by this endpoint
+ */
+function parseRankingsCursor(
+  value: string
+): KeysetCursor<RankingsCursorKey> {
+  const cursor = decodeCursor<RankingsCursorKey>(
+    value,
+    (key) =>
+      typeof key?.date === "string" &&
+      isValidDateString(key.date) &&
+      typeof key.elo === "number" &&
+      Number.isInteger(key.id)
+  );
+
+  if (!cursor) {
+    throw new ApiError(400, "Invalid cursor");
+  }
+
+  return cursor;
+}
+
+/**
+ * Rankings from each club's latest rating on or before the date
+ *
+ * Clubs whose rating is older than the stale window are still ranked but
+ * flagged, so callers can hide or grey them out.
+ */
+async function getRankingsAsOf(
+  date: string,
+  source: string,
+  filters: RankingsFilters
+): Promise<RankingsResponse> {
+  const staleDays = filters.staleDays ?? config.rankingsStaleDays;
+  const staleBefore = addDays(date, -staleDays);
+  const { page, pageSize } = filters.pagination;
+  const options = {
+    country: filters.country,
+    level: filters.level,
+    minElo: filters.minElo,
+    source,
+  };
+
+  const [totalResults, clubs] = await Promise.all([
+    rankingsRepo.countRankingsAsOf(date, options),
+    rankingsRepo.findRankingsAsOf(date, {
+      ...options,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    }),
+  ]);
+
+  clubs.forEach((club) => {
+    club.stale = club.ratingDate! < staleBefore;
+  });
+
+  return {
+    date,
+    country: filters.country || null,
+    level: filters.level ?? null,
+    minElo: filters.minElo ?? null,
+    source,
+    asOf: true,
+    staleDays,
     clubs,
     pagination: {
       page,
       pageSize,
       total: totalResults,
-      totalPages,
+      totalPages: Math.ceil(totalResults / pageSize),
     },
   };
 }
+
+/**
+ * Get the biggest risers and fallers between two snapshot dates
+ *
+ * Each date is moved back to the latest snapshot on or before it, so a
+ * weekly comparison still works when a daily import was missed. Days that
+ * only hold imported club history ratings are not snapshots. Results are
+ * cached until the next import.
+ *
+ * @param filters - Date range, country/level filters and list size
+ * @returns Top risers and fallers with Elo and rank changes
+ * @throws ApiError if either snapshot is missing or the range is reversed
+ */
+export async function getMovers(
+  filters: MoversFilters
+): Promise<MoversResponse> {
+  return cached("rankings.getMovers", filters, () => loadMovers(filters));
+}
+
+async function loadMovers(filters: MoversFilters): Promise<MoversResponse> {
+  const source = filters.source || DEFAULT_SOURCE;
+  const limit = filters.limit || DEFAULT_MOVERS_LIMIT;
+
+  const toDate = await findSnapshotOnOrBefore(filters.to, source);
+
+  if (!toDate) {
+    throw new ApiError(404, "No rating data available");
+  }
+
+  const requestedFrom =
+    filters.from || addDays(toDate, -DEFAULT_MOVERS_WINDOW_DAYS);
+  const fromDate = await findSnapshotOnOrBefore(requestedFrom, source);
+
+  if (!fromDate) {
+    throw new ApiError(404, `No rating data on or before ${requestedFrom}`);
+  }
+
+  if (fromDate >= toDate) {
+    throw new ApiError(400, "'from' must be before 'to'");
+  }
+
+  logger.debug("Fetching movers", {
+    from: fromDate,
+    to: toDate,
+    country: filters.country,
+    level: filters.level,
+    source,
+  });
+
+  const options = {
+    country: filters.country,
+    level: filters.level,
+    source,
+    limit,
+  };
+
+  const [risers, fallers] = await Promise.all([
+    rankingsRepo.findMovers(fromDate, toDate, { ...options, direction: "up" }),
+    rankingsRepo.findMovers(fromDate, toDate, {
+      ...options,
+      direction: "down",
+    }),
+  ]);
+
+  return {
+    from: fromDate,
+    to: toDate,
+    country: filters.country || null,
+    level: filters.level ?? null,
+    source,
+    risers,
+    fallers,
+  };
+}
@@ -4,7 +4,12 @@
  * DTOs for the Rankings domain. PUBLIC CONTRACT ONLY.
  */
 
-import { PaginationParams, PaginationMeta } from "../../shared/types/common.types";
+import {
+  PaginationParams,
+  PaginationMeta,
+  CursorPaginationMeta,
+} from "../../shared/types/common.types";
+import { CursorDirection } from "../../shared/utils/cursor";
 
 /**
  * Club ranking (Public DTO)
@@ -17,6 +22,20 @@ export interface ClubRanking {
   level: number;
   rank: number | null;
   elo: number;
+  eloChange?: number | null; // Only with includeDelta. Null if unrated then.
+  rankChange?: number | null; // Positive = climbed. Only with includeDelta.
+  ratingDate?: string; // Date of the rating used. Only with asOf.
+  stale?: boolean; // Rating older than the stale window. Only with asOf.
+}
+
+/**
+ * Club movement between two snapshot dates
+ */
+export interface ClubMovement extends ClubRanking {
+  previousElo: number;
+  previousRank: number | null;
+  eloChange: number;
+  rankChange: number | null; // Positive = climbed
 }
 
 /**
@@ -27,6 +46,11 @@ export interface RankingsFilters {
   country?: string;     // Country code filter
   level?: number;       // League level filter
   minElo?: number;      // Minimum Elo rating
+  source?: string;      // Rating source (defaults to "clubelo")
+  includeDelta?: boolean; // Add eloChange / rankChange to each club
+  compareTo?: string;   // YYYY-MM-DD to compare with (default: prior snapshot)
+  asOf?: boolean;       // Each club's latest rating on or before the date
+  staleDays?: number;   // Stale window for asOf (defaults to config)
   pagination: PaginationParams;
 }
 
@@ -38,8 +62,56 @@ export interface RankingsResponse {
   country: string | null;
   level: number | null;
   minElo: number | null;
+  source: string;
+  compareTo?: string | null; // Snapshot compared with (only with includeDelta)
+  asOf?: boolean; // Only present in as-of mode
+  staleDays?: number; // Only present in as-of mode
   clubs: ClubRanking[];
-  pagination: PaginationMeta;
+  pagination: PaginationMeta | CursorPaginationMeta; // Cursor meta with ?cursor=
+}
+
+/**
+ * Full rankings table streamed for CSV / NDJSON export
+ */
+export interface RankingsExport {
+  date: string;
+  source: string;
+  compareTo?: string | null; // Only with includeDelta
+  clubs: AsyncIterable<ClubRanking>;
+}
+
+/**
+ * Movers request filters
+ */
+export interface MoversFilters {
+  from?: string;        // YYYY-MM-DD (defaults to 7 days before "to")
+  to?: string;          // YYYY-MM-DD (defaults to latest)
+  country?: string;
+  level?: number;
+  source?: string;      // Rating source (defaults to "clubelo")
+  limit?: number;       // Risers / fallers to return (defaults to 10)
+}
+
+/**
+ * Movers response
+ */
+export interface MoversResponse {
+  from: string;         // Snapshot compared (latest on or before the request)
+  to: string;
+  country: string | null;
+  level: number | null;
+  source: string;
+  risers: ClubMovement[];
+  fallers: ClubMovement[];
+}
+
+/**
+ * Keyset position in a rankings snapshot (NOT exported from index.ts)
+ */
+export interface RankingsSeek {
+  elo: number;
+  clubId: number;
+  direction: CursorDirection;
 }
 
 /**
@@ -53,4 +125,7 @@ export interface EloRatingRow {
   level: number;
   rank: number | null;
   elo: string; // Postgres returns DECIMAL as string
+  previous_elo?: string | null; // Only when joined with a second date
+  previous_rank?: number | null;
+  rating_date?: string; // Only in as-of queries
 }
@@ -0,0 +1,135 @@
+/**
+ * Ratings Engine Calculator Tests
+ *
+ * Unit tests for the pure Elo maths and the result replay.
+ */
+
+import {
+  expectedScore,
+  goalDifferenceMultiplier,
+  rateMatch,
+  replayResults,
+} from "../ratings-engine.calculator";
+import { EngineParameters, MatchResultRecord } from "../ratings-engine.types";
+
+const params: EngineParameters = {
+  kFactor: 20,
+  homeAdvantage: 0,
+  goalDiffMultiplier: true,
+  initialRating: 1500,
+};
+
+function match(
+  fixtureId: number,
+  matchDate: string,
+  homeClubId: number,
+  awayClubId: number,
+  homeGoals: number,
+  awayGoals: number
+): MatchResultRecord {
+  return { fixtureId, matchDate, homeClubId, awayClubId, homeGoals, awayGoals };
+}
+
+describe("Ratings Engine Calculator", () => {
+  describe("expectedScore", () => {
+    it("should return 0.5 for equal ratings", () => {
+      expect(expectedScore(0)).toBe(0.5);
+    });
+
+    it("should favour the stronger side", () => {
+      expect(expectedScore(400)).toBeCloseTo(10 / 11, 10);
+      expect(expectedScore(-400)).toBeCloseTo(1 / 11, 10);
+    });
+  });
+
+  describe("goalDifferenceMultiplier", () => {
+    it("should follow the World Football Elo scale", () => {
+      expect(goalDifferenceMultiplier(0)).toBe(1);
+      expect(goalDifferenceMultiplier(1)).toBe(1);
+      expect(goalDifferenceMultiplier(-2)).toBe(1.5);
+      expect(goalDifferenceMultiplier(3)).toBe(1.75);
+      expect(goalDifferenceMultiplier(5)).toBe(2);
+    });
+  });
+
+  describe("rateMatch", () => {
+    it("should give half of K to the winner of an even one-goal game", () => {
+      expect(rateMatch(1500, 1500, 1, 0, params)).toBe(10);
+      expect(rateMatch(1500, 1500, 0, 1, params)).toBe(-10);
+    });
+
+    it("should not move ratings for an even draw", () => {
+      expect(rateMatch(1500, 1500, 2, 2, params)).toBe(0);
+    });
+
+    it("should penalise a home draw when home advantage applies", () => {
+      const delta = rateMatch(1500, 1500, 1, 1, { ...params, homeAdvantage: 100 });
+      expect(delta).toBeLessThan(0);
+    });
+
+    it("should scale by goal difference only when enabled", () => {
+      expect(rateMatch(1500, 1500, 3, 0, params)).toBe(17.5);
+      expect(
+        rateMatch(1500, 1500, 3, 0, { ...params, goalDiffMultiplier: false })
+      ).toBe(10);
+    });
+  });
+
+  describe("replayResults", () => {
+    it("should replay matches in date order regardless of input order", () => {
+      const updates = replayResults(
+        [
+          match(2, "2024-08-24", 2, 1, 0, 1),
+          match(1, "2024-08-17", 1, 2, 1, 0),
+        ],
+        params
+      );
+
+      expect(updates.map((u) => u.date)).toEqual([
+        "2024-08-17",
+        "2024-08-17",
+        "2024-08-24",
+        "2024-08-24",
+      ]);
+      expect(updates[0]).toEqual({
+        clubId: 1,
+        date: "2024-08-17",
+        elo: 1510,
+        rank: 1,
+      });
+    });
+
+    it("should start clubs from seed ratings when provided", () => {
+      const updates = replayResults(
+        [match(1, "2024-08-17", 1, 2, 1, 1)],
+        params,
+        new Map([[1, 1700]])
+      );
+
+      const home = updates.find((u) => u.clubId === 1)!;
+      const away = updates.find((u) => u.clubId === 2)!;
+
+      expect(home.elo).toBeLessThan(1700);
+      expect(away.elo).toBeGreaterThan(1500);
+      expect(home.rank).toBe(1);
+    });
+
+    it("should write a full snapshot on the last match date", () => {
+      const updates = replayResults(
+        [
+          match(1, "2024-08-17", 1, 2, 2, 0),
+          match(2, "2024-08-24", 3, 4, 0, 0),
+        ],
+        params
+      );
+
+      const lastDay = updates.filter((u) => u.date === "2024-08-24");
+      expect(lastDay.map((u) => u.clubId).sort()).toEqual([1, 2, 3, 4]);
+      expect(lastDay.map((u) => u.rank).sort()).toEqual([1, 2, 3, 4]);
+    });
+
+    it("should return nothing for an empty result set", () => {
+      expect(replayResults([], params)).toEqual([]);
+    });
+  });
+});
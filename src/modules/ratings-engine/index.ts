@@ -0,0 +1,21 @@
+/**
+ * Ratings Engine Module - Public API
+ *
+ * BARREL FILE - Controls what this module exposes.
+ *
+ * This module computes our own Elo ratings from stored match results.
+ */
+
+// Export routes (for server.ts to mount under /api/cron)
+export { default as ratingsEngineRoutes } from "./ratings-engine.routes";
+
+// Export types (for other modules to use)
+export type {
+  EngineParameters,
+  MatchResultRecord,
+  RatingUpdate,
+  EngineRunSummary,
+} from "./ratings-engine.types";
+
+// Export service (for scripts)
+export * as ratingsEngine from "./ratings-engine.service";
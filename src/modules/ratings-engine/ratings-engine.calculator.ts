@@ -0,0 +1,138 @@
+/**
+ * Ratings Engine Calculator
+ *
+ * PURE FUNCTIONS - The Elo maths for the internal engine.
+ * No database or HTTP access here, so the replay is fully deterministic.
+ */
+
+import {
+  EngineParameters,
+  MatchResultRecord,
+  RatingUpdate,
+} from "./ratings-engine.types";
+
+/**
+ * Expected score (0-1) for a side that is `ratingDiff` points stronger
+ */
+export function expectedScore(ratingDiff: number): number {
+  return 1 / (1 + Math.pow(10, -ratingDiff / 400));
+}
+
+/**
+ * K-factor multiplier for the winning margin
+ *
+ * Same scale as the World Football Elo ratings:
+ * 1 for a draw or one-goal win, 1.5 for two goals, (11 + N) / 8 beyond that.
+ */
+export function goalDifferenceMultiplier(goalDiff: number): number {
+  const margin = Math.abs(goalDiff);
+
+  if (margin <= 1) return 1;
+  if (margin === 2) return 1.5;
+  return (11 + margin) / 8;
+}
+
+/**
+ * Rating change for the home side after a single match
+ *
+ * The away side receives the same amount with the opposite sign.
+ */
+export function rateMatch(
+  homeElo: number,
+  awayElo: number,
+  homeGoals: number,
+  awayGoals: number,
+  params: EngineParameters
+): number {
+  const expected = expectedScore(homeElo + params.homeAdvantage - awayElo);
+  const actual = homeGoals > awayGoals ? 1 : homeGoals === awayGoals ? 0.5 : 0;
+  const multiplier = params.goalDiffMultiplier
+    ? goalDifferenceMultiplier(homeGoals - awayGoals)
+    : 1;
+
+  return params.kFactor * multiplier * (actual - expected);
+}
+
+/**
+ * Rank every rated club by Elo (1 = strongest)
+ */
+function rankRatings(ratings: Map<number, number>): Map<number, number> {
+  const ordered = Array.from(ratings.entries()).sort(
+    (a, b) => b[1] - a[1] || a[0] - b[0]
+  );
+
+  return new Map(ordered.map(([clubId], index) => [clubId, index + 1]));
+}
+
+/**
+ * Replay match results in date order
+ *
+ * Emits a rating for every club that played on a match date, then a full
+ * snapshot of all rated clubs on the last match date so the latest rankings
+ * cover everyone.
+ *
+ * @param results - Completed matches (any order)
+ * @param params - Engine parameters
+ * @param seedRatings - Starting ratings by club ID (others use initialRating)
+ * @returns Rating updates ordered by date
+ */
+export function replayResults(
+  results: MatchResultRecord[],
+  params: EngineParameters,
+  seedRatings: Map<number, number> = new Map()
+): RatingUpdate[] {
+  const ordered = [...results].sort(
+    (a, b) =>
+      a.matchDate.localeCompare(b.matchDate) || a.fixtureId - b.fixtureId
+  );
+
+  const ratings = new Map<number, number>();
+  const ratingOf = (clubId: number): number => {
+    if (!ratings.has(clubId)) {
+      ratings.set(clubId, seedRatings.get(clubId) ?? params.initialRating);
+    }
+    return ratings.get(clubId)!;
+  };
+
+  const updates: RatingUpdate[] = [];
+  let index = 0;
+
+  while (index < ordered.length) {
+    const date = ordered[index].matchDate;
+    const played = new Set<number>();
+
+    // Apply every match on this date in fixture order
+    for (; index < ordered.length && ordered[index].matchDate === date; index++) {
+      const match = ordered[index];
+      const homeElo = ratingOf(match.homeClubId);
+      const awayElo = ratingOf(match.awayClubId);
+      const delta = rateMatch(
+        homeElo,
+        awayElo,
+        match.homeGoals,
+        match.awayGoals,
+        params
+      );
+
+      ratings.set(match.homeClubId, homeElo + delta);
+      ratings.set(match.awayClubId, awayElo - delta);
+      played.add(match.homeClubId);
+      played.add(match.awayClubId);
+    }
+
+    const isLastDate = index >= ordered.length;
+    const ranks = rankRatings(ratings);
+    const clubIds = isLastDate ? Array.from(ratings.keys()) : Array.from(played);
+
+    for (const clubId of clubIds) {
+      updates.push({
+        clubId,
+        date,
+        elo: Math.round(ratings.get(clubId)! * 100) / 100,
+        rank: ranks.get(clubId)!,
+      });
+    }
+  }
+
+  return updates;
+}
@@ -0,0 +1,100 @@
+/**
+ * Ratings Engine Repository
+ *
+ * DATA ACCESS LAYER - All SQL for the internal ratings engine is isolated here.
+ *
+ * RULE: No business logic here - only database operations.
+ */
+
+import { db } from "../../shared/database/connection";
+import { withTransaction } from "../../shared/database/transaction";
+import { formatDateOnly } from "../../shared/utils/date-formatter";
+import {
+  MatchResultRecord,
+  MatchResultRow,
+  RatingUpdate,
+} from "./ratings-engine.types";
+
+/**
+ * Find all finished matches in date order
+ */
+export async function findMatchResults(): Promise<MatchResultRecord[]> {
+  const query = `
+    SELECT
+      r.fixture_id, f.match_date, f.home_club_id, f.away_club_id,
+      r.home_goals, r.away_goals
+    FROM results r
+    JOIN fixtures f ON r.fixture_id = f.id
+    WHERE r.status = 'finished'
+    ORDER BY f.match_date ASC, f.id ASC
+  `;
+
+  const result = await db.query<MatchResultRow>(query);
+
+  return result.rows.map((row) => ({
+    fixtureId: row.fixture_id,
+    matchDate: formatDateOnly(row.match_date)!,
+    homeClubId: row.home_club_id,
+    awayClubId: row.away_club_id,
+    homeGoals: row.home_goals,
+    awayGoals: row.away_goals,
+  }));
+}
+
+/**
+ * Find each club's latest ClubElo rating on or before a date
+ */
+export async function findSeedRatings(
+  clubIds: number[],
+  date: string
+): Promise<Map<number, number>> {
+  const query = `
+    SELECT DISTINCT ON (club_id) club_id, elo
+    FROM elo_ratings
+    WHERE source = 'clubelo' AND club_id = ANY($1) AND date <= $2
+    ORDER BY club_id, date DESC
+  `;
+
+  const result = await db.query<{ club_id: number; elo: string }>(query, [
+    clubIds,
+    date,
+  ]);
+
+  return new Map(result.rows.map((row) => [row.club_id, parseFloat(row.elo)]));
+}
+
+/**
+ * Replace every rating written by a source with a new set
+ *
+ * Country and level are copied from the clubs table. Runs in a single
+ * transaction so readers never see a half-written replay.
+ */
+export async function replaceRatings(
+  source: string,
+  updates: RatingUpdate[]
+): Promise<number> {
+  return withTransaction(async (client) => {
+    await client.query("DELETE FROM elo_ratings WHERE source = $1", [source]);
+
+    if (updates.length === 0) {
+      return 0;
+    }
+
+    const result = await client.query(
+      `INSERT INTO elo_ratings (club_id, date, rank, country, level, elo, source)
+       SELECT u.club_id, u.date, u.rank, c.country, c.level, u.elo, $5
+       FROM unnest($1::int[], $2::date[], $3::int[], $4::float8[])
+         AS u(club_id, date, rank, elo)
+       JOIN clubs c ON c.id = u.club_id`,
+      [
+        updates.map((u) => u.clubId),
+        updates.map((u) => u.date),
+        updates.map((u) => u.rank),
+        updates.map((u) => u.elo),
+        source,
+      ]
+    );
+
+    return result.rowCount ?? 0;
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Ratings Engine Routes
+ *
+ * API LAYER - Express route handlers for recomputing internal ratings.
+ * Mounted under /api/cron and protected by CRON_SECRET authentication.
+ *
+ * RULE: No business logic here - delegate to service layer.
+ */
+
+import { Router, Request, Response } from "express";
+import * as engineService from "./ratings-engine.service";
+import { EngineParameters } from "./ratings-engine.types";
+import { ApiError, asyncHandler } from "../../shared/middleware/error-handler";
+import { validateCronSecret } from "../../shared/middleware/validation";
+
+const router = Router();
+
+/**
+ * Parse an optional numeric query parameter
+ */
+function parseNumberParam(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  const parsed = parseFloat(value as string);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new ApiError(400, `Invalid ${name}. Must be a non-negative number`);
+  }
+
+  return parsed;
+}
+
+/**
+ * POST /api/cron/recompute-ratings
+ *
+ * Replay all stored match results and rewrite the internal Elo ratings
+ * (source = 'internal').
+ *
+ * Query parameters (all optional, default to configuration):
+ *   - kFactor: Max points exchanged per match
+ *   - homeAdvantage: Elo points added to the home side
+ *   - goalDiffMultiplier: "true" or "false"
+ *   - initialRating: Rating for clubs without a ClubElo seed
+ *
+ * Authentication:
+ *   - Requires Authorization: Bearer <CRON_SECRET>
+ *
+ * Example:
+ *   POST /api/cron/recompute-ratings?kFactor=30&homeAdvantage=80
+ *   Headers: Authorization: Bearer <secret>
+ */
+router.post(
+  "/recompute-ratings",
+  validateCronSecret,
+  asyncHandler(async (req: Request, res: Response) => {
+    const overrides: Partial<EngineParameters> = {};
+
+    const kFactor = parseNumberParam(req.query.kFactor, "kFactor");
+    const homeAdvantage = parseNumberParam(
+      req.query.homeAdvantage,
+      "homeAdvantage"
+    );
+    const initialRating = parseNumberParam(
+      req.query.initialRating,
+      "initialRating"
+    );
+
+    if (kFactor !== undefined) overrides.kFactor = kFactor;
+    if (homeAdvantage !== undefined) overrides.homeAdvantage = homeAdvantage;
+    if (initialRating !== undefined) overrides.initialRating = initialRating;
+    if (req.query.goalDiffMultiplier !== undefined) {
+      overrides.goalDiffMultiplier = req.query.goalDiffMultiplier !== "false";
+    }
+
+    const summary = await engineService.recomputeRatings(overrides);
+
+    res.json({ success: true, ...summary });
+  })
+);
+
+export default router;
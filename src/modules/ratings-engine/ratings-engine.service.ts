@@ -0,0 +1,87 @@
+/**
+ * Ratings Engine Service
+ *
+ * BUSINESS LOGIC LAYER - Replays stored match results into our own Elo ratings.
+ * Ratings are written to elo_ratings with source = 'internal', next to the
+ * ClubElo mirror.
+ *
+ * RULE: No SQL here - only business logic and orchestration.
+ */
+
+import * as engineRepo from "./ratings-engine.repository";
+import { replayResults } from "./ratings-engine.calculator";
+import { EngineParameters, EngineRunSummary } from "./ratings-engine.types";
+import { config } from "../../shared/config/environment";
+import { invalidateCache } from "../../shared/cache/response-cache";
+import { logger } from "../../shared/utils/logger";
+
+/**
+ * Source name recorded on every rating the engine writes
+ */
+export const INTERNAL_SOURCE = "internal";
+
+/**
+ * Engine parameters from configuration
+ */
+export function getDefaultParameters(): EngineParameters {
+  return {
+    kFactor: config.eloKFactor,
+    homeAdvantage: config.eloHomeAdvantage,
+    goalDiffMultiplier: config.eloGoalDiffMultiplier,
+    initialRating: config.eloInitialRating,
+  };
+}
+
+/**
+ * Recompute internal ratings from all stored match results
+ *
+ * Each club starts from its ClubElo rating just before the first match
+ * (or the configured initial rating), then the full result set is replayed
+ * and the previous internal ratings are replaced.
+ *
+ * @param overrides - Parameters to use instead of the configured defaults
+ * @returns Summary of the run
+ */
+export async function recomputeRatings(
+  overrides: Partial<EngineParameters> = {}
+): Promise<EngineRunSummary> {
+  const parameters = { ...getDefaultParameters(), ...overrides };
+
+  const results = await engineRepo.findMatchResults();
+  logger.info(`Replaying ${results.length} match results`, { parameters });
+
+  const firstMatchDate = results[0]?.matchDate ?? null;
+  const lastMatchDate = results[results.length - 1]?.matchDate ?? null;
+
+  const clubIds = Array.from(
+    new Set(results.flatMap((r) => [r.homeClubId, r.awayClubId]))
+  );
+
+  const seedRatings = firstMatchDate
+    ? await engineRepo.findSeedRatings(clubIds, firstMatchDate)
+    : new Map<number, number>();
+
+  const updates = replayResults(results, parameters, seedRatings);
+  const ratingsWritten = await engineRepo.replaceRatings(
+    INTERNAL_SOURCE,
+    updates
+  );
+
+  await invalidateCache(`${INTERNAL_SOURCE} ratings recomputed`);
+
+  logger.info("Internal ratings recomputed", {
+    matches: results.length,
+    clubs: clubIds.length,
+    ratings: ratingsWritten,
+  });
+
+  return {
+    source: INTERNAL_SOURCE,
+    parameters,
+    matchesReplayed: results.length,
+    clubsRated: clubIds.length,
+    ratingsWritten,
+    firstMatchDate,
+    lastMatchDate,
+  };
+}
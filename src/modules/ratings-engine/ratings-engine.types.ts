@@ -0,0 +1,62 @@
+/**
+ * Ratings Engine Module - Type Definitions
+ *
+ * DTOs for the internal Elo engine. PUBLIC CONTRACT ONLY.
+ */
+
+/**
+ * Tunable parameters for an engine run
+ */
+export interface EngineParameters {
+  kFactor: number;              // Max points exchanged per match
+  homeAdvantage: number;        // Elo points added to the home side
+  goalDiffMultiplier: boolean;  // Scale K by winning margin
+  initialRating: number;        // Rating for clubs without a ClubElo seed
+}
+
+/**
+ * Completed match fed into the engine
+ */
+export interface MatchResultRecord {
+  fixtureId: number;
+  matchDate: string;            // YYYY-MM-DD
+  homeClubId: number;
+  awayClubId: number;
+  homeGoals: number;
+  awayGoals: number;
+}
+
+/**
+ * Rating produced by the engine for a club on a date
+ */
+export interface RatingUpdate {
+  clubId: number;
+  date: string;                 // YYYY-MM-DD
+  elo: number;
+  rank: number;
+}
+
+/**
+ * Summary returned after an engine run
+ */
+export interface EngineRunSummary {
+  source: string;
+  parameters: EngineParameters;
+  matchesReplayed: number;
+  clubsRated: number;
+  ratingsWritten: number;
+  firstMatchDate: string | null;
+  lastMatchDate: string | null;
+}
+
+/**
+ * Internal database row (NOT exported from index.ts)
+ */
+export interface MatchResultRow {
+  fixture_id: number;
+  match_date: Date;
+  home_club_id: number;
+  away_club_id: number;
+  home_goals: number;
+  away_goals: number;
+}
@@ -0,0 +1,173 @@
+/**
+ * Simulation Engine Tests
+ *
+ * Unit tests for the seedable RNG and the league and knockout Monte Carlo
+ * loops.
+ */
+
+import {
+  createRng,
+  playTie,
+  sampleOutcome,
+  simulateBracket,
+  simulateLeague,
+  SimulatedMatch,
+  SimulatedTeam,
+} from "../simulations.engine";
+
+function team(clubId: number, points = 0, goalDifference = 0): SimulatedTeam {
+  return { clubId, points, goalDifference };
+}
+
+function match(
+  homeClubId: number,
+  awayClubId: number,
+  homeWin: number,
+  draw: number,
+  awayWin: number
+): SimulatedMatch {
+  return { homeClubId, awayClubId, predictions: { homeWin, draw, awayWin } };
+}
+
+describe("Simulation Engine", () => {
+  describe("createRng", () => {
+    it("should repeat the same sequence for the same seed", () => {
+      const a = createRng(42);
+      const b = createRng(42);
+
+      const first = [a(), a(), a()];
+      expect([b(), b(), b()]).toEqual(first);
+      expect(first.every((value) => value >= 0 && value < 1)).toBe(true);
+    });
+
+    it("should produce different sequences for different seeds", () => {
+      expect(createRng(1)()).not.toBe(createRng(2)());
+    });
+  });
+
+  describe("sampleOutcome", () => {
+    it("should always pick a certain outcome", () => {
+      const rng = createRng(7);
+
+      for (let i = 0; i < 20; i++) {
+        expect(sampleOutcome({ homeWin: 0, draw: 1, awayWin: 0 }, rng)).toBe(
+          "draw"
+        );
+      }
+    });
+  });
+
+  describe("simulateLeague", () => {
+    it("should be deterministic for a fixed seed", () => {
+      const teams = [team(1), team(2), team(3)];
+      const matches = [
+        match(1, 2, 0.5, 0.3, 0.2),
+        match(2, 3, 0.4, 0.3, 0.3),
+        match(3, 1, 0.3, 0.3, 0.4),
+      ];
+
+      const first = simulateLeague(teams, matches, 500, createRng(123));
+      const second = simulateLeague(teams, matches, 500, createRng(123));
+
+      expect(second).toEqual(first);
+    });
+
+    it("should count every iteration once per position", () => {
+      const teams = [team(1), team(2), team(3), team(4)];
+      const matches = [
+        match(1, 2, 0.45, 0.3, 0.25),
+        match(3, 4, 0.45, 0.3, 0.25),
+      ];
+
+      const { positionCounts } = simulateLeague(
+        teams,
+        matches,
+        200,
+        createRng(9)
+      );
+
+      for (let position = 0; position < teams.length; position++) {
+        const total = positionCounts.reduce(
+          (sum, row) => sum + row[position],
+          0
+        );
+        expect(total).toBe(200);
+      }
+    });
+
+    it("should crown a club that cannot be caught", () => {
+      const teams = [team(1, 30), team(2, 20), team(3, 10)];
+      const matches = [match(2, 3, 1, 0, 0)];
+
+      const { positionCounts, pointsTotals } = simulateLeague(
+        teams,
+        matches,
+        100,
+        createRng(5)
+      );
+
+      expect(positionCounts[0][0]).toBe(100);
+      expect(positionCounts[1][1]).toBe(100);
+      expect(pointsTotals[1]).toBe(2300);
+    });
+
+    it("should break points ties on current goal difference", () => {
+      const teams = [team(1, 10, -5), team(2, 10, 8)];
+
+      const { positionCounts } = simulateLeague(teams, [], 10, createRng(1));
+
+      expect(positionCounts[1][0]).toBe(10);
+    });
+  });
+
+  describe("playTie", () => {
+    const homeAlwaysWins = () => ({ homeWin: 1, draw: 0, awayWin: 0 });
+
+    it("should send the single-match winner through", () => {
+      const round = { legs: 1 as const, neutral: false };
+
+      expect(playTie(4, 5, round, homeAlwaysWins, createRng(1))).toBe(4);
+    });
+
+    it("should settle shared legs in the second leg", () => {
+      // Each club wins its home leg, so the tie goes to extra time
+      const round = { legs: 2 as const, neutral: false };
+
+      expect(playTie(0, 1, round, homeAlwaysWins, createRng(1))).toBe(1);
+    });
+  });
+
+  describe("simulateBracket", () => {
+    const rounds = [
+      { legs: 2 as const, neutral: false },
+      { legs: 1 as const, neutral: true },
+    ];
+    // Lower slot numbers are always stronger
+    const predict = (home: number, away: number) =>
+      home < away
+        ? { homeWin: 0.6, draw: 0.25, awayWin: 0.15 }
+        : { homeWin: 0.3, draw: 0.3, awayWin: 0.4 };
+
+    it("should put every club in the first round", () => {
+      const { reachCounts, winnerCounts } = simulateBracket(
+        4,
+        rounds,
+        predict,
+        300,
+        createRng(11)
+      );
+
+      expect(reachCounts.map((row) => row[0])).toEqual([300, 300, 300, 300]);
+      expect(reachCounts.reduce((sum, row) => sum + row[1], 0)).toBe(600);
+      expect(winnerCounts.reduce((sum, count) => sum + count, 0)).toBe(300);
+    });
+
+    it("should favour the strongest club and be reproducible", () => {
+      const first = simulateBracket(4, rounds, predict, 2000, createRng(8));
+      const second = simulateBracket(4, rounds, predict, 2000, createRng(8));
+
+      expect(second).toEqual(first);
+      expect(first.winnerCounts[0]).toBe(Math.max(...first.winnerCounts));
+    });
+  });
+});
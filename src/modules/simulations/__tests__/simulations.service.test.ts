@@ -0,0 +1,105 @@
+/**
+ * Simulations Service Tests
+ *
+ * Checks how the league roster is built. The repository, the snapshot days
+ * and club lookups are mocked.
+ */
+
+import * as simulationsService from "../simulations.service";
+import * as simulationsRepo from "../simulations.repository";
+import { dataGapsService } from "../../data-gaps";
+import { clubsService } from "../../clubs";
+import type { Club } from "../../clubs";
+
+jest.mock("../simulations.repository");
+jest.mock("../../data-gaps", () => ({
+  dataGapsService: { findSnapshotDays: jest.fn() },
+}));
+jest.mock("../../clubs", () => ({
+  clubsService: { getClub: jest.fn() },
+}));
+
+const mockRepo = simulationsRepo as jest.Mocked<typeof simulationsRepo>;
+const mockGaps = dataGapsService as jest.Mocked<typeof dataGapsService>;
+const mockClubs = clubsService as jest.Mocked<typeof clubsService>;
+
+function club(id: number, apiName: string, level = 1): Club {
+  return { id, apiName, displayName: apiName, country: "ENG", level };
+}
+
+const REQUEST = {
+  country: "ENG",
+  level: 1,
+  from: "2024-11-22",
+  iterations: 10,
+  seed: 1,
+};
+
+describe("Simulations Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGaps.findSnapshotDays.mockResolvedValue([
+      "2024-11-19",
+      "2024-11-20",
+      "2024-11-25",
+    ]);
+    mockRepo.findRemainingFixtures.mockResolvedValue([]);
+  });
+
+  describe("simulateLeague", () => {
+    it("should list the clubs rated in the league on the last snapshot before the start", async () => {
+      mockRepo.findLeagueClubs.mockResolvedValueOnce([
+        club(1, "Arsenal"),
+        club(2, "Ipswich"),
+      ]);
+      mockRepo.findLatestRatings.mockResolvedValueOnce(
+        new Map([
+          [1, 1950],
+          [2, 1600],
+        ])
+      );
+
+      const result = await simulationsService.simulateLeague(REQUEST);
+
+      expect(mockRepo.findLeagueClubs).toHaveBeenCalledWith({
+        country: "ENG",
+        level: 1,
+        date: "2024-11-20",
+        source: "clubelo",
+      });
+      expect(result.standings.map((s) => s.club.apiName).sort()).toEqual([
+        "Arsenal",
+        "Ipswich",
+      ]);
+    });
+
+    it("should add clubs that only appear in fixtures", async () => {
+      mockRepo.findLeagueClubs.mockResolvedValueOnce([club(1, "Arsenal")]);
+      mockRepo.findRemainingFixtures.mockResolvedValueOnce([
+        { id: 10, matchDate: "2024-11-23", homeClubId: 1, awayClubId: 3 },
+      ]);
+      mockClubs.getClub.mockResolvedValueOnce(club(3, "Leeds", 2));
+      mockRepo.findLatestRatings.mockResolvedValueOnce(
+        new Map([
+          [1, 1950],
+          [3, 1700],
+        ])
+      );
+
+      const result = await simulationsService.simulateLeague(REQUEST);
+
+      expect(mockClubs.getClub).toHaveBeenCalledWith(3);
+      expect(result.standings).toHaveLength(2);
+      expect(result.fixtures).toBe(1);
+    });
+
+    it("should return 404 when the league has no clubs", async () => {
+      mockGaps.findSnapshotDays.mockResolvedValueOnce(["2024-12-01"]);
+
+      await expect(
+        simulationsService.simulateLeague(REQUEST)
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockRepo.findLeagueClubs).not.toHaveBeenCalled();
+    });
+  });
+});
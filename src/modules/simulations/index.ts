@@ -0,0 +1,25 @@
+/**
+ * Simulations Module - Public API
+ *
+ * BARREL FILE - Controls what this module exposes.
+ *
+ * This module runs Monte Carlo simulations driven by Elo ratings.
+ */
+
+// Export routes (for server.ts to mount)
+export { default as simulationsRoutes } from "./simulations.routes";
+
+// Export types (for other modules to use)
+export type {
+  TableEntry,
+  LeagueSimulationRequest,
+  LeagueStanding,
+  LeagueSimulationResponse,
+  BracketRound,
+  BracketSimulationRequest,
+  BracketClubOdds,
+  BracketSimulationResponse,
+} from "./simulations.types";
+
+// Export service (for programmatic access)
+export * as simulationsService from "./simulations.service";
@@ -0,0 +1,270 @@
+/**
+ * Simulation Engine
+ *
+ * PURE FUNCTIONS - Monte Carlo league and knockout simulation from match
+ * probabilities.
+ * No database or HTTP access here.
+ */
+
+import type { MatchPredictions } from "../fixtures";
+
+/**
+ * Random number generator returning values in [0, 1)
+ */
+export type Rng = () => number;
+
+/**
+ * Club entering the simulation with its current standing
+ */
+export interface SimulatedTeam {
+  clubId: number;
+  points: number;
+  goalDifference: number;
+}
+
+/**
+ * Remaining match with its home/draw/away probabilities
+ */
+export interface SimulatedMatch {
+  homeClubId: number;
+  awayClubId: number;
+  predictions: MatchPredictions;
+}
+
+/**
+ * Aggregated simulation output, indexed like the input teams
+ */
+export interface LeagueSimulationTotals {
+  positionCounts: number[][]; // [team][position] = times finished there
+  pointsTotals: number[]; // Sum of final points across iterations
+}
+
+/**
+ * Format of one knockout round
+ */
+export interface KnockoutRound {
+  legs: 1 | 2;
+  neutral: boolean;
+}
+
+/**
+ * Probabilities for a match between two bracket slots
+ */
+export type SlotPredictor = (
+  home: number,
+  away: number,
+  neutral: boolean
+) => MatchPredictions;
+
+/**
+ * Aggregated bracket output, indexed by bracket slot
+ */
+export interface BracketSimulationTotals {
+  reachCounts: number[][]; // [slot][round] = times the club played that round
+  winnerCounts: number[];
+}
+
+/**
+ * Seedable pseudo-random generator (mulberry32)
+ *
+ * Fast, 32-bit state and good enough for Monte Carlo. The same seed always
+ * produces the same sequence, which keeps simulations reproducible.
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a home/draw/away outcome for one match
+ */
+export function sampleOutcome(
+  predictions: MatchPredictions,
+  rng: Rng
+): "home" | "draw" | "away" {
+  const home = predictions.homeWin ?? 0;
+  const draw = predictions.draw ?? 0;
+  const away = predictions.awayWin ?? 0;
+  const r = rng() * (home + draw + away);
+
+  if (r < home) return "home";
+  if (r < home + draw) return "draw";
+  return "away";
+}
+
+/**
+ * Play out the remaining matches many times and tally finishing positions
+ *
+ * Each iteration awards 3 points for a win and 1 for a draw, then ranks
+ * clubs by points, then current goal difference, then at random.
+ *
+ * @param teams - Every club in the league with its current standing
+ * @param matches - Remaining matches between those clubs
+ * @param iterations - Number of simulated seasons
+ * @param rng - Random number generator (use createRng for reproducibility)
+ */
+export function simulateLeague(
+  teams: SimulatedTeam[],
+  matches: SimulatedMatch[],
+  iterations: number,
+  rng: Rng
+): LeagueSimulationTotals {
+  const indexById = new Map(teams.map((team, i) => [team.clubId, i]));
+  const positionCounts = teams.map(() => new Array(teams.length).fill(0));
+  const pointsTotals = new Array(teams.length).fill(0);
+
+  const fixtures = matches.map((match) => ({
+    home: indexById.get(match.homeClubId)!,
+    away: indexById.get(match.awayClubId)!,
+    predictions: match.predictions,
+  }));
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const points = teams.map((team) => team.points);
+
+    for (const fixture of fixtures) {
+      const outcome = sampleOutcome(fixture.predictions, rng);
+
+      if (outcome === "home") {
+        points[fixture.home] += 3;
+      } else if (outcome === "away") {
+        points[fixture.away] += 3;
+      } else {
+        points[fixture.home] += 1;
+        points[fixture.away] += 1;
+      }
+    }
+
+    const tieBreak = teams.map(() => rng());
+    const order = teams
+      .map((_, i) => i)
+      .sort(
+        (a, b) =>
+          points[b] - points[a] ||
+          teams[b].goalDifference - teams[a].goalDifference ||
+          tieBreak[b] - tieBreak[a]
+      );
+
+    order.forEach((teamIndex, position) => {
+      positionCounts[teamIndex][position]++;
+      pointsTotals[teamIndex] += points[teamIndex];
+    });
+  }
+
+  return { positionCounts, pointsTotals };
+}
+
+/**
+ * Settle a level match or tie (extra time and penalties)
+ *
+ * The home side goes through in proportion to its share of the decisive
+ * win probabilities, so a stronger or home club is still favoured.
+ */
+function settleLevel(
+  predictions: MatchPredictions,
+  rng: Rng
+): "home" | "away" {
+  const home = predictions.homeWin ?? 0;
+  const away = predictions.awayWin ?? 0;
+
+  if (home + away <= 0) {
+    return rng() < 0.5 ? "home" : "away";
+  }
+
+  return rng() * (home + away) < home ? "home" : "away";
+}
+
+/**
+ * Play one knockout tie and return the winning slot
+ *
+ * A two-legged tie goes to the club that wins more legs. If the legs are
+ * shared it is settled as if in extra time of the second leg.
+ *
+ * @param first - Slot at home (in the first leg)
+ * @param second - Slot away (at home in the second leg)
+ */
+export function playTie(
+  first: number,
+  second: number,
+  round: KnockoutRound,
+  predict: SlotPredictor,
+  rng: Rng
+): number {
+  if (round.legs === 1) {
+    const predictions = predict(first, second, round.neutral);
+    const outcome = sampleOutcome(predictions, rng);
+    const winner =
+      outcome === "draw" ? settleLevel(predictions, rng) : outcome;
+
+    return winner === "home" ? first : second;
+  }
+
+  const firstLeg = predict(first, second, round.neutral);
+  const secondLeg = predict(second, first, round.neutral);
+
+  let balance = 0; // Legs won by first minus legs won by second
+  const firstOutcome = sampleOutcome(firstLeg, rng);
+  const secondOutcome = sampleOutcome(secondLeg, rng);
+  if (firstOutcome === "home") balance++;
+  if (firstOutcome === "away") balance--;
+  if (secondOutcome === "home") balance--;
+  if (secondOutcome === "away") balance++;
+
+  if (balance > 0) return first;
+  if (balance < 0) return second;
+  return settleLevel(secondLeg, rng) === "home" ? second : first;
+}
+
+/**
+ * Play a knockout bracket many times and tally how far each club goes
+ *
+ * Slots 0 v 1, 2 v 3, ... meet in the first round. Winners of neighbouring
+ * ties meet in the next round, keeping the earlier tie's winner at home.
+ *
+ * @param slots - Number of clubs (2^rounds)
+ * @param rounds - Format of each round, first round first
+ * @param predict - Match probabilities between two slots
+ * @param iterations - Number of simulated tournaments
+ * @param rng - Random number generator (use createRng for reproducibility)
+ */
+export function simulateBracket(
+  slots: number,
+  rounds: KnockoutRound[],
+  predict: SlotPredictor,
+  iterations: number,
+  rng: Rng
+): BracketSimulationTotals {
+  const reachCounts = Array.from({ length: slots }, () =>
+    new Array(rounds.length).fill(0)
+  );
+  const winnerCounts = new Array(slots).fill(0);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let remaining = Array.from({ length: slots }, (_, i) => i);
+
+    rounds.forEach((round, roundIndex) => {
+      const winners: number[] = [];
+
+      for (let i = 0; i < remaining.length; i += 2) {
+        reachCounts[remaining[i]][roundIndex]++;
+        reachCounts[remaining[i + 1]][roundIndex]++;
+        winners.push(
+          playTie(remaining[i], remaining[i + 1], round, predict, rng)
+        );
+      }
+
+      remaining = winners;
+    });
+
+    winnerCounts[remaining[0]]++;
+  }
+
+  return { reachCounts, winnerCounts };
+}
@@ -0,0 +1,122 @@
+/**
+ * Simulations Repository
+ *
+ * DATA ACCESS LAYER - All SQL for simulations is isolated here.
+ *
+ * RULE: No business logic here - only database operations.
+ */
+
+import { db } from "../../shared/database/connection";
+import { formatDateOnly } from "../../shared/utils/date-formatter";
+import {
+  LeagueClubRow,
+  RemainingFixture,
+  RemainingFixtureRow,
+} from "./simulations.types";
+import type { Club } from "../clubs";
+
+/**
+ * Find league fixtures on or after a date that still have to be played
+ *
+ * A fixture is remaining when it has no result yet, or was postponed or
+ * abandoned. Both clubs must be at the given level.
+ */
+export async function findRemainingFixtures(options: {
+  country: string;
+  level: number;
+  fromDate: string;
+  competition?: string;
+}): Promise<RemainingFixture[]> {
+  const params: any[] = [options.country, options.level, options.fromDate];
+  const whereClauses = [
+    "f.country = $1",
+    "f.home_level = $2",
+    "f.away_level = $2",
+    "f.match_date >= $3",
+    "(r.status IS NULL OR r.status IN ('postponed', 'abandoned'))",
+  ];
+
+  if (options.competition) {
+    whereClauses.push(`f.competition ILIKE $${params.length + 1}`);
+    params.push(`%${options.competition}%`);
+  }
+
+  const query = `
+    SELECT f.id, f.match_date, f.home_club_id, f.away_club_id
+    FROM fixtures f
+    LEFT JOIN results r ON r.fixture_id = f.id
+    WHERE ${whereClauses.join(" AND ")}
+    ORDER BY f.match_date ASC, f.id ASC
+  `;
+
+  const result = await db.query<RemainingFixtureRow>(query, params);
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    matchDate: formatDateOnly(row.match_date)!,
+    homeClubId: row.home_club_id,
+    awayClubId: row.away_club_id,
+  }));
+}
+
+/**
+ * Find the clubs rated in a league on a snapshot day
+ *
+ * Country and level come from the rating, so a club that has since moved
+ * division is listed in the league it played in on that day.
+ */
+export async function findLeagueClubs(options: {
+  country: string;
+  level: number;
+  date: string;
+  source: string;
+}): Promise<Club[]> {
+  const query = `
+    SELECT c.id, c.api_name, c.display_name, r.country, r.level
+    FROM elo_ratings r
+    JOIN clubs c ON c.id = r.club_id
+    WHERE r.date = $1 AND r.source = $2 AND r.country = $3 AND r.level = $4
+    ORDER BY c.id
+  `;
+
+  const result = await db.query<LeagueClubRow>(query, [
+    options.date,
+    options.source,
+    options.country,
+    options.level,
+  ]);
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    apiName: row.api_name,
+    displayName: row.display_name,
+    country: row.country,
+    level: row.level,
+  }));
+}
+
+/**
+ * Find each club's latest rating on or before a date
+ *
+ * Clubs without a rating from this source are missing from the map.
+ */
+export async function findLatestRatings(
+  clubIds: number[],
+  date: string,
+  source: string
+): Promise<Map<number, number>> {
+  const query = `
+    SELECT DISTINCT ON (club_id) club_id, elo
+    FROM elo_ratings
+    WHERE source = $1 AND club_id = ANY($2) AND date <= $3
+    ORDER BY club_id, date DESC
+  `;
+
+  const result = await db.query<{ club_id: number; elo: string }>(query, [
+    source,
+    clubIds,
+    date,
+  ]);
+
+  return new Map(result.rows.map((row) => [row.club_id, parseFloat(row.elo)]));
+}
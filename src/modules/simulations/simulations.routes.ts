@@ -0,0 +1,91 @@
+/**
+ * Simulations Routes
+ *
+ * API LAYER - Express route handlers for Monte Carlo simulations.
+ * Mounted under /api/elo/simulations.
+ *
+ * RULE: No business logic here - delegate to service layer.
+ */
+
+import { Router, Request, Response } from "express";
+import * as simulationsService from "./simulations.service";
+import {
+  BracketSimulationRequest,
+  LeagueSimulationRequest,
+} from "./simulations.types";
+import { asyncHandler } from "../../shared/middleware/error-handler";
+import { validateBody } from "../../shared/middleware/validation";
+import {
+  bracketSimulationSchema,
+  leagueSimulationSchema,
+} from "../../shared/validation/schemas";
+
+const router = Router();
+
+/**
+ * POST /api/elo/simulations/league
+ *
+ * Simulate the rest of a league season and return each club's probability
+ * of finishing in every position, plus title, European places and
+ * relegation.
+ *
+ * JSON body:
+ *   - country: Country code (required)
+ *   - level: League level (required)
+ *   - competition: Restrict fixtures to one competition, optional
+ *   - from: First fixture date and ratings date (YYYY-MM-DD), optional. Defaults to today.
+ *   - source: Rating source, optional. Defaults to "clubelo".
+ *   - iterations: Number of simulated seasons (1-100000), optional. Defaults to 10000.
+ *   - seed: Random seed for reproducible results, optional
+ *   - europeanPlaces / relegationPlaces: Optional. Default to 4 and 3.
+ *   - table: Current [{ club, points, goalDifference }], optional
+ *
+ * Example:
+ *   POST /api/elo/simulations/league
+ *   { "country": "ENG", "level": 1, "seed": 42,
+ *     "table": [{ "club": "Arsenal", "points": 29, "goalDifference": 16 }] }
+ */
+router.post(
+  "/league",
+  validateBody(leagueSimulationSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const request: LeagueSimulationRequest = req.validated;
+
+    const result = await simulationsService.simulateLeague(request);
+    res.json(result);
+  })
+);
+
+/**
+ * POST /api/elo/simulations/bracket
+ *
+ * Simulate a knockout bracket and return each club's probability of
+ * reaching every round and of winning the final.
+ *
+ * JSON body:
+ *   - clubs: Club IDs or API names in bracket order (2, 4, 8, ... entries).
+ *     1st v 2nd, 3rd v 4th, ...; the first club of a tie is at home.
+ *   - rounds: [{ name, legs: 1 | 2, neutral }] per round, optional.
+ *     Defaults to single matches with a neutral-venue final.
+ *   - date: Ratings date (YYYY-MM-DD), optional. Defaults to today.
+ *   - source: Rating source, optional. Defaults to "clubelo".
+ *   - iterations: Number of simulated tournaments (1-100000), optional. Defaults to 10000.
+ *   - seed: Random seed for reproducible results, optional
+ *
+ * Example:
+ *   POST /api/elo/simulations/bracket
+ *   { "clubs": ["RealMadrid", "ManCity", "Arsenal", "Bayern"],
+ *     "rounds": [{ "legs": 2 }, { "neutral": true }], "seed": 7 }
+ */
+router.post(
+  "/bracket",
+  validateBody(bracketSimulationSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const request: BracketSimulationRequest = req.validated;
+
+    const result = await simulationsService.simulateBracket(request);
+    res.json(result);
+  })
+);
+
+export default router;
@@ -0,0 +1,365 @@
+/**
+ * Simulations Service
+ *
+ * BUSINESS LOGIC LAYER - Loads clubs, ratings and fixtures, then runs the
+ * Monte Carlo engine.
+ *
+ * RULE: No SQL here - only business logic and orchestration.
+ */
+
+import * as simulationsRepo from "./simulations.repository";
+import {
+  createRng,
+  simulateLeague as runLeague,
+  simulateBracket as runBracket,
+} from "./simulations.engine";
+import {
+  BracketRound,
+  BracketSimulationRequest,
+  BracketSimulationResponse,
+  LeagueSimulationRequest,
+  LeagueSimulationResponse,
+  LeagueStanding,
+  TableEntry,
+} from "./simulations.types";
+import { clubsService } from "../clubs";
+import type { Club } from "../clubs";
+import { dataGapsService } from "../data-gaps";
+import { matchProbabilities } from "../fixtures";
+import type { MatchPredictions } from "../fixtures";
+import { ApiError } from "../../shared/middleware/error-handler";
+import { getToday } from "../../shared/utils/date-formatter";
+import { logger } from "../../shared/utils/logger";
+
+const DEFAULT_ITERATIONS = 10000;
+const DEFAULT_EUROPEAN_PLACES = 4;
+const DEFAULT_RELEGATION_PLACES = 3;
+
+/**
+ * Simulate the rest of a league season
+ *
+ * The league is every club rated at the country and level on the latest
+ * snapshot day on or before the start date, plus every club in a remaining
+ * fixture. Each fixture is played out with probabilities from each club's
+ * latest rating on or before the start date. Ratings stay fixed within a
+ * simulated season.
+ *
+ * @param request - League, current table and simulation settings
+ * @returns Each club's probability of finishing in every position
+ * @throws ApiError if the league has no clubs or a fixture club has no rating
+ */
+export async function simulateLeague(
+  request: LeagueSimulationRequest
+): Promise<LeagueSimulationResponse> {
+  const date = request.from || getToday();
+  const source = request.source || "clubelo";
+  const iterations = request.iterations ?? DEFAULT_ITERATIONS;
+  const seed = request.seed ?? Math.floor(Math.random() * 2 ** 32);
+  const europeanPlaces = request.europeanPlaces ?? DEFAULT_EUROPEAN_PLACES;
+  const relegationPlaces =
+    request.relegationPlaces ?? DEFAULT_RELEGATION_PLACES;
+
+  const [leagueClubs, fixtures] = await Promise.all([
+    findLeagueClubs(request.country, request.level, date, source),
+    simulationsRepo.findRemainingFixtures({
+      country: request.country,
+      level: request.level,
+      fromDate: date,
+      competition: request.competition,
+    }),
+  ]);
+
+  // Fixtures can reference clubs missing from the snapshot
+  const clubs = new Map(leagueClubs.map((club) => [club.id, club]));
+  for (const fixture of fixtures) {
+    for (const clubId of [fixture.homeClubId, fixture.awayClubId]) {
+      if (!clubs.has(clubId)) {
+        clubs.set(clubId, await clubsService.getClub(clubId));
+      }
+    }
+  }
+
+  if (clubs.size === 0) {
+    throw new ApiError(
+      404,
+      `No clubs found for ${request.country} level ${request.level}`
+    );
+  }
+
+  const ratings = await simulationsRepo.findLatestRatings(
+    [...clubs.keys()],
+    date,
+    source
+  );
+
+  const unrated = [...clubs.values()].filter((club) => !ratings.has(club.id));
+  if (unrated.length > 0) {
+    throw new ApiError(
+      404,
+      `No ${source} rating on or before ${date} for: ${unrated
+        .map((club) => club.apiName)
+        .join(", ")}`
+    );
+  }
+
+  const table = resolveTable(request.table || [], [...clubs.values()]);
+
+  logger.info("Simulating league", {
+    country: request.country,
+    level: request.level,
+    clubs: clubs.size,
+    fixtures: fixtures.length,
+    iterations,
+    seed,
+  });
+
+  const teams = [...clubs.values()].map((club) => ({
+    clubId: club.id,
+    points: table.get(club.id)?.points ?? 0,
+    goalDifference: table.get(club.id)?.goalDifference ?? 0,
+  }));
+
+  const matches = fixtures.map((fixture) => ({
+    homeClubId: fixture.homeClubId,
+    awayClubId: fixture.awayClubId,
+    predictions: matchProbabilities(
+      ratings.get(fixture.homeClubId)!,
+      ratings.get(fixture.awayClubId)!
+    ),
+  }));
+
+  const totals = runLeague(teams, matches, iterations, createRng(seed));
+  const lastPosition = teams.length - 1;
+
+  const standings: LeagueStanding[] = teams.map((team, i) => {
+    const positions = totals.positionCounts[i].map((count) =>
+      round(count / iterations)
+    );
+    const share = (from: number, to: number) =>
+      round(
+        totals.positionCounts[i]
+          .slice(from, to)
+          .reduce((sum, count) => sum + count, 0) / iterations
+      );
+
+    return {
+      club: clubs.get(team.clubId)!,
+      elo: ratings.get(team.clubId)!,
+      points: team.points,
+      goalDifference: team.goalDifference,
+      expectedPoints:
+        Math.round((totals.pointsTotals[i] / iterations) * 100) / 100,
+      positions,
+      title: positions[0],
+      european: share(0, europeanPlaces),
+      relegation: share(
+        Math.max(lastPosition + 1 - relegationPlaces, 0),
+        lastPosition + 1
+      ),
+    };
+  });
+
+  standings.sort(
+    (a, b) => b.expectedPoints - a.expectedPoints || b.elo - a.elo
+  );
+
+  return {
+    country: request.country,
+    level: request.level,
+    competition: request.competition || null,
+    date,
+    source,
+    iterations,
+    seed,
+    fixtures: fixtures.length,
+    europeanPlaces,
+    relegationPlaces,
+    standings,
+  };
+}
+
+/**
+ * Clubs in a league on the latest snapshot day on or before a date
+ *
+ * Days that only hold imported club history ratings are skipped, as they
+ * list a few clubs rather than the whole league.
+ */
+async function findLeagueClubs(
+  country: string,
+  level: number,
+  date: string,
+  source: string
+): Promise<Club[]> {
+  const snapshots = await dataGapsService.findSnapshotDays(source);
+  const snapshot = snapshots.filter((day) => day <= date).pop();
+
+  if (!snapshot) {
+    return [];
+  }
+
+  return simulationsRepo.findLeagueClubs({
+    country,
+    level,
+    date: snapshot,
+    source,
+  });
+}
+
+/**
+ * Simulate a knockout bracket
+ *
+ * Clubs are looked up by ID or API name and rated with their latest rating
+ * on or before the given date.
+ *
+ * @param request - Clubs in bracket order, round formats and settings
+ * @returns Each club's probability of reaching every round and winning
+ * @throws ApiError if a club is unknown, listed twice or has no rating
+ */
+export async function simulateBracket(
+  request: BracketSimulationRequest
+): Promise<BracketSimulationResponse> {
+  const date = request.date || getToday();
+  const source = request.source || "clubelo";
+  const iterations = request.iterations ?? DEFAULT_ITERATIONS;
+  const seed = request.seed ?? Math.floor(Math.random() * 2 ** 32);
+  const roundCount = Math.log2(request.clubs.length);
+
+  if (!Number.isInteger(roundCount) || roundCount < 1) {
+    throw new ApiError(400, "A bracket needs 2, 4, 8, 16, ... clubs");
+  }
+
+  const rounds = (request.rounds || defaultRounds(roundCount)).map(
+    (round, i) => ({
+      name: round.name || roundName(request.clubs.length / 2 ** i),
+      legs: round.legs ?? 1,
+      neutral: round.neutral ?? false,
+    })
+  );
+
+  if (rounds.length !== roundCount) {
+    throw new ApiError(
+      400,
+      `${request.clubs.length} clubs need ${roundCount} rounds, ` +
+        `got ${rounds.length}`
+    );
+  }
+
+  const clubs = await Promise.all(
+    request.clubs.map((identifier) => clubsService.getClub(identifier))
+  );
+
+  const ids = clubs.map((club) => club.id);
+  const duplicate = clubs.find((club, i) => ids.indexOf(club.id) !== i);
+  if (duplicate) {
+    throw new ApiError(400, `${duplicate.apiName} appears more than once`);
+  }
+
+  const ratings = await simulationsRepo.findLatestRatings(ids, date, source);
+
+  const unrated = clubs.filter((club) => !ratings.has(club.id));
+  if (unrated.length > 0) {
+    throw new ApiError(
+      404,
+      `No ${source} rating on or before ${date} for: ${unrated
+        .map((club) => club.apiName)
+        .join(", ")}`
+    );
+  }
+
+  logger.info("Simulating bracket", {
+    clubs: clubs.length,
+    rounds: rounds.length,
+    iterations,
+    seed,
+  });
+
+  const elos = clubs.map((club) => ratings.get(club.id)!);
+  const cache = new Map<string, MatchPredictions>();
+  const predict = (home: number, away: number, neutral: boolean) => {
+    const key = `${home}:${away}:${neutral}`;
+    if (!cache.has(key)) {
+      cache.set(key, matchProbabilities(elos[home], elos[away], neutral));
+    }
+    return cache.get(key)!;
+  };
+
+  const totals = runBracket(
+    clubs.length,
+    rounds,
+    predict,
+    iterations,
+    createRng(seed)
+  );
+
+  return {
+    date,
+    source,
+    iterations,
+    seed,
+    rounds,
+    clubs: clubs.map((club, i) => ({
+      club,
+      elo: elos[i],
+      reach: totals.reachCounts[i].map((count) => round(count / iterations)),
+      winner: round(totals.winnerCounts[i] / iterations),
+    })),
+  };
+}
+
+/**
+ * Single-match rounds with a neutral-venue final
+ */
+function defaultRounds(count: number): BracketRound[] {
+  return Array.from({ length: count }, (_, i) => ({
+    legs: 1 as const,
+    neutral: i === count - 1,
+  }));
+}
+
+/**
+ * Conventional name for a round with this many clubs left
+ */
+function roundName(clubsLeft: number): string {
+  if (clubsLeft === 2) return "Final";
+  if (clubsLeft === 4) return "Semi-finals";
+  if (clubsLeft === 8) return "Quarter-finals";
+  return `Round of ${clubsLeft}`;
+}
+
+/**
+ * Match table entries to league clubs by ID or API name
+ *
+ * @throws ApiError if an entry names a club outside the league
+ */
+function resolveTable(
+  entries: TableEntry[],
+  clubs: Club[]
+): Map<number, { points: number; goalDifference: number }> {
+  const table = new Map<number, { points: number; goalDifference: number }>();
+
+  for (const entry of entries) {
+    const club = clubs.find((c) =>
+      typeof entry.club === "number"
+        ? c.id === entry.club
+        : c.apiName === entry.club || String(c.id) === entry.club
+    );
+
+    if (!club) {
+      throw new ApiError(400, `Club ${entry.club} is not in this league`);
+    }
+
+    table.set(club.id, {
+      points: entry.points,
+      goalDifference: entry.goalDifference ?? 0,
+    });
+  }
+
+  return table;
+}
+
+/**
+ * Round to 4 decimal places for the API response
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
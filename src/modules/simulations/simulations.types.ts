@@ -0,0 +1,139 @@
+/**
+ * Simulations Module - Type Definitions
+ *
+ * DTOs for Monte Carlo simulations. These are the PUBLIC CONTRACT.
+ */
+
+import type { Club } from "../clubs";
+
+/**
+ * Current league table entry supplied by the caller
+ */
+export interface TableEntry {
+  club: number | string; // Club ID or API name
+  points: number;
+  goalDifference?: number; // Used as the first tie-breaker
+}
+
+/**
+ * League simulation request
+ */
+export interface LeagueSimulationRequest {
+  country: string;
+  level: number;
+  competition?: string; // Restrict remaining fixtures to one competition
+  from?: string; // YYYY-MM-DD, fixtures on/after this date. Defaults to today.
+  source?: string; // Rating source, defaults to "clubelo"
+  iterations?: number;
+  seed?: number; // Same seed + same inputs = same result
+  europeanPlaces?: number; // Top N positions, defaults to 4
+  relegationPlaces?: number; // Bottom N positions, defaults to 3
+  table?: TableEntry[]; // Current points. Clubs not listed start on 0.
+}
+
+/**
+ * One club's simulated finishing distribution
+ */
+export interface LeagueStanding {
+  club: Club;
+  elo: number;
+  points: number; // Current points
+  goalDifference: number; // Current goal difference
+  expectedPoints: number; // Mean final points
+  positions: number[]; // positions[i] = probability of finishing (i + 1)th
+  title: number;
+  european: number;
+  relegation: number;
+}
+
+/**
+ * League simulation response
+ */
+export interface LeagueSimulationResponse {
+  country: string;
+  level: number;
+  competition: string | null;
+  date: string; // YYYY-MM-DD ratings date and first fixture date
+  source: string;
+  iterations: number;
+  seed: number;
+  fixtures: number; // Remaining matches simulated
+  europeanPlaces: number;
+  relegationPlaces: number;
+  standings: LeagueStanding[]; // Sorted by expected points
+}
+
+/**
+ * Format of one knockout round
+ */
+export interface BracketRound {
+  name?: string; // Defaults to "Round of 16", "Quarter-finals", ...
+  legs?: 1 | 2; // Defaults to 1
+  neutral?: boolean; // No home advantage (e.g. a final). Defaults to false.
+}
+
+/**
+ * Knockout bracket simulation request
+ *
+ * Clubs are listed in bracket order: 1st v 2nd, 3rd v 4th and so on, with
+ * winners of neighbouring ties meeting in the next round. The first club
+ * of a tie is at home (in the first leg of a two-legged tie).
+ */
+export interface BracketSimulationRequest {
+  clubs: (number | string)[]; // Club IDs or API names, 2^rounds entries
+  rounds?: BracketRound[]; // Defaults to single matches with a neutral final
+  date?: string; // YYYY-MM-DD ratings date. Defaults to today.
+  source?: string; // Rating source, defaults to "clubelo"
+  iterations?: number;
+  seed?: number; // Same seed + same inputs = same result
+}
+
+/**
+ * One club's simulated progress through the bracket
+ */
+export interface BracketClubOdds {
+  club: Club;
+  elo: number;
+  reach: number[]; // reach[i] = probability of playing in rounds[i]
+  winner: number; // Probability of winning the final
+}
+
+/**
+ * Knockout bracket simulation response
+ */
+export interface BracketSimulationResponse {
+  date: string; // YYYY-MM-DD ratings date
+  source: string;
+  iterations: number;
+  seed: number;
+  rounds: { name: string; legs: 1 | 2; neutral: boolean }[];
+  clubs: BracketClubOdds[]; // Bracket order
+}
+
+/**
+ * Fixture still to be played (repository result)
+ */
+export interface RemainingFixture {
+  id: number;
+  matchDate: string; // YYYY-MM-DD
+  homeClubId: number;
+  awayClubId: number;
+}
+
+/**
+ * Internal database row types (NOT exported from index.ts)
+ */
+export interface RemainingFixtureRow {
+  id: number;
+  match_date: Date;
+  home_club_id: number;
+  away_club_id: number;
+}
+
+export interface LeagueClubRow {
+  id: number;
+  api_name: string;
+  display_name: string;
+  country: string;
+  level: number;
+}
@@ -0,0 +1,127 @@
+#!/usr/bin/env tsx
+
+/**
+ * Run the ClubElo stub server for local development
+ *
+ * Serves recorded CSV files the way the ClubElo API does, so the importers
+ * and cron routes can run without the network. Start it, then point
+ * CLUBELO_API_BASE at the URL it prints.
+ *
+ * Usage:
+ *   npm run stub:clubelo
+ *   npm run stub:clubelo -- --port=3100 --dir=test-data/clubelo
+ *   npm run stub:clubelo -- --fault=503:/2025-11-18 --fault=timeout:/fixtures
+ *
+ * Options:
+ *   --port=<N>              Port to listen on (defaults to 3100)
+ *   --dir=<path>            Directory of recorded CSV files (defaults to test-data/clubelo)
+ *   --fault=<kind>[:<path>] Inject a fault on every request (or only for <path>).
+ *                           <kind> is a 5xx status code, "timeout" or "malformed".
+ *                           Repeat for several faults.
+ *
+ * Stop it with Ctrl+C.
+ */
+
+import fs from 'fs';
+// Imported directly, not through the barrel, so no database is needed
+import {
+  startClubEloStub,
+  StubFault,
+} from '../modules/external-data/clubelo-stub-server';
+
+const USAGE =
+  'Usage: npm run stub:clubelo -- [--port=3100] [--dir=test-data/clubelo] [--fault=503:/2025-11-18]';
+
+/**
+ * Print an error with usage and exit
+ */
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+/**
+ * Parse "503", "timeout" or "malformed", optionally followed by ":<path>"
+ */
+function parseFault(value: string): StubFault {
+  const separator = value.indexOf(':');
+  const kind = separator === -1 ? value : value.substring(0, separator);
+  const path = separator === -1 ? undefined : value.substring(separator + 1);
+
+  if (path !== undefined && !path.startsWith('/')) {
+    fail('--fault path must start with /');
+  }
+
+  if (kind === 'timeout' || kind === 'malformed') {
+    return { kind, path };
+  }
+
+  const status = parseInt(kind, 10);
+  if (isNaN(status) || status < 500 || status > 599) {
+    fail('--fault must be a 5xx status, timeout or malformed');
+  }
+  return { kind: 'error', status, path };
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(): { port: number; dir: string; faults: StubFault[] } {
+  const args = process.argv.slice(2);
+  let port = 3100;
+  let dir = 'test-data/clubelo';
+  const faults: StubFault[] = [];
+
+  for (const arg of args) {
+    if (arg.startsWith('--port=')) {
+      port = parseInt(arg.substring('--port='.length), 10);
+      if (isNaN(port) || port < 1 || port > 65535) {
+        fail('--port must be between 1 and 65535');
+      }
+    } else if (arg.startsWith('--dir=')) {
+      dir = arg.substring('--dir='.length);
+    } else if (arg.startsWith('--fault=')) {
+      faults.push(parseFault(arg.substring('--fault='.length)));
+    } else {
+      fail(`Unknown option ${arg}`);
+    }
+  }
+
+  if (!fs.existsSync(dir)) {
+    fail(`Directory not found: ${dir}`);
+  }
+
+  return { port, dir, faults };
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('=== ClubElo Stub Server ===\n');
+
+  const { port, dir, faults } = parseArgs();
+  const stub = await startClubEloStub({ dir, port, faults });
+
+  console.log(`Serving ${dir} at ${stub.url}`);
+  for (const fault of faults) {
+    const what = fault.kind === 'error' ? `HTTP ${fault.status}` : fault.kind;
+    console.log(`Fault: ${what} for ${fault.path ?? 'every request'}`);
+  }
+  console.log(`\nRun imports against it with CLUBELO_API_BASE=${stub.url}`);
+
+  const shutdown = async () => {
+    console.log(`\nStopping after ${stub.requests.length} requests`);
+    await stub.close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('\n❌ Stub server failed:', error);
+  process.exit(1);
+});
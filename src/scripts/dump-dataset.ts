@@ -0,0 +1,71 @@
+#!/usr/bin/env tsx
+
+/**
+ * Dump the full dataset to a directory
+ *
+ * This script writes every dataset table (clubs and their aliases and
+ * profiles, ratings, fixtures and results) as one NDJSON file per table,
+ * plus a manifest.json with row counts, SHA-256 checksums, the schema
+ * version and the latest snapshot date. Restore it with `npm run restore`.
+ *
+ * Usage:
+ *   npm run dump -- --out=dumps/2025-11-23
+ *   tsx src/scripts/dump-dataset.ts --out=dumps/latest
+ *
+ * The output directory must not already contain a dump.
+ */
+
+import { datasetService } from '../modules/dataset';
+import { db } from '../shared/database/connection';
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(): { out: string } {
+  const args = process.argv.slice(2);
+  let out = '';
+
+  for (const arg of args) {
+    if (arg.startsWith('--out=')) {
+      out = arg.substring('--out='.length);
+    }
+  }
+
+  if (!out) {
+    console.error('Error: Output directory is required');
+    console.error('Usage: npm run dump -- --out=dumps/latest');
+    process.exit(1);
+  }
+
+  return { out };
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('=== Dataset Dump ===\n');
+
+  const { out } = parseArgs();
+
+  try {
+    console.log(`Dumping dataset to ${out}...`);
+    const manifest = await datasetService.dumpDataset(out);
+
+    console.log('\n=== Summary ===');
+    console.log(`Schema version: ${manifest.schemaVersion}`);
+    console.log(`Latest snapshot: ${manifest.latestSnapshotDate ?? 'none'}`);
+    for (const table of manifest.tables) {
+      console.log(`${table.name}: ${table.rows} rows (${table.file})`);
+    }
+
+  } catch (error) {
+    console.error('\n❌ Dump failed:', error);
+    process.exit(1);
+  } finally {
+    await db.end();
+  }
+}
+
+// Run the script
+main();
@@ -1,14 +1,25 @@
 #!/usr/bin/env tsx
 
 /**
- * Import full Elo history for a single club
+ * Import full Elo history for a single club, or for every club
  *
- * This script fetches the complete rating history for one club from the ClubElo API
- * and imports all of it into the database.
+ * This script fetches the complete rating history for one club from the rating
+ * source (RATING_SOURCE, the ClubElo API by default) and imports all of it into
+ * the database. With --all it does the same for every
+ * club in the latest snapshot (or the clubs table), one club at a time.
  *
  * Usage:
  *   npm run import:clubelo:club -- --club="ManCity"
  *   tsx src/scripts/import-club.ts --club="Liverpool"
+ *   npm run import:clubelo:club -- --all
+ *   npm run import:clubelo:club -- --all --list=clubs --delay=2000
+ *
+ * Options for --all:
+ *   --list=snapshot|clubs  Clubs in the latest snapshot (default) or the clubs table.
+ *                          With no stored snapshot, yesterday's ClubElo snapshot is used.
+ *   --delay=<ms>           Pause between API requests (defaults to 1000)
+ *   --limit=<N>            Only import the first N clubs
+ *   --force                Re-import clubs whose history is already complete
  *
  * The script will:
  * 1. Fetch CSV data from http://api.clubelo.com/<ClubName>
@@ -16,80 +27,206 @@
  * 3. Create or update all historical Elo ratings for that club
  *
  * It's safe to run multiple times - it will just update existing data.
+ * Each club import is recorded in the import_runs ledger.
  *
  * Use this for:
  * - Backfilling complete history for specific clubs
- * - Testing the import system
+ * - Seeding a fresh database with every club's history (--all)
  * - Getting detailed historical data before you have daily snapshots
  */
 
-import { fetchClubHistory } from '../lib/clubelo-api';
-import { importClubHistory } from '../lib/importer';
-import { db } from '../lib/db';
+import {
+  dataImporter,
+  getRatingSource,
+  historyBatch,
+  ClubListSource,
+} from '../modules/external-data';
+import { importRunsService } from '../modules/import-runs';
+import { db } from '../shared/database/connection';
+
+type Args =
+  | { mode: 'single'; club: string }
+  | {
+      mode: 'all';
+      list: ClubListSource;
+      delayMs: number;
+      limit?: number;
+      force: boolean;
+    };
+
+/**
+ * Print an error with usage and exit
+ */
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  console.error('Usage: npm run import:clubelo:club -- --club="ManCity"');
+  console.error('       npm run import:clubelo:club -- --all [--list=snapshot|clubs] [--delay=1000]');
+  console.error('\nExamples:');
+  console.error('  --club="ManCity"');
+  console.error('  --club="Liverpool"');
+  console.error('  --all --limit=20');
+  process.exit(1);
+}
 
 /**
  * Parse command-line arguments
  */
-function parseArgs(): { club: string } {
+function parseArgs(): Args {
   const args = process.argv.slice(2);
   let club = '';
+  let all = false;
+  let list: ClubListSource = 'snapshot';
+  let delayMs = 1000;
+  let limit: number | undefined;
+  let force = false;
 
   for (const arg of args) {
     if (arg.startsWith('--club=')) {
       club = arg.substring('--club='.length);
+    } else if (arg === '--all') {
+      all = true;
+    } else if (arg.startsWith('--list=')) {
+      const value = arg.substring('--list='.length);
+      if (value !== 'snapshot' && value !== 'clubs') {
+        fail('--list must be snapshot or clubs');
+      }
+      list = value;
+    } else if (arg.startsWith('--delay=')) {
+      delayMs = parseInt(arg.substring('--delay='.length), 10);
+      if (isNaN(delayMs) || delayMs < 0) {
+        fail('--delay must be a non-negative number of milliseconds');
+      }
+    } else if (arg.startsWith('--limit=')) {
+      limit = parseInt(arg.substring('--limit='.length), 10);
+      if (isNaN(limit) || limit < 1) {
+        fail('--limit must be a positive number');
+      }
+    } else if (arg === '--force') {
+      force = true;
     }
   }
 
+  if (all && club) {
+    fail('Use either --club or --all, not both');
+  }
+
+  if (all) {
+    return { mode: 'all', list, delayMs, limit, force };
+  }
+
   if (!club) {
-    console.error('Error: Club name is required');
-    console.error('Usage: npm run import:clubelo:club -- --club="ManCity"');
-    console.error('\nExamples:');
-    console.error('  --club="ManCity"');
-    console.error('  --club="Liverpool"');
-    console.error('  --club="RealMadrid"');
-    process.exit(1);
+    fail('Club name is required');
   }
 
-  return { club };
+  return { mode: 'single', club };
 }
 
 /**
- * Main function
+ * Import one club and show its summary
  */
-async function main() {
-  console.log('=== ClubElo Club History Importer ===\n');
+async function importSingle(club: string) {
+  const source = getRatingSource();
+  const run = await importRunsService.trackImportRun(
+    { type: 'club', trigger: 'cli', parameters: { club, source: source.name } },
+    async () => {
+      // Step 1: Fetch data from the rating source
+      console.log(`Fetching full history for "${club}" from ${source.name}...`);
+      const rows = await source.fetchClubHistory(club);
 
-  const { club } = parseArgs();
+      if (rows.length === 0) {
+        return { fetched: 0, imported: 0, errors: 0, errorSamples: [] };
+      }
 
-  try {
-    // Step 1: Fetch data from ClubElo API
-    console.log(`Fetching full history for "${club}"...`);
-    const rows = await fetchClubHistory(club);
-
-    if (rows.length === 0) {
-      console.warn('Warning: No data returned from API');
-      console.warn('Make sure the club name is correct (case-sensitive)');
-      return;
+      // Step 2: Import into database
+      const stats = await dataImporter.importClubHistory(rows, club, source.name);
+
+      return {
+        fetched: rows.length,
+        imported: stats.success,
+        errors: stats.errors,
+        errorSamples: stats.errorSamples,
+      };
     }
+  );
+
+  if (run.fetched === 0) {
+    console.warn('Warning: No data returned from API');
+    console.warn('Make sure the club name is correct (case-sensitive)');
+    return;
+  }
 
-    // Step 2: Import into database
-    await importClubHistory(rows, club);
+  // Step 3: Show summary for this club
+  console.log('\n=== Summary ===');
+  console.log(`Import run: ${run.runId ?? 'not recorded'}`);
+  const clubResult = await db.query(
+    'SELECT id, display_name, country FROM clubs WHERE api_name = $1',
+    [club]
+  );
 
-    // Step 3: Show summary for this club
-    console.log('\n=== Summary ===');
-    const clubResult = await db.query(
-      'SELECT id, display_name, country FROM clubs WHERE api_name = $1',
-      [club]
+  if (clubResult.rows.length > 0) {
+    const clubRecord = clubResult.rows[0];
+    const ratingCountResult = await db.query(
+      'SELECT COUNT(*) FROM elo_ratings WHERE club_id = $1',
+      [clubRecord.id]
     );
+    console.log(`Club: ${clubRecord.display_name} (${clubRecord.country})`);
+    console.log(`Historical ratings imported: ${ratingCountResult.rows[0].count}`);
+  }
+}
+
+/**
+ * Import every listed club and report per-club stats
+ */
+async function importAll(args: Extract<Args, { mode: 'all' }>) {
+  console.log(`Listing clubs from ${args.list === 'clubs' ? 'the clubs table' : 'the latest snapshot'}...`);
+
+  const summary = await historyBatch.importAllClubHistories(
+    {
+      list: args.list,
+      delayMs: args.delayMs,
+      limit: args.limit,
+      force: args.force,
+    },
+    (result, index, total) => {
+      const position = `[${index + 1}/${total}]`;
+      if (result.status === 'imported') {
+        console.log(`${position} ${result.club}: ${result.ratings} ratings, ${result.errors} errors`);
+      } else if (result.status === 'failed') {
+        console.log(`${position} ${result.club}: failed (${result.error})`);
+      } else {
+        console.log(`${position} ${result.club}: ${result.status}`);
+      }
+    }
+  );
+
+  console.log('\n=== Summary ===');
+  console.log(`Snapshot date: ${summary.date}`);
+  console.log(`Clubs imported: ${summary.imported}`);
+  console.log(`Clubs skipped (already complete): ${summary.skipped}`);
+  console.log(`Clubs with no data: ${summary.empty}`);
+  console.log(`Clubs failed: ${summary.failed}`);
+  console.log(`Ratings imported: ${summary.clubs.reduce((sum, club) => sum + club.ratings, 0)}`);
+
+  if (summary.failed > 0) {
+    console.log(`Failed clubs: ${summary.clubs.filter((c) => c.status === 'failed').map((c) => c.club).join(', ')}`);
+    console.log('Run the same command again to retry them.');
+    process.exitCode = 1;
+  }
+}
 
-    if (clubResult.rows.length > 0) {
-      const clubRecord = clubResult.rows[0];
-      const ratingCountResult = await db.query(
-        'SELECT COUNT(*) FROM elo_ratings WHERE club_id = $1',
-        [clubRecord.id]
-      );
-      console.log(`Club: ${clubRecord.display_name} (${clubRecord.country})`);
-      console.log(`Historical ratings imported: ${ratingCountResult.rows[0].count}`);
+/**
+ * Main function
+ */
+async function main() {
+  console.log('=== ClubElo Club History Importer ===\n');
+
+  const args = parseArgs();
+
+  try {
+    if (args.mode === 'all') {
+      await importAll(args);
+    } else {
+      await importSingle(args.club);
     }
 
   } catch (error) {
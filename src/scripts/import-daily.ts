@@ -3,8 +3,9 @@
 /**
  * Import daily snapshot of club ratings
  *
- * This script fetches all club ratings for a specific date from the ClubElo API
- * and imports them into the database.
+ * This script fetches all club ratings for a specific date from the rating
+ * source (RATING_SOURCE, the ClubElo API by default) and imports them into
+ * the database.
  *
  * Usage:
  *   npm run import:clubelo -- --date=2025-11-18
@@ -16,11 +17,12 @@
  * 3. Create or update Elo ratings for that date
  *
  * It's safe to run multiple times - it will just update existing data.
+ * Each run is recorded in the import_runs ledger.
  */
 
-import { fetchDailySnapshot } from '../lib/clubelo-api';
-import { importDailySnapshot } from '../lib/importer';
-import { db } from '../lib/db';
+import { dataImporter, getRatingSource } from '../modules/external-data';
+import { importRunsService } from '../modules/import-runs';
+import { db } from '../shared/database/connection';
 
 /**
  * Parse command-line arguments
@@ -60,23 +62,42 @@ async function main() {
   console.log('=== ClubElo Daily Snapshot Importer ===\n');
 
   const { date } = parseArgs();
+  const source = getRatingSource();
 
   try {
-    // Step 1: Fetch data from ClubElo API
-    console.log(`Fetching snapshot for ${date}...`);
-    const rows = await fetchDailySnapshot(date);
+    const run = await importRunsService.trackImportRun(
+      { type: 'daily', trigger: 'cli', parameters: { date, source: source.name } },
+      async () => {
+        // Step 1: Fetch data from the rating source
+        console.log(`Fetching snapshot for ${date} from ${source.name}...`);
+        const rows = await source.fetchDailySnapshot(date);
 
-    if (rows.length === 0) {
+        if (rows.length === 0) {
+          return { fetched: 0, imported: 0, errors: 0, errorSamples: [] };
+        }
+
+        // Step 2: Import into database
+        const snapshotDate = new Date(date);
+        const stats = await dataImporter.importDailySnapshot(rows, snapshotDate, source.name);
+
+        return {
+          fetched: rows.length,
+          imported: stats.success,
+          errors: stats.errors,
+          errorSamples: stats.errorSamples,
+        };
+      }
+    );
+
+    if (run.fetched === 0) {
       console.warn('Warning: No data returned from API');
       return;
     }
 
-    // Step 2: Import into database
-    const snapshotDate = new Date(date);
-    await importDailySnapshot(rows, snapshotDate);
-
     // Step 3: Show summary
     console.log('\n=== Summary ===');
+    console.log(`Import run: ${run.runId ?? 'not recorded'}`);
+    console.log(`Ratings imported: ${run.imported} (${run.errors} rejected rows)`);
     const clubCountResult = await db.query('SELECT COUNT(*) FROM clubs');
     const ratingCountResult = await db.query('SELECT COUNT(*) FROM elo_ratings');
     console.log(`Total clubs in database: ${clubCountResult.rows[0].count}`);
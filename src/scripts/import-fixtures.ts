@@ -3,17 +3,21 @@
 /**
  * Import fixtures (upcoming matches) with predictions
  *
- * This script fetches upcoming match fixtures from the ClubElo API
- * with Elo-based win/draw/loss probabilities.
+ * This script fetches upcoming match fixtures from the rating source
+ * (RATING_SOURCE, the ClubElo API by default) with Elo-based win/draw/loss
+ * probabilities.
  *
  * Usage:
  *   npm run import:fixtures
  *   npm run import:fixtures -- --date=2025-11-20
  *   tsx src/scripts/import-fixtures.ts --date=2025-11-20
+ *
+ * Each run is recorded in the import_runs ledger.
  */
 
-import { importFixtures } from '../lib/fixtures-importer';
-import { db } from '../lib/db';
+import { fixturesImporter, getRatingSource } from '../modules/external-data';
+import { importRunsService } from '../modules/import-runs';
+import { db } from '../shared/database/connection';
 
 /**
  * Parse command-line arguments
@@ -41,16 +45,47 @@ function parseArgs(): { date?: string } {
 // Run the script
 async function main() {
   const { date } = parseArgs();
+  const source = getRatingSource();
+
+  console.log('=== ClubElo Fixtures Importer ===\n');
 
   try {
-    await importFixtures(date);
+    const run = await importRunsService.trackImportRun(
+      { type: 'fixtures', trigger: 'cli', parameters: { date: date ?? null, source: source.name } },
+      async () => {
+        // Step 1: Fetch fixtures from the rating source
+        console.log(date ? `Fetching fixtures for ${date}...` : 'Fetching upcoming fixtures...');
+        const rows = await source.fetchFixtures(date);
+
+        if (rows.length === 0) {
+          return { fetched: 0, imported: 0, errors: 0, errorSamples: [] };
+        }
+
+        // Step 2: Import into database
+        const stats = await fixturesImporter.importFixtures(rows, source.name);
+
+        return {
+          fetched: rows.length,
+          imported: stats.success,
+          errors: stats.errors,
+          errorSamples: stats.errorSamples,
+        };
+      }
+    );
+
+    if (run.fetched === 0) {
+      console.warn('Warning: No fixtures returned from API');
+    }
 
     // Show summary
     console.log('\n=== Summary ===');
+    console.log(`Import run: ${run.runId ?? 'not recorded'}`);
+    console.log(`Fixtures imported: ${run.imported} (${run.errors} errors)`);
     const fixtureCountResult = await db.query('SELECT COUNT(*) FROM fixtures');
     console.log(`Total fixtures in database: ${fixtureCountResult.rows[0].count}`);
 
   } catch (error) {
+    console.error('\n❌ Import failed:', error);
     process.exit(1);
   } finally {
     await db.end();
@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+
+/**
+ * Import match results from a local results feed
+ *
+ * This script reads final scores from a CSV or JSON file and attaches them
+ * to fixtures already stored in the database.
+ *
+ * Usage:
+ *   npm run import:results -- --file=data/results.csv
+ *   tsx src/scripts/import-results.ts --file=data/results.json --source=manual
+ *
+ * CSV columns (JSON objects use the same keys):
+ *   Date,HomeTeam,AwayTeam,HomeGoals,AwayGoals,Status,ExtraTime,Penalties
+ *   2025-11-23,ManCity,Liverpool,2,1,finished,false,false
+ *
+ * Teams use ClubElo API names. Import the fixtures first - rows without a
+ * matching fixture are reported as unmatched.
+ *
+ * It's safe to run multiple times - it will just update existing results.
+ */
+
+import { resultsImporter } from '../modules/external-data';
+import { db } from '../shared/database/connection';
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(): { file: string; source: string } {
+  const args = process.argv.slice(2);
+  let file = '';
+  let source = 'local';
+
+  for (const arg of args) {
+    if (arg.startsWith('--file=')) {
+      file = arg.substring('--file='.length);
+    } else if (arg.startsWith('--source=')) {
+      source = arg.substring('--source='.length);
+    }
+  }
+
+  if (!file) {
+    console.error('Error: Results file is required');
+    console.error('Usage: npm run import:results -- --file=data/results.csv');
+    process.exit(1);
+  }
+
+  return { file, source };
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('=== Match Results Importer ===\n');
+
+  const { file, source } = parseArgs();
+
+  try {
+    // Step 1: Read the results feed
+    console.log(`Reading results from ${file}...`);
+    const rows = resultsImporter.readResultsFile(file);
+
+    if (rows.length === 0) {
+      console.warn('Warning: Results file is empty');
+      return;
+    }
+
+    // Step 2: Import into database
+    const stats = await resultsImporter.importResults(rows, source);
+
+    // Step 3: Show summary
+    console.log('\n=== Summary ===');
+    console.log(`Results imported: ${stats.success}`);
+    console.log(`Unmatched (no fixture): ${stats.unmatched}`);
+    console.log(`Errors: ${stats.errors}`);
+
+  } catch (error) {
+    console.error('\n❌ Import failed:', error);
+    process.exit(1);
+  } finally {
+    await db.end();
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,129 @@
+#!/usr/bin/env tsx
+
+/**
+ * Apply, roll back or list schema migrations
+ *
+ * Migrations are the numbered up/down SQL files in migrations/. Applied
+ * versions are recorded in the schema_migrations table.
+ *
+ * Usage:
+ *   npm run migrate:status
+ *   npm run migrate:up
+ *   npm run migrate:up -- --to=3
+ *   npm run migrate:down
+ *   npm run migrate:down -- --steps=2
+ *
+ * Options:
+ *   --to=<version>  (up) Stop after this version
+ *   --steps=<n>     (down) Number of migrations to roll back (default 1)
+ *
+ * Running up on a database created before migrations existed is safe -
+ * the early migrations only create what is missing.
+ */
+
+import {
+  formatMigration,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+} from '../shared/database/migrations';
+import { db } from '../shared/database/connection';
+
+type Command = 'status' | 'up' | 'down';
+
+/**
+ * Parse a positive integer option or exit with usage
+ */
+function parsePositive(value: string, name: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 1) {
+    console.error(`Error: ${name} must be a positive integer`);
+    console.error('Usage: npm run migrate:up -- --to=3 | npm run migrate:down -- --steps=2');
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(): { command: Command; to?: number; steps: number } {
+  const [command, ...args] = process.argv.slice(2);
+  let to: number | undefined;
+  let steps = 1;
+
+  if (command !== 'status' && command !== 'up' && command !== 'down') {
+    console.error('Error: Command must be status, up or down');
+    console.error('Usage: tsx src/scripts/migrate.ts <status|up|down> [--to=N] [--steps=N]');
+    process.exit(1);
+  }
+
+  for (const arg of args) {
+    if (arg.startsWith('--to=')) {
+      to = parsePositive(arg.substring('--to='.length), '--to');
+    } else if (arg.startsWith('--steps=')) {
+      steps = parsePositive(arg.substring('--steps='.length), '--steps');
+    }
+  }
+
+  return { command, to, steps };
+}
+
+/**
+ * Print every migration and whether it has been applied
+ */
+async function printStatus() {
+  const status = await getMigrationStatus();
+
+  for (const migration of status.migrations) {
+    const state = migration.appliedAt
+      ? `applied ${migration.appliedAt.toISOString()}`
+      : 'pending';
+    const modified = migration.modified ? ' (modified since applied)' : '';
+    console.log(`${formatMigration(migration)}  ${state}${modified}`);
+  }
+
+  for (const migration of status.unknown) {
+    console.log(`${formatMigration(migration)}  applied, but no migration file`);
+  }
+
+  console.log(`\nPending: ${status.pending.length}`);
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('=== Schema Migrations ===\n');
+
+  const { command, to, steps } = parseArgs();
+
+  try {
+    if (command === 'status') {
+      await printStatus();
+    } else if (command === 'up') {
+      const applied = await migrateUp({ to });
+      console.log(
+        applied.length > 0
+          ? `\n✅ Applied ${applied.length} migration(s)`
+          : 'Schema is up to date'
+      );
+    } else {
+      const rolledBack = await migrateDown({ steps });
+      console.log(
+        rolledBack.length > 0
+          ? `\n✅ Rolled back ${rolledBack.map(formatMigration).join(', ')}`
+          : 'No migrations to roll back'
+      );
+    }
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await db.end();
+  }
+}
+
+// Run the script
+main();
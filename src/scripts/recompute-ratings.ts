@@ -0,0 +1,96 @@
+#!/usr/bin/env tsx
+
+/**
+ * Recompute internal Elo ratings from stored match results
+ *
+ * This script replays every row in the results table in date order and
+ * rewrites the ratings stored with source = 'internal'.
+ *
+ * Usage:
+ *   npm run ratings:recompute
+ *   npm run ratings:recompute -- --k=30 --home-advantage=80
+ *   tsx src/scripts/recompute-ratings.ts --no-goal-diff
+ *
+ * Options (default to the ELO_* environment variables):
+ *   --k=<number>               K-factor
+ *   --home-advantage=<number>  Elo points added to the home side
+ *   --initial=<number>         Rating for clubs without a ClubElo seed
+ *   --no-goal-diff             Disable the goal-difference multiplier
+ *
+ * It's safe to run multiple times - each run replaces the previous one.
+ */
+
+import { ratingsEngine, EngineParameters } from '../modules/ratings-engine';
+import { db } from '../shared/database/connection';
+
+/**
+ * Parse a numeric option or exit with usage
+ */
+function parseNumber(value: string, name: string): number {
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed < 0) {
+    console.error(`Error: ${name} must be a non-negative number`);
+    console.error('Usage: npm run ratings:recompute -- --k=20 --home-advantage=65');
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(): Partial<EngineParameters> {
+  const args = process.argv.slice(2);
+  const overrides: Partial<EngineParameters> = {};
+
+  for (const arg of args) {
+    if (arg.startsWith('--k=')) {
+      overrides.kFactor = parseNumber(arg.substring('--k='.length), '--k');
+    } else if (arg.startsWith('--home-advantage=')) {
+      overrides.homeAdvantage = parseNumber(
+        arg.substring('--home-advantage='.length),
+        '--home-advantage'
+      );
+    } else if (arg.startsWith('--initial=')) {
+      overrides.initialRating = parseNumber(
+        arg.substring('--initial='.length),
+        '--initial'
+      );
+    } else if (arg === '--no-goal-diff') {
+      overrides.goalDiffMultiplier = false;
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('=== Internal Elo Ratings Engine ===\n');
+
+  const overrides = parseArgs();
+
+  try {
+    const summary = await ratingsEngine.recomputeRatings(overrides);
+
+    console.log('\n=== Summary ===');
+    console.log(`Parameters: ${JSON.stringify(summary.parameters)}`);
+    console.log(`Matches replayed: ${summary.matchesReplayed}`);
+    console.log(`Clubs rated: ${summary.clubsRated}`);
+    console.log(`Ratings written: ${summary.ratingsWritten}`);
+    if (summary.firstMatchDate) {
+      console.log(`Period: ${summary.firstMatchDate} to ${summary.lastMatchDate}`);
+    }
+
+  } catch (error) {
+    console.error('\n❌ Recompute failed:', error);
+    process.exit(1);
+  } finally {
+    await db.end();
+  }
+}
+
+// Run the script
+main();
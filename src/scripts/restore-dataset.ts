@@ -0,0 +1,85 @@
+#!/usr/bin/env tsx
+
+/**
+ * Restore the full dataset from a dump directory
+ *
+ * This script checks every file against the manifest written by
+ * `npm run dump`, then loads every table in the dump in a single
+ * transaction, keeping their IDs.
+ *
+ * Usage:
+ *   npm run restore -- --in=dumps/2025-11-23
+ *   tsx src/scripts/restore-dataset.ts --in=dumps/latest --replace
+ *
+ * Options:
+ *   --replace                Empty the tables first (default: refuse unless empty)
+ *   --ignore-schema-version  Restore a dump taken from a different schema
+ */
+
+import { datasetService } from '../modules/dataset';
+import { db } from '../shared/database/connection';
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(): {
+  input: string;
+  replace: boolean;
+  ignoreSchemaVersion: boolean;
+} {
+  const args = process.argv.slice(2);
+  let input = '';
+  let replace = false;
+  let ignoreSchemaVersion = false;
+
+  for (const arg of args) {
+    if (arg.startsWith('--in=')) {
+      input = arg.substring('--in='.length);
+    } else if (arg === '--replace') {
+      replace = true;
+    } else if (arg === '--ignore-schema-version') {
+      ignoreSchemaVersion = true;
+    }
+  }
+
+  if (!input) {
+    console.error('Error: Dump directory is required');
+    console.error('Usage: npm run restore -- --in=dumps/latest [--replace]');
+    process.exit(1);
+  }
+
+  return { input, replace, ignoreSchemaVersion };
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('=== Dataset Restore ===\n');
+
+  const { input, replace, ignoreSchemaVersion } = parseArgs();
+
+  try {
+    console.log(`Restoring dataset from ${input}...`);
+    const summary = await datasetService.restoreDataset(input, {
+      replace,
+      ignoreSchemaVersion,
+    });
+
+    console.log('\n=== Summary ===');
+    console.log(`Dump created: ${summary.manifest.createdAt}`);
+    console.log(`Latest snapshot: ${summary.manifest.latestSnapshotDate ?? 'none'}`);
+    for (const [table, rows] of Object.entries(summary.rows)) {
+      console.log(`${table}: ${rows} rows`);
+    }
+
+  } catch (error) {
+    console.error('\n❌ Restore failed:', error);
+    process.exit(1);
+  } finally {
+    await db.end();
+  }
+}
+
+// Run the script
+main();
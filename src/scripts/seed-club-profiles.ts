@@ -0,0 +1,73 @@
+#!/usr/bin/env tsx
+
+/**
+ * Load club profiles from a seed file
+ *
+ * This script reads full and short names, cities, stadiums, founding
+ * years, colours and crest paths from a CSV or JSON file and stores them
+ * in club_profiles. Without --file it loads data/club-profiles.json.
+ *
+ * Usage:
+ *   npm run seed:profiles
+ *   npm run seed:profiles -- --file=data/club-profiles.csv
+ *
+ * CSV columns (JSON objects use the same keys):
+ *   club,fullName,shortName,city,stadium,foundedYear,primaryColor,secondaryColor,crestPath
+ *   ManCity,Manchester City FC,Man City,Manchester,Etihad Stadium,1880,#6CABDD,#1C2C5B,/crests/mancity.svg
+ *
+ * Clubs must already be imported; unknown names are listed and skipped.
+ * It's safe to run multiple times - each run replaces the seeded profiles.
+ */
+
+import {
+  clubsService,
+  readClubProfilesFile,
+  DEFAULT_PROFILES_FILE,
+} from '../modules/clubs';
+import { db } from '../shared/database/connection';
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(): { file: string } {
+  let file = DEFAULT_PROFILES_FILE;
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg.startsWith('--file=')) {
+      file = arg.substring('--file='.length);
+    }
+  }
+
+  return { file };
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('=== Club Profile Seeder ===\n');
+
+  const { file } = parseArgs();
+
+  try {
+    console.log(`Reading club profiles from ${file}...`);
+    const seeds = readClubProfilesFile(file);
+
+    const summary = await clubsService.seedClubProfiles(seeds);
+
+    console.log('\n=== Summary ===');
+    console.log(`Profiles seeded: ${summary.seeded}`);
+    if (summary.unknownClubs.length > 0) {
+      console.log(`No club found for: ${summary.unknownClubs.join(', ')}`);
+    }
+
+  } catch (error) {
+    console.error('\n❌ Seeding failed:', error);
+    process.exit(1);
+  } finally {
+    await db.end();
+  }
+}
+
+// Run the script
+main();
@@ -20,12 +20,20 @@ import * as openApiSpec from "../openapi.json";
 import { config } from "./shared/config/environment";
 import { logger } from "./shared/utils/logger";
 import { errorHandler } from "./shared/middleware/error-handler";
+import { requireCurrentSchema } from "./shared/middleware/schema-check";
+import { assertSchemaUpToDate } from "./shared/database/migrations";
 
 // Domain module routes
 import { rankingsRoutes } from "./modules/rankings";
-import { clubsRoutes } from "./modules/clubs";
-import { fixturesRoutes } from "./modules/fixtures";
+import { clubsRoutes, clubAdminRoutes } from "./modules/clubs";
+import { fixturesRoutes, predictionsRoutes } from "./modules/fixtures";
 import { cronRoutes } from "./modules/external-data";
+import { ratingsEngineRoutes } from "./modules/ratings-engine";
+import { predictorRoutes } from "./modules/predictor";
+import { simulationsRoutes } from "./modules/simulations";
+import { countriesRoutes } from "./modules/countries";
+import { importRunsRoutes } from "./modules/import-runs";
+import { dataGapsRoutes } from "./modules/data-gaps";
 
 const app = express();
 
@@ -62,13 +70,28 @@ app.get("/health", (req: Request, res: Response) => {
 // API ROUTES (MODULAR)
 // ============================================================================
 
+// Serverless deployments never call start(), so check the schema here too
+if (!config.isTest) {
+  app.use("/api", requireCurrentSchema());
+}
+
 // Mount domain routes
 app.use("/api/elo/rankings", rankingsRoutes);
 app.use("/api/elo/clubs", clubsRoutes);
 app.use("/api/elo/fixtures", fixturesRoutes);
+app.use("/api/elo/predictions", predictionsRoutes);
+app.use("/api/elo/predict", predictorRoutes);
+app.use("/api/elo/simulations", simulationsRoutes);
+app.use("/api/elo/countries", countriesRoutes);
 
 // Mount cron routes (protected by CRON_SECRET)
 app.use("/api/cron", cronRoutes);
+app.use("/api/cron", ratingsEngineRoutes);
+
+// Mount admin routes (protected by CRON_SECRET)
+app.use("/api/admin/imports", importRunsRoutes);
+app.use("/api/admin/data-gaps", dataGapsRoutes);
+app.use("/api/admin/clubs", clubAdminRoutes);
 
 // ============================================================================
 // STATIC FILE SERVING
@@ -96,8 +119,17 @@ app.use(errorHandler);
 // Export app for testing
 export default app;
 
-// Start server (only if not in test mode and not on Vercel)
-if (!config.isTest && !config.isVercel) {
+/**
+ * Start listening once the database schema is up to date
+ */
+async function start(): Promise<void> {
+  try {
+    await assertSchemaUpToDate();
+  } catch (error) {
+    logger.error("Refusing to start", { error: (error as Error).message });
+    process.exit(1);
+  }
+
   const PORT = config.port;
 
   app.listen(PORT, () => {
@@ -106,13 +138,31 @@ if (!config.isTest && !config.isVercel) {
     console.log("\nAvailable endpoints:");
     console.log("  GET  /health");
     console.log(
-      "  GET  /api/elo/rankings?date=YYYY-MM-DD&country=ENG&limit=100",
+      "  GET  /api/elo/rankings?date=YYYY-MM-DD&country=ENG&source=clubelo&limit=100",
+    );
+    console.log(
+      "  GET  /api/elo/rankings/movers?from=YYYY-MM-DD&to=YYYY-MM-DD&country=ENG",
     );
     console.log(
-      "  GET  /api/elo/clubs/:id/history?from=YYYY-MM-DD&to=YYYY-MM-DD",
+      "  GET  /api/elo/clubs/:id/history?from=YYYY-MM-DD&to=YYYY-MM-DD&source=internal",
     );
+    console.log("  GET  /api/elo/clubs/:id/compare/:otherId?from=YYYY-MM-DD");
     console.log("  GET  /api/elo/clubs?q=search&country=ENG&limit=100");
+    console.log("  GET  /api/elo/clubs/resolve?name=Bodo%20Glimt");
+    console.log("  GET  /api/elo/clubs/:id");
+    console.log("  GET  /api/elo/clubs/profiles");
+    console.log("  GET  /api/elo/countries?date=YYYY-MM-DD&topN=5");
+    console.log("  GET  /api/elo/countries/:code/strength?date=YYYY-MM-DD");
     console.log("  GET  /api/elo/fixtures?date=YYYY-MM-DD&country=ENG");
+    console.log("  GET  /api/elo/fixtures/:id");
+    console.log(
+      "  GET  /api/elo/predict?home=ManCity&away=Liverpool&date=YYYY-MM-DD&neutral=false",
+    );
+    console.log("  POST /api/elo/simulations/league");
+    console.log("  POST /api/elo/simulations/bracket");
+    console.log(
+      "  GET  /api/elo/predictions/calibration?from=YYYY-MM-DD&country=ENG",
+    );
 
     if (!config.isProduction) {
       logger.info(`API Documentation: http://localhost:${PORT}/api/docs`);
@@ -121,3 +171,8 @@ if (!config.isTest && !config.isVercel) {
     console.log("");
   });
 }
+
+// Start server (only if not in test mode and not on Vercel)
+if (!config.isTest && !config.isVercel) {
+  start();
+}
@@ -0,0 +1,182 @@
+/**
+ * Response Cache Tests
+ *
+ * Unit tests for the LRU backend, key normalization, invalidation, the
+ * data version and falling back to the loader when the backend fails. The
+ * data version is mocked.
+ */
+
+import {
+  cacheKey,
+  cached,
+  createMemoryBackend,
+  getCacheVersion,
+  invalidateCache,
+  setCacheBackend,
+  CacheBackend,
+} from "../response-cache";
+import { bumpDataVersion, getDataVersion } from "../../database/data-version";
+
+jest.mock("../../database/data-version");
+
+const mockGetDataVersion = getDataVersion as jest.Mock;
+const mockBumpDataVersion = bumpDataVersion as jest.Mock;
+
+describe("Response Cache", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetDataVersion.mockResolvedValue(1000);
+    mockBumpDataVersion.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    setCacheBackend(null);
+    jest.useRealTimers();
+  });
+
+  describe("cacheKey", () => {
+    it("should ignore key order and undefined values", () => {
+      expect(cacheKey("rankings", { b: 2, a: 1, c: undefined })).toBe(
+        cacheKey("rankings", { a: 1, b: 2 })
+      );
+      expect(
+        cacheKey("rankings", { pagination: { pageSize: 20, page: 1 } })
+      ).toBe(cacheKey("rankings", { pagination: { page: 1, pageSize: 20 } }));
+    });
+
+    it("should keep namespaces apart", () => {
+      expect(cacheKey("rankings", {})).not.toBe(cacheKey("clubs", {}));
+    });
+  });
+
+  describe("cached", () => {
+    it("should load once and serve hits until invalidated", async () => {
+      setCacheBackend(createMemoryBackend(10));
+      const load = jest.fn().mockResolvedValue({ clubs: [] });
+
+      await cached("rankings", { country: "ENG" }, load);
+      await cached("rankings", { country: "ENG" }, load);
+      expect(load).toHaveBeenCalledTimes(1);
+
+      await invalidateCache("test");
+      await cached("rankings", { country: "ENG" }, load);
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it("should miss after a write from another process", async () => {
+      setCacheBackend(createMemoryBackend(10));
+      const load = jest.fn().mockResolvedValue({ clubs: [] });
+
+      await cached("rankings", {}, load);
+      mockGetDataVersion.mockResolvedValue(2000);
+      await cached("rankings", {}, load);
+
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not cache when the data version cannot be read", async () => {
+      setCacheBackend(createMemoryBackend(10));
+      mockGetDataVersion.mockRejectedValue(new Error("connection refused"));
+      const load = jest.fn().mockResolvedValue(1);
+
+      await cached("rankings", {}, load);
+      await cached("rankings", {}, load);
+
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it("should cache null results but not errors", async () => {
+      setCacheBackend(createMemoryBackend(10));
+      const loadNull = jest.fn().mockResolvedValue(null);
+      const loadError = jest.fn().mockRejectedValue(new Error("boom"));
+
+      await cached("latest", {}, loadNull);
+      expect(await cached("latest", {}, loadNull)).toBeNull();
+      expect(loadNull).toHaveBeenCalledTimes(1);
+
+      await expect(cached("broken", {}, loadError)).rejects.toThrow("boom");
+      await expect(cached("broken", {}, loadError)).rejects.toThrow("boom");
+      expect(loadError).toHaveBeenCalledTimes(2);
+    });
+
+    it("should call the loader every time with caching off", async () => {
+      const load = jest.fn().mockResolvedValue(1);
+
+      await cached("rankings", {}, load);
+      await cached("rankings", {}, load);
+
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fall back to the loader when the backend fails", async () => {
+      const failing: CacheBackend = {
+        get: jest.fn().mockRejectedValue(new Error("connection refused")),
+        set: jest.fn().mockRejectedValue(new Error("connection refused")),
+        clear: jest.fn().mockRejectedValue(new Error("connection refused")),
+      };
+      setCacheBackend(failing);
+
+      expect(await cached("rankings", {}, async () => 42)).toBe(42);
+      await expect(invalidateCache("test")).resolves.toBeUndefined();
+    });
+  });
+
+  describe("getCacheVersion", () => {
+    it("should read the stored data version", async () => {
+      expect(await getCacheVersion()).toBe(1000);
+    });
+
+    it("should return null when the data version cannot be read", async () => {
+      mockGetDataVersion.mockRejectedValueOnce(new Error("relation does not exist"));
+
+      expect(await getCacheVersion()).toBeNull();
+    });
+  });
+
+  describe("invalidateCache", () => {
+    it("should bump the stored data version, with or without a backend", async () => {
+      await invalidateCache("test");
+      setCacheBackend(createMemoryBackend(10));
+      await invalidateCache("test");
+
+      expect(mockBumpDataVersion).toHaveBeenCalledTimes(2);
+    });
+
+    it("should still clear the cache when the bump fails", async () => {
+      setCacheBackend(createMemoryBackend(10));
+      mockBumpDataVersion.mockRejectedValueOnce(new Error("connection refused"));
+      const load = jest.fn().mockResolvedValue(1);
+
+      await cached("rankings", {}, load);
+      await invalidateCache("test");
+      await cached("rankings", {}, load);
+
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("createMemoryBackend", () => {
+    it("should evict the least recently used entry", async () => {
+      const backend = createMemoryBackend(2);
+
+      await backend.set("a", 1, 60_000);
+      await backend.set("b", 2, 60_000);
+      await backend.get("a");
+      await backend.set("c", 3, 60_000);
+
+      expect(await backend.get("a")).toBe(1);
+      expect(await backend.get("b")).toBeUndefined();
+      expect(await backend.get("c")).toBe(3);
+    });
+
+    it("should expire entries after their TTL", async () => {
+      jest.useFakeTimers({ now: new Date("2025-11-18T12:00:00Z") });
+      const backend = createMemoryBackend(10);
+
+      await backend.set("a", 1, 1000);
+      jest.setSystemTime(new Date("2025-11-18T12:00:02Z"));
+
+      expect(await backend.get("a")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Response Cache
+ *
+ * Caches service results keyed by normalized filters and the stored data
+ * version. Every write path calls invalidateCache() after it commits,
+ * which bumps the data version in the database and clears this process's
+ * entries. Writes from CLI commands or other instances bump the version
+ * too, so other processes miss on their next lookup instead of serving
+ * old results until the TTL.
+ *
+ * The default backend is an in-process LRU. Another store (e.g. Redis,
+ * shared between serverless instances) can be plugged in with
+ * setCacheBackend(). Backend errors are logged and treated as a miss, so a
+ * broken cache never fails a request.
+ *
+ * This is a SHARED utility - no business logic allowed here.
+ */
+
+import { config } from "../config/environment";
+import { bumpDataVersion, getDataVersion } from "../database/data-version";
+import { logger } from "../utils/logger";
+
+/**
+ * Storage for cached values
+ */
+export interface CacheBackend {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-process LRU backend
+ *
+ * A Map keeps insertion order, so re-inserting on every hit keeps the
+ * least recently used entry first.
+ *
+ * @param maxEntries - Entries kept before the least recently used is dropped
+ */
+export function createMemoryBackend(maxEntries: number): CacheBackend {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+let backend: CacheBackend | null =
+  config.responseCacheMaxEntries > 0
+    ? createMemoryBackend(config.responseCacheMaxEntries)
+    : null;
+
+/**
+ * Time of the last write to stored data in ms, from any process
+ *
+ * Read from the database on every call. Null when it cannot be read, in
+ * which case nothing is cached and no validators are sent.
+ */
+export async function getCacheVersion(): Promise<number | null> {
+  try {
+    return await getDataVersion();
+  } catch (error) {
+    logger.warn("Data version read failed", {
+      error: (error as Error).message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Replace the cache backend
+ *
+ * @param next - New backend, or null to turn caching off
+ */
+export function setCacheBackend(next: CacheBackend | null): void {
+  backend = next;
+}
+
+/**
+ * Build a cache key from a namespace and filters
+ *
+ * Keys are sorted and undefined values dropped, so filters that mean the
+ * same thing share an entry.
+ */
+export function cacheKey(namespace: string, params: object): string {
+  return `${namespace}:${JSON.stringify(normalize(params))}`;
+}
+
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Return a cached result, or load and cache it
+ *
+ * Entries are stored under the current data version, so a write from
+ * any process makes them unreachable. Errors from load are thrown and not
+ * cached.
+ *
+ * @param namespace - Service and function, e.g. "rankings.getRankings"
+ * @param params - Filters that decide the result
+ * @param load - Computes the result on a miss
+ */
+export async function cached<T>(
+  namespace: string,
+  params: object,
+  load: () => Promise<T>
+): Promise<T> {
+  if (!backend) {
+    return load();
+  }
+
+  const version = await getCacheVersion();
+
+  if (version === null) {
+    return load();
+  }
+
+  const key = `${cacheKey(namespace, params)}@${version}`;
+
+  try {
+    const hit = await backend.get(key);
+    if (hit !== undefined) {
+      return hit as T;
+    }
+  } catch (error) {
+    logger.warn("Cache read failed", { key, error: (error as Error).message });
+  }
+
+  const value = await load();
+
+  try {
+    await backend.set(key, value, config.responseCacheTtlSeconds * 1000);
+  } catch (error) {
+    logger.warn("Cache write failed", { key, error: (error as Error).message });
+  }
+
+  return value;
+}
+
+/**
+ * Bump the stored data version and drop this process's cached results
+ *
+ * Called by every write path after its data is committed, including CLI
+ * commands, which have no cache of their own.
+ *
+ * @param reason - Logged, e.g. "daily snapshot 2025-11-18"
+ */
+export async function invalidateCache(reason: string): Promise<void> {
+  try {
+    await bumpDataVersion();
+  } catch (error) {
+    logger.warn("Data version bump failed", {
+      reason,
+      error: (error as Error).message,
+    });
+  }
+
+  if (!backend) {
+    return;
+  }
+
+  try {
+    await backend.clear();
+    logger.debug("Response cache cleared", { reason });
+  } catch (error) {
+    logger.warn("Cache clear failed", {
+      reason,
+      error: (error as Error).message,
+    });
+  }
+}
@@ -21,6 +21,15 @@ export const config = {
   // ClubElo API base URL (no trailing slash)
   clubeloApiBase: process.env.CLUBELO_API_BASE || "http://api.clubelo.com",
 
+  // Rating source used by imports: "clubelo" or "local"
+  ratingSource: process.env.RATING_SOURCE || "clubelo",
+
+  // Local rating source: directory of CSV/JSON files
+  ratingSourceDir: process.env.RATING_SOURCE_DIR || "",
+
+  // Local rating source: tag written to elo_ratings.source and fixtures.source
+  ratingSourceTag: process.env.RATING_SOURCE_TAG || "local",
+
   // API server port (default to 3001 for local dev; override via PORT)
   port: parseInt(process.env.PORT || "3001", 10),
 
@@ -33,6 +42,47 @@ export const config = {
   // Cron secret for protected endpoints
   cronSecret: process.env.CRON_SECRET || "",
 
+  // Internal ratings engine: points exchanged per match at 100% surprise
+  eloKFactor: parseFloat(process.env.ELO_K_FACTOR || "20"),
+
+  // Internal ratings engine: Elo points added to the home side
+  eloHomeAdvantage: parseFloat(process.env.ELO_HOME_ADVANTAGE || "65"),
+
+  // Internal ratings engine: scale K by the winning margin
+  eloGoalDiffMultiplier: process.env.ELO_GOAL_DIFF_MULTIPLIER !== "false",
+
+  // Internal ratings engine: starting rating for clubs without a ClubElo seed
+  eloInitialRating: parseFloat(process.env.ELO_INITIAL_RATING || "1500"),
+
+  // Match probabilities: Elo points added to the home side
+  predictionHomeAdvantage: parseFloat(
+    process.env.PREDICTION_HOME_ADVANTAGE || "65"
+  ),
+
+  // Match probabilities: width of the draw band in Elo points
+  predictionDrawMargin: parseFloat(process.env.PREDICTION_DRAW_MARGIN || "100"),
+
+  // Match probabilities: Elo difference worth one goal of expected margin
+  predictionEloPerGoal: parseFloat(process.env.PREDICTION_ELO_PER_GOAL || "250"),
+
+  // As-of rankings: ratings older than this many days are flagged stale
+  rankingsStaleDays: parseInt(process.env.RANKINGS_STALE_DAYS || "60", 10),
+
+  // Response cache: entries kept in memory (0 turns caching off)
+  responseCacheMaxEntries: parseInt(
+    process.env.RESPONSE_CACHE_MAX_ENTRIES || "500",
+    10
+  ),
+
+  // Response cache: seconds an entry lives if no import clears it first
+  responseCacheTtlSeconds: parseInt(
+    process.env.RESPONSE_CACHE_TTL_SECONDS || "3600",
+    10
+  ),
+
+  // Gap repair: missing snapshot days refetched per /api/cron/repair-gaps call
+  gapRepairMaxDays: parseInt(process.env.GAP_REPAIR_MAX_DAYS || "5", 10),
+
   // Environment
   nodeEnv: process.env.NODE_ENV || "development",
   isProduction: process.env.NODE_ENV === "production",
@@ -0,0 +1,235 @@
+/**
+ * Schema Migration Tests
+ *
+ * Loading migration files from a temporary directory, and applying /
+ * rolling them back against a mocked connection and transaction wrapper.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { db } from "../connection";
+import { withTransaction } from "../transaction";
+import {
+  assertSchemaUpToDate,
+  getMigrationStatus,
+  loadMigrations,
+  migrateDown,
+  migrateUp,
+  MIGRATIONS_DIR,
+} from "../migrations";
+
+jest.mock("../connection");
+jest.mock("../transaction");
+
+const mockDb = db as jest.Mocked<typeof db>;
+const mockWithTransaction = withTransaction as jest.Mock;
+const client = { query: jest.fn() };
+
+describe("Schema Migrations", () => {
+  let dir: string;
+
+  function write(file: string, contents: string = "SELECT 1;") {
+    fs.writeFileSync(path.join(dir, file), contents);
+  }
+
+  /**
+   * Make the database report these versions as applied
+   */
+  function mockApplied(rows: Array<{ version: number; name: string; checksum?: string }>) {
+    const checksums = new Map(
+      loadMigrations(dir).map((m) => [m.version, m.checksum])
+    );
+
+    mockDb.query.mockImplementation(async (text: string) => {
+      if (text.includes("to_regclass")) {
+        return { rows: [{ regclass: "schema_migrations" }] } as any;
+      }
+      if (text.startsWith("SELECT version")) {
+        return {
+          rows: rows.map((row) => ({
+            version: row.version,
+            name: row.name,
+            checksum: row.checksum ?? checksums.get(row.version),
+            applied_at: new Date("2025-11-01T00:00:00Z"),
+          })),
+        } as any;
+      }
+      return { rows: [], rowCount: 0 } as any;
+    });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "migrations-"));
+    write("0001_create_clubs.up.sql", "CREATE TABLE clubs (id SERIAL);");
+    write("0001_create_clubs.down.sql", "DROP TABLE clubs;");
+    write("0002_add_level.up.sql", "ALTER TABLE clubs ADD COLUMN level INTEGER;");
+    write("0002_add_level.down.sql", "ALTER TABLE clubs DROP COLUMN level;");
+    write("0010_add_country.up.sql", "ALTER TABLE clubs ADD COLUMN country TEXT;");
+    write("0010_add_country.down.sql", "ALTER TABLE clubs DROP COLUMN country;");
+
+    mockWithTransaction.mockImplementation((callback) => callback(client));
+    client.query.mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("loadMigrations", () => {
+    it("should pair up and down files in version order", () => {
+      const migrations = loadMigrations(dir);
+
+      expect(migrations.map((m) => [m.version, m.name])).toEqual([
+        [1, "create_clubs"],
+        [2, "add_level"],
+        [10, "add_country"],
+      ]);
+      expect(migrations[0].down).toBe("DROP TABLE clubs;");
+      expect(migrations[0].checksum).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it("should reject a migration without a down file", () => {
+      write("0011_drop_level.up.sql");
+
+      expect(() => loadMigrations(dir)).toThrow(
+        "Migration 11_drop_level needs both an up and a down file"
+      );
+    });
+
+    it("should reject two migrations with the same version", () => {
+      write("0002_add_rank.up.sql");
+
+      expect(() => loadMigrations(dir)).toThrow("Migration version 2 is used by both");
+    });
+
+    it("should reject files that are not migrations", () => {
+      write("notes.txt");
+
+      expect(() => loadMigrations(dir)).toThrow("Unexpected file");
+    });
+
+    it("should load the repository's migrations", () => {
+      expect(loadMigrations(MIGRATIONS_DIR).length).toBeGreaterThan(0);
+    });
+  });
+
+  describe("getMigrationStatus", () => {
+    it("should treat a database without schema_migrations as all pending", async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ regclass: null }] } as any);
+
+      const status = await getMigrationStatus(dir);
+
+      expect(status.pending.map((m) => m.version)).toEqual([1, 2, 10]);
+      expect(mockDb.query).toHaveBeenCalledTimes(1);
+    });
+
+    it("should flag modified and unknown migrations", async () => {
+      mockApplied([
+        { version: 1, name: "create_clubs" },
+        { version: 2, name: "add_level", checksum: "stale" },
+        { version: 11, name: "from_a_newer_build" },
+      ]);
+
+      const status = await getMigrationStatus(dir);
+
+      expect(status.migrations.map((m) => [m.version, m.modified])).toEqual([
+        [1, false],
+        [2, true],
+        [10, false],
+      ]);
+      expect(status.pending.map((m) => m.version)).toEqual([10]);
+      expect(status.unknown.map((m) => m.version)).toEqual([11]);
+    });
+  });
+
+  describe("migrateUp", () => {
+    it("should apply pending migrations in order, one transaction each", async () => {
+      mockApplied([{ version: 1, name: "create_clubs" }]);
+
+      const applied = await migrateUp({ dir });
+
+      expect(applied.map((m) => m.version)).toEqual([2, 10]);
+      expect(mockWithTransaction).toHaveBeenCalledTimes(2);
+      const statements = client.query.mock.calls.map(([text]) => text);
+      expect(statements).toContain("ALTER TABLE clubs ADD COLUMN level INTEGER;");
+      expect(statements.indexOf("ALTER TABLE clubs ADD COLUMN level INTEGER;")).toBeLessThan(
+        statements.indexOf("ALTER TABLE clubs ADD COLUMN country TEXT;")
+      );
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO schema_migrations"),
+        [10, "add_country", expect.any(String)]
+      );
+    });
+
+    it("should stop after the target version", async () => {
+      mockApplied([]);
+
+      const applied = await migrateUp({ dir, to: 2 });
+
+      expect(applied.map((m) => m.version)).toEqual([1, 2]);
+    });
+
+    it("should skip a migration another runner applied first", async () => {
+      mockApplied([]);
+      client.query.mockImplementation(async (text: string, params?: any[]) =>
+        text.startsWith("SELECT 1 FROM schema_migrations") && params?.[0] === 1
+          ? { rows: [{}], rowCount: 1 }
+          : { rows: [], rowCount: 0 }
+      );
+
+      const applied = await migrateUp({ dir });
+
+      expect(applied.map((m) => m.version)).toEqual([2, 10]);
+      expect(client.query).not.toHaveBeenCalledWith("CREATE TABLE clubs (id SERIAL);");
+    });
+  });
+
+  describe("migrateDown", () => {
+    it("should roll back the latest migrations, newest first", async () => {
+      mockApplied([
+        { version: 1, name: "create_clubs" },
+        { version: 2, name: "add_level" },
+        { version: 10, name: "add_country" },
+      ]);
+      client.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      const rolledBack = await migrateDown({ dir, steps: 2 });
+
+      expect(rolledBack.map((m) => m.version)).toEqual([10, 2]);
+      expect(client.query).toHaveBeenCalledWith("ALTER TABLE clubs DROP COLUMN country;");
+      expect(client.query).toHaveBeenCalledWith("ALTER TABLE clubs DROP COLUMN level;");
+      expect(client.query).not.toHaveBeenCalledWith("DROP TABLE clubs;");
+    });
+
+    it("should refuse to roll back a migration it has no file for", async () => {
+      mockApplied([{ version: 11, name: "from_a_newer_build" }]);
+
+      await expect(migrateDown({ dir })).rejects.toThrow(
+        "No migration file for applied version 11"
+      );
+      expect(mockWithTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("assertSchemaUpToDate", () => {
+    it("should throw while migrations are pending", async () => {
+      mockApplied([{ version: 1, name: "create_clubs" }]);
+
+      await expect(assertSchemaUpToDate(dir)).rejects.toThrow(
+        "pending migrations: 0002_add_level, 0010_add_country"
+      );
+    });
+
+    it("should pass once everything is applied", async () => {
+      mockApplied([
+        { version: 1, name: "create_clubs" },
+        { version: 2, name: "add_level" },
+        { version: 10, name: "add_country" },
+      ]);
+
+      await expect(assertSchemaUpToDate(dir)).resolves.toBeUndefined();
+    });
+  });
+});
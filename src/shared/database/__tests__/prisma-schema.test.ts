@@ -0,0 +1,100 @@
+/**
+ * Prisma Schema Consistency Tests
+ *
+ * The migrations are the source of truth for the schema. These tests read
+ * the tables and columns they create and check that prisma/schema.prisma
+ * has a model for each table with the same columns and nullability.
+ */
+
+import fs from "fs";
+import path from "path";
+import { loadMigrations, MIGRATIONS_DIR } from "../migrations";
+
+type Columns = Record<string, "nullable" | "required">;
+
+const SCHEMA_PRISMA = path.join(__dirname, "../../../../prisma/schema.prisma");
+
+/**
+ * Replay the up migrations' CREATE / ALTER TABLE statements
+ */
+function tablesFromMigrations(): Record<string, Columns> {
+  const tables: Record<string, Columns> = {};
+
+  for (const { up } of loadMigrations(MIGRATIONS_DIR)) {
+    for (const [, table, body] of up.matchAll(
+      /CREATE TABLE IF NOT EXISTS (\w+) \(([\s\S]*?)\n\);/g
+    )) {
+      tables[table] = {};
+
+      for (const line of body.split("\n").map((l) => l.trim().replace(/,$/, ""))) {
+        if (!line || /^(--|FOREIGN|UNIQUE|CHECK|PRIMARY|CONSTRAINT)/.test(line)) {
+          continue;
+        }
+
+        tables[table][line.split(/\s+/)[0]] = /NOT NULL|PRIMARY KEY/.test(line)
+          ? "required"
+          : "nullable";
+      }
+    }
+
+    for (const [, table, body] of up.matchAll(/ALTER TABLE (\w+)\s([\s\S]*?);/g)) {
+      for (const [, column, definition] of body.matchAll(
+        /ADD COLUMN (?:IF NOT EXISTS )?(\w+) ([^,]*)/g
+      )) {
+        tables[table][column] = /NOT NULL/.test(definition) ? "required" : "nullable";
+      }
+      for (const [, column] of body.matchAll(/DROP COLUMN (?:IF EXISTS )?(\w+)/g)) {
+        delete tables[table][column];
+      }
+      for (const [, column, change] of body.matchAll(
+        /ALTER COLUMN (\w+) (DROP|SET) NOT NULL/g
+      )) {
+        tables[table][column] = change === "DROP" ? "nullable" : "required";
+      }
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Columns of each Prisma model, keyed by table name (relation fields skipped)
+ */
+function tablesFromPrisma(): Record<string, Columns> {
+  const schema = fs.readFileSync(SCHEMA_PRISMA, "utf8");
+  const models = Array.from(schema.matchAll(/model (\w+) \{([\s\S]*?)\n\}/g));
+  const modelNames = new Set(models.map(([, name]) => name));
+  const tables: Record<string, Columns> = {};
+
+  for (const [, name, body] of models) {
+    const table = body.match(/@@map\("(\w+)"\)/)?.[1] ?? name;
+    tables[table] = {};
+
+    for (const line of body.split("\n").map((l) => l.trim())) {
+      const field = line.match(/^(\w+)\s+(\w+)(\?|\[\])?(.*)$/);
+
+      if (!field || modelNames.has(field[2]) || field[3] === "[]") {
+        continue;
+      }
+
+      const column = field[4].match(/@map\("(\w+)"\)/)?.[1] ?? field[1];
+      tables[table][column] = field[3] === "?" ? "nullable" : "required";
+    }
+  }
+
+  return tables;
+}
+
+describe("Prisma schema", () => {
+  it("should match the tables created by the migrations", () => {
+    // schema_migrations is created by the runner itself, not a migration
+    const { schema_migrations, ...prismaTables } = tablesFromPrisma();
+
+    expect(schema_migrations).toBeDefined();
+    expect(prismaTables).toEqual(tablesFromMigrations());
+  });
+
+  it("should allow unranked ratings", () => {
+    expect(tablesFromMigrations().elo_ratings.rank).toBe("nullable");
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Query Streaming Tests
+ *
+ * Checks batching through a server-side cursor and that the client is
+ * always released, including when the consumer stops early. streamCursor
+ * must close its cursor and leave the caller's transaction alone.
+ */
+
+import { db } from "../connection";
+import { streamCursor, streamQuery } from "../stream";
+
+jest.mock("../connection");
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+function createClient(batches: any[][]) {
+  const client = {
+    query: jest.fn(async (text: string, _params?: any[]) =>
+      text.startsWith("FETCH") ? { rows: batches.shift() ?? [] } : { rows: [] }
+    ),
+    release: jest.fn(),
+  };
+  mockDb.getClient.mockResolvedValueOnce(client);
+
+  return client;
+}
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const row of rows) {
+    result.push(row);
+  }
+  return result;
+}
+
+describe("streamQuery", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should fetch batches until a short one and then commit", async () => {
+    const client = createClient([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+
+    const rows = await collect(
+      streamQuery("SELECT id FROM clubs WHERE level = $1", [1], 2)
+    );
+
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(client.query.mock.calls.map(([text]) => text)).toEqual([
+      "BEGIN READ ONLY",
+      "DECLARE export_cursor NO SCROLL CURSOR FOR SELECT id FROM clubs WHERE level = $1",
+      "FETCH FORWARD 2 FROM export_cursor",
+      "FETCH FORWARD 2 FROM export_cursor",
+      "COMMIT",
+    ]);
+    expect(client.query.mock.calls[1][1]).toEqual([1]);
+    expect(client.release).toHaveBeenCalledTimes(1);
+  });
+
+  it("should release the client when the consumer stops early", async () => {
+    const client = createClient([[{ id: 1 }, { id: 2 }], [{ id: 3 }, { id: 4 }]]);
+
+    for await (const row of streamQuery("SELECT id FROM clubs", [], 2)) {
+      if (row.id === 1) {
+        break;
+      }
+    }
+
+    expect(client.query).toHaveBeenCalledTimes(4); // BEGIN, DECLARE, FETCH, COMMIT
+    expect(client.release).toHaveBeenCalledTimes(1);
+  });
+
+  it("should roll back and release when a query fails", async () => {
+    const client = createClient([]);
+    client.query.mockImplementation(async (text: string) => {
+      if (text.startsWith("DECLARE")) {
+        throw new Error("syntax error");
+      }
+      return { rows: [] };
+    });
+
+    await expect(collect(streamQuery("SELEC 1"))).rejects.toThrow(
+      "syntax error"
+    );
+    expect(client.query).toHaveBeenLastCalledWith("ROLLBACK");
+    expect(client.release).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not take a client until iteration starts", () => {
+    streamQuery("SELECT 1");
+
+    expect(mockDb.getClient).not.toHaveBeenCalled();
+  });
+});
+
+describe("streamCursor", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  function createTransactionClient(batches: any[][]) {
+    return {
+      query: jest.fn(async (text: string, _params?: any[]) =>
+        text.startsWith("FETCH")
+          ? { rows: batches.shift() ?? [] }
+          : { rows: [] }
+      ),
+    };
+  }
+
+  it("should close the cursor and leave the transaction open", async () => {
+    const client = createTransactionClient([[{ id: 1 }]]);
+
+    const rows = await collect(streamCursor(client as any, "SELECT id FROM clubs"));
+
+    expect(rows).toEqual([{ id: 1 }]);
+    expect(client.query.mock.calls.map(([text]) => text)).toEqual([
+      "DECLARE export_cursor NO SCROLL CURSOR FOR SELECT id FROM clubs",
+      "FETCH FORWARD 1000 FROM export_cursor",
+      "CLOSE export_cursor",
+    ]);
+    expect(mockDb.getClient).not.toHaveBeenCalled();
+  });
+
+  it("should let a second cursor run on the same client", async () => {
+    const client = createTransactionClient([[{ id: 1 }], [{ id: 2 }]]);
+
+    await collect(streamCursor(client as any, "SELECT id FROM clubs"));
+    await collect(streamCursor(client as any, "SELECT id FROM fixtures"));
+
+    expect(
+      client.query.mock.calls.filter(([text]) => text.startsWith("CLOSE"))
+    ).toHaveLength(2);
+  });
+
+  it("should not close the cursor after a failed query", async () => {
+    const client = createTransactionClient([]);
+    client.query.mockImplementation(async (text: string) => {
+      if (text.startsWith("FETCH")) {
+        throw new Error("canceling statement");
+      }
+      return { rows: [] };
+    });
+
+    await expect(
+      collect(streamCursor(client as any, "SELECT id FROM clubs"))
+    ).rejects.toThrow("canceling statement");
+    expect(client.query).not.toHaveBeenCalledWith("CLOSE export_cursor");
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Data Version
+ *
+ * The data_version row records when stored data last changed. Writes made
+ * by CLI commands or other serverless instances bump it too, so every API
+ * process can tell its cached responses are out of date.
+ *
+ * This is a SHARED utility - no business logic allowed here.
+ */
+
+import { db } from "./connection";
+
+/**
+ * Time of the last write in ms, or null before the first migration run
+ */
+export async function getDataVersion(): Promise<number | null> {
+  const result = await db.query<{ version: string }>(
+    "SELECT (EXTRACT(EPOCH FROM changed_at) * 1000)::bigint AS version FROM data_version"
+  );
+
+  return result.rows[0] ? Number(result.rows[0].version) : null;
+}
+
+/**
+ * Record a write, at least 1 ms after the previous one
+ *
+ * Two writes in the same millisecond still give different versions.
+ */
+export async function bumpDataVersion(): Promise<void> {
+  await db.query(
+    `UPDATE data_version
+     SET changed_at = GREATEST(clock_timestamp(), changed_at + INTERVAL '1 millisecond')`
+  );
+}
@@ -0,0 +1,331 @@
+/**
+ * Schema Migrations
+ *
+ * Applies the numbered SQL files in migrations/ and records each one in
+ * schema_migrations. These files are the single source of truth for the
+ * schema; prisma/schema.prisma is checked against them in the tests.
+ *
+ * Files come in pairs, NNNN_name.up.sql and NNNN_name.down.sql. Each
+ * migration runs in its own transaction under an advisory lock, so two
+ * runners can't apply the same one twice.
+ *
+ * This is a SHARED utility - no business logic allowed here.
+ */
+
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { db } from "./connection";
+import { withTransaction } from "./transaction";
+import { logger } from "../utils/logger";
+
+/**
+ * Where migration files live (repo root, from both src/ and dist/)
+ */
+export const MIGRATIONS_DIR = path.join(__dirname, "../../../migrations");
+
+const FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Arbitrary key for pg_advisory_xact_lock, shared by all runners
+const LOCK_KEY = 72011;
+
+/**
+ * A migration read from disk
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+  checksum: string; // SHA-256 of the up file
+}
+
+/**
+ * A row of schema_migrations
+ */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+/**
+ * Applied / pending state of every known migration
+ */
+export interface MigrationStatus {
+  migrations: Array<{
+    version: number;
+    name: string;
+    appliedAt: Date | null;
+    modified: boolean; // Up file changed since it was applied
+  }>;
+  pending: Migration[];
+  unknown: AppliedMigration[]; // Applied, but no file here (newer code ran)
+}
+
+/**
+ * Read migrations from a directory, in version order
+ *
+ * @throws Error for a stray file name, a missing up or down file, or two
+ *   migrations with the same version
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const byVersion = new Map<
+    number,
+    { name: string; up?: string; down?: string }
+  >();
+
+  for (const file of fs.readdirSync(dir).sort()) {
+    const match = file.match(FILE_PATTERN);
+
+    if (!match) {
+      throw new Error(`Unexpected file in migrations directory: ${file}`);
+    }
+
+    const [, versionText, name, direction] = match;
+    const version = parseInt(versionText, 10);
+    const entry = byVersion.get(version) || { name };
+
+    if (entry.name !== name) {
+      throw new Error(
+        `Migration version ${version} is used by both ${entry.name} and ${name}`
+      );
+    }
+
+    entry[direction as "up" | "down"] = fs.readFileSync(
+      path.join(dir, file),
+      "utf8"
+    );
+    byVersion.set(version, entry);
+  }
+
+  return Array.from(byVersion.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([version, { name, up, down }]) => {
+      if (up === undefined || down === undefined) {
+        throw new Error(
+          `Migration ${version}_${name} needs both an up and a down file`
+        );
+      }
+
+      return {
+        version,
+        name,
+        up,
+        down,
+        checksum: createHash("sha256").update(up).digest("hex"),
+      };
+    });
+}
+
+/**
+ * Applied migrations, oldest first (none if the table doesn't exist yet)
+ */
+async function getAppliedMigrations(): Promise<AppliedMigration[]> {
+  const exists = await db.query<{ regclass: string | null }>(
+    "SELECT to_regclass('schema_migrations')::text AS regclass"
+  );
+
+  if (!exists.rows[0]?.regclass) {
+    return [];
+  }
+
+  const result = await db.query<{
+    version: number;
+    name: string;
+    checksum: string;
+    applied_at: Date;
+  }>(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version"
+  );
+
+  return result.rows.map((row) => ({
+    version: row.version,
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: row.applied_at,
+  }));
+}
+
+/**
+ * Compare the migration files with what the database has applied
+ */
+export async function getMigrationStatus(
+  dir: string = MIGRATIONS_DIR
+): Promise<MigrationStatus> {
+  const migrations = loadMigrations(dir);
+  const applied = new Map(
+    (await getAppliedMigrations()).map((row) => [row.version, row])
+  );
+  const known = new Set(migrations.map((m) => m.version));
+
+  return {
+    migrations: migrations.map((migration) => {
+      const row = applied.get(migration.version);
+
+      return {
+        version: migration.version,
+        name: migration.name,
+        appliedAt: row?.appliedAt || null,
+        modified: !!row && row.checksum !== migration.checksum,
+      };
+    }),
+    pending: migrations.filter((m) => !applied.has(m.version)),
+    unknown: Array.from(applied.values()).filter(
+      (row) => !known.has(row.version)
+    ),
+  };
+}
+
+/**
+ * Apply pending migrations in order
+ *
+ * @param options.to - Stop after this version (default: apply all)
+ * @returns The migrations that were applied
+ */
+export async function migrateUp(
+  options: { to?: number; dir?: string } = {}
+): Promise<Migration[]> {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       version INTEGER PRIMARY KEY,
+       name VARCHAR(255) NOT NULL,
+       checksum VARCHAR(64) NOT NULL,
+       applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+     )`
+  );
+
+  const { pending } = await getMigrationStatus(options.dir);
+  const applied: Migration[] = [];
+
+  for (const migration of pending) {
+    if (options.to !== undefined && migration.version > options.to) {
+      break;
+    }
+
+    const ran = await withTransaction(async (client) => {
+      await client.query("SELECT pg_advisory_xact_lock($1)", [LOCK_KEY]);
+
+      // Another runner may have applied it while we waited for the lock
+      const existing = await client.query(
+        "SELECT 1 FROM schema_migrations WHERE version = $1",
+        [migration.version]
+      );
+      if (existing.rowCount > 0) {
+        return false;
+      }
+
+      await client.query(migration.up);
+      await client.query(
+        "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+        [migration.version, migration.name, migration.checksum]
+      );
+      return true;
+    });
+
+    if (ran) {
+      logger.info(`Applied migration ${formatMigration(migration)}`);
+      applied.push(migration);
+    }
+  }
+
+  return applied;
+}
+
+/**
+ * Roll back the latest applied migrations
+ *
+ * @param options.steps - How many to roll back (default 1)
+ * @returns The migrations that were rolled back, newest first
+ * @throws Error if an applied migration has no file to roll it back with
+ */
+export async function migrateDown(
+  options: { steps?: number; dir?: string } = {}
+): Promise<Migration[]> {
+  const migrations = new Map(
+    loadMigrations(options.dir).map((m) => [m.version, m])
+  );
+  const targets = (await getAppliedMigrations())
+    .reverse()
+    .slice(0, options.steps ?? 1);
+  const rolledBack: Migration[] = [];
+
+  for (const row of targets) {
+    const migration = migrations.get(row.version);
+
+    if (!migration) {
+      throw new Error(
+        `No migration file for applied version ${row.version} (${row.name})`
+      );
+    }
+
+    const ran = await withTransaction(async (client) => {
+      await client.query("SELECT pg_advisory_xact_lock($1)", [LOCK_KEY]);
+
+      const deleted = await client.query(
+        "DELETE FROM schema_migrations WHERE version = $1",
+        [migration.version]
+      );
+      if (deleted.rowCount === 0) {
+        return false;
+      }
+
+      await client.query(migration.down);
+      return true;
+    });
+
+    if (ran) {
+      logger.info(`Rolled back migration ${formatMigration(migration)}`);
+      rolledBack.push(migration);
+    }
+  }
+
+  return rolledBack;
+}
+
+/**
+ * Refuse to run against a database with pending migrations
+ *
+ * Called at server start. Modified or unknown migrations only log a
+ * warning, since the schema they describe is already in place.
+ *
+ * @throws Error listing the pending migrations
+ */
+export async function assertSchemaUpToDate(
+  dir: string = MIGRATIONS_DIR
+): Promise<void> {
+  const status = await getMigrationStatus(dir);
+
+  for (const migration of status.migrations.filter((m) => m.modified)) {
+    logger.warn(
+      `Migration ${formatMigration(migration)} changed after it was applied`
+    );
+  }
+
+  if (status.unknown.length > 0) {
+    logger.warn(
+      `Database has migrations this build doesn't know: ${status.unknown
+        .map(formatMigration)
+        .join(", ")}`
+    );
+  }
+
+  if (status.pending.length > 0) {
+    throw new Error(
+      `Database schema is out of date; pending migrations: ${status.pending
+        .map(formatMigration)
+        .join(", ")}. Run npm run migrate:up`
+    );
+  }
+}
+
+/**
+ * "0003_ratings_source_key"
+ */
+export function formatMigration(migration: {
+  version: number;
+  name: string;
+}): string {
+  return `${String(migration.version).padStart(4, "0")}_${migration.name}`;
+}
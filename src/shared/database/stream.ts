@@ -0,0 +1,126 @@
+/**
+ * Query Streaming
+ *
+ * Reads large result sets through a server-side cursor, so exports never
+ * hold a full table in memory. Rows are fetched in batches inside a
+ * read-only transaction on a dedicated client.
+ */
+
+import { db } from "./connection";
+
+/**
+ * Rows fetched per round trip
+ */
+const DEFAULT_BATCH_SIZE = 1000;
+
+/**
+ * Stream the rows of a query
+ *
+ * The cursor is closed and the client released when iteration finishes,
+ * throws, or is stopped early (e.g. the HTTP client disconnected).
+ *
+ * @param text - SELECT statement (parameters as $1, $2, ...)
+ * @param params - Query parameters
+ * @param batchSize - Rows per FETCH
+ *
+ * @example
+ * ```typescript
+ * for await (const row of streamQuery("SELECT * FROM elo_ratings")) {
+ *   // ...
+ * }
+ * ```
+ */
+export async function* streamQuery<T = any>(
+  text: string,
+  params: any[] = [],
+  batchSize: number = DEFAULT_BATCH_SIZE
+): AsyncGenerator<T> {
+  const client = await db.getClient();
+  let failed = false;
+
+  try {
+    await client.query("BEGIN READ ONLY");
+    yield* fetchCursor<T>(client, text, params, batchSize);
+  } catch (error) {
+    failed = true;
+    throw error;
+  } finally {
+    // Ending the transaction also closes the cursor
+    try {
+      await client.query(failed ? "ROLLBACK" : "COMMIT");
+    } finally {
+      client.release();
+    }
+  }
+}
+
+/**
+ * Stream the rows of a query inside a transaction the caller already holds
+ *
+ * Use this to read several queries from the same snapshot. The cursor is
+ * closed when iteration finishes or is stopped early; the transaction is
+ * left to the caller.
+ *
+ * @param client - Client with an open transaction
+ * @param text - SELECT statement (parameters as $1, $2, ...)
+ * @param params - Query parameters
+ * @param batchSize - Rows per FETCH
+ */
+export async function* streamCursor<T = any>(
+  client: Pick<typeof db, "query">,
+  text: string,
+  params: any[] = [],
+  batchSize: number = DEFAULT_BATCH_SIZE
+): AsyncGenerator<T> {
+  let failed = false;
+
+  try {
+    yield* fetchCursor<T>(client, text, params, batchSize);
+  } catch (error) {
+    // The failed statement aborted the transaction, and with it the cursor
+    failed = true;
+    throw error;
+  } finally {
+    if (!failed) {
+      await client.query("CLOSE export_cursor");
+    }
+  }
+}
+
+/**
+ * Declare the cursor and fetch it batch by batch
+ */
+async function* fetchCursor<T>(
+  client: Pick<typeof db, "query">,
+  text: string,
+  params: any[],
+  batchSize: number
+): AsyncGenerator<T> {
+  await client.query(`DECLARE export_cursor NO SCROLL CURSOR FOR ${text}`, params);
+
+  while (true) {
+    const result = await client.query(
+      `FETCH FORWARD ${batchSize} FROM export_cursor`
+    );
+
+    for (const row of result.rows) {
+      yield row as T;
+    }
+
+    if (result.rows.length < batchSize) {
+      break;
+    }
+  }
+}
+
+/**
+ * Map each row of a stream
+ */
+export async function* mapStream<T, U>(
+  rows: AsyncIterable<T>,
+  map: (row: T) => U
+): AsyncGenerator<U> {
+  for await (const row of rows) {
+    yield map(row);
+  }
+}
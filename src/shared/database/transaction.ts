@@ -12,6 +12,8 @@ import { db } from "./connection";
  * Execute multiple operations within a transaction
  *
  * @param callback - Async function that receives a database client
+ * @param options.isolation - Isolation level (default: READ COMMITTED)
+ * @param options.readOnly - Refuse writes inside the transaction
  * @returns Result of the callback
  *
  * @example
@@ -21,15 +23,26 @@ import { db } from "./connection";
  *   await client.query('INSERT INTO fixtures ...');
  *   // Both succeed or both rollback
  * });
+ *
+ * // Several reads from one consistent snapshot
+ * await withTransaction(readTables, { isolation: "REPEATABLE READ", readOnly: true });
  * ```
  */
 export async function withTransaction<T>(
-  callback: (client: any) => Promise<T>
+  callback: (client: any) => Promise<T>,
+  options: {
+    isolation?: "REPEATABLE READ" | "SERIALIZABLE";
+    readOnly?: boolean;
+  } = {}
 ): Promise<T> {
   const client = await db.getClient();
+  const modes = [
+    options.isolation && `ISOLATION LEVEL ${options.isolation}`,
+    options.readOnly && "READ ONLY",
+  ].filter(Boolean);
 
   try {
-    await client.query("BEGIN");
+    await client.query(["BEGIN", ...modes].join(" "));
     const result = await callback(client);
     await client.query("COMMIT");
     return result;
@@ -0,0 +1,114 @@
+/**
+ * Cache Header Middleware Tests
+ *
+ * Checks the ETag / Last-Modified validators and 304 responses on a small
+ * Express app. The data version is mocked.
+ */
+
+import express from "express";
+import request from "supertest";
+import { snapshotCacheHeaders } from "../cache-headers";
+import { errorHandler } from "../error-handler";
+import { getCacheVersion } from "../../cache/response-cache";
+
+jest.mock("../../cache/response-cache");
+
+const mockGetCacheVersion = getCacheVersion as jest.Mock;
+
+// 2025-11-18T06:00:00Z, written as base 36 in the ETag
+const VERSION = Date.UTC(2025, 10, 18, 6);
+const ETAG = `W/"2025-11-18-${VERSION.toString(36)}"`;
+
+function createApp(date: string | null) {
+  const app = express();
+  const handler = jest.fn((_req, res) => res.json({ ok: true }));
+
+  app.get("/rankings", snapshotCacheHeaders(async () => date), handler);
+  app.use(errorHandler);
+
+  return { app, handler };
+}
+
+describe("snapshotCacheHeaders", () => {
+  beforeEach(() => {
+    mockGetCacheVersion.mockResolvedValue(VERSION);
+  });
+
+  it("should add validators from the snapshot date and data version", async () => {
+    const { app } = createApp("2025-11-18");
+
+    const res = await request(app).get("/rankings");
+
+    expect(res.status).toBe(200);
+    expect(res.headers.etag).toBe(ETAG);
+    expect(res.headers["last-modified"]).toBe("Tue, 18 Nov 2025 06:00:00 GMT");
+    expect(res.headers["cache-control"]).toBe("no-cache");
+  });
+
+  it("should answer 304 without running the handler for a matching ETag", async () => {
+    const { app, handler } = createApp("2025-11-18");
+
+    const res = await request(app)
+      .get("/rankings")
+      .set("If-None-Match", ETAG);
+
+    expect(res.status).toBe(304);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("should answer 304 for If-Modified-Since on or after the last write", async () => {
+    const { app } = createApp("2025-11-18");
+
+    const res = await request(app)
+      .get("/rankings")
+      .set("If-Modified-Since", "Tue, 18 Nov 2025 06:00:00 GMT");
+
+    expect(res.status).toBe(304);
+  });
+
+  it("should serve the full response after a new snapshot", async () => {
+    const { app } = createApp("2025-11-19");
+
+    const res = await request(app)
+      .get("/rankings")
+      .set("If-None-Match", ETAG);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.etag).toBe(`W/"2025-11-19-${VERSION.toString(36)}"`);
+  });
+
+  it("should serve the full response after a write on the same snapshot", async () => {
+    const { app } = createApp("2025-11-18");
+    mockGetCacheVersion.mockResolvedValue(VERSION + 60_000);
+
+    const res = await request(app)
+      .get("/rankings")
+      .set("If-None-Match", ETAG)
+      .set("If-Modified-Since", "Tue, 18 Nov 2025 06:00:00 GMT");
+
+    expect(res.status).toBe(200);
+    expect(res.headers["last-modified"]).toBe("Tue, 18 Nov 2025 06:01:00 GMT");
+  });
+
+  it("should add no validators without data", async () => {
+    const { app } = createApp(null);
+
+    const res = await request(app).get("/rankings");
+
+    expect(res.status).toBe(200);
+    expect(res.headers["last-modified"]).toBeUndefined();
+  });
+
+  it("should add no validators when the data version cannot be read", async () => {
+    const { app, handler } = createApp("2025-11-18");
+    mockGetCacheVersion.mockResolvedValue(null);
+
+    const res = await request(app)
+      .get("/rankings")
+      .set("If-None-Match", ETAG);
+
+    expect(res.status).toBe(200);
+    expect(res.headers["last-modified"]).toBeUndefined();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
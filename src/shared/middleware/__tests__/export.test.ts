@@ -0,0 +1,143 @@
+/**
+ * Tabular Export Tests
+ *
+ * Format negotiation, CSV encoding and streaming CSV / NDJSON responses
+ * through a small Express app.
+ */
+
+import express from "express";
+import request from "supertest";
+import {
+  flattenRow,
+  negotiateExportFormat,
+  sendExport,
+  toCsvLine,
+} from "../export";
+import { asyncHandler, errorHandler } from "../error-handler";
+
+async function* rowsOf<T>(rows: T[]): AsyncGenerator<T> {
+  for (const row of rows) {
+    yield row;
+  }
+}
+
+async function* failing(): AsyncGenerator<never> {
+  throw new Error("relation does not exist");
+}
+
+function createApp(rows: () => AsyncIterable<Record<string, any>>) {
+  const app = express();
+
+  app.get(
+    "/export",
+    asyncHandler(async (req, res) => {
+      const format = negotiateExportFormat(req, res);
+
+      if (format === "json") {
+        return res.json({ format });
+      }
+
+      await sendExport(res, format, rows(), {
+        columns: ["id", "team.name", "elo"],
+        filename: "clubs",
+      });
+    })
+  );
+  app.use(errorHandler);
+
+  return app;
+}
+
+describe("Tabular Export", () => {
+  describe("toCsvLine / flattenRow", () => {
+    it("should quote only values that need it", () => {
+      expect(toCsvLine([1, "Man City", null, undefined])).toBe(
+        "1,Man City,,\r\n"
+      );
+      expect(toCsvLine(['Say "hi"', "a,b", "two\nlines"])).toBe(
+        '"Say ""hi""","a,b","two\nlines"\r\n'
+      );
+    });
+
+    it("should flatten nested DTO fields into dotted columns", () => {
+      expect(
+        flattenRow({ id: 1, homeTeam: { id: 2, name: "Arsenal" }, rank: null })
+      ).toEqual({ id: 1, "homeTeam.id": 2, "homeTeam.name": "Arsenal", rank: null });
+    });
+  });
+
+  describe("negotiateExportFormat", () => {
+    const app = createApp(() => rowsOf([]));
+
+    it("should default to JSON and vary by Accept", async () => {
+      const res = await request(app).get("/export");
+
+      expect(res.body).toEqual({ format: "json" });
+      expect(res.headers.vary).toContain("Accept");
+    });
+
+    it("should fall back to JSON for unsupported Accept types", async () => {
+      const res = await request(app).get("/export").set("Accept", "text/html");
+
+      expect(res.body).toEqual({ format: "json" });
+    });
+
+    it("should reject an unknown format parameter", async () => {
+      const res = await request(app).get("/export").query({ format: "xlsx" });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("sendExport", () => {
+    const rows = [
+      { id: 1, team: { name: "Arsenal" }, elo: 1950.5 },
+      { id: 2, team: { name: "Brighton, Hove" }, elo: 1780 },
+    ];
+
+    it("should stream CSV with a header row for Accept: text/csv", async () => {
+      const res = await request(createApp(() => rowsOf(rows)))
+        .get("/export")
+        .set("Accept", "text/csv");
+
+      expect(res.status).toBe(200);
+      expect(res.headers["content-type"]).toBe("text/csv; charset=utf-8");
+      expect(res.headers["content-disposition"]).toBe(
+        'attachment; filename="clubs.csv"'
+      );
+      expect(res.text).toBe(
+        "id,team.name,elo\r\n1,Arsenal,1950.5\r\n2,\"Brighton, Hove\",1780\r\n"
+      );
+    });
+
+    it("should stream one JSON object per line for ?format=ndjson", async () => {
+      const res = await request(createApp(() => rowsOf(rows)))
+        .get("/export")
+        .query({ format: "ndjson" });
+
+      expect(res.headers["content-type"]).toBe(
+        "application/x-ndjson; charset=utf-8"
+      );
+      expect(res.text.trim().split("\n").map((line) => JSON.parse(line))).toEqual(
+        rows
+      );
+    });
+
+    it("should write just the header for an empty result", async () => {
+      const res = await request(createApp(() => rowsOf([])))
+        .get("/export")
+        .query({ format: "csv" });
+
+      expect(res.text).toBe("id,team.name,elo\r\n");
+    });
+
+    it("should return an error response if the query fails up front", async () => {
+      const res = await request(createApp(failing))
+        .get("/export")
+        .query({ format: "csv" });
+
+      expect(res.status).toBe(500);
+      expect(res.headers["content-type"]).toContain("application/json");
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Schema Check Middleware Tests
+ *
+ * Checks the 503 while migrations are pending and that a passing check is
+ * not run again. The schema check is passed in as a mock.
+ */
+
+import express from "express";
+import request from "supertest";
+import { requireCurrentSchema } from "../schema-check";
+import { errorHandler } from "../error-handler";
+
+function createApp(check: jest.Mock) {
+  const app = express();
+
+  app.use("/api", requireCurrentSchema(check));
+  app.get("/api/ping", (_req, res) => res.json({ ok: true }));
+  app.get("/health", (_req, res) => res.json({ status: "ok" }));
+  app.use(errorHandler);
+
+  return app;
+}
+
+describe("requireCurrentSchema", () => {
+  it("should pass requests through once the schema is up to date", async () => {
+    const check = jest.fn().mockResolvedValue(undefined);
+    const app = createApp(check);
+
+    const first = await request(app).get("/api/ping");
+    const second = await request(app).get("/api/ping");
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+
+  it("should answer 503 while migrations are pending", async () => {
+    const check = jest
+      .fn()
+      .mockRejectedValue(new Error("1 pending migration(s): 0012"));
+    const app = createApp(check);
+
+    const res = await request(app).get("/api/ping");
+
+    expect(res.status).toBe(503);
+    expect(res.body).toHaveProperty("error", "Database schema is out of date");
+  });
+
+  it("should check again after a failure", async () => {
+    const check = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("1 pending migration(s): 0012"))
+      .mockResolvedValue(undefined);
+    const app = createApp(check);
+
+    expect((await request(app).get("/api/ping")).status).toBe(503);
+    expect((await request(app).get("/api/ping")).status).toBe(200);
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+
+  it("should leave routes outside /api alone", async () => {
+    const check = jest.fn().mockRejectedValue(new Error("pending"));
+    const app = createApp(check);
+
+    const res = await request(app).get("/health");
+
+    expect(res.status).toBe(200);
+    expect(check).not.toHaveBeenCalled();
+  });
+});
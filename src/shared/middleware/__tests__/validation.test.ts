@@ -0,0 +1,40 @@
+/**
+ * Validation Middleware Tests
+ *
+ * Checks the rating source check on a small Express app.
+ */
+
+import express from "express";
+import request from "supertest";
+import { validateSource } from "../validation";
+import { errorHandler } from "../error-handler";
+
+function createApp() {
+  const app = express();
+
+  app.get("/predict", validateSource(), (_req, res) => res.json({ ok: true }));
+  app.use(errorHandler);
+
+  return app;
+}
+
+describe("validateSource", () => {
+  it("should accept a valid or missing source", async () => {
+    const app = createApp();
+
+    expect((await request(app).get("/predict?source=internal")).status).toBe(200);
+    expect((await request(app).get("/predict")).status).toBe(200);
+  });
+
+  it("should reject a malformed or repeated source with 400", async () => {
+    const app = createApp();
+
+    const res = await request(app).get("/predict?source=Club%20Elo");
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/Invalid source/);
+    expect(
+      (await request(app).get("/predict?source=clubelo&source=internal")).status
+    ).toBe(400);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Cache Header Middleware
+ *
+ * Adds ETag and Last-Modified validators derived from the latest rating
+ * snapshot date and the stored data version, and answers 304 Not Modified
+ * when the client's copy is still current. Every write (imports, club
+ * histories, merges, recomputed ratings, restores) bumps the data version,
+ * whichever process runs it, so data changed without a new snapshot date
+ * is never served as fresh. Both are read from the database per request,
+ * so every instance sends the same validators.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { asyncHandler } from "./error-handler";
+import { getCacheVersion } from "../cache/response-cache";
+
+/**
+ * Validators for a snapshot date and cache version
+ *
+ * @param date - Latest snapshot date
+ * @param version - Data version, the time of the last write in ms
+ */
+export function snapshotValidators(
+  date: string,
+  version: number
+): {
+  etag: string;
+  lastModified: string;
+} {
+  return {
+    etag: `W/"${date}-${version.toString(36)}"`,
+    lastModified: new Date(version).toUTCString(),
+  };
+}
+
+/**
+ * Conditional GET middleware
+ *
+ * Responses get "Cache-Control: no-cache", so browsers revalidate every
+ * time and receive a 304 until the next write.
+ *
+ * @param getSnapshotDate - Latest snapshot date, or null with no data (no
+ *   headers are added). Must not be cached.
+ *
+ * @example
+ * ```typescript
+ * router.get("/", snapshotCacheHeaders(rankingsService.getLatestSnapshotDate), handler);
+ * ```
+ */
+export function snapshotCacheHeaders(
+  getSnapshotDate: () => Promise<string | null>
+) {
+  return asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      const [date, version] = await Promise.all([
+        getSnapshotDate(),
+        getCacheVersion(),
+      ]);
+
+      if (date && version !== null) {
+        const { etag, lastModified } = snapshotValidators(date, version);
+        res.set({
+          ETag: etag,
+          "Last-Modified": lastModified,
+          "Cache-Control": "no-cache",
+        });
+
+        // Express compares If-None-Match / If-Modified-Since with the above
+        if (req.fresh) {
+          res.status(304).end();
+          return;
+        }
+      }
+
+      next();
+    }
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * Tabular Export
+ *
+ * Content negotiation and streaming writers for CSV and NDJSON exports of
+ * read routes. Callers pick the format with ?format= or an Accept header;
+ * JSON stays the default for browsers and existing clients.
+ */
+
+import { once } from "events";
+import { Request, Response } from "express";
+import { ApiError } from "./error-handler";
+import { logger } from "../utils/logger";
+
+/**
+ * Response formats of exportable routes
+ */
+export type ExportFormat = "json" | "csv" | "ndjson";
+
+const MEDIA_TYPES: Record<ExportFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+};
+
+/**
+ * Pick the response format for a request
+ *
+ * ?format= wins over the Accept header. Also marks the response as varying
+ * by Accept, so caches keep the formats apart.
+ *
+ * @param formatParam - Query value to read instead of ?format= (routes
+ *   where "format" means something else)
+ * @returns The format; JSON when the Accept header names nothing supported
+ * @throws ApiError for an unknown ?format=
+ */
+export function negotiateExportFormat(
+  req: Request,
+  res: Response,
+  formatParam: unknown = req.query.format
+): ExportFormat {
+  res.vary("Accept");
+
+  if (formatParam !== undefined) {
+    if (
+      formatParam !== "json" &&
+      formatParam !== "csv" &&
+      formatParam !== "ndjson"
+    ) {
+      throw new ApiError(400, "Format must be json, csv or ndjson");
+    }
+
+    return formatParam;
+  }
+
+  const accepted = req.accepts(Object.values(MEDIA_TYPES));
+
+  return (
+    (Object.keys(MEDIA_TYPES) as ExportFormat[]).find(
+      (format) => MEDIA_TYPES[format] === accepted
+    ) || "json"
+  );
+}
+
+/**
+ * Flatten a DTO into dotted column names
+ *
+ * { homeTeam: { id: 1 } } becomes { "homeTeam.id": 1 }, so CSV headers
+ * match the JSON field paths.
+ */
+export function flattenRow(
+  row: Record<string, any>,
+  prefix: string = ""
+): Record<string, any> {
+  const flat: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    const column = prefix + key;
+
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      Object.assign(flat, flattenRow(value, `${column}.`));
+    } else {
+      flat[column] = value;
+    }
+  }
+
+  return flat;
+}
+
+/**
+ * Format one CSV line (RFC 4180 quoting, null / undefined as empty)
+ */
+export function toCsvLine(values: unknown[]): string {
+  return (
+    values
+      .map((value) => {
+        if (value === null || value === undefined) {
+          return "";
+        }
+
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(",") + "\r\n"
+  );
+}
+
+/**
+ * Stream rows to the response as CSV or NDJSON
+ *
+ * Writes respect backpressure, and iteration stops (closing any database
+ * cursor behind the rows) if the client disconnects. An error before the
+ * first row is thrown to the error handler; after that the response is
+ * already under way and is cut off instead.
+ *
+ * @param columns - CSV header, in DTO field names (dotted for nested fields)
+ * @param filename - Download name without extension
+ */
+export async function sendExport(
+  res: Response,
+  format: Exclude<ExportFormat, "json">,
+  rows: AsyncIterable<Record<string, any>>,
+  options: { columns: string[]; filename: string }
+): Promise<void> {
+  const iterator = rows[Symbol.asyncIterator]();
+  // Fail before committing to a 200 if the query itself fails
+  let next = await iterator.next();
+
+  res.status(200);
+  res.set({
+    "Content-Type": `${MEDIA_TYPES[format]}; charset=utf-8`,
+    "Content-Disposition": `attachment; filename="${options.filename}.${format}"`,
+  });
+
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+
+  const write = async (chunk: string) => {
+    if (!res.write(chunk)) {
+      await Promise.race([once(res, "drain"), once(res, "close")]);
+    }
+  };
+
+  try {
+    if (format === "csv") {
+      await write(toCsvLine(options.columns));
+    }
+
+    while (!next.done && !closed) {
+      if (format === "csv") {
+        const flat = flattenRow(next.value);
+        await write(toCsvLine(options.columns.map((column) => flat[column])));
+      } else {
+        await write(JSON.stringify(next.value) + "\n");
+      }
+
+      next = await iterator.next();
+    }
+  } catch (error) {
+    logger.error("Export failed mid-stream", {
+      error: (error as Error).message,
+    });
+    res.destroy();
+    return;
+  } finally {
+    if (!next.done) {
+      await iterator.return?.();
+    }
+  }
+
+  res.end();
+}
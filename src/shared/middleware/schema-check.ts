@@ -0,0 +1,48 @@
+/**
+ * Schema Check Middleware
+ *
+ * Serverless deployments (Vercel) serve the exported app without calling
+ * start(), so the schema check runs on the first request instead. While
+ * migrations are pending every request gets a 503; once the schema is up
+ * to date the check is not run again.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { ApiError, asyncHandler } from "./error-handler";
+import { assertSchemaUpToDate } from "../database/migrations";
+import { logger } from "../utils/logger";
+
+/**
+ * Answer 503 until the database schema is up to date
+ *
+ * A failed check is retried on the next request, so running the pending
+ * migrations brings the instance back without a redeploy.
+ *
+ * @param check - Throws while the schema is out of date
+ *
+ * @example
+ * ```typescript
+ * app.use("/api", requireCurrentSchema());
+ * ```
+ */
+export function requireCurrentSchema(
+  check: () => Promise<void> = assertSchemaUpToDate
+) {
+  let current: Promise<void> | null = null;
+
+  return asyncHandler(
+    async (_req: Request, _res: Response, next: NextFunction) => {
+      current ??= check();
+
+      try {
+        await current;
+      } catch (error) {
+        current = null;
+        logger.error("Refusing request", { error: (error as Error).message });
+        throw new ApiError(503, "Database schema is out of date");
+      }
+
+      next();
+    }
+  );
+}
@@ -10,10 +10,13 @@ import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
 import { ApiError } from "./error-handler";
 import { isValidDateString } from "../utils/date-formatter";
-import { validateQueryParams } from "../validation/schemas";
+import { validateQueryParams, ratingSourceSchema } from "../validation/schemas";
 
 /**
  * Validate pagination parameters
+ *
+ * Accepts either page/pageSize or cursor/pageSize. An empty cursor starts
+ * cursor pagination at the first page.
  */
 export function validatePagination(
   req: Request,
@@ -24,6 +27,7 @@ export function validatePagination(
     page: pageParam,
     pageSize: pageSizeParam,
     limit: limitParam,
+    cursor,
   } = req.query;
 
   // Parse pagination
@@ -41,9 +45,16 @@ export function validatePagination(
   if (pageSize < 1 || pageSize > 1000) {
     throw new ApiError(400, "Page size must be between 1 and 1000");
   }
+  if (cursor !== undefined && typeof cursor !== "string") {
+    throw new ApiError(400, "Cursor must be a single value");
+  }
+  if (cursor !== undefined && pageParam) {
+    throw new ApiError(400, "Use either page or cursor, not both");
+  }
 
   // Attach to request
-  req.pagination = { page, pageSize };
+  req.pagination =
+    cursor !== undefined ? { page, pageSize, cursor } : { page, pageSize };
   next();
 }
 
@@ -62,6 +73,24 @@ export function validateDate(paramName: string = "date") {
   };
 }
 
+/**
+ * Validate optional rating source parameter
+ */
+export function validateSource(paramName: string = "source") {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const sourceParam = req.query[paramName];
+
+    if (sourceParam && !ratingSourceSchema.safeParse(sourceParam).success) {
+      throw new ApiError(
+        400,
+        `Invalid ${paramName}. Use lowercase letters, digits, - or _`
+      );
+    }
+
+    next();
+  };
+}
+
 /**
  * Validate date range parameters
  */
@@ -137,6 +166,29 @@ export function validateQuery<T extends z.ZodTypeAny>(schema: T) {
   };
 }
 
+/**
+ * Zod validation middleware for JSON request bodies
+ *
+ * Same as validateQuery, but parses req.body as-is (no string coercion).
+ * Attaches validated and typed data to req.validated
+ */
+export function validateBody<T extends z.ZodTypeAny>(schema: T) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      req.validated = schema.parse(req.body ?? {});
+      next();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        const message = error.issues
+          .map((issue: any) => `${issue.path.join(".")}: ${issue.message}`)
+          .join(", ");
+        throw new ApiError(400, `Validation error: ${message}`);
+      }
+      throw error;
+    }
+  };
+}
+
 // Extend Express Request type to include validated data and pagination
 declare global {
   namespace Express {
@@ -144,6 +196,7 @@ declare global {
       pagination?: {
         page: number;
         pageSize: number;
+        cursor?: string;
       };
       validated?: any; // Will be properly typed based on schema
     }
@@ -11,6 +11,7 @@
 export interface PaginationParams {
   page: number;
   pageSize: number;
+  cursor?: string; // Keyset cursor instead of page ("" for the first page)
 }
 
 /**
@@ -23,6 +24,19 @@ export interface PaginationMeta {
   totalPages: number;
 }
 
+/**
+ * Cursor pagination response metadata
+ *
+ * Cursors are opaque; pass one back as ?cursor= to read the next or
+ * previous page. Null when there is no page in that direction.
+ */
+export interface CursorPaginationMeta {
+  pageSize: number;
+  total?: number; // Only where counting is cheap
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
 /**
  * Date range filter
  */
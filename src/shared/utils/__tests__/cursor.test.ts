@@ -0,0 +1,84 @@
+/**
+ * Keyset Cursor Tests
+ *
+ * Round trips, rejection of foreign cursors, and which page cursors are
+ * returned in each direction.
+ */
+
+import {
+  decodeCursor,
+  encodeCursor,
+  toKeysetPage,
+  KeysetCursor,
+} from "../cursor";
+
+type Key = { id: number };
+
+const isKey = (key: any) => Number.isInteger(key?.id);
+const keyOf = (id: number): Key => ({ id });
+
+function decode(value: string | null): KeysetCursor<Key> | null {
+  return value ? decodeCursor<Key>(value, isKey) : null;
+}
+
+describe("Keyset Cursors", () => {
+  describe("encodeCursor / decodeCursor", () => {
+    it("should round trip a key and direction", () => {
+      const cursor = encodeCursor({ id: 42 }, "prev");
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decode(cursor)).toEqual({ key: { id: 42 }, direction: "prev" });
+    });
+
+    it("should reject garbage and keys of the wrong shape", () => {
+      expect(decode("not-a-cursor")).toBeNull();
+      expect(decode(encodeCursor({ name: "x" }, "next"))).toBeNull();
+      expect(
+        decode(Buffer.from('{"key":{"id":1},"direction":"up"}').toString("base64url"))
+      ).toBeNull();
+    });
+  });
+
+  describe("toKeysetPage", () => {
+    it("should offer only a next cursor on the first page", () => {
+      const page = toKeysetPage([1, 2, 3], 2, null, keyOf);
+
+      expect(page.items).toEqual([1, 2]);
+      expect(decode(page.nextCursor)).toEqual({
+        key: { id: 2 },
+        direction: "next",
+      });
+      expect(page.prevCursor).toBeNull();
+    });
+
+    it("should offer only a prev cursor on the last page", () => {
+      const cursor = { key: { id: 2 }, direction: "next" as const };
+      const page = toKeysetPage([3], 2, cursor, keyOf);
+
+      expect(page.items).toEqual([3]);
+      expect(page.nextCursor).toBeNull();
+      expect(decode(page.prevCursor)).toEqual({
+        key: { id: 3 },
+        direction: "prev",
+      });
+    });
+
+    it("should drop the extra row from the front when reading backwards", () => {
+      const cursor = { key: { id: 5 }, direction: "prev" as const };
+      const page = toKeysetPage([2, 3, 4], 2, cursor, keyOf);
+
+      expect(page.items).toEqual([3, 4]);
+      expect(decode(page.prevCursor)?.key).toEqual({ id: 3 });
+      expect(decode(page.nextCursor)?.key).toEqual({ id: 4 });
+    });
+
+    it("should stop at the start when reading backwards", () => {
+      const cursor = { key: { id: 3 }, direction: "prev" as const };
+      const page = toKeysetPage([1, 2], 2, cursor, keyOf);
+
+      expect(page.items).toEqual([1, 2]);
+      expect(page.prevCursor).toBeNull();
+      expect(page.nextCursor).not.toBeNull();
+    });
+  });
+});
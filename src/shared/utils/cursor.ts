@@ -0,0 +1,103 @@
+/**
+ * Keyset Cursor Utilities
+ *
+ * Opaque cursors for keyset ("seek") pagination. A cursor holds the sort key
+ * of the row it points at and the direction to read in. It is base64url JSON
+ * so clients pass it back untouched instead of building it themselves.
+ */
+
+/**
+ * Read forwards (after the key) or backwards (before the key)
+ */
+export type CursorDirection = "next" | "prev";
+
+/**
+ * Decoded cursor
+ */
+export interface KeysetCursor<K> {
+  key: K;
+  direction: CursorDirection;
+}
+
+/**
+ * One page read with a keyset cursor
+ */
+export interface KeysetPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * Encode a cursor for a response
+ */
+export function encodeCursor<K>(key: K, direction: CursorDirection): string {
+  return Buffer.from(JSON.stringify({ key, direction })).toString("base64url");
+}
+
+/**
+ * Decode a cursor from a request
+ *
+ * @param isKey - Checks the decoded key has the expected shape
+ * @returns The cursor, or null if it is malformed
+ */
+export function decodeCursor<K>(
+  value: string,
+  isKey: (key: any) => boolean
+): KeysetCursor<K> | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+
+    if (
+      parsed &&
+      (parsed.direction === "next" || parsed.direction === "prev") &&
+      isKey(parsed.key)
+    ) {
+      return { key: parsed.key, direction: parsed.direction };
+    }
+  } catch {
+    // Fall through: not base64url JSON
+  }
+
+  return null;
+}
+
+/**
+ * Build a page from rows read one past the page size
+ *
+ * Rows must be in display order. When reading forwards the extra row is at
+ * the end, when reading backwards it is at the start; either way it only
+ * tells us whether another page exists in that direction.
+ *
+ * @param rows - Up to pageSize + 1 rows
+ * @param cursor - Cursor the rows were read from, or null for the first page
+ * @param keyOf - Sort key of a row, stored in the returned cursors
+ */
+export function toKeysetPage<T, K>(
+  rows: T[],
+  pageSize: number,
+  cursor: KeysetCursor<K> | null,
+  keyOf: (row: T) => K
+): KeysetPage<T> {
+  const hasMore = rows.length > pageSize;
+  const backwards = cursor?.direction === "prev";
+  const items = hasMore
+    ? backwards
+      ? rows.slice(rows.length - pageSize)
+      : rows.slice(0, pageSize)
+    : rows;
+
+  const first = items[0];
+  const last = items[items.length - 1];
+
+  // Rows exist beyond the page in the direction read, and on the other side
+  // of any cursor we came from
+  const hasNext = backwards ? !!cursor : hasMore;
+  const hasPrev = backwards ? hasMore : !!cursor;
+
+  return {
+    items,
+    nextCursor: hasNext && last ? encodeCursor(keyOf(last), "next") : null,
+    prevCursor: hasPrev && first ? encodeCursor(keyOf(first), "prev") : null,
+  };
+}
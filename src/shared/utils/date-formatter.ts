@@ -63,3 +63,16 @@ export function getYesterday(): string {
 export function getToday(): string {
   return formatDateOnly(new Date())!;
 }
+
+/**
+ * Add (or subtract) days to a YYYY-MM-DD date string
+ *
+ * @param dateString - Date in YYYY-MM-DD format
+ * @param days - Number of days to add (negative to go back)
+ * @returns Shifted date string
+ */
+export function addDays(dateString: string, days: number): string {
+  const date = new Date(`${dateString}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return formatDateOnly(date)!;
+}
@@ -27,6 +27,15 @@ export const countryCodeSchema = z
   .max(3)
   .regex(/^[A-Z]+$/, "Country code must be uppercase letters");
 
+/**
+ * Rating source schema (e.g., "clubelo", "internal")
+ */
+export const ratingSourceSchema = z
+  .string()
+  .min(1)
+  .max(50)
+  .regex(/^[a-z0-9_-]+$/, "Source must be lowercase letters, digits, - or _");
+
 /**
  * Pagination parameters schema
  */
@@ -43,6 +52,7 @@ export const rankingsFiltersSchema = z.object({
   country: countryCodeSchema.optional(),
   level: z.number().int().min(1).max(10).optional(),
   minElo: z.number().min(0).max(3000).optional(),
+  source: ratingSourceSchema.optional(),
   page: z.number().int().min(1).default(1),
   pageSize: z.number().int().min(1).max(1000).default(100),
 });
@@ -63,6 +73,7 @@ export const clubSearchSchema = z.object({
 export const clubHistorySchema = z.object({
   from: dateStringSchema.optional(),
   to: dateStringSchema.optional(),
+  source: ratingSourceSchema.optional(),
 });
 
 /**
@@ -77,6 +88,133 @@ export const fixturesFiltersSchema = z.object({
   limit: z.number().int().min(1).max(1000).default(100),
 });
 
+/**
+ * Club identifier schema (numeric ID or API name)
+ */
+export const clubIdentifierSchema = z.union([
+  z.number().int().positive(),
+  z.string().min(1).max(100),
+]);
+
+/**
+ * Club alias request body schema
+ */
+export const clubAliasSchema = z.object({
+  alias: z.string().trim().min(1).max(255),
+});
+
+/**
+ * Club merge request body schema
+ */
+export const clubMergeSchema = z.object({
+  from: clubIdentifierSchema,
+  into: clubIdentifierSchema,
+});
+
+/**
+ * Blank values (empty CSV cells, missing JSON keys) become null
+ */
+function blankToNull(value: unknown): unknown {
+  if (value === undefined || (typeof value === "string" && !value.trim())) {
+    return null;
+  }
+  return value;
+}
+
+const optionalTextSchema = (max: number) =>
+  z.preprocess(blankToNull, z.string().trim().max(max).nullable());
+
+const hexColorSchema = z.preprocess(
+  blankToNull,
+  z
+    .string()
+    .trim()
+    .regex(/^#[0-9A-Fa-f]{6}$/, "Colour must be #RRGGBB")
+    .nullable()
+);
+
+/**
+ * Club profile seed row schema
+ */
+export const clubProfileSeedSchema = z.object({
+  club: z.string().trim().min(1).max(255),
+  fullName: optionalTextSchema(255),
+  shortName: optionalTextSchema(100),
+  city: optionalTextSchema(100),
+  stadium: optionalTextSchema(255),
+  foundedYear: z.preprocess(
+    blankToNull,
+    z.coerce.number().int().min(1800).max(2100).nullable()
+  ),
+  primaryColor: hexColorSchema,
+  secondaryColor: hexColorSchema,
+  crestPath: z.preprocess(
+    blankToNull,
+    z
+      .string()
+      .trim()
+      .regex(
+        /^\/crests\/[\w.-]+\.(svg|png|webp)$/,
+        "Crest must be an .svg, .png or .webp file under /crests/"
+      )
+      .nullable()
+  ),
+});
+
+/**
+ * League simulation request body schema
+ */
+export const leagueSimulationSchema = z.object({
+  country: countryCodeSchema,
+  level: z.number().int().min(1).max(10),
+  competition: z.string().min(1).max(100).optional(),
+  from: dateStringSchema.optional(),
+  source: ratingSourceSchema.optional(),
+  iterations: z.number().int().min(1).max(100000).optional(),
+  seed: z.number().int().min(0).optional(),
+  europeanPlaces: z.number().int().min(0).optional(),
+  relegationPlaces: z.number().int().min(0).optional(),
+  table: z
+    .array(
+      z.object({
+        club: clubIdentifierSchema,
+        points: z.number().int(),
+        goalDifference: z.number().int().optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Knockout bracket simulation request body schema
+ */
+export const bracketSimulationSchema = z
+  .object({
+    clubs: z.array(clubIdentifierSchema).min(2).max(128),
+    rounds: z
+      .array(
+        z.object({
+          name: z.string().min(1).max(100).optional(),
+          legs: z.union([z.literal(1), z.literal(2)]).optional(),
+          neutral: z.boolean().optional(),
+        })
+      )
+      .min(1)
+      .max(7)
+      .optional(),
+    date: dateStringSchema.optional(),
+    source: ratingSourceSchema.optional(),
+    iterations: z.number().int().min(1).max(100000).optional(),
+    seed: z.number().int().min(0).optional(),
+  })
+  .refine(
+    (body) =>
+      body.rounds
+        ? body.clubs.length === 2 ** body.rounds.length
+        : Number.isInteger(Math.log2(body.clubs.length)),
+    "clubs must have 2^n entries (one per slot, 2^rounds when rounds is given)"
+  );
+
 /**
  * Helper to validate query parameters
  *